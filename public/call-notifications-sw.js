@@ -0,0 +1,35 @@
+/**
+ * Incoming-call notifications
+ * Shown by the page through this worker so they can carry Accept/Decline buttons. The worker
+ * only routes the click back to an open tab; the tab holds the session and answers the call.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { callId, url } = event.notification.data || {};
+  // Clicking the body (no action) brings the tab up with the in-page dialog still ringing
+  const action = event.action || 'open';
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (windows) => {
+      const client = windows.find((w) => url && w.url.includes(url)) || windows[0];
+
+      if (!client) {
+        // Tab was closed: nothing can answer for it, so just reopen the dashboard
+        if (action !== 'decline' && url) await self.clients.openWindow(url);
+        return;
+      }
+
+      if (action !== 'decline') await client.focus();
+      client.postMessage({ type: 'call_notification_action', action, callId });
+    })
+  );
+});
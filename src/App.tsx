@@ -7,8 +7,14 @@ import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { ChatProvider } from "@/contexts/ChatContext";
 import { lazy, Suspense } from "react";
 import NotFound from "./pages/NotFound";
+import WaitlistStatus from "@/components/WaitlistStatus";
+import AppointmentReminders from "@/components/AppointmentReminders";
+import ActiveCallResume from "@/components/ActiveCallResume";
 
 const Login = lazy(() => import("./pages/Login"));
+const Signup = lazy(() => import("./pages/Signup"));
+const VerifyEmail = lazy(() => import("./pages/VerifyEmail"));
+const ForgotPassword = lazy(() => import("./pages/ForgotPassword"));
 const AstrologerDashboard = lazy(() => import("./pages/AstrologerDashboard"));
 const AstrologerLiveStream = lazy(() => import("./pages/AstrologerLiveStream"));
 const AstrologerCoursesPage = lazy(() => import("./pages/AstrologerCoursesPage"));
@@ -22,12 +28,15 @@ const AstrologerBlogsPage = lazy(() => import("./pages/AstrologerBlogsPage"));
 const AstrologerBlogFormPage = lazy(() => import("./pages/AstrologerBlogFormPage"));
 const AstrologerChangePassword = lazy(() => import("./pages/AstrologerChangePassword"));
 const PackageManagement = lazy(() => import("./pages/PackageManagement"));
+const AstrologerSchedulePage = lazy(() => import("./pages/AstrologerSchedulePage"));
+const AstrologerClientPage = lazy(() => import("./pages/AstrologerClientPage"));
 const AstrologerRemediesPage = lazy(() => import("./pages/AstrologerRemediesPage"));
 const UserDashboard = lazy(() => import("./pages/UserDashboard"));
 const UserLiveViewing = lazy(() => import("./pages/UserLiveViewing"));
 const CallRinging = lazy(() => import("./pages/CallRinging"));
 const InCallUI = lazy(() => import("./pages/InCallUI"));
 const UserCallHistory = lazy(() => import("./pages/UserCallHistory"));
+const UserAppointmentsPage = lazy(() => import("./pages/UserAppointmentsPage"));
 const CallDetails = lazy(() => import("./pages/CallDetails"));
 const ChatPage = lazy(() => import("./pages/ChatPage"));
 const UserCoursesPage = lazy(() => import("./pages/UserCoursesPage"));
@@ -64,6 +73,13 @@ function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode;
   return <>{children}</>;
 }
 
+// Signed-in visitors are sent to their dashboard instead of the auth pages
+function GuestRoute({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, role } = useAuth();
+  if (isAuthenticated) return <Navigate to={role === "astrologer" ? "/astrologer" : "/user"} replace />;
+  return <>{children}</>;
+}
+
 function AppRoutes() {
   const { isAuthenticated, role } = useAuth();
 
@@ -79,6 +95,9 @@ function AppRoutes() {
           )
         }
       />
+      <Route path="/signup" element={<GuestRoute><Signup /></GuestRoute>} />
+      <Route path="/verify-email" element={<GuestRoute><VerifyEmail /></GuestRoute>} />
+      <Route path="/forgot-password" element={<GuestRoute><ForgotPassword /></GuestRoute>} />
       <Route path="/astrologer" element={<ProtectedRoute requiredRole="astrologer"><AstrologerDashboard /></ProtectedRoute>} />
       <Route path="/astrologer/dashboard" element={<ProtectedRoute requiredRole="astrologer"><AstrologerDashboard /></ProtectedRoute>} />
       <Route path="/astrologer/courses" element={<ProtectedRoute requiredRole="astrologer"><AstrologerCoursesPage /></ProtectedRoute>} />
@@ -90,8 +109,10 @@ function AppRoutes() {
       <Route path="/astrologer/call/:callId" element={<ProtectedRoute requiredRole="astrologer"><InCallUI /></ProtectedRoute>} />
       <Route path="/astrologer/calls/history" element={<ProtectedRoute requiredRole="astrologer"><AstrologerCallHistory /></ProtectedRoute>} />
       <Route path="/astrologer/calls/:callId/details" element={<ProtectedRoute requiredRole="astrologer"><CallDetails /></ProtectedRoute>} />
+      <Route path="/astrologer/clients/:userId" element={<ProtectedRoute requiredRole="astrologer"><AstrologerClientPage /></ProtectedRoute>} />
       <Route path="/astrologer/earnings" element={<ProtectedRoute requiredRole="astrologer"><AstrologerEarnings /></ProtectedRoute>} />
       <Route path="/astrologer/packages" element={<ProtectedRoute requiredRole="astrologer"><PackageManagement /></ProtectedRoute>} />
+      <Route path="/astrologer/schedule" element={<ProtectedRoute requiredRole="astrologer"><AstrologerSchedulePage /></ProtectedRoute>} />
       <Route path="/astrologer/blogs" element={<ProtectedRoute requiredRole="astrologer"><AstrologerBlogsPage /></ProtectedRoute>} />
       <Route path="/astrologer/blogs/new" element={<ProtectedRoute requiredRole="astrologer"><AstrologerBlogFormPage /></ProtectedRoute>} />
       <Route path="/astrologer/blogs/:blogId/edit" element={<ProtectedRoute requiredRole="astrologer"><AstrologerBlogFormPage /></ProtectedRoute>} />
@@ -108,6 +129,7 @@ function AppRoutes() {
       <Route path="/user/change-password" element={<ProtectedRoute requiredRole="user"><UserChangePassword /></ProtectedRoute>} />
       <Route path="/user/my-courses" element={<ProtectedRoute requiredRole="user"><UserMyCoursesPage /></ProtectedRoute>} />
       <Route path="/user/calls/history" element={<ProtectedRoute requiredRole="user"><UserCallHistory /></ProtectedRoute>} />
+      <Route path="/user/appointments" element={<ProtectedRoute requiredRole="user"><UserAppointmentsPage /></ProtectedRoute>} />
       <Route path="/user/calls/:callId/details" element={<ProtectedRoute requiredRole="user"><CallDetails /></ProtectedRoute>} />
       <Route path="/user/live/:sessionId" element={<ProtectedRoute requiredRole="user"><UserLiveViewing /></ProtectedRoute>} />
       <Route path="/user/astrologer/:astrologerId" element={<ProtectedRoute requiredRole="user"><AstrologerProfile /></ProtectedRoute>} />
@@ -143,6 +165,9 @@ const App = () => (
             <Suspense fallback={<LoadingFallback />}>
               <AppRoutes />
             </Suspense>
+            <WaitlistStatus />
+            <AppointmentReminders />
+            <ActiveCallResume />
           </ChatProvider>
         </AuthProvider>
       </BrowserRouter>
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import { astrologerApi, userApi } from '@/services/api';
+
+/**
+ * Sends a participant back into a call still under way, e.g. after a page reload
+ * Mounted once at the app root; checks once per sign-in. Calls still ringing are left
+ * to the ringing and incoming-call screens.
+ */
+export default function ActiveCallResume() {
+  const { isAuthenticated, role } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const checkedRef = useRef(false);
+  const pathnameRef = useRef(location.pathname);
+  pathnameRef.current = location.pathname;
+
+  useEffect(() => {
+    if (!isAuthenticated || !role) {
+      checkedRef.current = false;
+      return;
+    }
+    if (checkedRef.current) return;
+    checkedRef.current = true;
+
+    const getActiveCall = role === 'astrologer' ? astrologerApi.getActiveCall : userApi.getActiveCall;
+    getActiveCall()
+      .then(({ call }) => {
+        if (!call?.connectedAt || call.endedAt) return;
+
+        const callPath = `/${role}/call/${call._id}`;
+        if (pathnameRef.current === callPath) return;
+
+        toast({ title: 'Rejoining your call', description: 'Your call is still in progress' });
+        navigate(callPath);
+      })
+      .catch((error) => {
+        console.error('[Calls] Failed to check for an active call:', error);
+      });
+  }, [isAuthenticated, role, navigate]);
+
+  return null;
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import { astrologerApi, userApi } from '@/services/api';
+import { subscribeToEvents } from '@/services/socket';
+import { config } from '@/config';
+import { formatTime, getAppointmentAstrologerName, getAppointmentUserName } from '@/utils/appointments';
+import type { Appointment } from '@/types/api';
+
+const LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reminders before booked appointments, for both sides
+ * Mounted once at the app root. For users it also rings the astrologer when the
+ * slot starts, unless they are already in a call.
+ */
+export default function AppointmentReminders() {
+  const { isAuthenticated, role } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const remindedRef = useRef(new Set<string>());
+  const startedRef = useRef(new Set<string>());
+  const pathnameRef = useRef(location.pathname);
+  pathnameRef.current = location.pathname;
+
+  const isUser = role === 'user';
+
+  const loadAppointments = useCallback(async () => {
+    if (!isAuthenticated || !role) return;
+    const params = {
+      status: 'scheduled' as const,
+      from: new Date(Date.now() - config.appointments.lateJoinMinutes * 60000).toISOString(),
+      to: new Date(Date.now() + LOOKAHEAD_MS).toISOString(),
+    };
+    try {
+      const response = role === 'astrologer'
+        ? await astrologerApi.getAppointments(params)
+        : await userApi.getAppointments(params);
+      setAppointments(response.appointments || []);
+    } catch (error) {
+      console.error('[Appointments] Failed to load upcoming appointments:', error);
+    }
+  }, [isAuthenticated, role]);
+
+  const remind = useCallback((appointment: Appointment, minutesBefore: number) => {
+    const key = `${appointment._id}:${minutesBefore}`;
+    if (remindedRef.current.has(key)) return;
+    remindedRef.current.add(key);
+
+    const otherParty = isUser ? getAppointmentAstrologerName(appointment) : getAppointmentUserName(appointment);
+    toast({
+      title: minutesBefore > 0 ? `Appointment in ${minutesBefore} min` : 'Appointment starting',
+      description: `${appointment.callType === 'video' ? 'Video' : 'Audio'} call with ${otherParty} at ${formatTime(appointment.startsAt)}`,
+    });
+  }, [isUser]);
+
+  const startCall = useCallback(async (appointment: Appointment) => {
+    if (startedRef.current.has(appointment._id)) return;
+    startedRef.current.add(appointment._id);
+
+    if (pathnameRef.current.includes('/call/')) {
+      toast({
+        title: 'Appointment starting',
+        description: 'Finish your current call, then start it from My Appointments',
+      });
+      return;
+    }
+
+    try {
+      const response = await userApi.startAppointmentCall(appointment._id);
+      const callId = response.callId || response.session?._id;
+      if (!callId) throw new Error('Call ID not received from server');
+
+      // Same hand-off AstrologerProfile uses for an instant call
+      localStorage.setItem('calling_astrologer', JSON.stringify({
+        name: getAppointmentAstrologerName(appointment),
+        profileImage: typeof appointment.astrologerId === 'string'
+          ? undefined
+          : appointment.astrologerId.personalDetails?.profileImage,
+        callType: appointment.callType,
+      }));
+      navigate(`/user/call/${callId}/ringing`);
+    } catch (err: unknown) {
+      toast({
+        title: 'Could not start your appointment',
+        description: err instanceof Error ? err.message : 'Please start it from My Appointments',
+        variant: 'destructive',
+      });
+    }
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setAppointments([]);
+      return;
+    }
+
+    loadAppointments();
+    // Pick up bookings made elsewhere that move into the lookahead window
+    const interval = setInterval(loadAppointments, 15 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, loadAppointments]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return subscribeToEvents({
+      appointment_reminder: (data) => {
+        const appointment = appointments.find((a) => a._id === data.appointmentId);
+        if (appointment) {
+          remind(appointment, data.minutesBefore);
+        } else {
+          loadAppointments();
+        }
+      },
+
+      appointment_updated: ({ appointment }) => {
+        if (appointment.status === 'cancelled') {
+          const byOther = appointment.cancelledBy && appointment.cancelledBy !== role;
+          if (byOther) {
+            toast({
+              title: 'Appointment cancelled',
+              description: appointment.cancelReason || `Your appointment at ${formatTime(appointment.startsAt)} was cancelled`,
+              variant: 'destructive',
+            });
+          }
+        }
+        loadAppointments();
+      },
+    });
+  }, [isAuthenticated, role, appointments, remind, loadAppointments]);
+
+  // Local reminder and auto-start timers for the loaded appointments
+  useEffect(() => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const now = Date.now();
+
+    appointments
+      .filter((appointment) => appointment.status === 'scheduled')
+      .forEach((appointment) => {
+        const startsAt = new Date(appointment.startsAt).getTime();
+
+        config.appointments.reminderMinutesBefore.forEach((minutes) => {
+          const delay = startsAt - minutes * 60000 - now;
+          if (delay > 0) timers.push(setTimeout(() => remind(appointment, minutes), delay));
+        });
+
+        if (isUser) {
+          const delay = startsAt - now;
+          const isLate = -delay > config.appointments.lateJoinMinutes * 60000;
+          if (!isLate) timers.push(setTimeout(() => startCall(appointment), Math.max(0, delay)));
+        }
+      });
+
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, [appointments, isUser, remind, startCall]);
+
+  return null;
+}
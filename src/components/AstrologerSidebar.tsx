@@ -1,5 +1,5 @@
 import { useNavigate, useLocation } from 'react-router-dom';
-import { BarChart3, LogOut, Phone, Package, Sparkles, Layers, Notebook, Shield, MessageCircle, Home } from 'lucide-react';
+import { BarChart3, LogOut, Phone, Package, Sparkles, Layers, Notebook, Shield, MessageCircle, Home, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
@@ -20,6 +20,7 @@ export default function AstrologerSidebar() {
     { label: 'Earnings', icon: <BarChart3 className="w-5 h-5" />, path: '/astrologer/earnings' },
     { label: 'Call History', icon: <Phone className="w-5 h-5" />, path: '/astrologer/calls/history' },
     { label: 'Packages', icon: <Package className="w-5 h-5" />, path: '/astrologer/packages' },
+    { label: 'Schedule', icon: <CalendarClock className="w-5 h-5" />, path: '/astrologer/schedule' },
     { label: 'Courses', icon: <Layers className="w-5 h-5" />, path: '/astrologer/courses' },
     { label: 'Remedies', icon: <Sparkles className="w-5 h-5" />, path: '/astrologer/remedies' },
     { label: 'Blogs', icon: <Notebook className="w-5 h-5" />, path: '/astrologer/blogs' },
@@ -0,0 +1,54 @@
+import { ReactNode } from 'react';
+import { Sparkles } from 'lucide-react';
+
+interface AuthLayoutProps {
+  title?: string;
+  subtitle?: string;
+  children: ReactNode;
+  footer?: ReactNode; // Rendered below the card
+}
+
+export default function AuthLayout({
+  title = 'Astrology Live',
+  subtitle = 'Connect with the cosmos in real-time',
+  children,
+  footer,
+}: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen cosmic-gradient flex items-center justify-center p-4">
+      {/* Decorative stars */}
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        {Array.from({ length: 30 }).map((_, i) => (
+          <div
+            key={i}
+            className="absolute w-1 h-1 rounded-full bg-foreground/20"
+            style={{
+              left: `${Math.random() * 100}%`,
+              top: `${Math.random() * 100}%`,
+              animationDelay: `${Math.random() * 3}s`,
+              opacity: Math.random() * 0.5 + 0.1,
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="w-full max-w-md relative py-8">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gold-gradient mb-4">
+            <Sparkles className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold font-display text-foreground">{title}</h1>
+          <p className="text-muted-foreground mt-2">{subtitle}</p>
+        </div>
+
+        {/* Card */}
+        <div className="rounded-2xl bg-card border border-border p-8 card-glow">
+          {children}
+        </div>
+
+        {footer && <div className="mt-6 text-center text-sm text-muted-foreground">{footer}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState, useEffect, useMemo } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+import { CalendarClock, Loader2, Mic, Video } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { userApi } from '@/services/api';
+import { config } from '@/config';
+import { cn } from '@/lib/utils';
+import { formatTime, getLocalTimeZone, getTimeZoneLabel } from '@/utils/appointments';
+import type { Appointment, AppointmentSlot, CallBillingType, CallPackage, CallType } from '@/types/api';
+
+interface BookAppointmentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  astrologerId: string;
+  astrologerName: string;
+  audioCallRate: number;
+  videoCallRate: number;
+  acceptAudioCalls: boolean;
+  acceptVideoCalls: boolean;
+  packages: CallPackage[];
+  appointment?: Appointment; // Reschedule this appointment; only the slot can change
+  onBooked: (appointment: Appointment) => void;
+}
+
+/**
+ * Pick a free slot in the astrologer's calendar, shown in the user's timezone
+ */
+export default function BookAppointmentModal({
+  open,
+  onOpenChange,
+  astrologerId,
+  astrologerName,
+  audioCallRate,
+  videoCallRate,
+  acceptAudioCalls,
+  acceptVideoCalls,
+  packages,
+  appointment,
+  onBooked,
+}: BookAppointmentModalProps) {
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [astrologerTimeZone, setAstrologerTimeZone] = useState<string | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = useState<AppointmentSlot | null>(null);
+  const [callType, setCallType] = useState<CallType>(
+    appointment?.callType ?? (acceptVideoCalls ? 'video' : 'audio')
+  );
+  const [billingType, setBillingType] = useState<CallBillingType>(appointment?.billingType ?? 'per_minute');
+  const [packageId, setPackageId] = useState<string | undefined>(appointment?.packageId);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const localTimeZone = getLocalTimeZone();
+  const activePackages = packages.filter((pkg) => pkg.isActive);
+  const isReschedule = !!appointment;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const from = new Date();
+    const to = addDays(startOfDay(from), config.appointments.bookingWindowDays);
+    setIsLoadingSlots(true);
+    userApi
+      .getAppointmentSlots(astrologerId, from.toISOString(), to.toISOString())
+      .then((response) => {
+        setSlots(response.slots || []);
+        setAstrologerTimeZone(response.timezone || null);
+      })
+      .catch((err: unknown) => {
+        setSlots([]);
+        toast({
+          title: 'Failed to load availability',
+          description: err instanceof Error ? err.message : 'Please try again',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setIsLoadingSlots(false));
+  }, [open, astrologerId]);
+
+  // Slots grouped by the user's local calendar day
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, AppointmentSlot[]>();
+    slots.forEach((slot) => {
+      const key = format(new Date(slot.startsAt), 'yyyy-MM-dd');
+      groups.set(key, [...(groups.get(key) || []), slot]);
+    });
+    return groups;
+  }, [slots]);
+
+  const daySlots = selectedDay ? slotsByDay.get(format(selectedDay, 'yyyy-MM-dd')) || [] : [];
+  const showAstrologerTime = !!astrologerTimeZone && astrologerTimeZone !== localTimeZone;
+
+  const handleSubmit = async () => {
+    if (!selectedSlot) return;
+
+    setIsSubmitting(true);
+    try {
+      const booked = appointment
+        ? await userApi.rescheduleAppointment(appointment._id, selectedSlot.startsAt)
+        : await userApi.bookAppointment({
+            astrologerId,
+            callType,
+            billingType,
+            ...(billingType === 'package' && packageId ? { packageId } : {}),
+            startsAt: selectedSlot.startsAt,
+          });
+      onBooked(booked);
+    } catch (err: unknown) {
+      toast({
+        title: isReschedule ? 'Failed to reschedule' : 'Failed to book appointment',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const rate = callType === 'audio' ? audioCallRate : videoCallRate;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            {isReschedule ? 'Reschedule appointment' : 'Schedule a call'}
+          </DialogTitle>
+          <DialogDescription>
+            with {astrologerName} • times shown in your timezone ({getTimeZoneLabel(localTimeZone)})
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isReschedule && (
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Call type</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {acceptAudioCalls && (
+                  <Button
+                    type="button"
+                    variant={callType === 'audio' ? 'default' : 'outline'}
+                    onClick={() => setCallType('audio')}
+                    className="gap-2"
+                  >
+                    <Mic className="h-4 w-4" /> Audio
+                  </Button>
+                )}
+                {acceptVideoCalls && (
+                  <Button
+                    type="button"
+                    variant={callType === 'video' ? 'default' : 'outline'}
+                    onClick={() => setCallType('video')}
+                    className="gap-2"
+                  >
+                    <Video className="h-4 w-4" /> Video
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Billing</Label>
+              <Select
+                value={billingType === 'package' && packageId ? packageId : 'per_minute'}
+                onValueChange={(value) => {
+                  if (value === 'per_minute') {
+                    setBillingType('per_minute');
+                    setPackageId(undefined);
+                  } else {
+                    setBillingType('package');
+                    setPackageId(value);
+                  }
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="per_minute">Per minute • ₹{rate}/min</SelectItem>
+                  {activePackages.map((pkg) => (
+                    <SelectItem key={pkg._id} value={pkg._id}>
+                      {pkg.duration} min package • ₹{pkg.price}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="grid sm:grid-cols-[auto_1fr] gap-4">
+          <Calendar
+            mode="single"
+            selected={selectedDay}
+            onSelect={(day) => {
+              setSelectedDay(day);
+              setSelectedSlot(null);
+            }}
+            disabled={(day) => !slotsByDay.has(format(day, 'yyyy-MM-dd'))}
+            fromDate={new Date()}
+            toDate={addDays(new Date(), config.appointments.bookingWindowDays)}
+            className="rounded-md border border-border"
+          />
+
+          <div className="space-y-2">
+            <Label>{selectedDay ? format(selectedDay, 'EEEE, d MMMM') : 'Pick a day'}</Label>
+            {isLoadingSlots ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : slots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No free slots in the next {config.appointments.bookingWindowDays} days</p>
+            ) : !selectedDay ? (
+              <p className="text-sm text-muted-foreground">Days with free slots can be selected</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {daySlots.map((slot) => (
+                  <button
+                    key={slot.startsAt}
+                    type="button"
+                    onClick={() => setSelectedSlot(slot)}
+                    aria-pressed={selectedSlot?.startsAt === slot.startsAt}
+                    className={cn(
+                      'rounded-lg border p-2 text-left transition-colors',
+                      selectedSlot?.startsAt === slot.startsAt
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-muted-foreground/50'
+                    )}
+                  >
+                    <p className="text-sm font-semibold">{formatTime(slot.startsAt)}</p>
+                    {showAstrologerTime && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatTime(slot.startsAt, astrologerTimeZone)} {getTimeZoneLabel(astrologerTimeZone)}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          You can cancel or reschedule up to {config.appointments.changeCutoffHours} hours before the start.
+          Charges apply only once the call begins.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!selectedSlot || isSubmitting || (billingType === 'package' && !packageId)}
+          >
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            {isReschedule ? 'Reschedule' : 'Book'}
+            {selectedSlot ? ` for ${formatTime(selectedSlot.startsAt)}` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
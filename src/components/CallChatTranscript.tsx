@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MessageList } from '@/components/chat/MessageList';
+import { useAuth } from '@/contexts/AuthContext';
+import { chatApi } from '@/services/chatApi';
+import type { ChatMessage, UIMessage } from '@/types/chat';
+
+interface CallChatTranscriptProps {
+  sessionId: string; // The call's chatSessionId
+}
+
+const PAGE_SIZE = 50;
+
+function toUIMessages(messages: ChatMessage[], conversationId: string): UIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    conversationId,
+    timestamp: new Date(message.timestamp),
+    isOptimistic: false,
+    retryCount: 0,
+  }));
+}
+
+/**
+ * Read-only record of what was written in the call's chat
+ */
+export default function CallChatTranscript({ sessionId }: CallChatTranscriptProps) {
+  const { user, role } = useAuth();
+  const [messages, setMessages] = useState<UIMessage[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    setIsLoading(true);
+    try {
+      const response = await chatApi.getMessages(sessionId, { conversationId: sessionId, page: pageToLoad, limit: PAGE_SIZE });
+      const loaded = toUIMessages(response.messages, sessionId);
+      setMessages((current) =>
+        [...(pageToLoad === 1 ? [] : current), ...loaded].sort(
+          (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        )
+      );
+      setHasMore(response.hasMore);
+      setPage(pageToLoad);
+    } catch (error) {
+      console.error('Failed to load call chat:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  return (
+    <div className="h-96 flex flex-col border border-border rounded-lg overflow-hidden">
+      <MessageList
+        conversationId={sessionId}
+        messages={messages}
+        isLoadingMore={isLoading}
+        hasMore={hasMore}
+        onLoadMore={() => loadPage(page + 1)}
+        currentUserId={user?._id || localStorage.getItem('userId') || ''}
+        currentUserRole={role || undefined}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import { Mic, MicOff, Video, VideoOff, PhoneOff, SwitchCamera } from 'lucide-react';
+import { Mic, MicOff, Video, VideoOff, PhoneOff, SwitchCamera, Settings, Circle, Square, Loader2, MessageSquare, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import DeviceSettingsPopover, { type DeviceSwitcher, type QualitySettings } from '@/components/DeviceSettingsPopover';
+import CallEffectsMenu from '@/components/CallEffectsMenu';
+import type { TrackEffects } from '@/hooks/useTrackEffects';
 
 interface CallControlsProps {
   isAudioOn: boolean;
@@ -10,6 +13,14 @@ interface CallControlsProps {
   onSwitchCamera?: () => void;
   onEndCall: () => void;
   showSwitchCamera?: boolean;
+  deviceSwitcher?: DeviceSwitcher;
+  qualitySettings?: QualitySettings;
+  effects?: TrackEffects;
+  isRecording?: boolean;
+  isRecordingPending?: boolean; // Waiting for the other party to consent
+  onToggleRecording?: () => void;
+  onOpenChat?: () => void;
+  unreadMessages?: number;
 }
 
 export default function CallControls({
@@ -21,6 +32,14 @@ export default function CallControls({
   onSwitchCamera,
   onEndCall,
   showSwitchCamera = false,
+  deviceSwitcher,
+  qualitySettings,
+  effects,
+  isRecording = false,
+  isRecordingPending = false,
+  onToggleRecording,
+  onOpenChat,
+  unreadMessages = 0,
 }: CallControlsProps) {
   return (
     <div className="p-6 bg-gray-800 border-t border-gray-700">
@@ -62,6 +81,72 @@ export default function CallControls({
           </Button>
         )}
 
+        {/* Device Settings */}
+        {deviceSwitcher && (
+          <DeviceSettingsPopover callType={callType} switcher={deviceSwitcher} quality={qualitySettings}>
+            <Button
+              size="lg"
+              variant="outline"
+              className="rounded-full w-14 h-14"
+              title="Audio and video settings"
+            >
+              <Settings className="h-6 w-6" />
+            </Button>
+          </DeviceSettingsPopover>
+        )}
+
+        {/* Background and noise suppression */}
+        {effects && (
+          <CallEffectsMenu effects={effects} showBackground={callType === 'video' && isVideoOn}>
+            <Button
+              size="lg"
+              variant="outline"
+              className="rounded-full w-14 h-14"
+              title="Background and noise effects"
+            >
+              <Sparkles className="h-6 w-6" />
+            </Button>
+          </CallEffectsMenu>
+        )}
+
+        {/* Record (with the other party's consent) */}
+        {onToggleRecording && (
+          <Button
+            size="lg"
+            variant={isRecording ? 'destructive' : 'outline'}
+            onClick={onToggleRecording}
+            disabled={isRecordingPending}
+            className="rounded-full w-14 h-14"
+            title={isRecording ? 'Stop recording' : isRecordingPending ? 'Waiting for consent' : 'Record call'}
+          >
+            {isRecordingPending ? (
+              <Loader2 className="h-6 w-6 animate-spin" />
+            ) : isRecording ? (
+              <Square className="h-5 w-5 fill-current" />
+            ) : (
+              <Circle className="h-6 w-6 fill-red-500 text-red-500" />
+            )}
+          </Button>
+        )}
+
+        {/* In-call chat */}
+        {onOpenChat && (
+          <Button
+            size="lg"
+            variant="outline"
+            onClick={onOpenChat}
+            className="relative rounded-full w-14 h-14"
+            title="Chat"
+          >
+            <MessageSquare className="h-6 w-6" />
+            {unreadMessages > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                {unreadMessages > 9 ? '9+' : unreadMessages}
+              </span>
+            )}
+          </Button>
+        )}
+
         {/* End Call */}
         <Button
           size="lg"
@@ -79,6 +164,10 @@ export default function CallControls({
         <span>{isAudioOn ? 'Mute' : 'Unmute'}</span>
         {callType === 'video' && <span>{isVideoOn ? 'Video Off' : 'Video On'}</span>}
         {callType === 'video' && isVideoOn && showSwitchCamera && <span className="md:hidden">Switch</span>}
+        {deviceSwitcher && <span>Settings</span>}
+        {effects && <span>Effects</span>}
+        {onToggleRecording && <span>{isRecording ? 'Stop Rec' : 'Record'}</span>}
+        {onOpenChat && <span>Chat</span>}
         <span>End Call</span>
       </div>
     </div>
@@ -0,0 +1,142 @@
+import { useRef } from 'react';
+import { Ban, Droplets, ImagePlus, Loader2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { config } from '@/config';
+import { readBackgroundImage, type BackgroundEffect } from '@/utils/callEffectsPreferences';
+import type { EffectStatus, TrackEffects } from '@/hooks/useTrackEffects';
+
+interface CallEffectsMenuProps {
+  effects: TrackEffects;
+  showBackground: boolean; // Camera is on
+  children: React.ReactNode; // Trigger button
+}
+
+const STATUS_NOTES: Partial<Record<EffectStatus, string>> = {
+  loading: 'Starting…',
+  unavailable: 'Not supported on this browser or device',
+  overloaded: 'Turned off: this device could not keep up',
+};
+
+/**
+ * Background blur or image, and noise suppression on the microphone
+ */
+export default function CallEffectsMenu({ effects, showBackground, children }: CallEffectsMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { preferences, backgroundStatus, noiseSuppressionStatus } = effects;
+
+  const chooseBackground = (background: BackgroundEffect) => {
+    if (background === 'image' && !preferences.backgroundImage) {
+      fileInputRef.current?.click();
+      return;
+    }
+    effects.setBackground(background);
+  };
+
+  const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') || file.size > config.callEffects.backgroundImageMaxSize) {
+      toast({
+        title: 'Could not use this image',
+        description: `Choose a JPG or PNG under ${config.callEffects.backgroundImageMaxSize / (1024 * 1024)}MB`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      effects.setBackground('image', await readBackgroundImage(file));
+    } catch (err: unknown) {
+      toast({
+        title: 'Could not use this image',
+        description: err instanceof Error ? err.message : 'Please try another one',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const backgroundOptions: { value: BackgroundEffect; label: string; icon: React.ReactNode }[] = [
+    { value: 'none', label: 'None', icon: <Ban className="h-4 w-4" /> },
+    { value: 'blur', label: 'Blur', icon: <Droplets className="h-4 w-4" /> },
+    {
+      value: 'image',
+      label: 'Image',
+      icon: preferences.backgroundImage ? (
+        <img src={preferences.backgroundImage} alt="" className="h-4 w-6 rounded-sm object-cover" />
+      ) : (
+        <ImagePlus className="h-4 w-4" />
+      ),
+    },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent side="top" className="w-80 space-y-4 bg-gray-900 border-gray-700 text-white">
+        <h3 className="text-sm font-semibold">Effects</h3>
+
+        {showBackground && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-gray-300">Background</Label>
+              {backgroundStatus === 'loading' && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {backgroundOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => chooseBackground(option.value)}
+                  className={cn(
+                    'flex flex-col items-center gap-1 rounded-lg border px-2 py-2 text-xs transition-colors',
+                    preferences.background === option.value
+                      ? 'border-primary bg-primary/10 text-white'
+                      : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                  )}
+                >
+                  {option.icon}
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {preferences.background === 'image' && (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="text-xs text-primary hover:underline"
+              >
+                Change image
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageSelected} />
+            {STATUS_NOTES[backgroundStatus] && backgroundStatus !== 'loading' && (
+              <p className="text-xs text-yellow-400">{STATUS_NOTES[backgroundStatus]}</p>
+            )}
+          </div>
+        )}
+
+        <div className={cn('space-y-1', showBackground && 'border-t border-gray-700 pt-4')}>
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="noise-suppression" className="text-xs text-gray-300">
+              Reduce background noise
+            </Label>
+            <Switch
+              id="noise-suppression"
+              checked={preferences.noiseSuppression}
+              onCheckedChange={(enabled) => effects.setNoiseSuppression(enabled)}
+            />
+          </div>
+          {STATUS_NOTES[noiseSuppressionStatus] && (
+            <p className="text-xs text-yellow-400">{STATUS_NOTES[noiseSuppressionStatus]}</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,7 +2,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Clock, DollarSign, CheckCircle } from 'lucide-react';
+import { Clock, DollarSign, CheckCircle, Disc, Download } from 'lucide-react';
+import { downloadCallRecording, type CallRecording } from '@/utils/callRecordings';
 
 interface CallEndedSummaryModalProps {
   open: boolean;
@@ -16,6 +17,7 @@ interface CallEndedSummaryModalProps {
     freeMinutesUsed?: number;
   };
   userType: 'user' | 'astrologer';
+  recording?: CallRecording | null; // Made on this device during the call
 }
 
 export function CallEndedSummaryModal({
@@ -23,6 +25,7 @@ export function CallEndedSummaryModal({
   onClose,
   callData,
   userType,
+  recording,
 }: CallEndedSummaryModalProps) {
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -136,6 +139,25 @@ export function CallEndedSummaryModal({
             </CardContent>
           </Card>
 
+          {/* Recording Download */}
+          {recording && (
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Disc className="h-4 w-4 text-red-500" />
+                <div>
+                  <p className="text-sm font-medium">Call recording</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDuration(recording.duration)} · also available in call details
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => downloadCallRecording(recording)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </div>
+          )}
+
           {/* Action Button */}
           <Button onClick={onClose} className="w-full">
             Close
@@ -0,0 +1,40 @@
+import { AlertTriangle, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface CallEndingCountdownProps {
+  secondsLeft: number;
+  reason: 'balance' | 'package';
+  onTopUp?: () => void;
+}
+
+/**
+ * Banner counting down to the automatic end of the call
+ */
+export default function CallEndingCountdown({ secondsLeft, reason, onTopUp }: CallEndingCountdownProps) {
+  const countdown = `${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, '0')}`;
+
+  return (
+    <div
+      className="absolute top-24 left-1/2 transform -translate-x-1/2 z-30 bg-red-600 text-white px-5 py-3 rounded-xl shadow-lg"
+      role="alert"
+    >
+      <div className="flex items-center space-x-3">
+        <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+        <div>
+          <p className="font-semibold">
+            {secondsLeft > 0 ? `Call ends in ${countdown}` : 'Ending call...'}
+          </p>
+          <p className="text-xs text-white/80">
+            {reason === 'balance' ? 'Your wallet balance is running out' : 'Your package time is almost up'}
+          </p>
+        </div>
+        {onTopUp && secondsLeft > 0 && (
+          <Button size="sm" variant="secondary" onClick={onTopUp}>
+            <Plus className="h-4 w-4 mr-1" />
+            Top up
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
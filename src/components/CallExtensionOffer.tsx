@@ -0,0 +1,80 @@
+import { Clock, Loader2, Timer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CallExtensionOptions } from '@/hooks/useCallExtension';
+import type { CallExtensionOption } from '@/types/socket';
+
+interface CallExtensionOfferProps {
+  secondsLeft: number;
+  options: CallExtensionOptions | null; // null while loading
+  isPending: boolean;
+  onSelect: (option: CallExtensionOption) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offered to the user shortly before their package runs out
+ */
+export default function CallExtensionOffer({
+  secondsLeft,
+  options,
+  isPending,
+  onSelect,
+  onDismiss,
+}: CallExtensionOfferProps) {
+  const minutesLeft = Math.max(1, Math.ceil(secondsLeft / 60));
+
+  return (
+    <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md bg-gray-800/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-lg p-4 text-white">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <p className="font-semibold">Your package ends in about {minutesLeft} min</p>
+          <p className="text-xs text-gray-400">Keep talking without dropping the call</p>
+        </div>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Not now" disabled={isPending}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isPending ? (
+        <div className="flex items-center space-x-2 text-sm text-gray-300 py-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Waiting for the astrologer to accept...</span>
+        </div>
+      ) : !options ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-indigo-400" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {options.packages.map((pkg) => (
+            <Button
+              key={pkg._id}
+              variant="outline"
+              onClick={() => onSelect({ type: 'package', packageId: pkg._id })}
+              className="w-full justify-between border-gray-600 bg-transparent text-white hover:bg-gray-700"
+            >
+              <span className="flex items-center">
+                <Clock className="h-4 w-4 mr-2" />
+                Extend by {pkg.duration} min
+              </span>
+              <span className="font-semibold">₹{pkg.price}</span>
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() => onSelect({ type: 'per_minute' })}
+            className="w-full justify-between border-gray-600 bg-transparent text-white hover:bg-gray-700"
+          >
+            <span className="flex items-center">
+              <Timer className="h-4 w-4 mr-2" />
+              Switch to per-minute
+            </span>
+            {options.ratePerMinute !== null && (
+              <span className="font-semibold">₹{options.ratePerMinute}/min</span>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
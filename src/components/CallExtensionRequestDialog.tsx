@@ -0,0 +1,57 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { CallExtensionRequestedEvent } from '@/types/socket';
+
+interface CallExtensionRequestDialogProps {
+  request: CallExtensionRequestedEvent | null;
+  userName: string;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+/**
+ * Shown to the astrologer when the user asks to keep a package call going
+ */
+export default function CallExtensionRequestDialog({
+  request,
+  userName,
+  onAccept,
+  onDecline,
+}: CallExtensionRequestDialogProps) {
+  const name = request?.userName || userName;
+  let terms = 'extend the call';
+  if (request?.option.type === 'per_minute') {
+    terms = request.ratePerMinute
+      ? `continue at your per-minute rate (₹${request.ratePerMinute}/min) once the package ends`
+      : 'continue at your per-minute rate once the package ends';
+  } else if (request?.minutes) {
+    terms = request.price !== undefined
+      ? `extend the call by ${request.minutes} minutes (₹${request.price})`
+      : `extend the call by ${request.minutes} minutes`;
+  }
+
+  return (
+    <AlertDialog open={!!request}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Extension request</AlertDialogTitle>
+          <AlertDialogDescription>
+            {name} would like to {terms}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDecline}>Decline</AlertDialogCancel>
+          <AlertDialogAction onClick={onAccept}>Accept</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
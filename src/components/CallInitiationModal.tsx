@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Phone, Video, Clock, Wallet, AlertCircle, CheckCircle2, X, Plus } from 'lucide-react';
+import { Phone, Video, Clock, Wallet, AlertCircle, CheckCircle2, X, Plus, Hourglass } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { userApi } from '@/services/api';
+import { joinWaitlist } from '@/services/waitlist';
+import type { InitiateCallRequest, WaitlistEntry } from '@/types/api';
 import { cn } from '@/lib/utils';
 
 interface CallPackage {
@@ -24,6 +26,8 @@ interface CallInitiationModalProps {
   packages: CallPackage[];
   onClose: () => void;
   onCallInitiated: (callId: string) => void;
+  mode?: 'call' | 'waitlist'; // waitlist: queue up with these terms while the astrologer is busy
+  onWaitlistJoined?: (entry: WaitlistEntry) => void;
 }
 
 type CallType = 'audio' | 'video';
@@ -39,6 +43,8 @@ export default function CallInitiationModal({
   packages,
   onClose,
   onCallInitiated,
+  mode = 'call',
+  onWaitlistJoined,
 }: CallInitiationModalProps) {
   const [callType, setCallType] = useState<CallType>(() => {
     if (acceptVideoCalls) return 'video';
@@ -102,7 +108,7 @@ export default function CallInitiationModal({
     setError(null);
 
     try {
-      const payload: any = {
+      const payload: InitiateCallRequest = {
         astrologerId,
         callType,
         billingType,
@@ -112,15 +118,24 @@ export default function CallInitiationModal({
         payload.packageId = selectedPackageId;
       }
 
+      if (mode === 'waitlist') {
+        const entry = await joinWaitlist(
+          astrologerId,
+          { callType, billingType, packageId: payload.packageId },
+          astrologerName
+        );
+        onWaitlistJoined?.(entry);
+        return;
+      }
+
       const response = await userApi.initiateCall(payload);
-      // Backend returns: { success: true, data: { callId, session } }
-      const callId = response.data?.callId || response.data?.session?._id;
+      const callId = response.callId || response.session?._id;
       if (!callId) {
         throw new Error('Call ID not received from server');
       }
       onCallInitiated(callId);
     } catch (err: any) {
-      setError(err.message || 'Failed to initiate call');
+      setError(err.message || (mode === 'waitlist' ? 'Failed to join waitlist' : 'Failed to initiate call'));
       setIsLoading(false);
     }
   };
@@ -154,7 +169,9 @@ export default function CallInitiationModal({
         {/* Header */}
         <div className="sticky top-0 bg-card border-b border-border p-6 flex items-center justify-between">
           <div>
-            <h2 className="font-display text-xl font-bold text-foreground">Initiate Call</h2>
+            <h2 className="font-display text-xl font-bold text-foreground">
+              {mode === 'waitlist' ? 'Join Waitlist' : 'Initiate Call'}
+            </h2>
             <p className="text-sm text-muted-foreground mt-1">with {astrologerName}</p>
           </div>
           <Button variant="ghost" size="icon" onClick={onClose} disabled={isLoading}>
@@ -345,6 +362,11 @@ export default function CallInitiationModal({
                 ₹{walletBalance.toFixed(2)}
               </span>
             </div>
+            {mode === 'waitlist' && (
+              <p className="text-xs text-muted-foreground pt-2 border-t border-border">
+                Nothing is charged until the astrologer takes your call
+              </p>
+            )}
             {billingType === 'per_minute' && (
               <p className="text-xs text-muted-foreground pt-2 border-t border-border">
                 You'll be charged ₹{getCurrentRate()} per minute during the call
@@ -418,7 +440,12 @@ export default function CallInitiationModal({
               {isLoading ? (
                 <>
                   <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
-                  Initiating...
+                  {mode === 'waitlist' ? 'Joining...' : 'Initiating...'}
+                </>
+              ) : mode === 'waitlist' ? (
+                <>
+                  <Hourglass className="w-4 h-4 mr-2" />
+                  Join Waitlist
                 </>
               ) : (
                 <>
@@ -0,0 +1,236 @@
+import { useState, useEffect, useRef } from 'react';
+import AgoraRTC, { ICameraVideoTrack, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
+import { Camera, Mic, Volume2, VideoOff, Loader2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import DeviceSelect from '@/components/DeviceSelect';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { loadDevicePreferences, pickDevice, type CallDevicePreferences } from '@/utils/devicePreferences';
+
+const TEST_TONE_HZ = 440;
+const TEST_TONE_MS = 1000;
+const LEVEL_POLL_MS = 100;
+
+interface CallLobbyProps {
+  callType: 'audio' | 'video';
+  participantName?: string;
+  onJoin: (devices: CallDevicePreferences) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Device check before joining a call: camera preview, mic level, speaker test tone and pickers
+ * Remembered devices are preselected while they are still connected
+ */
+export default function CallLobby({ callType, participantName, onJoin, onCancel }: CallLobbyProps) {
+  const isVideo = callType === 'video';
+  const { cameras, microphones, speakers, isLoading, error } = useMediaDevices(isVideo);
+  const [cameraId, setCameraId] = useState<string | undefined>(() => loadDevicePreferences().cameraId);
+  const [microphoneId, setMicrophoneId] = useState<string | undefined>(() => loadDevicePreferences().microphoneId);
+  const [speakerId, setSpeakerId] = useState<string | undefined>(() => loadDevicePreferences().speakerId);
+  const [micLevel, setMicLevel] = useState(0);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isTestingSpeaker, setIsTestingSpeaker] = useState(false);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  // Drop remembered devices that are no longer connected
+  useEffect(() => {
+    setCameraId((current) => pickDevice(cameras, current));
+  }, [cameras]);
+  useEffect(() => {
+    setMicrophoneId((current) => pickDevice(microphones, current));
+  }, [microphones]);
+  useEffect(() => {
+    setSpeakerId((current) => pickDevice(speakers, current));
+  }, [speakers]);
+
+  // Camera preview
+  useEffect(() => {
+    if (!isVideo || !cameraId) return;
+
+    let track: ICameraVideoTrack | null = null;
+    let cancelled = false;
+
+    AgoraRTC.createCameraVideoTrack({ cameraId })
+      .then((created) => {
+        if (cancelled) {
+          created.close();
+          return;
+        }
+        track = created;
+        if (previewRef.current) created.play(previewRef.current);
+        setPreviewError(null);
+      })
+      .catch((err) => {
+        console.error('[CallLobby] Camera preview failed:', err);
+        if (!cancelled) setPreviewError('This camera is unavailable or in use by another app.');
+      });
+
+    return () => {
+      cancelled = true;
+      track?.close();
+    };
+  }, [isVideo, cameraId]);
+
+  // Microphone level meter
+  useEffect(() => {
+    if (!microphoneId) return;
+
+    let track: IMicrophoneAudioTrack | null = null;
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    AgoraRTC.createMicrophoneAudioTrack({ microphoneId })
+      .then((created) => {
+        if (cancelled) {
+          created.close();
+          return;
+        }
+        track = created;
+        interval = setInterval(() => setMicLevel(created.getVolumeLevel()), LEVEL_POLL_MS);
+      })
+      .catch((err) => {
+        console.error('[CallLobby] Microphone check failed:', err);
+        if (!cancelled) setPreviewError('This microphone is unavailable or in use by another app.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      track?.close();
+      setMicLevel(0);
+    };
+  }, [microphoneId]);
+
+  const playTestTone = async () => {
+    setIsTestingSpeaker(true);
+    const context = new AudioContext();
+    try {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const destination = context.createMediaStreamDestination();
+      oscillator.frequency.value = TEST_TONE_HZ;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain).connect(destination);
+
+      // Route through an <audio> element so the chosen output device can be applied
+      const audio = new Audio();
+      audio.srcObject = destination.stream;
+      if (speakerId && typeof audio.setSinkId === 'function') {
+        await audio.setSinkId(speakerId);
+      }
+      await audio.play();
+      oscillator.start();
+      await new Promise((resolve) => setTimeout(resolve, TEST_TONE_MS));
+      oscillator.stop();
+      audio.pause();
+    } catch (err) {
+      console.error('[CallLobby] Test tone failed:', err);
+    } finally {
+      context.close();
+      setIsTestingSpeaker(false);
+    }
+  };
+
+  const handleJoin = () => {
+    onJoin({
+      cameraId: isVideo ? cameraId : loadDevicePreferences().cameraId, // Audio calls keep the remembered camera
+      microphoneId,
+      speakerId,
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-white p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold">Ready to join?</h2>
+          <p className="text-gray-400 text-sm mt-1">
+            Check your devices before joining {participantName ? `your call with ${participantName}` : 'the call'}
+          </p>
+        </div>
+
+        {isVideo && (
+          <div className="relative aspect-video rounded-xl overflow-hidden bg-gray-800 border border-gray-700">
+            <div ref={previewRef} className="absolute inset-0" data-testid="lobby-camera-preview" />
+            {!cameraId && !isLoading && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500">
+                <VideoOff className="h-10 w-10 mb-2" />
+                <span className="text-sm">No camera selected</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {(error || previewError) && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-yellow-200 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error || previewError}</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {isVideo && (
+              <DeviceSelect
+                label="Camera"
+                icon={<Camera className="h-3.5 w-3.5" />}
+                devices={cameras}
+                value={cameraId}
+                onChange={setCameraId}
+              />
+            )}
+
+            <div className="space-y-2">
+              <DeviceSelect
+                label="Microphone"
+                icon={<Mic className="h-3.5 w-3.5" />}
+                devices={microphones}
+                value={microphoneId}
+                onChange={setMicrophoneId}
+              />
+              <Progress value={Math.min(micLevel * 100, 100)} className="h-1.5 bg-gray-800" aria-label="Microphone level" />
+            </div>
+
+            <div className="flex items-end gap-2">
+              {speakers.length > 0 && (
+                <div className="flex-1">
+                  <DeviceSelect
+                    label="Speaker"
+                    icon={<Volume2 className="h-3.5 w-3.5" />}
+                    devices={speakers}
+                    value={speakerId}
+                    onChange={setSpeakerId}
+                  />
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={playTestTone}
+                disabled={isTestingSpeaker}
+                className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700"
+              >
+                <Volume2 className="h-4 w-4 mr-2" />
+                {isTestingSpeaker ? 'Playing...' : 'Test speaker'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={onCancel} className="flex-1 border-gray-700 bg-transparent text-white hover:bg-gray-800">
+            Cancel
+          </Button>
+          <Button onClick={handleJoin} disabled={isLoading || !microphoneId} className="flex-1">
+            Join {isVideo ? 'Video' : 'Voice'} Call
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
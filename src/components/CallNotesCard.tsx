@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Loader2, NotebookPen, Plus, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { astrologerApi } from '@/services/api';
+import { config } from '@/config';
+import { format } from 'date-fns';
+
+interface CallNotesCardProps {
+  callId: string;
+}
+
+/**
+ * The astrologer's private notes and tags for one call
+ */
+export default function CallNotesCard({ callId }: CallNotesCardProps) {
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null); // Saving stays off until the stored note has loaded
+
+  const loadNote = useCallback(() => {
+    setIsLoading(true);
+    setLoadError(null);
+    astrologerApi
+      .getCallNote(callId)
+      .then((note) => {
+        setNotes(note?.notes ?? '');
+        setTags(note?.tags ?? []);
+        setUpdatedAt(note?.updatedAt);
+        setIsDirty(false);
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load call notes:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load notes');
+      })
+      .finally(() => setIsLoading(false));
+  }, [callId]);
+
+  useEffect(() => {
+    loadNote();
+  }, [loadNote]);
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (!trimmed || tags.some((existing) => existing.toLowerCase() === trimmed.toLowerCase())) return;
+    setTags((current) => [...current, trimmed]);
+    setIsDirty(true);
+  };
+
+  const removeTag = (tag: string) => {
+    setTags((current) => current.filter((existing) => existing !== tag));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (loadError) return;
+    setIsSaving(true);
+    try {
+      const saved = await astrologerApi.saveCallNote(callId, { notes: notes.trim(), tags });
+      setUpdatedAt(saved.updatedAt);
+      setIsDirty(false);
+      toast({ title: 'Notes saved', description: 'Only you can see them' });
+    } catch (err: unknown) {
+      toast({
+        title: 'Failed to save notes',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const suggestions = config.clients.suggestedTags.filter((tag) => !tags.includes(tag));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <NotebookPen className="h-5 w-5 text-primary" />
+          Consultation Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>Your notes could not be loaded. {loadError}</span>
+              <Button variant="outline" size="sm" onClick={loadNote}>
+                Retry
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-4">
+            <Textarea
+              value={notes}
+              onChange={(e) => {
+                setNotes(e.target.value);
+                setIsDirty(true);
+              }}
+              placeholder="What was discussed and what you advised. Private to you."
+              maxLength={config.clients.noteMaxLength}
+              rows={6}
+            />
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <Input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ',') {
+                    e.preventDefault();
+                    addTag(tagInput);
+                    setTagInput('');
+                  }
+                }}
+                placeholder="Add a tag and press Enter"
+              />
+              {suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map((tag) => (
+                    <Button
+                      key={tag}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() => addTag(tag)}
+                    >
+                      <Plus className="h-3 w-3" /> {tag}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                {updatedAt ? `Last saved ${format(new Date(updatedAt), 'PPp')}` : 'Not saved yet'}
+              </p>
+              <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save notes
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
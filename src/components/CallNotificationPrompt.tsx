@@ -0,0 +1,33 @@
+import { BellRing } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface CallNotificationPromptProps {
+  permission: NotificationPermission | 'unsupported';
+  onEnable: () => void;
+}
+
+/**
+ * Asks for desktop notifications so calls are not missed while the tab is in the background
+ */
+export default function CallNotificationPrompt({ permission, onEnable }: CallNotificationPromptProps) {
+  if (permission === 'granted' || permission === 'unsupported') return null;
+
+  return (
+    <div className="bg-primary/5 border border-primary/30 rounded-xl p-4 flex items-center gap-3">
+      <BellRing className="w-5 h-5 text-primary flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-foreground">Get notified of calls in other tabs</p>
+        <p className="text-xs text-muted-foreground">
+          {permission === 'denied'
+            ? 'Notifications are blocked for this site. Allow them in your browser settings to answer calls from anywhere.'
+            : 'Answer or decline from a desktop notification when this tab is in the background.'}
+        </p>
+      </div>
+      {permission === 'default' && (
+        <Button onClick={onEnable} size="sm" className="gold-gradient text-primary-foreground">
+          Enable
+        </Button>
+      )}
+    </div>
+  );
+}
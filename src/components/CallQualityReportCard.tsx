@@ -0,0 +1,170 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Activity } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { CallQualityReport, CallQualitySample } from '@/types/api';
+
+interface CallQualityReportCardProps {
+  report: CallQualityReport;
+  title: string; // e.g. "Your connection"
+}
+
+interface ChartLine {
+  key: keyof CallQualitySample;
+  name: string;
+  color: string;
+}
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+  color: 'hsl(var(--foreground))',
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+function QualityChart({ samples, lines, unit }: { samples: CallQualitySample[]; lines: ChartLine[]; unit: string }) {
+  return (
+    <ResponsiveContainer width="100%" height={200}>
+      <LineChart data={samples}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+        <XAxis
+          dataKey="at"
+          tickFormatter={formatTime}
+          stroke="hsl(var(--muted-foreground))"
+          tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+        />
+        <YAxis
+          stroke="hsl(var(--muted-foreground))"
+          tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+          width={48}
+        />
+        <Tooltip
+          contentStyle={tooltipStyle}
+          labelFormatter={(at: number) => formatTime(at)}
+          formatter={(value: number, name: string) => [`${value} ${unit}`, name]}
+        />
+        <Legend wrapperStyle={{ color: 'hsl(var(--foreground))' }} />
+        {lines.map((line) => (
+          <Line
+            key={line.key}
+            type="monotone"
+            dataKey={line.key}
+            name={line.name}
+            stroke={line.color}
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+/**
+ * One participant's connection over the call: latency, loss, bitrate, frame rate and freezes
+ */
+export default function CallQualityReportCard({ report, title }: CallQualityReportCardProps) {
+  const { summary, samples } = report;
+  const isVideo = report.callType === 'video';
+
+  const stats = [
+    { label: 'Avg latency', value: `${summary.avgRtt} ms`, warn: summary.avgRtt > 300 },
+    { label: 'Packet loss', value: `${summary.avgPacketLoss}% avg · ${summary.maxPacketLoss}% max`, warn: summary.avgPacketLoss > 5 },
+    { label: 'Bitrate', value: `${summary.avgSendBitrate} up · ${summary.avgReceiveBitrate} down kbps`, warn: false },
+    {
+      label: 'Audio freezes',
+      value: `${summary.audioFreezeCount} (${summary.audioFreezeSeconds}s)`,
+      warn: summary.audioFreezeCount > 0,
+    },
+    ...(isVideo
+      ? [
+          {
+            label: 'Video freezes',
+            value: `${summary.videoFreezeCount} (${summary.videoFreezeSeconds}s)`,
+            warn: summary.videoFreezeCount > 0,
+          },
+          {
+            label: 'Frame rate',
+            value: summary.avgReceiveFrameRate !== undefined ? `${summary.avgReceiveFrameRate} fps` : '—',
+            warn: summary.avgReceiveFrameRate !== undefined && summary.avgReceiveFrameRate < 15,
+          },
+        ]
+      : []),
+    { label: 'Poor network', value: `${summary.poorNetworkSeconds}s`, warn: summary.poorNetworkSeconds > 0 },
+    { label: 'Reconnects', value: String(summary.reconnects), warn: summary.reconnects > 0 },
+  ];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5 text-primary" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border border-border p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={`text-sm font-semibold ${stat.warn ? 'text-destructive' : 'text-foreground'}`}>{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {samples.length > 1 && (
+          <>
+            <div>
+              <p className="text-sm font-medium mb-2">Latency</p>
+              <QualityChart samples={samples} unit="ms" lines={[{ key: 'rtt', name: 'Round trip', color: 'hsl(var(--primary))' }]} />
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-2">Packet loss</p>
+              <QualityChart
+                samples={samples}
+                unit="%"
+                lines={[
+                  { key: 'audioPacketLoss', name: 'Audio', color: 'hsl(var(--primary))' },
+                  ...(isVideo ? [{ key: 'videoPacketLoss' as const, name: 'Video', color: '#ef4444' }] : []),
+                ]}
+              />
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-2">Bitrate</p>
+              <QualityChart
+                samples={samples}
+                unit="kbps"
+                lines={[
+                  { key: 'sendBitrate', name: 'Sent', color: 'hsl(var(--primary))' },
+                  { key: 'receiveBitrate', name: 'Received', color: '#3b82f6' },
+                ]}
+              />
+            </div>
+            {isVideo && (
+              <div>
+                <p className="text-sm font-medium mb-2">Frame rate and freezes</p>
+                <QualityChart
+                  samples={samples}
+                  unit=""
+                  lines={[
+                    { key: 'receiveFrameRate', name: 'Received fps', color: 'hsl(var(--primary))' },
+                    { key: 'sendFrameRate', name: 'Sent fps', color: '#3b82f6' },
+                    { key: 'videoFrozenSeconds', name: 'Frozen (s)', color: '#ef4444' },
+                  ]}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="outline">One point every {report.sampleIntervalSeconds}s</Badge>
+          <span className="truncate">{report.userAgent}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
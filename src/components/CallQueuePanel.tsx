@@ -0,0 +1,71 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Hourglass, Mic, PhoneForwarded, Video, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import type { WaitlistEntry } from '@/types/api';
+
+interface CallQueuePanelProps {
+  entries: WaitlistEntry[];
+  isProcessing: boolean;
+  onTakeNext: () => void;
+  onRemove: (entryId: string) => void;
+}
+
+/**
+ * Astrologer's waitlist, first in line at the top
+ */
+export default function CallQueuePanel({ entries, isProcessing, onTakeNext, onRemove }: CallQueuePanelProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Hourglass className="w-5 h-5 text-primary" />
+          <h2 className="font-display font-semibold text-foreground">Waitlist</h2>
+          <span className="text-xs px-2 py-0.5 rounded-full bg-primary/15 text-primary">{entries.length}</span>
+        </div>
+        <Button onClick={onTakeNext} disabled={isProcessing} size="sm" className="gold-gradient text-primary-foreground gap-1">
+          <PhoneForwarded className="w-3.5 h-3.5" />
+          Take next
+        </Button>
+      </div>
+
+      <ul className="divide-y divide-border">
+        {entries.map((entry, index) => {
+          const name = entry.user?.fullName || 'User';
+          return (
+            <li key={entry._id} className="flex items-center gap-3 py-2">
+              <span className="w-5 text-sm text-muted-foreground">{index + 1}</span>
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={entry.user?.profileImage} alt={name} />
+                <AvatarFallback className="text-xs bg-primary/10 text-primary">{name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Waiting {formatDistanceToNow(new Date(entry.joinedAt))}
+                  {entry.billingType === 'package' ? ' • Package' : ' • Per minute'}
+                </p>
+              </div>
+              {entry.callType === 'video' ? (
+                <Video className="w-4 h-4 text-muted-foreground" />
+              ) : (
+                <Mic className="w-4 h-4 text-muted-foreground" />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                onClick={() => onRemove(entry._id)}
+                aria-label={`Remove ${name} from the waitlist`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
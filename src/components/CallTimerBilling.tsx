@@ -1,4 +1,4 @@
-import { Clock, DollarSign, AlertTriangle } from 'lucide-react';
+import { Clock, DollarSign, AlertTriangle, Plus } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface CallTimerBillingProps {
@@ -8,6 +8,8 @@ interface CallTimerBillingProps {
   remainingTime?: number | null;
   freeMinutesRemaining?: number;
   showLowBalanceWarning?: boolean;
+  balance?: number | null; // Wallet balance from the latest billing tick (user only)
+  onTopUp?: () => void;
 }
 
 export default function CallTimerBilling({
@@ -17,6 +19,8 @@ export default function CallTimerBilling({
   remainingTime,
   freeMinutesRemaining,
   showLowBalanceWarning = false,
+  balance,
+  onTopUp,
 }: CallTimerBillingProps) {
   const formatTime = (seconds: number): string => {
     const hrs = Math.floor(seconds / 3600);
@@ -55,6 +59,25 @@ export default function CallTimerBilling({
         </div>
       )}
 
+      {/* Wallet Balance */}
+      {balance !== undefined && balance !== null && (
+        <span className={`text-xs ${showLowBalanceWarning ? 'text-red-400' : 'text-gray-400'}`}>
+          ₹{balance.toFixed(2)} left
+        </span>
+      )}
+
+      {/* In-call Top-up */}
+      {onTopUp && (
+        <button
+          type="button"
+          onClick={onTopUp}
+          className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs bg-white/10 hover:bg-white/20 transition-colors"
+        >
+          <Plus className="h-3 w-3" />
+          <span>Top up</span>
+        </button>
+      )}
+
       {/* Package Billing */}
       {billingType === 'package' && remainingTime !== null && remainingTime !== undefined && (
         <Badge 
@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DeviceSelectProps {
+  label: string;
+  icon: React.ReactNode;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+}
+
+export default function DeviceSelect({ label, icon, devices, value, onChange }: DeviceSelectProps) {
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        {icon}
+        {label}
+      </label>
+      <Select value={value} onValueChange={onChange} disabled={devices.length === 0}>
+        <SelectTrigger className="bg-gray-800 border-gray-700 text-white" aria-label={label}>
+          <SelectValue placeholder={devices.length === 0 ? 'No devices found' : `Select ${label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
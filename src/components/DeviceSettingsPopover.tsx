@@ -0,0 +1,106 @@
+import { Camera, Mic, Volume2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import DeviceSelect from '@/components/DeviceSelect';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import type { CallDevicePreferences } from '@/utils/devicePreferences';
+
+/**
+ * Devices in use by a call and how to change them
+ */
+export interface DeviceSwitcher {
+  activeDevices: CallDevicePreferences;
+  selectCamera: (deviceId: string) => Promise<void>;
+  selectMicrophone: (deviceId: string) => Promise<void>;
+  selectSpeaker: (deviceId: string) => Promise<void>;
+}
+
+/**
+ * How the call reacts to a weak network
+ */
+export interface QualitySettings {
+  adaptive: boolean;
+  autoAudioOnly: boolean;
+  onAdaptiveChange: (enabled: boolean) => void;
+  onAutoAudioOnlyChange: (enabled: boolean) => void;
+}
+
+interface DeviceSettingsPopoverProps {
+  callType: 'audio' | 'video';
+  switcher: DeviceSwitcher;
+  quality?: QualitySettings; // Video calls only
+  children: React.ReactNode; // Trigger button
+}
+
+/**
+ * In-call camera, microphone and speaker pickers; changes apply without leaving the call
+ */
+export default function DeviceSettingsPopover({ callType, switcher, quality, children }: DeviceSettingsPopoverProps) {
+  const isVideo = callType === 'video';
+  const { cameras, microphones, speakers } = useMediaDevices(isVideo);
+  const { activeDevices } = switcher;
+
+  const apply = (select: (deviceId: string) => Promise<void>, label: string) => async (deviceId: string) => {
+    try {
+      await select(deviceId);
+    } catch {
+      toast({
+        title: `Could not switch ${label}`,
+        description: 'The device may be in use by another app',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent side="top" className="w-80 space-y-4 bg-gray-900 border-gray-700 text-white">
+        <h3 className="text-sm font-semibold">Audio & video settings</h3>
+        {isVideo && (
+          <DeviceSelect
+            label="Camera"
+            icon={<Camera className="h-3.5 w-3.5" />}
+            devices={cameras}
+            value={activeDevices.cameraId}
+            onChange={apply(switcher.selectCamera, 'camera')}
+          />
+        )}
+        <DeviceSelect
+          label="Microphone"
+          icon={<Mic className="h-3.5 w-3.5" />}
+          devices={microphones}
+          value={activeDevices.microphoneId}
+          onChange={apply(switcher.selectMicrophone, 'microphone')}
+        />
+        {speakers.length > 0 && (
+          <DeviceSelect
+            label="Speaker"
+            icon={<Volume2 className="h-3.5 w-3.5" />}
+            devices={speakers}
+            value={activeDevices.speakerId}
+            onChange={apply(switcher.selectSpeaker, 'speaker')}
+          />
+        )}
+        {isVideo && quality && (
+          <div className="space-y-3 border-t border-gray-700 pt-4">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="adaptive-quality" className="text-xs text-gray-300">
+                Adjust video quality to my connection
+              </Label>
+              <Switch id="adaptive-quality" checked={quality.adaptive} onCheckedChange={quality.onAdaptiveChange} />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="auto-audio-only" className="text-xs text-gray-300">
+                Switch to audio only if the connection stays poor
+              </Label>
+              <Switch id="auto-audio-only" checked={quality.autoAudioOnly} onCheckedChange={quality.onAutoAudioOnlyChange} />
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { MessageList } from '@/components/chat/MessageList';
+import { MessageInput } from '@/components/chat/MessageInput';
+import { TypingIndicator } from '@/components/chat/TypingIndicator';
+import { useChat } from '@/contexts/ChatContext';
+import { useAuth } from '@/contexts/AuthContext';
+import type { MessageAttachment, UIMessage } from '@/types/chat';
+
+interface InCallChatDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string | null; // From useCallChat; null until the chat is ready
+  participantName: string;
+}
+
+/**
+ * Side chat during a call, for mantras, names or a photo, without leaving the video
+ */
+export default function InCallChatDrawer({ open, onOpenChange, conversationId, participantName }: InCallChatDrawerProps) {
+  const { user, role } = useAuth();
+  const {
+    getConversation,
+    loadConversationHistory,
+    sendMessage,
+    retryFailedMessage,
+    markMessagesAsRead,
+    setTypingStatus,
+    isParticipantTyping,
+    loadMessageContext,
+  } = useChat();
+  const [replyingTo, setReplyingTo] = useState<UIMessage | null>(null);
+
+  const conversation = conversationId ? getConversation(conversationId) : undefined;
+
+  // Earlier messages, e.g. after rejoining the call
+  useEffect(() => {
+    if (!open || !conversationId || !conversation || conversation.initialHistoryLoaded) return;
+    loadConversationHistory(conversationId, 1).catch((error) => {
+      console.error('Failed to load call chat history:', error);
+    });
+  }, [open, conversationId, conversation, loadConversationHistory]);
+
+  const handleSend = useCallback(
+    async (content: string, attachments?: MessageAttachment[]) => {
+      if (!conversationId) return;
+      await sendMessage(conversationId, content, attachments, replyingTo ?? undefined);
+      setReplyingTo(null);
+    },
+    [conversationId, sendMessage, replyingTo]
+  );
+
+  const handleLoadMore = useCallback(async () => {
+    if (!conversationId || !conversation || conversation.isLoadingMessages || !conversation.hasMoreMessages) return;
+    await loadConversationHistory(conversationId, conversation.currentPage + 1).catch((error) => {
+      console.error('Failed to load more messages:', error);
+    });
+  }, [conversationId, conversation, loadConversationHistory]);
+
+  const handleLoadMessage = useCallback(
+    async (messageId: string) => (conversationId ? loadMessageContext(conversationId, messageId) : false),
+    [conversationId, loadMessageContext]
+  );
+
+  const handleMessagesVisible = useCallback(
+    (messageIds: string[]) => {
+      if (conversationId) markMessagesAsRead(conversationId, messageIds);
+    },
+    [conversationId, markMessagesAsRead]
+  );
+
+  const handleTypingStart = useCallback((id: string) => setTypingStatus(id, true), [setTypingStatus]);
+  const handleTypingStop = useCallback((id: string) => setTypingStatus(id, false), [setTypingStatus]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col gap-0">
+        <SheetHeader className="px-4 py-3 border-b text-left">
+          <SheetTitle>Chat with {participantName}</SheetTitle>
+          <SheetDescription>Messages and files are saved with this call</SheetDescription>
+        </SheetHeader>
+
+        {!conversationId || !conversation ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <MessageList
+              conversationId={conversationId}
+              messages={conversation.messages}
+              isLoadingMore={conversation.isLoadingMessages}
+              hasMore={conversation.hasMoreMessages}
+              onLoadMore={handleLoadMore}
+              onLoadMessage={handleLoadMessage}
+              onRetry={(messageId) => retryFailedMessage(messageId).catch(() => undefined)}
+              onMessagesVisible={handleMessagesVisible}
+              onReply={setReplyingTo}
+              currentUserId={user?._id || localStorage.getItem('userId') || ''}
+              currentUserRole={role || undefined}
+            />
+            <TypingIndicator participantName={participantName} isTyping={isParticipantTyping(conversationId)} />
+            <MessageInput
+              conversationId={conversationId}
+              onSend={handleSend}
+              onTypingStart={handleTypingStart}
+              onTypingStop={handleTypingStop}
+              replyingTo={replyingTo}
+              onCancelReply={() => setReplyingTo(null)}
+              placeholder="Type a message or attach a photo..."
+            />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
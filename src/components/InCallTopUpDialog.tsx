@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Wallet, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { userApi } from '@/services/api';
+import { config } from '@/config';
+import { cn } from '@/lib/utils';
+
+interface InCallTopUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  balance: number | null;
+  ratePerMinute?: number;
+  onToppedUp: (balance: number) => void;
+}
+
+/**
+ * Add money to the wallet without leaving the call
+ */
+export default function InCallTopUpDialog({
+  open,
+  onOpenChange,
+  balance,
+  ratePerMinute,
+  onToppedUp,
+}: InCallTopUpDialogProps) {
+  const [amount, setAmount] = useState<number>(config.call.topUpAmounts[1]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleTopUp = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await userApi.addMoneyToWallet({ amount, description: 'In-call top-up' });
+      const newBalance = response.balance ?? (balance ?? 0) + amount;
+      onToppedUp(newBalance);
+      toast({ title: 'Wallet topped up', description: `₹${amount} added. Your call continues.` });
+      onOpenChange(false);
+    } catch (err: unknown) {
+      toast({
+        title: 'Top-up failed',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Top up wallet
+          </DialogTitle>
+          <DialogDescription>
+            {balance !== null ? `Current balance: ₹${balance.toFixed(2)}` : 'Add money to keep talking'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {config.call.topUpAmounts.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAmount(option)}
+              aria-pressed={amount === option}
+              className={cn(
+                'rounded-lg border p-3 text-left transition-colors',
+                amount === option ? 'border-primary bg-primary/10' : 'border-border hover:border-muted-foreground/50'
+              )}
+            >
+              <p className="font-semibold">₹{option}</p>
+              {ratePerMinute ? (
+                <p className="text-xs text-muted-foreground">≈ {Math.floor(option / ratePerMinute)} min</p>
+              ) : null}
+            </button>
+          ))}
+        </div>
+
+        <Button onClick={handleTopUp} disabled={isSubmitting} className="w-full">
+          {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+          Add ₹{amount}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
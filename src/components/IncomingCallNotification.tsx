@@ -2,29 +2,54 @@ import { useState, useEffect } from 'react';
 import { Phone, PhoneOff, Video, Mic } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { astrologerApi } from '@/services/api';
+import { format } from 'date-fns';
+import type { ClientSummary } from '@/types/api';
 
 interface IncomingCallNotificationProps {
   callId: string;
+  userId?: string; // Shows the astrologer's notes on this client, if any
   userName: string;
   userPhoto?: string;
   callType: 'audio' | 'video';
   onAccept: () => void;
   onReject: () => void;
   timeout?: number; // in seconds, default 30
+  queuedCount?: number; // Other calls ringing behind this one
 }
 
 export default function IncomingCallNotification({
   callId,
+  userId,
   userName,
   userPhoto,
   callType,
   onAccept,
   onReject,
   timeout = 30,
+  queuedCount = 0,
 }: IncomingCallNotificationProps) {
   const [timeLeft, setTimeLeft] = useState(timeout);
   const [isVisible, setIsVisible] = useState(true);
+  const [clientSummary, setClientSummary] = useState<ClientSummary | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    astrologerApi
+      .getClientSummary(userId)
+      .then((summary) => {
+        if (!cancelled) setClientSummary(summary);
+      })
+      .catch(() => {
+        // The call can be answered without it
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -100,6 +125,32 @@ export default function IncomingCallNotification({
           </Avatar>
           <h3 className="text-xl font-semibold text-foreground">{userName}</h3>
           <p className="text-sm text-muted-foreground">wants to consult with you</p>
+          {queuedCount > 0 && (
+            <p className="text-xs text-primary font-medium mt-2">
+              {queuedCount} more {queuedCount === 1 ? 'caller' : 'callers'} waiting
+            </p>
+          )}
+          {clientSummary && (
+            <div className="w-full mt-4 rounded-lg bg-muted/50 p-3 text-left space-y-2">
+              <p className="text-xs font-medium text-foreground">
+                {clientSummary.totalCalls > 0
+                  ? `Returning client · ${clientSummary.totalCalls} ${clientSummary.totalCalls === 1 ? 'call' : 'calls'}${
+                      clientSummary.lastCallAt ? ` · last ${format(new Date(clientSummary.lastCallAt), 'MMM d, yyyy')}` : ''
+                    }`
+                  : 'First consultation'}
+              </p>
+              {clientSummary.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {clientSummary.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                  ))}
+                </div>
+              )}
+              {clientSummary.lastNote?.notes && (
+                <p className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-line">{clientSummary.lastNote.notes}</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Progress Bar */}
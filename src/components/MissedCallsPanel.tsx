@@ -0,0 +1,91 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { History, MessageSquare, Mic, PhoneMissed, Video, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import type { MissedCall } from '@/utils/missedCalls';
+
+interface MissedCallsPanelProps {
+  calls: MissedCall[];
+  onDismiss: (callId: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Calls that rang out before the astrologer answered, newest first
+ */
+export default function MissedCallsPanel({ calls, onDismiss, onClear }: MissedCallsPanelProps) {
+  const navigate = useNavigate();
+
+  if (calls.length === 0) return null;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <PhoneMissed className="w-5 h-5 text-destructive" />
+          <h2 className="font-display font-semibold text-foreground">Missed calls</h2>
+          <span className="text-xs px-2 py-0.5 rounded-full bg-destructive/15 text-destructive">{calls.length}</span>
+        </div>
+        <Button onClick={onClear} variant="ghost" size="sm">
+          Clear all
+        </Button>
+      </div>
+
+      <ul className="divide-y divide-border">
+        {calls.map((call) => (
+          <li key={call.callId} className="flex items-center gap-3 py-2">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={call.userPhoto} alt={call.userName} />
+              <AvatarFallback className="text-xs bg-primary/10 text-primary">{call.userName.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{call.userName}</p>
+              <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(call.missedAt), { addSuffix: true })}</p>
+            </div>
+            {call.callType === 'video' ? (
+              <Video className="w-4 h-4 text-muted-foreground" />
+            ) : (
+              <Mic className="w-4 h-4 text-muted-foreground" />
+            )}
+            {call.userId && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() =>
+                    navigate(`/astrologer/chat/${call.userId}`, {
+                      state: { participantName: call.userName, participantAvatar: call.userPhoto },
+                    })
+                  }
+                  aria-label={`Message ${call.userName}`}
+                >
+                  <MessageSquare className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => navigate(`/astrologer/clients/${call.userId}`)}
+                  aria-label={`${call.userName}'s history`}
+                >
+                  <History className="w-3.5 h-3.5" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              onClick={() => onDismiss(call.callId)}
+              aria-label="Dismiss"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ interface NetworkQualityIndicatorProps {
   downlinkQuality: number;
   onSwitchToAudioOnly?: () => void;
   showSwitchButton?: boolean;
+  videoQualityLabel?: string; // Set while adaptive quality has lowered the camera, e.g. "360p"
 }
 
 export default function NetworkQualityIndicator({
@@ -13,6 +14,7 @@ export default function NetworkQualityIndicator({
   downlinkQuality,
   onSwitchToAudioOnly,
   showSwitchButton = true,
+  videoQualityLabel,
 }: NetworkQualityIndicatorProps) {
   const quality = Math.min(uplinkQuality, downlinkQuality);
   
@@ -53,6 +55,11 @@ export default function NetworkQualityIndicator({
       <span className={`text-sm ${getQualityColor()}`}>
         {getQualityText()}
       </span>
+      {videoQualityLabel && (
+        <span className="text-xs text-gray-400" title="Video quality lowered to match your connection">
+          Video {videoQualityLabel}
+        </span>
+      )}
       
       {/* Show warning and switch button for poor quality */}
       {isPoorQuality && showSwitchButton && onSwitchToAudioOnly && (
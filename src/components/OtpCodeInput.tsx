@@ -0,0 +1,35 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { config } from '@/config';
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void; // Fired once every digit is entered
+  disabled?: boolean;
+}
+
+export default function OtpCodeInput({ value, onChange, onComplete, disabled }: OtpCodeInputProps) {
+  const length = config.auth.otpLength;
+
+  return (
+    <InputOTP
+      maxLength={length}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      autoComplete="one-time-code"
+      aria-label="Verification code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length }).map((_, index) => (
+          <InputOTPSlot key={index} index={index} className="h-12 w-11 text-lg bg-secondary" />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
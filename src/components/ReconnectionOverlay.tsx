@@ -1,17 +1,35 @@
 import { Loader2 } from 'lucide-react';
+import { config } from '@/config';
 
 interface ReconnectionOverlayProps {
   isReconnecting: boolean;
   participantName: string;
   countdown: number;
+  rejoinAttempt?: number; // Set while our own connection is being restored
 }
 
 export default function ReconnectionOverlay({
   isReconnecting,
   participantName,
   countdown,
+  rejoinAttempt,
 }: ReconnectionOverlayProps) {
-  if (!isReconnecting) return null;
+  if (!isReconnecting && !rejoinAttempt) return null;
+
+  if (rejoinAttempt) {
+    return (
+      <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-indigo-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold mb-2">Connection lost</h3>
+          <p className="text-gray-400">Getting you back into the call</p>
+          <p className="text-sm text-gray-500 mt-4">
+            Attempt {rejoinAttempt} of {config.call.rejoinAttempts}
+          </p>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-40">
@@ -0,0 +1,42 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface RecordingConsentDialogProps {
+  open: boolean;
+  requesterName: string;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+export default function RecordingConsentDialog({
+  open,
+  requesterName,
+  onAccept,
+  onDecline,
+}: RecordingConsentDialogProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Allow recording?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {requesterName} would like to record this call. Recording only starts if you agree, each of you
+            keeps a copy on your own device, and either of you can stop it at any time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDecline}>Decline</AlertDialogCancel>
+          <AlertDialogAction onClick={onAccept}>Allow recording</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
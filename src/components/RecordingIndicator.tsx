@@ -0,0 +1,21 @@
+interface RecordingIndicatorProps {
+  isRecording: boolean;
+}
+
+/**
+ * Shown to both participants for as long as the call is being recorded
+ */
+export default function RecordingIndicator({ isRecording }: RecordingIndicatorProps) {
+  if (!isRecording) return null;
+
+  return (
+    <div
+      className="flex items-center space-x-1.5 px-2.5 py-1 rounded-full bg-red-600/90 text-white text-xs font-bold tracking-wider"
+      role="status"
+      aria-label="This call is being recorded"
+    >
+      <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+      <span>REC</span>
+    </div>
+  );
+}
@@ -9,18 +9,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import { AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { userApi } from '@/services/api';
+import type { CallQualityReport } from '@/types/api';
 
 interface ReportCallDialogProps {
   open: boolean;
   onClose: () => void;
   callId: string;
   onReportSuccess?: () => void;
+  diagnostics?: CallQualityReport | null; // This device's quality stats for the call, if it uploaded any
 }
 
 const REPORT_REASONS = [
@@ -38,9 +41,11 @@ export function ReportCallDialog({
   onClose,
   callId,
   onReportSuccess,
+  diagnostics,
 }: ReportCallDialogProps) {
   const [selectedReason, setSelectedReason] = useState<string>('');
   const [additionalDetails, setAdditionalDetails] = useState<string>('');
+  const [attachDiagnostics, setAttachDiagnostics] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const { toast } = useToast();
@@ -71,6 +76,7 @@ export function ReportCallDialog({
 
       await userApi.reportCall(callId, {
         reason: reportReason,
+        diagnostics: attachDiagnostics && diagnostics ? diagnostics : undefined,
       });
 
       toast({
@@ -95,6 +101,7 @@ export function ReportCallDialog({
   const handleClose = () => {
     setSelectedReason('');
     setAdditionalDetails('');
+    setAttachDiagnostics(true);
     setShowConfirmation(false);
     onClose();
   };
@@ -182,6 +189,25 @@ export function ReportCallDialog({
               {additionalDetails.length}/500 characters
             </p>
           </div>
+
+          {/* Quality stats from this call */}
+          {diagnostics && (
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="attach-diagnostics"
+                checked={attachDiagnostics}
+                onCheckedChange={(checked) => setAttachDiagnostics(checked === true)}
+              />
+              <div className="grid gap-1">
+                <Label htmlFor="attach-diagnostics" className="font-normal cursor-pointer">
+                  Attach connection diagnostics
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Latency, packet loss and freezes measured on your side during the call
+                </p>
+              </div>
+            </div>
+          )}
         </div>
 
         <AlertDialogFooter>
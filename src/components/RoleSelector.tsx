@@ -0,0 +1,46 @@
+import { Star, Eye } from 'lucide-react';
+import type { UserRole } from '@/contexts/AuthContext';
+
+interface RoleSelectorProps {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  astrologerHint?: string;
+  userHint?: string;
+}
+
+export default function RoleSelector({
+  value,
+  onChange,
+  astrologerHint = 'Broadcast',
+  userHint = 'Watch',
+}: RoleSelectorProps) {
+  const options = [
+    { role: 'astrologer' as const, label: 'Astrologer', hint: astrologerHint, Icon: Star },
+    { role: 'user' as const, label: 'User', hint: userHint, Icon: Eye },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-3 mb-6" role="radiogroup" aria-label="Account type">
+      {options.map(({ role, label, hint, Icon }) => (
+        <button
+          key={role}
+          type="button"
+          role="radio"
+          aria-checked={value === role}
+          onClick={() => onChange(role)}
+          className={`flex items-center gap-2 p-4 rounded-xl border-2 transition-all ${
+            value === role
+              ? 'border-primary bg-primary/10 text-primary'
+              : 'border-border text-muted-foreground hover:border-muted-foreground/50'
+          }`}
+        >
+          <Icon className="w-5 h-5" />
+          <div className="text-left">
+            <div className="font-semibold text-sm">{label}</div>
+            <div className="text-xs opacity-70">{hint}</div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Sparkles, LogOut, Notebook, Shield, MessageCircle, Home, BookOpen, GraduationCap, Star } from 'lucide-react';
+import { Sparkles, LogOut, Notebook, Shield, MessageCircle, Home, BookOpen, GraduationCap, Star, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
@@ -18,6 +18,7 @@ export default function UserSidebar() {
   const navItems: NavItem[] = [
     { label: 'Live Sessions', icon: <Home className="w-5 h-5" />, path: '/user/dashboard' },
     { label: 'Find Astrologers', icon: <Star className="w-5 h-5" />, path: '/user/astrologers' },
+    { label: 'Appointments', icon: <CalendarClock className="w-5 h-5" />, path: '/user/appointments' },
     { label: 'Courses', icon: <BookOpen className="w-5 h-5" />, path: '/user/courses' },
     { label: 'My Courses', icon: <GraduationCap className="w-5 h-5" />, path: '/user/my-courses' },
     { label: 'Remedies', icon: <Sparkles className="w-5 h-5" />, path: '/user/remedies' },
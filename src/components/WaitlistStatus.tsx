@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Hourglass, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { dismissWaitlistEntry, leaveWaitlist, refreshWaitlist } from '@/services/waitlist';
+
+/**
+ * Floating card with the user's place in each waitlist
+ * Mounted once at the app root; for signed-in users it takes them into the call
+ * when the astrologer picks them and reports entries that expired.
+ */
+export default function WaitlistStatus() {
+  const { isAuthenticated, role } = useAuth();
+  const isUser = isAuthenticated && role === 'user';
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { entries } = useWaitlist();
+  const [leavingId, setLeavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isUser) refreshWaitlist();
+  }, [isUser]);
+
+  useEffect(() => {
+    entries.forEach((entry) => {
+      if (entry.status === 'ready' && entry.callId) {
+        dismissWaitlistEntry(entry._id);
+        toast({
+          title: "It's your turn",
+          description: `${entry.astrologerName || 'The astrologer'} is ready for your call`,
+        });
+        navigate(`/user/call/${entry.callId}`);
+      } else if (entry.status === 'expired') {
+        dismissWaitlistEntry(entry._id);
+        toast({
+          title: 'Waitlist expired',
+          description: `Your place in ${entry.astrologerName || 'the astrologer'}'s queue has expired`,
+          variant: 'destructive',
+        });
+      }
+    });
+  }, [entries, navigate]);
+
+  const handleLeave = async (entryId: string) => {
+    setLeavingId(entryId);
+    try {
+      await leaveWaitlist(entryId);
+    } catch (err: unknown) {
+      toast({
+        title: 'Failed to leave waitlist',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setLeavingId(null);
+    }
+  };
+
+  const waiting = entries.filter((entry) => entry.status === 'waiting');
+  if (!isUser || waiting.length === 0 || location.pathname.startsWith('/user/call/')) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 space-y-2">
+      {waiting.map((entry) => (
+        <div key={entry._id} className="bg-card border border-primary/30 rounded-xl shadow-lg p-4 flex items-start gap-3">
+          <Hourglass className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-foreground truncate">
+              Waiting for {entry.astrologerName || 'astrologer'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {entry.position === 1 ? "You're next" : `#${entry.position} in line`}
+              {entry.estimatedWaitMinutes !== undefined && ` • ~${Math.ceil(entry.estimatedWaitMinutes)} min`}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => handleLeave(entry._id)}
+            disabled={leavingId === entry._id}
+            aria-label="Leave waitlist"
+          >
+            {leavingId === entry._id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
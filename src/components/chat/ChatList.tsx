@@ -3,6 +3,7 @@ import { useChat } from '@/contexts/ChatContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { chatApi } from '@/services/chatApi';
 import { ConversationItem } from './ConversationItem';
+import { ChatSearch } from './ChatSearch';
 import { Skeleton } from '@/components/ui/skeleton';
 import { MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -11,16 +12,18 @@ import type { Conversation } from '@/types/chat';
 export interface ChatListProps {
   onConversationSelect: (conversationId: string) => void;
   selectedConversationId: string | null;
+  onSearchResultSelect?: (conversationId: string, messageId: string, query: string) => void; // Enables the search box
   className?: string;
 }
 
 export function ChatList({
   onConversationSelect,
   selectedConversationId,
+  onSearchResultSelect,
   className,
 }: ChatListProps) {
   const { role: userRole } = useAuth();
-  const { getConversationList } = useChat();
+  const { getConversationList, isParticipantTyping } = useChat();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [localConversations, setLocalConversations] = useState<Conversation[]>([]);
@@ -93,7 +96,8 @@ export function ChatList({
     }
   }, [conversationList, selectedConversationId, onConversationSelect]);
 
-  if (isLoading) {
+  // Cached conversations from ChatContext render immediately while the list refreshes
+  if (isLoading && conversationList.length === 0) {
     return (
       <div className={cn('flex flex-col', className)}>
         {Array.from({ length: 5 }).map((_, index) => (
@@ -109,7 +113,7 @@ export function ChatList({
     );
   }
 
-  if (error) {
+  if (error && conversationList.length === 0) {
     return (
       <div className={cn('flex flex-col items-center justify-center p-8 text-center', className)}>
         <MessageSquare className="h-12 w-12 text-muted-foreground mb-4" />
@@ -139,10 +143,10 @@ export function ChatList({
     );
   }
 
-  return (
+  const list = (
     <div
       ref={listRef}
-      className={cn('flex flex-col overflow-y-auto', className)}
+      className={cn('flex flex-col overflow-y-auto', onSearchResultSelect ? 'flex-1' : className)}
       role="list"
       aria-label="Conversations"
       tabIndex={0}
@@ -152,9 +156,24 @@ export function ChatList({
           key={conversation._id}
           conversation={conversation}
           isSelected={selectedConversationId === conversation._id}
+          isTyping={isParticipantTyping(conversation._id)}
           onClick={() => onConversationSelect(conversation._id)}
         />
       ))}
     </div>
   );
+
+  if (!onSearchResultSelect) {
+    return list;
+  }
+
+  return (
+    <ChatSearch
+      className={className}
+      onConversationSelect={onConversationSelect}
+      onMessageSelect={onSearchResultSelect}
+    >
+      {list}
+    </ChatSearch>
+  );
 }
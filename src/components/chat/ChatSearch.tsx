@@ -0,0 +1,165 @@
+/**
+ * ChatSearch Component
+ * Search box over participant names and message contents with highlighted results
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Search, X, Loader2, WifiOff } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useChat } from '@/contexts/ChatContext';
+import type { ChatSearchResults } from '@/types/chat';
+import { HighlightedText } from './HighlightedText';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatSearchProps {
+  onConversationSelect: (conversationId: string) => void;
+  onMessageSelect: (conversationId: string, messageId: string, query: string) => void;
+  children: React.ReactNode; // Shown while no search is active
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ChatSearch Component
+ * Queries are debounced; stale responses are ignored when the query has moved on
+ */
+export function ChatSearch({ onConversationSelect, onMessageSelect, children, className }: ChatSearchProps) {
+  const { searchChats, getConversation } = useChat();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const trimmed = query.trim();
+  const isActive = trimmed.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const next = await searchChats(trimmed);
+        if (!cancelled) setResults(next);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed, isActive, searchChats]);
+
+  const hasResults = !!results && (results.conversations.length > 0 || results.messages.length > 0);
+
+  return (
+    <div className={cn('flex flex-col min-h-0', className)}>
+      <div className="relative p-3 border-b border-border">
+        <Search className="absolute left-6 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+          placeholder="Search people and messages"
+          className="pl-9 pr-9"
+          aria-label="Search conversations and messages"
+          data-testid="chat-search-input"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => setQuery('')}
+            className="absolute right-6 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-muted"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {!isActive ? (
+        children
+      ) : (
+        <div className="flex-1 overflow-y-auto" role="list" aria-label="Search results" data-testid="chat-search-results">
+          {results?.fromCache && (
+            <p className="flex items-center gap-2 px-4 py-2 text-xs text-muted-foreground bg-muted/50">
+              <WifiOff className="h-3 w-3" aria-hidden="true" />
+              Offline - showing results from messages saved on this device
+            </p>
+          )}
+
+          {isSearching && !results && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {results && !hasResults && !isSearching && (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">No results for "{results.query}"</p>
+          )}
+
+          {results && results.conversations.length > 0 && (
+            <section>
+              <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase text-muted-foreground">Conversations</h3>
+              {results.conversations.map((conversation) => (
+                <button
+                  key={conversation._id}
+                  type="button"
+                  onClick={() => onConversationSelect(conversation._id)}
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-accent focus:bg-accent focus:outline-none"
+                  role="listitem"
+                >
+                  <HighlightedText text={conversation.participantName || 'Unknown'} query={results.query} />
+                </button>
+              ))}
+            </section>
+          )}
+
+          {results && results.messages.length > 0 && (
+            <section>
+              <h3 className="px-4 pt-3 pb-1 text-xs font-semibold uppercase text-muted-foreground">Messages</h3>
+              {results.messages.map((hit) => (
+                <button
+                  key={hit.message._id}
+                  type="button"
+                  onClick={() => onMessageSelect(hit.conversationId, hit.message._id, results.query)}
+                  className="w-full text-left px-4 py-2 hover:bg-accent focus:bg-accent focus:outline-none border-b border-border/50"
+                  role="listitem"
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium truncate">
+                      {getConversation(hit.conversationId)?.participantName || 'Conversation'}
+                    </span>
+                    <span className="flex-shrink-0">{format(new Date(hit.message.timestamp), 'MMM d, HH:mm')}</span>
+                  </div>
+                  <HighlightedText text={hit.message.content} query={results.query} className="text-sm line-clamp-2" />
+                </button>
+              ))}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,32 +4,53 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { MessageList } from './MessageList';
+import { TypingIndicator } from './TypingIndicator';
 import { MessageInput } from './MessageInput';
 import { ConnectionBanner } from './ConnectionBanner';
 import { LazyAvatar } from './LazyAvatar';
 import { useChat } from '@/contexts/ChatContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
+import { showInfoToast } from '@/utils/errorHandling';
+import type { MessageAttachment, UIMessage } from '@/types/chat';
 
 export interface ChatWindowProps {
   conversationId: string;
   onBack?: () => void;
+  focusMessageId?: string | null; // Message to load and scroll to, e.g. a search hit
+  highlightQuery?: string;
+  onFocusHandled?: () => void;
   className?: string;
 }
 
-export function ChatWindow({ conversationId, onBack, className }: ChatWindowProps) {
+export function ChatWindow({
+  conversationId,
+  onBack,
+  focusMessageId,
+  highlightQuery,
+  onFocusHandled,
+  className,
+}: ChatWindowProps) {
   const { user, role } = useAuth();
   const {
     getConversation,
     loadConversationHistory,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    canEditMessage,
     retryFailedMessage,
-    clearUnreadCount,
+    markMessagesAsRead,
+    setTypingStatus,
+    isParticipantTyping,
+    loadMessageContext,
     isConnected,
   } = useChat();
 
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<UIMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<UIMessage | null>(null);
 
   const conversation = getConversation(conversationId);
 
@@ -37,7 +58,8 @@ export function ChatWindow({ conversationId, onBack, className }: ChatWindowProp
     const loadHistory = async () => {
       if (!conversation) return;
 
-      if (conversation.initialHistoryLoaded) {
+      // loadMessageContext fetches the first page itself when jumping to a message
+      if (conversation.initialHistoryLoaded || focusMessageId) {
         return;
       }
 
@@ -55,18 +77,73 @@ export function ChatWindow({ conversationId, onBack, className }: ChatWindowProp
     };
 
     loadHistory();
-  }, [conversationId, conversation, loadConversationHistory]);
+  }, [conversationId, conversation, loadConversationHistory, focusMessageId]);
 
   useEffect(() => {
-    if (!conversation) return;
-    clearUnreadCount(conversationId);
-  }, [conversationId, conversation, clearUnreadCount]);
+    setReplyingTo(null);
+    setEditingMessage(null);
+  }, [conversationId]);
+
+  /**
+   * Pull in the history page containing the focused message; MessageList scrolls once it renders
+   */
+  useEffect(() => {
+    if (!focusMessageId) return;
+
+    let cancelled = false;
+    loadMessageContext(conversationId, focusMessageId).then((found) => {
+      if (!cancelled && !found) {
+        showInfoToast('Message not found', 'It may have been deleted or is too far back in the history.');
+        onFocusHandled?.();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, focusMessageId, loadMessageContext, onFocusHandled]);
+
+  const handleTypingStart = useCallback((id: string) => setTypingStatus(id, true), [setTypingStatus]);
+  const handleTypingStop = useCallback((id: string) => setTypingStatus(id, false), [setTypingStatus]);
+
+  const handleMessagesVisible = useCallback(
+    (messageIds: string[]) => {
+      markMessagesAsRead(conversationId, messageIds);
+    },
+    [conversationId, markMessagesAsRead]
+  );
 
   const handleSendMessage = useCallback(
-    async (content: string) => {
-      await sendMessage(conversationId, content);
+    async (content: string, attachments?: MessageAttachment[]) => {
+      if (editingMessage) {
+        editMessage(conversationId, editingMessage._id, content);
+        setEditingMessage(null);
+        return;
+      }
+
+      await sendMessage(conversationId, content, attachments, replyingTo ?? undefined);
+      setReplyingTo(null);
+    },
+    [conversationId, sendMessage, editMessage, editingMessage, replyingTo]
+  );
+
+  const handleReply = useCallback((message: UIMessage) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  }, []);
+
+  const handleEdit = useCallback((message: UIMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+  }, []);
+
+  const handleDelete = useCallback(
+    (message: UIMessage) => {
+      deleteMessage(conversationId, message._id);
+      setEditingMessage((current) => (current?._id === message._id ? null : current));
+      setReplyingTo((current) => (current?._id === message._id ? null : current));
     },
-    [conversationId, sendMessage]
+    [conversationId, deleteMessage]
   );
 
   const handleLoadMore = useCallback(async () => {
@@ -81,6 +158,11 @@ export function ChatWindow({ conversationId, onBack, className }: ChatWindowProp
     }
   }, [conversation, conversationId, loadConversationHistory]);
 
+  const handleLoadMessage = useCallback(
+    (messageId: string) => loadMessageContext(conversationId, messageId),
+    [conversationId, loadMessageContext]
+  );
+
   const handleRetry = useCallback(
     async (messageId: string) => {
       try {
@@ -216,19 +298,39 @@ export function ChatWindow({ conversationId, onBack, className }: ChatWindowProp
         isLoadingMore={conversation.isLoadingMessages}
         hasMore={conversation.hasMoreMessages}
         onLoadMore={handleLoadMore}
+        onLoadMessage={handleLoadMessage}
         onRetry={handleRetry}
+        onMessagesVisible={handleMessagesVisible}
+        onReply={handleReply}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        canEditMessage={canEditMessage}
+        focusMessageId={focusMessageId}
+        highlightQuery={highlightQuery}
+        onFocusHandled={onFocusHandled}
         currentUserId={actualUserId}
         currentUserRole={role || undefined}
       />
 
+      <TypingIndicator
+        participantName={conversation.participantName}
+        isTyping={isParticipantTyping(conversationId)}
+      />
+
       <MessageInput
         conversationId={conversationId}
         onSend={handleSendMessage}
-        disabled={!isConnected}
+        onTypingStart={handleTypingStart}
+        onTypingStop={handleTypingStop}
+        replyingTo={replyingTo}
+        editingMessage={editingMessage}
+        onCancelReply={() => setReplyingTo(null)}
+        onCancelEdit={() => setEditingMessage(null)}
+        allowAttachments={!editingMessage}
         placeholder={
           isConnected
             ? `Message ${conversation.participantName}...`
-            : 'Reconnecting...'
+            : 'Offline - messages will be sent when you reconnect'
         }
       />
     </div>
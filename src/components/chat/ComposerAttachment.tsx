@@ -0,0 +1,92 @@
+/**
+ * ComposerAttachment Component
+ * Pending attachment chip in the message composer with thumbnail, upload progress and cancel
+ */
+
+import React from 'react';
+import { FileText, X, AlertCircle, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { formatFileSize } from '@/utils/attachments';
+import type { MessageAttachment } from '@/types/chat';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ComposerAttachmentStatus = 'uploading' | 'uploaded' | 'failed';
+
+/**
+ * A file picked in the composer and its upload state
+ */
+export interface ComposerAttachmentItem {
+  id: string;
+  file: File;
+  previewUrl?: string; // Object URL for image thumbnails
+  progress: number; // 0-100
+  status: ComposerAttachmentStatus;
+  error?: string;
+  attachment?: MessageAttachment; // Set once the upload completes
+}
+
+export interface ComposerAttachmentProps {
+  item: ComposerAttachmentItem;
+  onRemove: (id: string) => void;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ComposerAttachment Component
+ * Removing an item that is still uploading cancels the upload
+ */
+export function ComposerAttachment({ item, onRemove }: ComposerAttachmentProps) {
+  const isUploading = item.status === 'uploading';
+
+  return (
+    <div
+      className={cn(
+        'relative flex items-center gap-2 w-48 rounded-md border bg-muted/40 p-2',
+        item.status === 'failed' && 'border-destructive'
+      )}
+      data-testid={`composer-attachment-${item.id}`}
+    >
+      <div className="h-10 w-10 flex-shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+        {item.previewUrl ? (
+          <img src={item.previewUrl} alt="" className="h-full w-full object-cover" aria-hidden="true" />
+        ) : (
+          <FileText className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium truncate" title={item.file.name}>
+          {item.file.name}
+        </p>
+        {isUploading && <Progress value={item.progress} className="h-1 mt-1" aria-label={`Uploading ${item.file.name}`} />}
+        {item.status === 'uploaded' && (
+          <p className="text-[10px] text-muted-foreground">{formatFileSize(item.file.size)}</p>
+        )}
+        {item.status === 'failed' && (
+          <p className="text-[10px] text-destructive flex items-center gap-1 truncate" role="alert">
+            <AlertCircle className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+            {item.error || 'Upload failed'}
+          </p>
+        )}
+      </div>
+
+      {isUploading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground flex-shrink-0" aria-hidden="true" />}
+
+      <button
+        type="button"
+        onClick={() => onRemove(item.id)}
+        className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-background border shadow flex items-center justify-center hover:bg-muted"
+        aria-label={isUploading ? `Cancel upload of ${item.file.name}` : `Remove ${item.file.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { LazyAvatar } from './LazyAvatar';
 export interface ConversationItemProps {
   conversation: Conversation;
   isSelected: boolean;
+  isTyping?: boolean;
   onClick: () => void;
 }
 
@@ -33,6 +34,7 @@ export interface ConversationItemProps {
 export function ConversationItem({
   conversation,
   isSelected,
+  isTyping = false,
   onClick,
 }: ConversationItemProps) {
   const itemRef = useRef<HTMLDivElement>(null);
@@ -171,14 +173,20 @@ export function ConversationItem({
         {/* Last message preview and unread badge */}
         {/* Requirements: 2.2, 2.3 */}
         <div className="flex items-center justify-between gap-2">
-          {conversation.lastMessage ? (
+          {isTyping ? (
+            <p className="text-sm text-primary italic truncate" data-testid="typing-preview">
+              typing…
+            </p>
+          ) : conversation.lastMessage ? (
             <p
               className={cn(
                 'text-sm text-muted-foreground truncate',
                 conversation.unreadCount > 0 && 'font-medium text-foreground'
               )}
             >
-              {truncateMessage(conversation.lastMessage.content)}
+              {conversation.lastMessage.content
+                ? truncateMessage(conversation.lastMessage.content)
+                : 'Sent an attachment'}
             </p>
           ) : (
             <p className="text-sm text-muted-foreground italic">
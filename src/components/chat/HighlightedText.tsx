@@ -0,0 +1,53 @@
+/**
+ * HighlightedText Component
+ * Renders text with every case-insensitive occurrence of a query wrapped in <mark>
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HighlightedTextProps {
+  text: string;
+  query?: string;
+  className?: string;
+  markClassName?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * HighlightedText Component
+ * Falls back to plain text when the query is empty
+ */
+export function HighlightedText({ text, query, className, markClassName }: HighlightedTextProps) {
+  const needle = query?.trim();
+  if (!needle) {
+    return <span className={className}>{text}</span>;
+  }
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(needle)})`, 'gi'));
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.toLowerCase() === needle.toLowerCase() ? (
+          <mark key={index} className={cn('rounded-sm bg-amber-200 text-foreground px-0.5', markClassName)}>
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
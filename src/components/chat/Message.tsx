@@ -1,9 +1,13 @@
 import React from 'react';
 import { format } from 'date-fns';
-import { Check, CheckCheck, Clock, AlertCircle, RotateCw } from 'lucide-react';
+import { Check, CheckCheck, Clock, AlertCircle, RotateCw, Ban } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import type { UIMessage } from '@/types/chat';
+import { MessageAttachments } from './MessageAttachments';
+import { MessageActions } from './MessageActions';
+import { ReplyPreview } from './ReplyPreview';
+import { HighlightedText } from './HighlightedText';
 
 export interface MessageProps {
   message: UIMessage;
@@ -12,12 +16,26 @@ export interface MessageProps {
   showName: boolean;
   showTimestamp: boolean;
   onRetry?: (messageId: string) => void;
+  canEdit?: boolean;
+  isHighlighted?: boolean; // Briefly set after jumping to this message from a reply or search
+  highlightQuery?: string; // Search terms to mark in the content
+  onReply?: (message: UIMessage) => void;
+  onEdit?: (message: UIMessage) => void;
+  onDelete?: (message: UIMessage) => void;
+  onJumpToMessage?: (messageId: string) => void;
 }
 
 export function Message({
   message,
   isOwn,
   onRetry,
+  canEdit = false,
+  isHighlighted = false,
+  highlightQuery,
+  onReply,
+  onEdit,
+  onDelete,
+  onJumpToMessage,
 }: MessageProps) {
   const getStatusIcon = () => {
     switch (message.status) {
@@ -29,6 +47,8 @@ export function Message({
         return <Check className="h-3 w-3 text-muted-foreground" />;
       case 'delivered':
         return <CheckCheck className="h-3 w-3 text-muted-foreground" />;
+      case 'read':
+        return <CheckCheck className="h-3 w-3 text-sky-500" />;
       case 'failed':
         return <AlertCircle className="h-3 w-3 text-destructive" />;
       default:
@@ -46,36 +66,85 @@ export function Message({
     }
   };
 
+  const isUnread = !isOwn && !message.isOptimistic && message.status !== 'read';
+  const isEdited = !!message.editedAt && !message.isDeleted;
+  const showActions = !message.isOptimistic && !message.isDeleted;
+
+  const actions = showActions && (
+    <MessageActions
+      className="self-center opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+      onReply={onReply && (() => onReply(message))}
+      onEdit={isOwn && canEdit && onEdit ? () => onEdit(message) : undefined}
+      onDelete={isOwn && onDelete ? () => onDelete(message) : undefined}
+    />
+  );
+
   return (
     <div
+      data-message-id={message._id}
+      data-unread={isUnread ? 'true' : undefined}
       className={cn(
-        'flex w-full mb-1 px-4',
+        'group flex w-full mb-1 px-4 gap-1',
         isOwn ? 'justify-end' : 'justify-start'
       )}
     >
+      {isOwn && actions}
+
       <div
         className={cn(
-          'flex flex-col max-w-[85%] sm:max-w-[70%] px-2.5 py-1.5 shadow-sm relative',
+          'flex flex-col max-w-[85%] sm:max-w-[70%] px-2.5 py-1.5 shadow-sm relative transition-shadow',
           isOwn
             ? 'bg-primary text-primary-foreground rounded-2xl rounded-tr-none'
-            : 'bg-muted text-foreground rounded-2xl rounded-tl-none'
+            : 'bg-muted text-foreground rounded-2xl rounded-tl-none',
+          isHighlighted && 'ring-2 ring-amber-400'
         )}
       >
         <div className="relative flex flex-col">
-          <p className="text-sm leading-[1.4] whitespace-pre-wrap break-words pr-14">
-            {message.content}
-          </p>
+          {message.isDeleted ? (
+            <p className="text-sm leading-[1.4] italic opacity-70 flex items-center gap-1 pr-14 min-h-[1.4em]">
+              <Ban className="h-3.5 w-3.5" aria-hidden="true" />
+              This message was deleted
+            </p>
+          ) : (
+            <>
+              {message.replyTo && (
+                <ReplyPreview
+                  reply={message.replyTo}
+                  isOwn={isOwn}
+                  className="mb-1"
+                  onClick={onJumpToMessage && (() => onJumpToMessage(message.replyTo!.messageId))}
+                />
+              )}
+
+              {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments attachments={message.attachments} isOwn={isOwn} />
+              )}
+
+              <p
+                className={cn(
+                  'text-sm leading-[1.4] whitespace-pre-wrap break-words min-h-[1.4em]',
+                  isEdited ? 'pr-24' : 'pr-14'
+                )}
+              >
+                <HighlightedText text={message.content} query={highlightQuery} />
+              </p>
+            </>
+          )}
 
           <div className={cn(
             "flex items-center justify-end gap-1 absolute bottom-0 right-[-4px] pointer-events-none",
             isOwn ? "opacity-70" : "opacity-60"
           )}>
             <span className="text-[10px] min-w-fit leading-none">
+              {isEdited && 'edited · '}
               {formatTimestamp(message.timestamp)}
             </span>
 
             {isOwn && (
-              <div className="flex items-center scale-75">
+              <div
+                className="flex items-center scale-75"
+                title={message.status === 'read' && message.readAt ? `Read at ${formatTimestamp(message.readAt)}` : undefined}
+              >
                 {getStatusIcon()}
               </div>
             )}
@@ -83,6 +152,8 @@ export function Message({
         </div>
       </div>
 
+      {!isOwn && actions}
+
       {message.status === 'failed' && isOwn && onRetry && (
         <Button
           variant="ghost"
@@ -0,0 +1,120 @@
+/**
+ * MessageAttachments Component
+ * Inline rendering of message attachments: lazy-loaded images and document cards with PDF preview
+ */
+
+import React, { useState } from 'react';
+import { Download, FileText, Eye, EyeOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFileSize, isImageMimeType, isPdfMimeType } from '@/utils/attachments';
+import type { MessageAttachment } from '@/types/chat';
+import { LazyImage } from './LazyImage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwn: boolean;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * MessageAttachments Component
+ * Images open full size in a new tab; PDFs can be previewed inline
+ */
+export function MessageAttachments({ attachments, isOwn }: MessageAttachmentsProps) {
+  const images = attachments.filter((a) => isImageMimeType(a.mimeType));
+  const documents = attachments.filter((a) => !isImageMimeType(a.mimeType));
+
+  return (
+    <div className="flex flex-col gap-1.5 mb-1" data-testid="message-attachments">
+      {images.length > 0 && (
+        <div className={cn('grid gap-1', images.length > 1 ? 'grid-cols-2' : 'grid-cols-1')}>
+          {images.map((image) => (
+            <a
+              key={image._id}
+              href={image.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block rounded-lg overflow-hidden focus:outline-none focus:ring-2 focus:ring-ring"
+              aria-label={`Open ${image.filename}`}
+            >
+              <LazyImage
+                src={image.thumbnailUrl || image.url}
+                alt={image.filename}
+                className="h-40 w-full min-w-[160px] bg-muted"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {documents.map((doc) => (
+        <DocumentAttachment key={doc._id} attachment={doc} isOwn={isOwn} />
+      ))}
+    </div>
+  );
+}
+
+function DocumentAttachment({ attachment, isOwn }: { attachment: MessageAttachment; isOwn: boolean }) {
+  const [showPreview, setShowPreview] = useState(false);
+  const canPreview = isPdfMimeType(attachment.mimeType);
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border overflow-hidden',
+        isOwn ? 'border-primary-foreground/20 bg-primary-foreground/10' : 'border-border bg-background'
+      )}
+    >
+      <div className="flex items-center gap-2 p-2">
+        <FileText className="h-8 w-8 flex-shrink-0 opacity-80" aria-hidden="true" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={attachment.filename}>
+            {attachment.filename}
+          </p>
+          <p className="text-[10px] opacity-70">{formatFileSize(attachment.size)}</p>
+        </div>
+
+        {canPreview && (
+          <button
+            type="button"
+            onClick={() => setShowPreview((prev) => !prev)}
+            className="p-1 rounded hover:bg-black/10"
+            aria-label={showPreview ? 'Hide preview' : `Preview ${attachment.filename}`}
+            aria-expanded={showPreview}
+          >
+            {showPreview ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </button>
+        )}
+
+        <a
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          download={attachment.filename}
+          className="p-1 rounded hover:bg-black/10"
+          aria-label={`Download ${attachment.filename}`}
+        >
+          <Download className="h-4 w-4" />
+        </a>
+      </div>
+
+      {canPreview && showPreview && (
+        <object
+          data={`${attachment.url}#toolbar=0&view=FitH`}
+          type="application/pdf"
+          className="w-full h-72 bg-white"
+          aria-label={`${attachment.filename} preview`}
+        >
+          <p className="p-2 text-xs">Preview unavailable. Use the download button to open the file.</p>
+        </object>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
 /**
  * MessageInput Component
- * Text input for composing and sending messages with validation and typing indicators
+ * Text input for composing and sending messages with validation, typing indicators and attachments
  * Requirements: 5.1, 9.1, 9.2, 9.3, 9.4, 9.5, 7.1, 7.2, 17.3
  */
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Send } from 'lucide-react';
+import { Send, Paperclip } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
+import { config } from '@/config';
+import { chatApi } from '@/services/chatApi';
+import { isImageMimeType, validateAttachment } from '@/utils/attachments';
+import { toReplyPreview } from '@/utils/messages';
+import type { ChatMessage, MessageAttachment } from '@/types/chat';
+import { ComposerAttachment, type ComposerAttachmentItem } from './ComposerAttachment';
+import { ReplyPreview } from './ReplyPreview';
 
 // ============================================================================
 // Constants
@@ -22,9 +29,16 @@ const MAX_MESSAGE_LENGTH = 2000;
 
 export interface MessageInputProps {
   conversationId: string;
-  onSend: (content: string) => Promise<void>;
+  onSend: (content: string, attachments?: MessageAttachment[]) => Promise<void>;
+  onTypingStart?: (conversationId: string) => void;
+  onTypingStop?: (conversationId: string) => void;
+  replyingTo?: ChatMessage | null;
+  editingMessage?: ChatMessage | null; // Pre-fills the composer; sending saves the edit
+  onCancelReply?: () => void;
+  onCancelEdit?: () => void;
   disabled?: boolean;
   placeholder?: string;
+  allowAttachments?: boolean;
 }
 
 // ============================================================================
@@ -39,13 +53,28 @@ export interface MessageInputProps {
 export function MessageInput({
   conversationId,
   onSend,
+  onTypingStart,
+  onTypingStop,
+  replyingTo,
+  editingMessage,
+  onCancelReply,
+  onCancelEdit,
   disabled = false,
   placeholder = 'Type a message...',
+  allowAttachments = true,
 }: MessageInputProps) {
   const [value, setValue] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<ComposerAttachmentItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const attachmentsRef = useRef<ComposerAttachmentItem[]>([]);
+  attachmentsRef.current = attachments;
+  const onTypingStopRef = useRef(onTypingStop);
+  onTypingStopRef.current = onTypingStop;
 
   /**
    * Auto-focus textarea when conversation changes
@@ -57,6 +86,35 @@ export function MessageInput({
     }
   }, [conversationId, disabled]);
 
+  /**
+   * Load the message being edited into the composer, and bring back the unsent draft when editing ends
+   * Attachments of the draft stay in place (hidden) while editing, as an edit only changes text
+   */
+  const editingMessageRef = useRef(editingMessage);
+  editingMessageRef.current = editingMessage;
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const draftRef = useRef('');
+  const wasEditingRef = useRef(false);
+  const editingMessageId = editingMessage?._id;
+  useEffect(() => {
+    const message = editingMessageRef.current;
+    if (message) {
+      if (!wasEditingRef.current) draftRef.current = valueRef.current;
+      setValue(message.content);
+      setValidationError(null);
+      textareaRef.current?.focus();
+    } else if (wasEditingRef.current) {
+      setValue(draftRef.current);
+      draftRef.current = '';
+    }
+    wasEditingRef.current = !!message;
+  }, [editingMessageId]);
+
+  useEffect(() => {
+    if (replyingTo) textareaRef.current?.focus();
+  }, [replyingTo]);
+
   /**
    * Validate message content
    * Requirements: 9.1, 9.2, 9.3
@@ -75,15 +133,149 @@ export function MessageInput({
     return { isValid: true };
   }, []);
 
+  const uploadedAttachments = attachments.filter((a) => a.status === 'uploaded');
+  const hasPendingUploads = attachments.some((a) => a.status === 'uploading');
+
   /**
    * Check if send button should be enabled
+   * Text is optional when at least one attachment finished uploading
    * Requirements: 9.4, 9.5
    */
   const isSendEnabled = useCallback(() => {
     if (disabled || isSending) return false;
+    if (editingMessage) return validateMessage(value).isValid;
+    if (hasPendingUploads) return false;
+    if (uploadedAttachments.length > 0 && value.length <= MAX_MESSAGE_LENGTH) return true;
     const validation = validateMessage(value);
     return validation.isValid;
-  }, [value, disabled, isSending, validateMessage]);
+  }, [value, disabled, isSending, editingMessage, hasPendingUploads, uploadedAttachments.length, validateMessage]);
+
+  const updateAttachment = useCallback((id: string, updates: Partial<ComposerAttachmentItem>) => {
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...updates } : a)));
+  }, []);
+
+  /**
+   * Validate and start uploading picked, dropped or pasted files
+   */
+  const addFiles = useCallback(
+    (files: File[]) => {
+      if (!allowAttachments || files.length === 0) return;
+
+      const remaining = config.chat.maxAttachmentsPerMessage - attachmentsRef.current.length;
+      if (files.length > remaining) {
+        setValidationError(`You can attach up to ${config.chat.maxAttachmentsPerMessage} files per message`);
+      }
+
+      const accepted: ComposerAttachmentItem[] = [];
+      files.slice(0, Math.max(remaining, 0)).forEach((file) => {
+        const validation = validateAttachment(file);
+        if (!validation.isValid) {
+          setValidationError(validation.error || 'File not allowed');
+          return;
+        }
+        accepted.push({
+          id: `${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+          file,
+          previewUrl: isImageMimeType(file.type) ? URL.createObjectURL(file) : undefined,
+          progress: 0,
+          status: 'uploading',
+        });
+      });
+
+      if (accepted.length === 0) return;
+      setAttachments((prev) => [...prev, ...accepted]);
+
+      accepted.forEach((item) => {
+        const controller = new AbortController();
+        uploadControllersRef.current.set(item.id, controller);
+
+        chatApi
+          .uploadAttachment(item.file, (progress) => updateAttachment(item.id, { progress }), controller.signal)
+          .then((response) => {
+            updateAttachment(item.id, { status: 'uploaded', progress: 100, attachment: response.attachment });
+          })
+          .catch((error) => {
+            if (controller.signal.aborted) return;
+            updateAttachment(item.id, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Upload failed',
+            });
+          })
+          .finally(() => {
+            uploadControllersRef.current.delete(item.id);
+          });
+      });
+    },
+    [allowAttachments, updateAttachment]
+  );
+
+  /**
+   * Remove an attachment, cancelling its upload if still in progress
+   */
+  const removeAttachment = useCallback((id: string) => {
+    uploadControllersRef.current.get(id)?.abort();
+    uploadControllersRef.current.delete(id);
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+  }, []);
+
+  const handleFileInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      addFiles(Array.from(e.target.files || []));
+      // Allow picking the same file again after removing it
+      e.target.value = '';
+    },
+    [addFiles]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const files = Array.from(e.clipboardData.files || []);
+      if (files.length > 0) {
+        e.preventDefault();
+        addFiles(files);
+      }
+    },
+    [addFiles]
+  );
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      if (!allowAttachments || disabled || !e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    [allowAttachments, disabled]
+  );
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      if (!allowAttachments || disabled) return;
+      e.preventDefault();
+      setIsDragging(false);
+      addFiles(Array.from(e.dataTransfer.files || []));
+    },
+    [allowAttachments, disabled, addFiles]
+  );
+
+  /**
+   * Cancel in-flight uploads and release thumbnails on unmount
+   */
+  useEffect(() => {
+    const controllers = uploadControllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      attachmentsRef.current.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    };
+  }, []);
 
 
 
@@ -101,13 +293,21 @@ export function MessageInput({
         setValidationError(null);
       }
 
+      // Debouncing and idle expiry are handled by the typing handlers
+      // Requirements: 7.1
+      if (newValue.trim().length > 0) {
+        onTypingStart?.(conversationId);
+      } else {
+        onTypingStop?.(conversationId);
+      }
+
       // Auto-resize textarea
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
         textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
       }
     },
-    [validationError]
+    [validationError, conversationId, onTypingStart, onTypingStop]
   );
 
   /**
@@ -115,9 +315,31 @@ export function MessageInput({
    * Requirements: 5.1, 9.1, 9.2, 9.3
    */
   const handleSend = useCallback(async () => {
-    // Validate message
+    if (editingMessage) {
+      const validation = validateMessage(value);
+      if (!validation.isValid) {
+        setValidationError(validation.error || 'Invalid message');
+        return;
+      }
+
+      // The draft and its attachments come back once the parent ends editing
+      setValidationError(null);
+      try {
+        await onSend(value);
+      } catch (error) {
+        console.error('Failed to save edit:', error);
+        setValidationError(error instanceof Error ? error.message : 'Failed to save edit');
+      }
+      return;
+    }
+
+    const readyAttachments = attachments
+      .filter((a) => a.status === 'uploaded' && a.attachment)
+      .map((a) => a.attachment as MessageAttachment);
+
+    // Validate message (text may be empty when sending attachments)
     const validation = validateMessage(value);
-    if (!validation.isValid) {
+    if (!validation.isValid && !(readyAttachments.length > 0 && value.length <= MAX_MESSAGE_LENGTH)) {
       setValidationError(validation.error || 'Invalid message');
       return;
     }
@@ -128,10 +350,12 @@ export function MessageInput({
     try {
       // Emit typing:stop immediately on send
       // Requirements: 7.2
+      onTypingStop?.(conversationId);
 
-
-      await onSend(value);
+      await onSend(value, readyAttachments.length > 0 ? readyAttachments : undefined);
       setValue('');
+      attachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      setAttachments([]);
 
       // Reset textarea height
       if (textareaRef.current) {
@@ -143,7 +367,7 @@ export function MessageInput({
     } finally {
       setIsSending(false);
     }
-  }, [value, onSend, validateMessage]);
+  }, [value, attachments, editingMessage, onSend, validateMessage, conversationId, onTypingStop]);
 
   /**
    * Handle Enter key to send (Shift+Enter for new line)
@@ -156,15 +380,24 @@ export function MessageInput({
         if (isSendEnabled()) {
           handleSend();
         }
+      } else if (e.key === 'Escape' && (editingMessage || replyingTo)) {
+        e.preventDefault();
+        if (editingMessage) onCancelEdit?.();
+        else onCancelReply?.();
       }
     },
-    [isSendEnabled, handleSend]
+    [isSendEnabled, handleSend, editingMessage, replyingTo, onCancelEdit, onCancelReply]
   );
 
   /**
-   * Cleanup typing timeout on unmount
+   * Stop typing when leaving the conversation or unmounting
    * Requirements: 17.3
    */
+  useEffect(() => {
+    return () => {
+      onTypingStopRef.current?.(conversationId);
+    };
+  }, [conversationId]);
 
 
   /**
@@ -183,7 +416,19 @@ export function MessageInput({
   };
 
   return (
-    <div className="border-t bg-background p-4" data-testid="message-input-container">
+    <div
+      className={cn('border-t bg-background p-4 relative', isDragging && 'ring-2 ring-primary ring-inset')}
+      data-testid="message-input-container"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/90 text-sm font-medium text-primary pointer-events-none">
+          Drop files to attach
+        </div>
+      )}
+
       <div className="flex flex-col gap-2">
         {/* Validation error */}
         {/* Requirements: 9.2 */}
@@ -197,14 +442,62 @@ export function MessageInput({
           </div>
         )}
 
+        {/* Reply / edit context */}
+        {editingMessage ? (
+          <ReplyPreview reply={toReplyPreview(editingMessage)} title="Editing message" onDismiss={onCancelEdit} />
+        ) : (
+          replyingTo && (
+            <ReplyPreview
+              reply={toReplyPreview(replyingTo)}
+              title={`Replying to ${replyingTo.senderName || 'message'}`}
+              onDismiss={onCancelReply}
+            />
+          )
+        )}
+
+        {/* Pending attachments */}
+        {attachments.length > 0 && !editingMessage && (
+          <div className="flex flex-wrap gap-3 pt-2" data-testid="composer-attachments">
+            {attachments.map((item) => (
+              <ComposerAttachment key={item.id} item={item} onRemove={removeAttachment} />
+            ))}
+          </div>
+        )}
+
         {/* Input area */}
         <div className="flex gap-2 items-end">
+          {allowAttachments && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={[...config.chat.allowedFileTypes, ...config.chat.allowedFileExtensions.map((ext) => `.${ext}`)].join(',')}
+                onChange={handleFileInputChange}
+                className="hidden"
+                data-testid="attachment-input"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isSending || attachments.length >= config.chat.maxAttachmentsPerMessage}
+                className="h-[60px] w-10 flex-shrink-0"
+                aria-label="Attach files"
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+            </>
+          )}
+
           <div className="flex-1 relative">
             <Textarea
               ref={textareaRef}
               value={value}
               onChange={handleChange}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder={placeholder}
               disabled={disabled || isSending}
               className={cn(
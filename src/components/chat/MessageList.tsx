@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Loader2 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { showInfoToast } from '@/utils/errorHandling';
 import { Message } from './Message';
 import type { UIMessage } from '@/types/chat';
 
@@ -10,7 +11,16 @@ export interface MessageListProps {
   isLoadingMore: boolean;
   hasMore: boolean;
   onLoadMore: () => void;
+  onLoadMessage?: (messageId: string) => Promise<boolean>; // Pages back to a quoted message; false if not found
   onRetry?: (messageId: string) => void;
+  onMessagesVisible?: (messageIds: string[]) => void;
+  onReply?: (message: UIMessage) => void;
+  onEdit?: (message: UIMessage) => void;
+  onDelete?: (message: UIMessage) => void;
+  canEditMessage?: (message: UIMessage) => boolean;
+  focusMessageId?: string | null; // Scrolled to and flashed once it is loaded
+  highlightQuery?: string;
+  onFocusHandled?: () => void;
   currentUserId: string;
   currentUserRole?: 'user' | 'astrologer';
 }
@@ -25,6 +35,9 @@ interface MessageGroup {
 
 const MESSAGE_GROUP_TIME_THRESHOLD = 5 * 60 * 1000;
 const SCROLL_THRESHOLD = 100;
+const READ_VISIBILITY_THRESHOLD = 0.6;
+const READ_BATCH_DELAY_MS = 300;
+const HIGHLIGHT_DURATION_MS = 1500;
 
 export function MessageList({
   conversationId,
@@ -32,7 +45,16 @@ export function MessageList({
   isLoadingMore,
   hasMore,
   onLoadMore,
+  onLoadMessage,
   onRetry,
+  onMessagesVisible,
+  onReply,
+  onEdit,
+  onDelete,
+  canEditMessage,
+  focusMessageId,
+  highlightQuery,
+  onFocusHandled,
   currentUserId,
   currentUserRole,
 }: MessageListProps) {
@@ -42,6 +64,10 @@ export function MessageList({
   const [isNearBottom, setIsNearBottom] = useState(true);
   const previousMessageCountRef = useRef(messages.length);
   const previousScrollHeightRef = useRef(0);
+  const visibleUnreadRef = useRef<Set<string>>(new Set());
+  const readBatchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
 
   const groupMessages = useCallback((messages: UIMessage[]): MessageGroup[] => {
     if (messages.length === 0) return [];
@@ -126,7 +152,13 @@ export function MessageList({
     }
   }, [messages, isNearBottom, scrollToBottom]);
 
+  // Opening a conversation at a search hit should not snap to the bottom
+  const focusMessageIdRef = useRef(focusMessageId);
+  focusMessageIdRef.current = focusMessageId;
+
   useEffect(() => {
+    setPendingJumpId(null);
+    if (focusMessageIdRef.current) return;
     setTimeout(() => scrollToBottom('auto'), 100);
   }, [conversationId, scrollToBottom]);
 
@@ -138,6 +170,118 @@ export function MessageList({
     return () => viewport.removeEventListener('scroll', handleScroll);
   }, [handleScroll]);
 
+  /**
+   * Report unread incoming messages once they are actually on screen
+   * Batched so a fast scroll produces a single read receipt, and held back while the tab is hidden
+   */
+  useEffect(() => {
+    const container = scrollViewportRef.current;
+    if (!container || !onMessagesVisible || typeof IntersectionObserver === 'undefined') return;
+
+    const flush = () => {
+      readBatchTimerRef.current = null;
+      if (document.visibilityState !== 'visible' || visibleUnreadRef.current.size === 0) return;
+      const ids = Array.from(visibleUnreadRef.current);
+      visibleUnreadRef.current.clear();
+      onMessagesVisible(ids);
+    };
+
+    const scheduleFlush = () => {
+      if (readBatchTimerRef.current) return;
+      readBatchTimerRef.current = setTimeout(flush, READ_BATCH_DELAY_MS);
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const id = (entry.target as HTMLElement).dataset.messageId;
+          if (!id) return;
+          if (entry.isIntersecting) {
+            visibleUnreadRef.current.add(id);
+          } else {
+            visibleUnreadRef.current.delete(id);
+          }
+        });
+        scheduleFlush();
+      },
+      { threshold: READ_VISIBILITY_THRESHOLD }
+    );
+
+    container.querySelectorAll<HTMLElement>('[data-unread="true"]').forEach((el) => observer.observe(el));
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') scheduleFlush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (readBatchTimerRef.current) {
+        clearTimeout(readBatchTimerRef.current);
+        readBatchTimerRef.current = null;
+      }
+    };
+  }, [messages, onMessagesVisible]);
+
+  /**
+   * Scroll a quoted message into view and flash it
+   * A message that is not loaded yet is paged in first and scrolled to once it renders
+   */
+  const jumpToMessage = useCallback(
+    (messageId: string) => {
+      const target = scrollViewportRef.current?.querySelector<HTMLElement>(
+        `[data-message-id="${CSS.escape(messageId)}"]`
+      );
+
+      if (!target) {
+        if (!onLoadMessage) {
+          if (hasMore && !isLoadingMore) onLoadMore();
+          return;
+        }
+
+        setPendingJumpId(messageId);
+        onLoadMessage(messageId).then((found) => {
+          if (found) return;
+          setPendingJumpId((current) => (current === messageId ? null : current));
+          showInfoToast('Message not found', 'It may have been deleted or is too far back in the history.');
+        });
+        return;
+      }
+
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(messageId);
+    },
+    [hasMore, isLoadingMore, onLoadMore, onLoadMessage]
+  );
+
+  useEffect(() => {
+    if (!pendingJumpId || !messages.some((m) => m._id === pendingJumpId)) return;
+
+    const frame = requestAnimationFrame(() => {
+      setPendingJumpId(null);
+      jumpToMessage(pendingJumpId);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pendingJumpId, messages, jumpToMessage]);
+
+  useEffect(() => {
+    if (!focusMessageId || !messages.some((m) => m._id === focusMessageId)) return;
+
+    // Wait a frame so newly prepended history is laid out before scrolling
+    const frame = requestAnimationFrame(() => {
+      jumpToMessage(focusMessageId);
+      onFocusHandled?.();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [focusMessageId, messages, jumpToMessage, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const messageGroups = groupMessages(messages);
 
   return (
@@ -181,6 +325,13 @@ export function MessageList({
                     showName={messageIndex === 0 && !isOwnGroup}
                     showTimestamp={messageIndex === group.messages.length - 1}
                     onRetry={onRetry}
+                    canEdit={canEditMessage?.(message) ?? false}
+                    isHighlighted={highlightedMessageId === message._id}
+                    highlightQuery={highlightQuery}
+                    onReply={onReply}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    onJumpToMessage={jumpToMessage}
                   />
                 ))}
               </div>
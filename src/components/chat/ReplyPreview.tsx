@@ -0,0 +1,73 @@
+/**
+ * ReplyPreview Component
+ * Quoted snippet of another message, shown inside replies and above the composer
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { MessageReplyPreview } from '@/types/chat';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReplyPreviewProps {
+  reply: MessageReplyPreview;
+  title?: string; // Defaults to the quoted sender's name
+  isOwn?: boolean; // Inside an own (primary-coloured) bubble
+  onClick?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ReplyPreview Component
+ * Clicking the quote jumps to the original message; the dismiss button cancels a pending reply
+ */
+export function ReplyPreview({ reply, title, isOwn = false, onClick, onDismiss, className }: ReplyPreviewProps) {
+  const snippet = reply.isDeleted
+    ? 'This message was deleted'
+    : reply.content || (reply.type === 'image' ? 'Photo' : 'Attachment');
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-2 rounded-md border-l-4 px-2 py-1 text-xs',
+        isOwn ? 'border-primary-foreground/60 bg-primary-foreground/10' : 'border-primary bg-background/60',
+        onClick && 'cursor-pointer hover:opacity-90',
+        className
+      )}
+      onClick={onClick}
+      role={onClick ? 'button' : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      onKeyDown={(e) => {
+        if (onClick && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault();
+          onClick();
+        }
+      }}
+      data-testid="reply-preview"
+    >
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold truncate">{title || reply.senderName || 'Message'}</p>
+        <p className={cn('truncate opacity-80', reply.isDeleted && 'italic')}>{snippet}</p>
+      </div>
+
+      {onDismiss && (
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="p-0.5 rounded hover:bg-black/10 flex-shrink-0"
+          aria-label="Cancel"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,24 @@ export type { TypingIndicatorProps } from './TypingIndicator';
 export { MessageInput } from './MessageInput';
 export type { MessageInputProps } from './MessageInput';
 
+export { MessageAttachments } from './MessageAttachments';
+export type { MessageAttachmentsProps } from './MessageAttachments';
+
+export { ComposerAttachment } from './ComposerAttachment';
+export type { ComposerAttachmentProps, ComposerAttachmentItem } from './ComposerAttachment';
+
+export { MessageActions } from './MessageActions';
+export type { MessageActionsProps } from './MessageActions';
+
+export { ReplyPreview } from './ReplyPreview';
+export type { ReplyPreviewProps } from './ReplyPreview';
+
+export { ChatSearch } from './ChatSearch';
+export type { ChatSearchProps } from './ChatSearch';
+
+export { HighlightedText } from './HighlightedText';
+export type { HighlightedTextProps } from './HighlightedText';
+
 export { MessageList } from './MessageList';
 export type { MessageListProps } from './MessageList';
 
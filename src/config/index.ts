@@ -3,9 +3,12 @@ export const config = {
     baseURL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000',
     socketURL: import.meta.env.VITE_SOCKET_URL || 'http://localhost:5000',
     timeout: 30000,
+    uploadTimeout: 10 * 60 * 1000, // Multipart uploads (course videos, blog images)
   },
   agora: {
     appId: import.meta.env.VITE_AGORA_APP_ID || '',
+    // Noise suppression models; served by the app itself (see vite.config.ts) unless overridden
+    denoiserAssetsPath: import.meta.env.VITE_AGORA_DENOISER_ASSETS || `${import.meta.env.BASE_URL}agora-denoiser`,
   },
   app: {
     name: import.meta.env.VITE_APP_NAME || 'Astrology Live',
@@ -14,6 +17,11 @@ export const config = {
   features: {
     devTools: import.meta.env.VITE_ENABLE_DEV_TOOLS === 'true',
   },
+  auth: {
+    otpLength: 6, // Digits in email verification and password reset codes
+    otpResendCooldownMs: 30 * 1000, // Wait before another code can be requested
+    minPasswordLength: 8,
+  },
   chat: {
     maxMessageLength: 2000, // Maximum characters per message (Requirement 1.3)
     messageLoadLimit: 50, // Number of messages to load per page (Requirement 2.1, 2.2)
@@ -28,6 +36,8 @@ export const config = {
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ], // Allowed MIME types (Requirement 5.1)
     allowedFileExtensions: ['jpg', 'jpeg', 'png', 'gif', 'pdf', 'doc', 'docx'], // Allowed file extensions
+    maxAttachmentsPerMessage: 5, // Files that can be attached to a single message
+    messageEditWindowMs: 15 * 60 * 1000, // Own messages can be edited for 15 minutes after sending
     typingDebounceMs: 300, // Delay before emitting typing event (Requirement 4.1)
     typingTimeoutMs: 3000, // Time before clearing typing indicator (Requirement 4.3)
     reconnectionAttempts: 5, // Number of reconnection attempts
@@ -40,6 +50,41 @@ export const config = {
   video: {
     defaultCodec: 'vp8' as const,
   },
+  call: {
+    recordingConsentTimeoutMs: 30 * 1000, // Give up on a recording request nobody answered
+    recordingFrameRate: 30,
+    billingDriftToleranceSeconds: 2, // Local timer snaps to the server beyond this
+    endingCountdownSeconds: 60, // Warn this long before the balance or package runs out
+    extensionOfferSeconds: 120, // Offer to extend a package call this long before it runs out
+    extensionResponseTimeoutMs: 30 * 1000, // Give up on an extension request the astrologer did not answer
+    topUpAmounts: [100, 200, 500, 1000], // Offered in the in-call top-up dialog (₹)
+    incomingCallTimeoutSeconds: 30, // Ringing calls not answered by then are dropped from the queue
+    missedCallLogSize: 50, // Most recent missed calls kept on this device
+    rejoinAttempts: 5, // Tries to get back into the channel after our own connection drops
+    rejoinRetryDelayMs: 2000, // Grows with each failed attempt
+    videoProfiles: ['480p_1', '360p_1', '240p_1', '180p_1'], // Camera steps for adaptive quality, best (the SDK default) first
+    qualityStepDownSeconds: 6, // Sustained poor uplink before the camera steps down
+    qualityStepUpSeconds: 20, // Sustained good uplink before it steps back up
+    audioOnlyFallbackSeconds: 30, // Poor for this long: drop to audio only, if the user allows it
+    qualitySampleSeconds: 5, // How often call stats are read for the diagnostics report
+    qualityReportMaxSamples: 180, // Longer calls are averaged down to this many points before upload
+  },
+  appointments: {
+    bookingWindowDays: 30, // How far ahead users can book
+    changeCutoffHours: 2, // No cancelling or rescheduling closer to the start than this
+    maxReschedules: 2,
+    reminderMinutesBefore: [60, 10], // Local reminders on top of the server's
+    joinEarlyMinutes: 5, // The call can be started this long before the slot
+    lateJoinMinutes: 15, // After this the appointment counts as missed
+  },
+  callEffects: {
+    backgroundImageMaxWidth: 1280, // Uploaded backgrounds are scaled down to this before saving
+    backgroundImageMaxSize: 10 * 1024 * 1024, // Largest upload accepted
+  },
+  clients: {
+    noteMaxLength: 5000,
+    suggestedTags: ['Career', 'Marriage', 'Health', 'Finance', 'Gemstone', 'Mantra', 'Follow-up'],
+  },
 };
 
 export const TOPICS = [
@@ -50,6 +95,17 @@ export const TOPICS = [
 
 export type Topic = typeof TOPICS[number];
 
+// Offered during astrologer onboarding
+export const ASTROLOGER_SKILLS = [
+  'Vedic', 'Tarot', 'Numerology', 'Palmistry', 'Vastu',
+  'KP System', 'Face Reading', 'Prashna', 'Lal Kitab', 'Reiki',
+] as const;
+
+export const LANGUAGES = [
+  'English', 'Hindi', 'Bengali', 'Marathi', 'Tamil', 'Telugu',
+  'Gujarati', 'Kannada', 'Malayalam', 'Punjabi',
+] as const;
+
 export const TOPIC_COLORS: Record<string, string> = {
   General: 'bg-muted',
   Vedic: 'bg-accent/20 text-accent',
@@ -1,6 +1,23 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { authApi } from '@/services/api';
+import { onUnauthorized } from '@/services/httpClient';
+import {
+  saveTokens,
+  clearTokens,
+  getRefreshToken,
+  getRefreshDelay,
+  refreshSession,
+  onSessionEvent,
+  announceLogout,
+} from '@/services/authSession';
 import { connectSocket, disconnectSocket } from '@/services/socket';
+import { clearCache as clearChatCache } from '@/utils/chatCache';
+import { resetWaitlist } from '@/services/waitlist';
+import { clearAllMissedCalls } from '@/utils/missedCalls';
+import { clearCallRecordings } from '@/utils/callRecordings';
+import { showErrorToast } from '@/utils/errorHandling';
+import { getTokenUserId } from '@/utils/jwt';
+import type { LoginResponse, SignupRequest, SignupResponse } from '@/types/api';
 
 export type UserRole = 'astrologer' | 'user';
 
@@ -21,6 +38,8 @@ interface AuthState {
   error: string | null;
   login: (email: string, password: string, role: UserRole) => Promise<void>;
   loginWithToken: (token: string, role: UserRole) => void;
+  signup: (request: SignupRequest) => Promise<SignupResponse>; // Signs in unless verification is required
+  verifyEmail: (email: string, otp: string, role: UserRole) => Promise<void>;
   logout: () => void;
 }
 
@@ -47,14 +66,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         // If userId is missing, try to extract it from token
         if (!userId || userId === 'unknown') {
-          try {
-            const payload = JSON.parse(atob(storedToken.split('.')[1]));
-            userId = payload.id || payload.userId || payload._id || payload.sub || 'unknown';
-            if (userId !== 'unknown') {
-              localStorage.setItem('userId', userId);
-            }
-          } catch (e) {
-            console.error('Failed to decode token:', e);
+          userId = getTokenUserId(storedToken) || 'unknown';
+          if (userId !== 'unknown') {
+            localStorage.setItem('userId', userId);
           }
         }
 
@@ -102,6 +116,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [token]);
 
+  // Shared by password login, signup without verification and email verification
+  const startSession = useCallback((data: LoginResponse, email: string, sessionRole: UserRole) => {
+    const userData: AuthUser = {
+      _id: data.user?._id || data.astrologer?._id || '',
+      name: data.user?.fullName || data.astrologer?.personalDetails?.name || '',
+      email,
+      role: sessionRole,
+      avatar: data.user?.avatar || data.astrologer?.personalDetails?.profilePicture || undefined,
+    };
+
+    setToken(data.token);
+    setUser(userData);
+    setRole(sessionRole);
+    saveTokens(data.token, data.refreshToken);
+    localStorage.setItem('auth_role', sessionRole);
+    localStorage.setItem('auth_user', JSON.stringify(userData));
+    localStorage.setItem('userId', userData._id); // Store userId separately for easy access
+    connectSocket(data.token, sessionRole);
+  }, []);
+
   const login = useCallback(async (email: string, password: string, loginRole: UserRole) => {
     setIsLoading(true);
     setError(null);
@@ -109,30 +143,45 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const data = loginRole === 'astrologer'
         ? await authApi.loginAstrologer(email, password)
         : await authApi.loginUser(email, password);
-
-      const userData: AuthUser = {
-        _id: data.user?._id || data.astrologer?._id || '',
-        name: data.user?.fullName || data.astrologer?.personalDetails?.name || '',
-        email,
-        role: loginRole,
-        avatar: data.user?.avatar || data.astrologer?.personalDetails?.profilePicture || undefined,
-      };
-
-      setToken(data.token);
-      setUser(userData);
-      setRole(loginRole);
-      localStorage.setItem('auth_token', data.token);
-      localStorage.setItem('auth_role', loginRole);
-      localStorage.setItem('auth_user', JSON.stringify(userData));
-      localStorage.setItem('userId', userData._id); // Store userId separately for easy access
-      connectSocket(data.token, loginRole);
+      startSession(data, email, loginRole);
     } catch (err: any) {
       setError(err.message || 'Login failed');
       throw err;
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [startSession]);
+
+  const signup = useCallback(async (request: SignupRequest) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await authApi.register(request);
+      if (data.token && !data.verificationRequired) {
+        startSession({ ...data, token: data.token }, request.email, request.role);
+      }
+      return data;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Signup failed');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startSession]);
+
+  const verifyEmail = useCallback(async (email: string, otp: string, verifyRole: UserRole) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await authApi.verifyEmail(verifyRole, email, otp);
+      startSession(data, email, verifyRole);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startSession]);
 
   const loginWithToken = useCallback((jwtToken: string, tokenRole: UserRole) => {
     const userData: AuthUser = {
@@ -145,27 +194,72 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setToken(jwtToken);
     setRole(tokenRole);
     setUser(userData);
-    localStorage.setItem('auth_token', jwtToken);
+    saveTokens(jwtToken);
     localStorage.setItem('auth_role', tokenRole);
     localStorage.setItem('auth_user', JSON.stringify(userData));
     localStorage.setItem('userId', userData._id); // Store userId separately
     connectSocket(jwtToken, tokenRole);
   }, []);
 
-  const logout = useCallback(() => {
+  // Local sign-out; also applied when another tab signs out
+  const clearSession = useCallback(() => {
     setToken(null);
     setUser(null);
     setRole(null);
     setError(null);
-    localStorage.removeItem('auth_token');
+    clearTokens();
     localStorage.removeItem('auth_role');
     localStorage.removeItem('auth_user');
     localStorage.removeItem('userId'); // Remove userId
+    clearChatCache(); // Cached conversations belong to the signed-out user
+    clearAllMissedCalls();
+    clearCallRecordings(); // Private consultations must not outlive the session on a shared browser
+    resetWaitlist();
     disconnectSocket();
   }, []);
 
+  const logout = useCallback(() => {
+    clearSession();
+    announceLogout();
+  }, [clearSession]);
+
+  // Renew the access token shortly before it expires
+  useEffect(() => {
+    if (!token || !getRefreshToken()) return;
+
+    const delay = getRefreshDelay(token);
+    if (delay === null) return;
+
+    const timer = setTimeout(() => {
+      // A refused renewal is left to the 401 path, which signs out once the token is rejected
+      refreshSession(token).catch((err) => console.error('Scheduled token refresh failed:', err));
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token]);
+
+  // Renewals (from this tab's requests or another tab) and sign-outs in other tabs
+  useEffect(() => {
+    return onSessionEvent((event) => {
+      if (event.type === 'logout') {
+        clearSession();
+        return;
+      }
+      setToken((current) => (current ? event.token : current)); // Reconnects the socket with the new token
+    });
+  }, [clearSession]);
+
+  // An authenticated request rejected with 401 means the token has expired
+  useEffect(() => {
+    return onUnauthorized((error) => {
+      if (!localStorage.getItem('auth_token')) return; // Already signed out by an earlier 401
+      logout();
+      showErrorToast(error, { title: 'Session expired' });
+    });
+  }, [logout]);
+
   return (
-    <AuthContext.Provider value={{ user, token, role, isAuthenticated, isLoading, error, login, loginWithToken, logout }}>
+    <AuthContext.Provider value={{ user, token, role, isAuthenticated, isLoading, error, login, loginWithToken, signup, verifyEmail, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,22 +1,62 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useReducer, useRef } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
 import { useAuth } from './AuthContext';
-import { getSocket, joinChat } from '@/services/socket';
+import { config } from '@/config';
+import {
+  getSocket,
+  joinChat,
+  onConnectionStatusChange,
+  subscribeToEvents,
+  sendMessage as emitSendMessage,
+  editMessage as emitEditMessage,
+  deleteMessage as emitDeleteMessage,
+  emitTyping,
+  markMessagesAsRead as emitMarkRead,
+} from '@/services/socket';
 import { chatApi } from '@/services/chatApi';
-import { handleChatError, showValidationErrorToast } from '@/utils/errorHandling';
+import {
+  enqueueMessage,
+  confirmMessage,
+  flushOutbox,
+  getOutbox,
+  startOutbox,
+  type OutboxHandlers,
+} from '@/services/chatOutbox';
+import { handleChatError, showErrorToast, showValidationErrorToast } from '@/utils/errorHandling';
+import { getMessageTypeForAttachments } from '@/utils/attachments';
+import { getHistoryCursor, prependMessages, toReplyPreview } from '@/utils/messages';
+import {
+  initChatCache,
+  cacheConversation,
+  getAllCachedConversations,
+  getCachedMessages,
+  addMessageToCache,
+  updateCachedConversation,
+  updateCachedMessage,
+  mergeCachedMessages,
+  searchCachedMessages,
+} from '@/utils/chatCache';
 import type {
   ChatMessage,
   Conversation,
+  MessageAttachment,
   MessageStatus,
+  PendingMessage,
   UIMessage,
   UIConversation,
   ParticipantRole,
   NewMessageEvent,
   MessageDeliveredEvent,
   MessageStatusChangedEvent,
+  MessageEditedEvent,
+  MessageDeletedEvent,
+  TypingIndicatorEvent,
+  ChatSearchResults,
+  MessageSearchHit,
   UserOnlineEvent,
   UserOfflineEvent,
   MissedMessagesEvent,
   ReconnectionCompleteEvent,
+  SocketErrorEvent,
 } from '@/types/chat';
 
 interface ChatContextValue {
@@ -25,13 +65,23 @@ interface ChatContextValue {
   isConnected: boolean;
 
   setActiveConversation: (conversationId: string) => void;
-  sendMessage: (conversationId: string, content: string, attachments?: File[]) => Promise<void>;
+  joinConversation: (conversationId: string) => () => void; // Receive a chat live without making it active; returns a release
+  sendMessage: (
+    conversationId: string,
+    content: string,
+    attachments?: MessageAttachment[],
+    replyTo?: ChatMessage
+  ) => Promise<void>;
+  editMessage: (conversationId: string, messageId: string, content: string) => void;
+  deleteMessage: (conversationId: string, messageId: string) => void;
+  canEditMessage: (message: ChatMessage) => boolean;
   loadConversationHistory: (conversationId: string, page?: number) => Promise<void>;
   markMessagesAsRead: (conversationId: string, messageIds: string[]) => void;
   updateMessageStatus: (messageId: string, status: MessageStatus) => void;
   addMessage: (message: ChatMessage) => void;
   retryFailedMessage: (messageId: string) => Promise<void>;
   setTypingStatus: (conversationId: string, isTyping: boolean) => void;
+  isParticipantTyping: (conversationId: string) => boolean;
   updateParticipantOnlineStatus: (participantId: string, isOnline: boolean) => void;
   getOrCreateConversation: (
     participantId: string,
@@ -39,26 +89,91 @@ interface ChatContextValue {
     participantRole: ParticipantRole,
     participantAvatar?: string
   ) => Promise<string>;
+  getCallConversation: (callId: string, participantName: string, participantAvatar?: string) => Promise<string>;
   clearUnreadCount: (conversationId: string) => void;
 
   getConversation: (conversationId: string) => UIConversation | undefined;
   getActiveConversation: () => UIConversation | undefined;
   getTotalUnreadCount: () => number;
   getConversationList: () => UIConversation[];
+
+  searchChats: (query: string) => Promise<ChatSearchResults>;
+  loadMessageContext: (conversationId: string, messageId: string) => Promise<boolean>;
 }
 
 type ConversationAction =
   | { type: 'SET_CONVERSATIONS'; payload: Conversation[] }
+  | { type: 'HYDRATE_FROM_CACHE'; payload: Array<{ conversation: Conversation; messages: ChatMessage[] }> }
   | { type: 'ADD_CONVERSATION'; payload: Conversation }
   | { type: 'UPDATE_CONVERSATION'; payload: { id: string; updates: Partial<UIConversation> } }
   | { type: 'ADD_MESSAGE'; payload: { conversationId: string; message: UIMessage } }
   | { type: 'UPDATE_MESSAGE_STATUS'; payload: { messageId: string; status: MessageStatus } }
+  | { type: 'EDIT_MESSAGE'; payload: { conversationId: string; messageId: string; content: string; editedAt?: Date } }
+  | { type: 'DELETE_MESSAGE'; payload: { conversationId: string; messageId: string; deletedAt: Date } }
   | { type: 'UPDATE_MESSAGE_ID'; payload: { tempId: string; realId: string; status: MessageStatus } }
   | { type: 'SET_MESSAGES'; payload: { conversationId: string; messages: ChatMessage[]; hasMore: boolean } }
   | { type: 'PREPEND_MESSAGES'; payload: { conversationId: string; messages: ChatMessage[]; hasMore: boolean } }
   | { type: 'UPDATE_PARTICIPANT_STATUS'; payload: { participantId: string; isOnline: boolean } }
   | { type: 'CLEAR_UNREAD_COUNT'; payload: { conversationId: string } }
-  | { type: 'INCREMENT_UNREAD_COUNT'; payload: { conversationId: string } };
+  | { type: 'INCREMENT_UNREAD_COUNT'; payload: { conversationId: string } }
+  | { type: 'UPDATE_MESSAGES_STATUS'; payload: { conversationId: string; messageIds: string[]; status: MessageStatus; at?: Date } }
+  | { type: 'MARK_MESSAGES_READ'; payload: { conversationId: string; messageIds: string[]; readAt: Date; unreadCount?: number } }
+  | { type: 'SET_UNREAD_COUNTS'; payload: Record<string, number> };
+
+/**
+ * Read receipts made in one tab are replayed in the others over this channel
+ */
+const READ_RECEIPTS_CHANNEL = 'chat-read-receipts';
+
+interface ReadReceiptBroadcast {
+  conversationId: string;
+  messageIds: string[];
+  readAt: number;
+  unreadCount: number;
+}
+
+/**
+ * Message hits shown per search, from the server or the offline cache
+ */
+const SEARCH_RESULT_LIMIT = 50;
+
+/**
+ * Older pages fetched at most when jumping to a search hit deep in history
+ */
+const MAX_CONTEXT_PAGES = 10;
+
+/**
+ * Time to wait for message_edited before an optimistic edit is undone
+ */
+const EDIT_CONFIRMATION_TIMEOUT_MS = 10000;
+
+/**
+ * An optimistic edit awaiting its message_edited echo, with what to restore if it never comes
+ */
+interface PendingEdit {
+  conversationId: string;
+  previousContent: string;
+  previousEditedAt?: Date;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Outgoing typing state for one conversation
+ */
+interface TypingSendState {
+  lastEmittedAt: number;
+  debounceTimer?: ReturnType<typeof setTimeout>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Server-driven status changes only ever move forward (delivered never overwrites read)
+ */
+const STATUS_RANK: Partial<Record<MessageStatus, number>> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
 
 function conversationsReducer(
   state: Map<string, UIConversation>,
@@ -85,6 +200,23 @@ function conversationsReducer(
       return newState;
     }
 
+    case 'HYDRATE_FROM_CACHE': {
+      // Cached data never overrides state that already arrived from the server
+      action.payload.forEach(({ conversation, messages }) => {
+        if (newState.has(conversation._id)) return;
+        newState.set(conversation._id, {
+          ...conversation,
+          messages: messages.map((msg) => ({ ...msg, isOptimistic: false, retryCount: 0 })),
+          hasMoreMessages: true,
+          isLoadingMessages: false,
+          initialHistoryLoaded: false,
+          currentPage: 1,
+          scrollPosition: 0,
+        });
+      });
+      return newState;
+    }
+
     case 'ADD_CONVERSATION': {
       if (!newState.has(action.payload._id)) {
         newState.set(action.payload._id, {
@@ -179,6 +311,37 @@ function conversationsReducer(
       return newState;
     }
 
+    case 'EDIT_MESSAGE': {
+      const conv = newState.get(action.payload.conversationId);
+      if (!conv) return state;
+
+      const { messageId, content, editedAt } = action.payload;
+      const messages = conv.messages.map((m) => {
+        if (m._id === messageId) return { ...m, content, editedAt };
+        // Keep quoted snippets in replies in step with the edit
+        if (m.replyTo?.messageId === messageId) return { ...m, replyTo: { ...m.replyTo, content } };
+        return m;
+      });
+      newState.set(action.payload.conversationId, { ...conv, messages });
+      return newState;
+    }
+
+    case 'DELETE_MESSAGE': {
+      const conv = newState.get(action.payload.conversationId);
+      if (!conv) return state;
+
+      const { messageId, deletedAt } = action.payload;
+      const messages = conv.messages.map((m) => {
+        if (m._id === messageId) return { ...m, content: '', attachments: [], isDeleted: true, deletedAt };
+        if (m.replyTo?.messageId === messageId) {
+          return { ...m, replyTo: { ...m.replyTo, content: '', isDeleted: true } };
+        }
+        return m;
+      });
+      newState.set(action.payload.conversationId, { ...conv, messages });
+      return newState;
+    }
+
     case 'UPDATE_MESSAGE_ID': {
       newState.forEach((conv, id) => {
         const messageIndex = conv.messages.findIndex((m) => m.tempId === action.payload.tempId);
@@ -227,12 +390,9 @@ function conversationsReducer(
           retryCount: 0,
         }));
 
-        const allMessages = [...uiMessages, ...conv.messages];
-        allMessages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
         newState.set(action.payload.conversationId, {
           ...conv,
-          messages: allMessages,
+          messages: prependMessages(uiMessages, conv.messages),
           hasMoreMessages: action.payload.hasMore,
           isLoadingMessages: false,
           currentPage: conv.currentPage + 1,
@@ -266,6 +426,56 @@ function conversationsReducer(
       return newState;
     }
 
+    case 'UPDATE_MESSAGES_STATUS': {
+      const conv = newState.get(action.payload.conversationId);
+      if (!conv) return state;
+
+      const ids = new Set(action.payload.messageIds);
+      const { status, at } = action.payload;
+      const messages = conv.messages.map((m) => {
+        if (!ids.has(m._id) || (STATUS_RANK[m.status] ?? 0) > (STATUS_RANK[status] ?? 0)) return m;
+        return {
+          ...m,
+          status,
+          isOptimistic: false,
+          ...(status === 'read' ? { readAt: at ?? new Date() } : {}),
+          ...(status === 'delivered' ? { deliveredAt: at ?? new Date() } : {}),
+        };
+      });
+      newState.set(action.payload.conversationId, { ...conv, messages });
+      return newState;
+    }
+
+    case 'MARK_MESSAGES_READ': {
+      const conv = newState.get(action.payload.conversationId);
+      if (!conv) return state;
+
+      const ids = new Set(action.payload.messageIds);
+      let newlyRead = 0;
+      const messages = conv.messages.map((m) => {
+        if (!ids.has(m._id) || m.status === 'read') return m;
+        newlyRead += 1;
+        return { ...m, status: 'read' as MessageStatus, readAt: action.payload.readAt };
+      });
+
+      newState.set(action.payload.conversationId, {
+        ...conv,
+        messages,
+        unreadCount: action.payload.unreadCount ?? Math.max(0, conv.unreadCount - newlyRead),
+      });
+      return newState;
+    }
+
+    case 'SET_UNREAD_COUNTS': {
+      newState.forEach((conv, id) => {
+        const unreadCount = action.payload[id] ?? 0;
+        if (conv.unreadCount !== unreadCount) {
+          newState.set(id, { ...conv, unreadCount });
+        }
+      });
+      return newState;
+    }
+
     default:
       return state;
   }
@@ -277,8 +487,16 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const { user, isAuthenticated } = useAuth();
   const [conversations, dispatch] = useReducer(conversationsReducer, new Map());
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [backgroundConversationIds, setBackgroundConversationIds] = useState<string[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const joinedSessionsRef = useRef<Set<string>>(new Set());
+  const readBroadcastRef = useRef<BroadcastChannel | null>(null);
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  const [typingConversations, setTypingConversations] = useState<Set<string>>(new Set());
+  const typingSendersRef = useRef<Map<string, TypingSendState>>(new Map());
+  const typingExpiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const pendingEditsRef = useRef<Map<string, PendingEdit>>(new Map());
 
   const generateTempId = useCallback(() => {
     return `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -294,61 +512,180 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     return { isValid: true };
   }, []);
 
+  /**
+   * Outbox callbacks - the outbox owns ordering and retries, ChatContext owns the wire format
+   */
+  const outboxHandlers = useMemo<OutboxHandlers>(() => ({
+    send: async (pending: PendingMessage) => {
+      emitSendMessage({
+        sessionId: pending.conversationId,
+        content: pending.content,
+        tempId: pending.tempId,
+        type: getMessageTypeForAttachments(pending.attachments),
+        attachments: pending.attachments,
+        replyToId: pending.replyTo?.messageId,
+      });
+    },
+    onStatusChange: (pending: PendingMessage, status: MessageStatus) => {
+      dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId: pending.tempId, status } });
+    },
+  }), []);
+
+  const buildOptimisticMessage = useCallback(
+    (pending: PendingMessage, status: MessageStatus): UIMessage | null => {
+      if (!user) return null;
+      return {
+        _id: pending.tempId,
+        conversationId: pending.conversationId,
+        senderId: user._id,
+        senderName: user.name,
+        senderAvatar: user.avatar,
+        senderType: user.role as ParticipantRole,
+        content: pending.content,
+        type: getMessageTypeForAttachments(pending.attachments),
+        attachments: pending.attachments || [],
+        replyTo: pending.replyTo,
+        status,
+        timestamp: new Date(pending.timestamp),
+        isDeleted: false,
+        isOptimistic: true,
+        tempId: pending.tempId,
+        retryCount: pending.retryCount,
+      };
+    },
+    [user]
+  );
+
   const sendMessage = useCallback(
-    async (conversationId: string, content: string, attachments?: File[]) => {
-      const validation = validateMessage(content);
+    async (conversationId: string, content: string, attachments?: MessageAttachment[], replyTo?: ChatMessage) => {
+      const hasAttachments = (attachments?.length ?? 0) > 0;
+      const validation = hasAttachments && content.length <= 2000 ? { isValid: true } : validateMessage(content);
       if (!validation.isValid) {
         showValidationErrorToast(validation.error || 'Invalid message');
         throw new Error(validation.error);
       }
 
-      const socket = getSocket();
       if (!user) throw new Error('User not authenticated');
 
       const tempId = generateTempId();
-      const messageStatus: MessageStatus = !socket?.connected ? 'failed' : 'sending';
+      const isOnline = getSocket()?.connected ?? false;
+      const replyPreview = replyTo && toReplyPreview(replyTo);
 
-      const optimisticMessage: UIMessage = {
-        _id: tempId,
-        conversationId,
-        senderId: user._id,
-        senderName: user.name,
-        senderAvatar: user.avatar,
-        senderType: user.role as ParticipantRole,
-        content,
-        type: 'text',
-        attachments: [],
-        status: messageStatus,
-        timestamp: new Date(),
-        isDeleted: false,
-        isOptimistic: true,
-        tempId,
-        retryCount: 0,
-      };
+      // Offline messages are queued rather than failed; the outbox sends them on reconnect
+      const optimisticMessage = buildOptimisticMessage(
+        { tempId, conversationId, content, attachments, replyTo: replyPreview, timestamp: Date.now(), retryCount: 0 },
+        isOnline ? 'sending' : 'queued'
+      );
 
       dispatch({
         type: 'ADD_MESSAGE',
         payload: { conversationId, message: optimisticMessage },
       });
 
-      if (!socket?.connected) {
-        throw new Error('Not connected');
+      enqueueMessage(tempId, conversationId, content, attachments, replyPreview);
+      flushOutbox(outboxHandlers).catch((error) => {
+        handleChatError(error, { action: 'send message', conversationId });
+      });
+    },
+    [user, validateMessage, generateTempId, buildOptimisticMessage, outboxHandlers]
+  );
+
+  const canEditMessage = useCallback(
+    (message: ChatMessage) =>
+      !!user &&
+      message.senderType === user.role &&
+      !message.isDeleted &&
+      message.type === 'text' &&
+      Date.now() - new Date(message.timestamp).getTime() < config.chat.messageEditWindowMs,
+    [user]
+  );
+
+  /**
+   * Put back the content an unconfirmed edit replaced
+   */
+  const rollbackEdit = useCallback((messageId: string, reason: string) => {
+    const pending = pendingEditsRef.current.get(messageId);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingEditsRef.current.delete(messageId);
+
+    const { conversationId, previousContent, previousEditedAt } = pending;
+    dispatch({
+      type: 'EDIT_MESSAGE',
+      payload: { conversationId, messageId, content: previousContent, editedAt: previousEditedAt },
+    });
+    updateCachedMessage(conversationId, messageId, { content: previousContent, editedAt: previousEditedAt });
+    showErrorToast(reason, { title: 'Edit not saved' });
+  }, []);
+
+  /**
+   * Edit an own message; applied optimistically and confirmed by message_edited
+   * Rolled back if the server rejects it or does not confirm it in time
+   */
+  const editMessage = useCallback(
+    (conversationId: string, messageId: string, content: string) => {
+      const message = conversations.get(conversationId)?.messages.find((m) => m._id === messageId);
+      if (!message || message.isOptimistic) return;
+
+      if (!canEditMessage(message)) {
+        showValidationErrorToast('This message can no longer be edited');
+        return;
+      }
+
+      const validation = validateMessage(content);
+      if (!validation.isValid) {
+        showValidationErrorToast(validation.error || 'Invalid message');
+        return;
       }
+      if (content === message.content) return;
 
       try {
-        if (attachments?.length) {
-          const uploads = attachments.map(chatApi.uploadAttachment);
-          await Promise.all(uploads);
-        }
+        emitEditMessage({ sessionId: conversationId, messageId, content });
+      } catch (error) {
+        handleChatError(error, { action: 'edit message', conversationId });
+        return;
+      }
+
+      // A repeated edit keeps the last confirmed content to fall back to
+      const earlier = pendingEditsRef.current.get(messageId);
+      clearTimeout(earlier?.timer);
+      pendingEditsRef.current.set(messageId, {
+        conversationId,
+        previousContent: earlier ? earlier.previousContent : message.content,
+        previousEditedAt: earlier ? earlier.previousEditedAt : message.editedAt,
+        timer: setTimeout(
+          () => rollbackEdit(messageId, 'The server did not confirm the edit, so the message was changed back.'),
+          EDIT_CONFIRMATION_TIMEOUT_MS
+        ),
+      });
+
+      const editedAt = new Date();
+      dispatch({ type: 'EDIT_MESSAGE', payload: { conversationId, messageId, content, editedAt } });
+      updateCachedMessage(conversationId, messageId, { content, editedAt });
+    },
+    [conversations, canEditMessage, validateMessage, rollbackEdit]
+  );
 
-        socket.emit('send_message', { sessionId: conversationId, content, tempId });
+  /**
+   * Delete an own message for everyone, leaving a tombstone in its place
+   */
+  const deleteMessage = useCallback(
+    (conversationId: string, messageId: string) => {
+      const message = conversations.get(conversationId)?.messages.find((m) => m._id === messageId);
+      if (!message || message.isOptimistic || message.isDeleted || message.senderType !== user?.role) return;
+
+      try {
+        emitDeleteMessage({ sessionId: conversationId, messageId });
       } catch (error) {
-        dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId: tempId, status: 'failed' } });
-        handleChatError(error, { action: 'send message', conversationId });
-        throw error;
+        handleChatError(error, { action: 'delete message', conversationId });
+        return;
       }
+
+      const deletedAt = new Date();
+      dispatch({ type: 'DELETE_MESSAGE', payload: { conversationId, messageId, deletedAt } });
+      updateCachedMessage(conversationId, messageId, { content: '', attachments: [], isDeleted: true, deletedAt });
     },
-    [user, validateMessage, generateTempId]
+    [conversations, user]
   );
 
   const addMessage = useCallback((message: ChatMessage) => {
@@ -356,29 +693,43 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
       type: 'ADD_MESSAGE',
       payload: { conversationId: message.conversationId, message: { ...message, isOptimistic: false, retryCount: 0 } },
     });
+    addMessageToCache(message.conversationId, message);
   }, []);
 
   const updateMessageStatus = useCallback((messageId: string, status: MessageStatus) => {
     dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId, status } });
   }, []);
 
+  /**
+   * Load the newest page (page 1), or the next older page for any later page
+   * Older pages use the 'before' cursor from the oldest loaded message, the same as loadMessageContext,
+   * so pages stay contiguous whatever was loaded in between
+   */
   const loadConversationHistory = useCallback(
     async (conversationId: string, page: number = 1) => {
       const conversation = conversations.get(conversationId);
       if (!conversation || conversation.isLoadingMessages) return;
 
+      const before = page > 1 ? getHistoryCursor(conversation.messages) : undefined;
+
       try {
         dispatch({ type: 'UPDATE_CONVERSATION', payload: { id: conversationId, updates: { isLoadingMessages: true } } });
-        const response = await chatApi.getMessages(conversationId, { conversationId, page, limit: 50 });
+        const response = await chatApi.getMessages(
+          conversationId,
+          before
+            ? { conversationId, before, limit: config.chat.messageLoadLimit }
+            : { conversationId, page, limit: config.chat.messageLoadLimit }
+        );
 
         const messages = response.messages.map(msg => ({
           ...msg,
           conversationId,
           timestamp: new Date(msg.timestamp),
         }));
-
+        // Only the newest page is merged with and written back to the cache
         if (page === 1) {
-          dispatch({ type: 'SET_MESSAGES', payload: { conversationId, messages, hasMore: response.hasMore } });
+          const merged = mergeCachedMessages(conversationId, messages);
+          dispatch({ type: 'SET_MESSAGES', payload: { conversationId, messages: merged, hasMore: response.hasMore } });
         } else {
           dispatch({ type: 'PREPEND_MESSAGES', payload: { conversationId, messages, hasMore: response.hasMore } });
         }
@@ -392,7 +743,127 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     [conversations]
   );
 
-  const markMessagesAsRead = useCallback((conversationId: string, messageIds: string[]) => { }, []);
+  /**
+   * Search participant names locally and message contents on the server
+   * Falls back to the local chat cache when offline or when the request fails
+   */
+  const searchChats = useCallback(async (query: string): Promise<ChatSearchResults> => {
+    const trimmed = query.trim();
+    const needle = trimmed.toLowerCase();
+    const conversationList = Array.from(conversationsRef.current.values());
+
+    const matchingConversations = conversationList.filter((conv) =>
+      conv.participantName?.toLowerCase().includes(needle)
+    );
+
+    const knownIds = new Set(conversationList.map((conv) => conv._id));
+    let hits: MessageSearchHit[];
+    let fromCache = false;
+
+    if (getSocket()?.connected || navigator.onLine) {
+      try {
+        hits = (await chatApi.searchMessages({ query: trimmed, limit: SEARCH_RESULT_LIMIT })).hits;
+      } catch (error) {
+        console.error('Chat search failed, searching cache instead:', error);
+        hits = searchCachedMessages(trimmed, SEARCH_RESULT_LIMIT);
+        fromCache = true;
+      }
+    } else {
+      hits = searchCachedMessages(trimmed, SEARCH_RESULT_LIMIT);
+      fromCache = true;
+    }
+
+    return {
+      query: trimmed,
+      conversations: matchingConversations,
+      messages: hits.filter((hit) => knownIds.has(hit.conversationId)),
+      fromCache,
+    };
+  }, []);
+
+  /**
+   * Page history backwards with the 'before' cursor until a message is loaded
+   * Returns false if the message could not be found within MAX_CONTEXT_PAGES
+   */
+  const loadMessageContext = useCallback(async (conversationId: string, messageId: string): Promise<boolean> => {
+    const conversation = conversationsRef.current.get(conversationId);
+    if (!conversation) return false;
+
+    let known: ChatMessage[] = conversation.messages;
+    let hasMore = conversation.hasMoreMessages;
+
+    try {
+      if (!conversation.initialHistoryLoaded) {
+        const response = await chatApi.getMessages(conversationId, {
+          conversationId,
+          page: 1,
+          limit: config.chat.messageLoadLimit,
+        });
+        known = mergeCachedMessages(
+          conversationId,
+          response.messages.map((msg) => ({ ...msg, conversationId, timestamp: new Date(msg.timestamp) }))
+        );
+        hasMore = response.hasMore;
+        dispatch({ type: 'SET_MESSAGES', payload: { conversationId, messages: known, hasMore } });
+      }
+
+      for (let page = 0; page < MAX_CONTEXT_PAGES && hasMore; page++) {
+        if (known.some((m) => m._id === messageId)) break;
+
+        const before = getHistoryCursor(known);
+        if (!before) break;
+
+        const response = await chatApi.getMessages(conversationId, {
+          conversationId,
+          before,
+          limit: config.chat.messageLoadLimit,
+        });
+        const older = response.messages.map((msg) => ({ ...msg, conversationId, timestamp: new Date(msg.timestamp) }));
+        hasMore = response.hasMore;
+        known = [...older, ...known];
+        dispatch({ type: 'PREPEND_MESSAGES', payload: { conversationId, messages: older, hasMore } });
+      }
+    } catch (error) {
+      handleChatError(error, { action: 'load messages', conversationId });
+      return false;
+    }
+
+    return known.some((m) => m._id === messageId);
+  }, []);
+
+  /**
+   * Mark incoming messages as read once they have actually been seen
+   * Updates local state, the cache and other tabs, then notifies the server
+   */
+  const markMessagesAsRead = useCallback(
+    (conversationId: string, messageIds: string[]) => {
+      const conversation = conversations.get(conversationId);
+      if (!conversation || !user) return;
+
+      const ids = new Set(messageIds);
+      const unreadIds = conversation.messages
+        .filter((m) => ids.has(m._id) && m.status !== 'read' && !m.isOptimistic && m.senderType !== user.role)
+        .map((m) => m._id);
+      if (unreadIds.length === 0) return;
+
+      const readAt = new Date();
+      const unreadCount = Math.max(0, conversation.unreadCount - unreadIds.length);
+
+      dispatch({ type: 'MARK_MESSAGES_READ', payload: { conversationId, messageIds: unreadIds, readAt, unreadCount } });
+      unreadIds.forEach((id) => updateCachedMessage(conversationId, id, { status: 'read', readAt }));
+      updateCachedConversation(conversationId, { unreadCount });
+
+      const broadcast: ReadReceiptBroadcast = { conversationId, messageIds: unreadIds, readAt: readAt.getTime(), unreadCount };
+      readBroadcastRef.current?.postMessage(broadcast);
+
+      if (!emitMarkRead(conversationId, unreadIds)) {
+        chatApi.markAsRead(conversationId, unreadIds).catch((error) => {
+          console.error('Failed to mark messages as read:', error);
+        });
+      }
+    },
+    [conversations, user]
+  );
 
   const retryFailedMessage = useCallback(
     async (messageId: string) => {
@@ -410,18 +881,111 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
 
       if (!foundMessage || !convId) throw new Error('Message not found');
 
-      dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId, status: 'sending' } });
-      try {
-        await sendMessage(convId, foundMessage.content);
-      } catch (error) {
-        dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId, status: 'failed' } });
-        throw error;
+      // Re-queue under the original tempId so the retry replaces the failed bubble
+      const tempId = foundMessage.tempId || foundMessage._id;
+      const isOnline = getSocket()?.connected ?? false;
+      dispatch({ type: 'UPDATE_MESSAGE_STATUS', payload: { messageId, status: isOnline ? 'sending' : 'queued' } });
+      enqueueMessage(tempId, convId, foundMessage.content, foundMessage.attachments, foundMessage.replyTo);
+      await flushOutbox(outboxHandlers);
+    },
+    [conversations, outboxHandlers]
+  );
+
+  const stopTyping = useCallback((conversationId: string) => {
+    const state = typingSendersRef.current.get(conversationId);
+    if (!state) return;
+
+    clearTimeout(state.debounceTimer);
+    clearTimeout(state.idleTimer);
+    typingSendersRef.current.delete(conversationId);
+    if (state.lastEmittedAt) emitTyping(conversationId, false);
+  }, []);
+
+  /**
+   * Report local typing activity
+   * typing_start is debounced and re-sent before the receiver's timeout while typing continues;
+   * typing_stop is sent on demand or once input has been idle for typingTimeoutMs
+   */
+  const setTypingStatus = useCallback(
+    (conversationId: string, isTyping: boolean) => {
+      if (!isTyping) {
+        stopTyping(conversationId);
+        return;
       }
+
+      const senders = typingSendersRef.current;
+      const state = senders.get(conversationId) ?? { lastEmittedAt: 0 };
+      senders.set(conversationId, state);
+
+      const isStale = Date.now() - state.lastEmittedAt > config.chat.typingTimeoutMs / 2;
+      if (isStale && !state.debounceTimer) {
+        state.debounceTimer = setTimeout(() => {
+          state.debounceTimer = undefined;
+          state.lastEmittedAt = Date.now();
+          emitTyping(conversationId, true);
+        }, config.chat.typingDebounceMs);
+      }
+
+      clearTimeout(state.idleTimer);
+      state.idleTimer = setTimeout(() => stopTyping(conversationId), config.chat.typingTimeoutMs);
     },
-    [conversations, sendMessage]
+    [stopTyping]
   );
 
-  const setTypingStatus = useCallback((conversationId: string, isTyping: boolean) => { }, []);
+  /**
+   * Track the remote participant's typing state
+   * Expires on its own if the matching typing_stop never arrives
+   */
+  const setParticipantTyping = useCallback((conversationId: string, isTyping: boolean) => {
+    const timers = typingExpiryTimersRef.current;
+    clearTimeout(timers.get(conversationId));
+    timers.delete(conversationId);
+
+    if (isTyping) {
+      timers.set(
+        conversationId,
+        setTimeout(() => setParticipantTyping(conversationId, false), config.chat.typingTimeoutMs)
+      );
+    }
+
+    setTypingConversations((prev) => {
+      if (prev.has(conversationId) === isTyping) return prev;
+      const next = new Set(prev);
+      if (isTyping) {
+        next.add(conversationId);
+      } else {
+        next.delete(conversationId);
+      }
+      return next;
+    });
+  }, []);
+
+  const isParticipantTyping = useCallback(
+    (conversationId: string) => typingConversations.has(conversationId),
+    [typingConversations]
+  );
+
+  useEffect(() => {
+    const senders = typingSendersRef.current;
+    const expiryTimers = typingExpiryTimersRef.current;
+    return () => {
+      senders.forEach((state) => {
+        clearTimeout(state.debounceTimer);
+        clearTimeout(state.idleTimer);
+      });
+      senders.clear();
+      expiryTimers.forEach((timer) => clearTimeout(timer));
+      expiryTimers.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const pendingEdits = pendingEditsRef.current;
+    return () => {
+      pendingEdits.forEach((pending) => clearTimeout(pending.timer));
+      pendingEdits.clear();
+    };
+  }, []);
 
   const updateParticipantOnlineStatus = useCallback((participantId: string, isOnline: boolean) => {
     dispatch({ type: 'UPDATE_PARTICIPANT_STATUS', payload: { participantId, isOnline } });
@@ -446,6 +1010,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         };
 
         dispatch({ type: 'ADD_CONVERSATION', payload: conversation });
+        cacheConversation(conversation._id, conversation);
         return conversation._id;
       } catch (error) {
         handleChatError(error, { action: 'create conversation' });
@@ -455,17 +1020,50 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     []
   );
 
+  // The call page already knows who is on the other end; the session may not be populated
+  const getCallConversation = useCallback(
+    async (callId: string, name: string, avatar?: string): Promise<string> => {
+      try {
+        const conversation = await chatApi.getCallConversation(callId);
+        if (!conversation._id) throw new Error('Invalid server response');
+
+        const named: Conversation = {
+          ...conversation,
+          participantName: name || conversation.participantName,
+          participantAvatar: avatar || conversation.participantAvatar,
+        };
+        dispatch({ type: 'ADD_CONVERSATION', payload: named });
+        cacheConversation(named._id, named);
+        return named._id;
+      } catch (error) {
+        handleChatError(error, { action: 'open call chat' });
+        throw error;
+      }
+    },
+    []
+  );
+
   const clearUnreadCount = useCallback((conversationId: string) => {
     dispatch({ type: 'CLEAR_UNREAD_COUNT', payload: { conversationId } });
   }, []);
 
-  const setActiveConversation = useCallback(
-    (conversationId: string) => {
-      setActiveConversationId(conversationId);
-      clearUnreadCount(conversationId);
-    },
-    [clearUnreadCount]
-  );
+  // Unread counts are cleared by markMessagesAsRead as messages scroll into view
+  const setActiveConversation = useCallback((conversationId: string) => {
+    setActiveConversationId(conversationId);
+  }, []);
+
+  /**
+   * Keep a conversation's room joined alongside the active one, e.g. the chat of a call in progress
+   */
+  const joinConversation = useCallback((conversationId: string) => {
+    setBackgroundConversationIds((prev) => [...prev, conversationId]);
+    return () => {
+      setBackgroundConversationIds((prev) => {
+        const index = prev.indexOf(conversationId);
+        return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+      });
+    };
+  }, []);
 
   const ensureJoined = useCallback((sessionId: string) => {
     if (!isConnected || !sessionId) return;
@@ -498,10 +1096,34 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     if (!isAuthenticated || !user) return;
 
     const loadConversations = async () => {
+      // Show cached conversations instantly, then refresh from the server
+      try {
+        await initChatCache(user._id);
+        const cached = getAllCachedConversations().map((conversation) => ({
+          conversation,
+          messages: getCachedMessages(conversation._id) || [],
+        }));
+        if (cached.length > 0) {
+          dispatch({ type: 'HYDRATE_FROM_CACHE', payload: cached });
+        }
+
+        // Messages queued before a reload reappear as queued bubbles
+        getOutbox().forEach((pending) => {
+          const message = buildOptimisticMessage(pending, 'queued');
+          if (message) {
+            dispatch({ type: 'ADD_MESSAGE', payload: { conversationId: pending.conversationId, message } });
+          }
+        });
+        flushOutbox(outboxHandlers);
+      } catch (error) {
+        console.error('Error reading chat cache:', error);
+      }
+
       try {
         const response = await chatApi.getConversations();
         if (response?.conversations) {
           dispatch({ type: 'SET_CONVERSATIONS', payload: response.conversations });
+          response.conversations.forEach((conv) => cacheConversation(conv._id, conv));
         }
       } catch (error) {
         console.error('Error loading conversations:', error);
@@ -509,32 +1131,105 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     };
 
     loadConversations();
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, buildOptimisticMessage, outboxHandlers]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startOutbox(outboxHandlers);
+  }, [isAuthenticated, outboxHandlers]);
 
+  // Keyed on the session like the outbox above, as logging out clears status listeners
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
+    if (!isAuthenticated || !user) return;
 
-    const onConnect = () => setIsConnected(true);
-    const onDisconnect = () => setIsConnected(false);
+    return onConnectionStatusChange((status) => {
+      // Rooms belong to the connection; a new one has to join them again
+      if (status !== 'connected') joinedSessionsRef.current.clear();
+      setIsConnected(status === 'connected');
+    });
+  }, [isAuthenticated, user]);
 
+  useEffect(() => {
     const onNewMessage = (payload: NewMessageEvent) => {
       const msg: ChatMessage = {
+        senderName: '',
+        type: 'text',
+        isDeleted: false,
         ...payload.message,
         conversationId: payload.sessionId,
       };
+      if (payload.message.tempId) {
+        confirmMessage(payload.message.tempId);
+      }
       addMessage(msg);
-      if (activeConversationId !== payload.sessionId) {
+      // Counted as unread until MessageList reports it visible
+      if (payload.message.senderType !== user?.role) {
+        setParticipantTyping(payload.sessionId, false);
         dispatch({ type: 'INCREMENT_UNREAD_COUNT', payload: { conversationId: payload.sessionId } });
       }
     };
 
     const onMessageDelivered = (payload: MessageDeliveredEvent) => {
+      if (payload.tempId) {
+        confirmMessage(payload.tempId);
+        dispatch({ type: 'UPDATE_MESSAGE_ID', payload: { tempId: payload.tempId, realId: payload.messageId, status: 'delivered' } });
+      }
       updateMessageStatus(payload.messageId, 'delivered');
+      updateCachedMessage(payload.sessionId, payload.messageId, { status: 'delivered' });
     };
 
     const onMessageStatusChanged = (payload: MessageStatusChangedEvent) => {
-      updateMessageStatus(payload.messageId, payload.status);
+      // Our own read receipts echoed from another device
+      if (payload.status === 'read' && payload.readBy && payload.readBy === user?._id) {
+        dispatch({
+          type: 'MARK_MESSAGES_READ',
+          payload: { conversationId: payload.sessionId, messageIds: payload.messageIds, readAt: new Date(payload.readAt || Date.now()) },
+        });
+        return;
+      }
+
+      const at = payload.status === 'read' ? payload.readAt : payload.deliveredAt;
+      dispatch({
+        type: 'UPDATE_MESSAGES_STATUS',
+        payload: {
+          conversationId: payload.sessionId,
+          messageIds: payload.messageIds,
+          status: payload.status,
+          at: at ? new Date(at) : undefined,
+        },
+      });
+      payload.messageIds.forEach((id) => {
+        updateCachedMessage(payload.sessionId, id, {
+          status: payload.status,
+          ...(payload.status === 'read' ? { readAt: at ? new Date(at) : new Date() } : {}),
+        });
+      });
+    };
+
+    const onMessageEdited = (payload: MessageEditedEvent) => {
+      const pending = pendingEditsRef.current.get(payload.messageId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        pendingEditsRef.current.delete(payload.messageId);
+      }
+
+      const editedAt = new Date(payload.editedAt);
+      dispatch({
+        type: 'EDIT_MESSAGE',
+        payload: { conversationId: payload.sessionId, messageId: payload.messageId, content: payload.content, editedAt },
+      });
+      updateCachedMessage(payload.sessionId, payload.messageId, { content: payload.content, editedAt });
+    };
+
+    const onMessageDeleted = (payload: MessageDeletedEvent) => {
+      const deletedAt = new Date(payload.deletedAt ?? Date.now());
+      dispatch({ type: 'DELETE_MESSAGE', payload: { conversationId: payload.sessionId, messageId: payload.messageId, deletedAt } });
+      updateCachedMessage(payload.sessionId, payload.messageId, { content: '', attachments: [], isDeleted: true, deletedAt });
+    };
+
+    const onTypingIndicator = (payload: TypingIndicatorEvent) => {
+      if (payload.userId === user?._id) return;
+      setParticipantTyping(payload.sessionId, payload.isTyping);
     };
 
     const onUserOnline = (payload: UserOnlineEvent) => {
@@ -547,7 +1242,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
 
     const onMissedMessages = (payload: MissedMessagesEvent) => {
       payload.messages.forEach(msg => {
-        addMessage({ ...msg, conversationId: payload.sessionId });
+        addMessage({ senderName: '', type: 'text', isDeleted: false, ...msg, conversationId: payload.sessionId });
       });
     };
 
@@ -555,56 +1250,106 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
       setIsConnected(true);
     };
 
-    socket.on('connect', onConnect);
-    socket.on('disconnect', onDisconnect);
-    socket.on('new_message', onNewMessage);
-    socket.on('message_delivered', onMessageDelivered);
-    socket.on('message_status_changed', onMessageStatusChanged);
-    socket.on('user_online', onUserOnline);
-    socket.on('user_offline', onUserOffline);
-    socket.on('missed_messages', onMissedMessages);
-    socket.on('reconnection_complete', onReconnectionComplete);
+    // Errors carry no message id; edits are answered in order, so it belongs to the oldest pending one
+    const onSocketError = (payload: SocketErrorEvent) => {
+      if (payload.event !== 'edit_message') return;
+      const [messageId] = pendingEditsRef.current.keys();
+      if (messageId) rollbackEdit(messageId, payload.message || 'The edit was rejected, so the message was changed back.');
+    };
 
-    if (socket.connected) setIsConnected(true);
+    return subscribeToEvents({
+      new_message: onNewMessage,
+      message_delivered: onMessageDelivered,
+      message_status_changed: onMessageStatusChanged,
+      message_edited: onMessageEdited,
+      message_deleted: onMessageDeleted,
+      typing_indicator: onTypingIndicator,
+      user_online: onUserOnline,
+      user_offline: onUserOffline,
+      missed_messages: onMissedMessages,
+      reconnection_complete: onReconnectionComplete,
+      error: onSocketError,
+    });
+  }, [addMessage, updateMessageStatus, updateParticipantOnlineStatus, setParticipantTyping, rollbackEdit, activeConversationId, user]);
+
+  useEffect(() => {
+    if (!isAuthenticated || typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(READ_RECEIPTS_CHANNEL);
+    channel.onmessage = (event: MessageEvent<ReadReceiptBroadcast>) => {
+      const { conversationId, messageIds, readAt, unreadCount } = event.data;
+      dispatch({ type: 'MARK_MESSAGES_READ', payload: { conversationId, messageIds, readAt: new Date(readAt), unreadCount } });
+    };
+    readBroadcastRef.current = channel;
+
+    return () => {
+      channel.close();
+      readBroadcastRef.current = null;
+    };
+  }, [isAuthenticated]);
+
+  /**
+   * Reconcile unread counts with the server on (re)connect and when the tab regains focus
+   */
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const syncUnreadCounts = () => {
+      chatApi
+        .getUnreadCount()
+        .then((response) => dispatch({ type: 'SET_UNREAD_COUNTS', payload: response.byConversation }))
+        .catch((error) => console.error('Error syncing unread counts:', error));
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncUnreadCounts();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const unsubscribe = onConnectionStatusChange((status) => {
+      if (status === 'connected') syncUnreadCounts();
+    });
 
     return () => {
-      socket.off('connect', onConnect);
-      socket.off('disconnect', onDisconnect);
-      socket.off('new_message', onNewMessage);
-      socket.off('message_delivered', onMessageDelivered);
-      socket.off('message_status_changed', onMessageStatusChanged);
-      socket.off('user_online', onUserOnline);
-      socket.off('user_offline', onUserOffline);
-      socket.off('missed_messages', onMissedMessages);
-      socket.off('reconnection_complete', onReconnectionComplete);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribe();
     };
-  }, [addMessage, updateMessageStatus, updateParticipantOnlineStatus, activeConversationId]);
+  }, [isAuthenticated]);
 
   useEffect(() => {
     if (activeConversationId) {
       ensureJoined(activeConversationId);
     }
-  }, [activeConversationId, ensureJoined]);
+    backgroundConversationIds.forEach(ensureJoined);
+  }, [activeConversationId, backgroundConversationIds, ensureJoined]);
 
   const value: ChatContextValue = {
     conversations,
     activeConversationId,
     isConnected,
     setActiveConversation,
+    joinConversation,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    canEditMessage,
     loadConversationHistory,
     markMessagesAsRead,
     updateMessageStatus,
     addMessage,
     retryFailedMessage,
     setTypingStatus,
+    isParticipantTyping,
     updateParticipantOnlineStatus,
     getOrCreateConversation,
+    getCallConversation,
     clearUnreadCount,
     getConversation,
     getActiveConversation,
     getTotalUnreadCount,
     getConversationList,
+    searchChats,
+    loadMessageContext,
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
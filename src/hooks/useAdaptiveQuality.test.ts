@@ -0,0 +1,130 @@
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VideoEncoderConfigurationPreset } from 'agora-rtc-sdk-ng';
+import { config } from '@/config';
+import { useAdaptiveQuality, type QualityAdjustment } from './useAdaptiveQuality';
+
+// Agora reports network quality about every two seconds
+const SAMPLE_SECONDS = 2;
+const EXCELLENT = 1;
+const POOR = 4;
+
+interface Props {
+  adaptive: boolean;
+  autoAudioOnly: boolean;
+  uplink: number;
+  downlink: number;
+}
+
+function renderAdaptiveQuality(initial: Partial<Props> = {}) {
+  const adjustments: QualityAdjustment[] = [];
+  const setVideoProfile = vi.fn(async (_profile: VideoEncoderConfigurationPreset) => undefined);
+  const switchToAudioOnly = vi.fn(async () => undefined);
+  let props: Props = { adaptive: true, autoAudioOnly: false, uplink: EXCELLENT, downlink: EXCELLENT, ...initial };
+
+  const hook = renderHook(
+    (current: Props) =>
+      useAdaptiveQuality({
+        isActive: true,
+        adaptive: current.adaptive,
+        autoAudioOnly: current.autoAudioOnly,
+        networkQuality: { uplinkNetworkQuality: current.uplink, downlinkNetworkQuality: current.downlink },
+        setVideoProfile,
+        switchToAudioOnly,
+        onAdjust: (adjustment) => adjustments.push(adjustment),
+      }),
+    { initialProps: props }
+  );
+
+  /**
+   * Deliver one reading per sample interval for the given number of seconds
+   */
+  const report = async (seconds: number, changes: Partial<Props>) => {
+    for (let elapsed = 0; elapsed < seconds; elapsed += SAMPLE_SECONDS) {
+      await act(async () => {
+        vi.advanceTimersByTime(SAMPLE_SECONDS * 1000);
+        props = { ...props, ...changes };
+        hook.rerender(props);
+      });
+    }
+  };
+
+  return { hook, report, adjustments, setVideoProfile, switchToAudioOnly };
+}
+
+describe('useAdaptiveQuality', () => {
+  const profiles = config.call.videoProfiles;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('ignores a single poor reading', async () => {
+    const { report, setVideoProfile } = renderAdaptiveQuality();
+
+    await report(SAMPLE_SECONDS, { uplink: POOR });
+    await report(config.call.qualityStepDownSeconds * 2, { uplink: EXCELLENT });
+
+    expect(setVideoProfile).not.toHaveBeenCalled();
+  });
+
+  it('steps the camera down one profile per sustained stretch of poor uplink', async () => {
+    const { hook, report, adjustments } = renderAdaptiveQuality();
+
+    await report(config.call.qualityStepDownSeconds + SAMPLE_SECONDS, { uplink: POOR });
+    expect(hook.result.current.videoProfile).toBe(profiles[1]);
+    expect(hook.result.current.isReduced).toBe(true);
+
+    await report(config.call.qualityStepDownSeconds, { uplink: POOR });
+    expect(hook.result.current.videoProfile).toBe(profiles[2]);
+    expect(adjustments).toEqual([
+      { type: 'video_profile', profile: profiles[1], direction: 'down' },
+      { type: 'video_profile', profile: profiles[2], direction: 'down' },
+    ]);
+  });
+
+  it('steps back up only after the uplink has stayed good for longer', async () => {
+    const { hook, report } = renderAdaptiveQuality();
+    await report(config.call.qualityStepDownSeconds + SAMPLE_SECONDS, { uplink: POOR });
+
+    await report(config.call.qualityStepDownSeconds + SAMPLE_SECONDS, { uplink: EXCELLENT });
+    expect(hook.result.current.videoProfile).toBe(profiles[1]);
+
+    await report(config.call.qualityStepUpSeconds, { uplink: EXCELLENT });
+    expect(hook.result.current.videoProfile).toBe(profiles[0]);
+    expect(hook.result.current.isReduced).toBe(false);
+  });
+
+  it('does not step below the lowest profile', async () => {
+    const { hook, report, setVideoProfile } = renderAdaptiveQuality();
+
+    await report((config.call.qualityStepDownSeconds + SAMPLE_SECONDS) * profiles.length * 2, { uplink: POOR });
+
+    expect(hook.result.current.videoProfile).toBe(profiles[profiles.length - 1]);
+    expect(setVideoProfile).toHaveBeenCalledTimes(profiles.length - 1);
+  });
+
+  it('falls back to audio only when the call stays poor in either direction', async () => {
+    const { report, switchToAudioOnly, adjustments } = renderAdaptiveQuality({ adaptive: false, autoAudioOnly: true });
+
+    await report(config.call.audioOnlyFallbackSeconds + SAMPLE_SECONDS, { downlink: POOR });
+
+    expect(switchToAudioOnly).toHaveBeenCalledTimes(1);
+    expect(adjustments).toEqual([{ type: 'audio_only' }]);
+  });
+
+  it('goes back to full quality when adaptive quality is switched off part-way down', async () => {
+    const { hook, report } = renderAdaptiveQuality();
+    await report(config.call.qualityStepDownSeconds + SAMPLE_SECONDS, { uplink: POOR });
+
+    await report(SAMPLE_SECONDS, { adaptive: false });
+
+    expect(hook.result.current.videoProfile).toBe(profiles[0]);
+  });
+});
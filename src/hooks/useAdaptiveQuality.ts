@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from 'react';
+import type { VideoEncoderConfigurationPreset } from 'agora-rtc-sdk-ng';
+import type { NetworkQualityStats } from '@/hooks/useOneToOneCall';
+import { config } from '@/config';
+
+// Agora's scale: 1 excellent, 2 good, 3 fair, 4 poor, 5 bad, 6 down; 0 not known yet
+const POOR_QUALITY = 4;
+const GOOD_QUALITY = 2;
+
+export type QualityAdjustment =
+  | { type: 'video_profile'; profile: VideoEncoderConfigurationPreset; direction: 'down' | 'up' }
+  | { type: 'audio_only' };
+
+interface AdaptiveQualityOptions {
+  isActive: boolean; // Joined and sending video
+  adaptive: boolean; // Step the camera profile with the uplink
+  autoAudioOnly: boolean; // Drop to audio only when the call stays poor
+  networkQuality: NetworkQualityStats;
+  setVideoProfile: (profile: VideoEncoderConfigurationPreset) => Promise<void>;
+  switchToAudioOnly: () => Promise<void>;
+  onAdjust: (adjustment: QualityAdjustment) => void;
+}
+
+/**
+ * Video quality that follows Agora's network-quality readings (one every ~2 seconds)
+ * The camera steps down a profile while the uplink stays poor and back up once it has been
+ * good for a while. Only sustained readings count, so a single bad sample changes nothing.
+ */
+export function useAdaptiveQuality({
+  isActive,
+  adaptive,
+  autoAudioOnly,
+  networkQuality,
+  setVideoProfile,
+  switchToAudioOnly,
+  onAdjust,
+}: AdaptiveQualityOptions) {
+  const profiles = config.call.videoProfiles;
+  const [profileIndex, setProfileIndex] = useState(0);
+  const profileIndexRef = useRef(0);
+  const poorUplinkSinceRef = useRef<number | null>(null);
+  const goodUplinkSinceRef = useRef<number | null>(null);
+  const poorSinceRef = useRef<number | null>(null); // Either direction
+  const isAdjustingRef = useRef(false);
+  const actionsRef = useRef({ setVideoProfile, switchToAudioOnly, onAdjust });
+  actionsRef.current = { setVideoProfile, switchToAudioOnly, onAdjust };
+
+  useEffect(() => {
+    const applyProfile = async (index: number, direction: 'down' | 'up') => {
+      isAdjustingRef.current = true;
+      try {
+        await actionsRef.current.setVideoProfile(profiles[index]);
+        profileIndexRef.current = index;
+        setProfileIndex(index);
+        actionsRef.current.onAdjust({ type: 'video_profile', profile: profiles[index], direction });
+      } catch (error) {
+        console.error('Error changing video profile:', error);
+      } finally {
+        isAdjustingRef.current = false;
+      }
+    };
+
+    const fallBackToAudioOnly = async () => {
+      isAdjustingRef.current = true;
+      try {
+        await actionsRef.current.switchToAudioOnly();
+        actionsRef.current.onAdjust({ type: 'audio_only' });
+      } catch (error) {
+        console.error('Error falling back to audio only:', error);
+      } finally {
+        isAdjustingRef.current = false;
+      }
+    };
+
+    if (!isActive) {
+      poorUplinkSinceRef.current = null;
+      goodUplinkSinceRef.current = null;
+      poorSinceRef.current = null;
+      return;
+    }
+
+    // Switched off part-way down: go back to full quality
+    if (!adaptive && profileIndexRef.current > 0 && !isAdjustingRef.current) {
+      applyProfile(0, 'up');
+      return;
+    }
+
+    const { uplinkNetworkQuality: uplink, downlinkNetworkQuality: downlink } = networkQuality;
+    if (uplink === 0 && downlink === 0) return;
+
+    const now = Date.now();
+    const since = (current: number | null, holds: boolean) => (holds ? current ?? now : null);
+    poorUplinkSinceRef.current = since(poorUplinkSinceRef.current, uplink >= POOR_QUALITY);
+    goodUplinkSinceRef.current = since(goodUplinkSinceRef.current, uplink > 0 && uplink <= GOOD_QUALITY);
+    poorSinceRef.current = since(poorSinceRef.current, Math.max(uplink, downlink) >= POOR_QUALITY);
+
+    if (isAdjustingRef.current) return;
+    const heldFor = (start: number | null, seconds: number) => start !== null && now - start >= seconds * 1000;
+
+    if (autoAudioOnly && heldFor(poorSinceRef.current, config.call.audioOnlyFallbackSeconds)) {
+      poorSinceRef.current = null;
+      fallBackToAudioOnly();
+      return;
+    }
+
+    if (!adaptive) return;
+
+    // Each further step needs another sustained stretch
+    const index = profileIndexRef.current;
+    if (heldFor(poorUplinkSinceRef.current, config.call.qualityStepDownSeconds) && index < profiles.length - 1) {
+      poorUplinkSinceRef.current = now;
+      applyProfile(index + 1, 'down');
+    } else if (heldFor(goodUplinkSinceRef.current, config.call.qualityStepUpSeconds) && index > 0) {
+      goodUplinkSinceRef.current = now;
+      applyProfile(index - 1, 'up');
+    }
+  }, [networkQuality, isActive, adaptive, autoAudioOnly, profiles]);
+
+  return {
+    videoProfile: profiles[profileIndex],
+    isReduced: profileIndex > 0,
+  };
+}
+
+/**
+ * e.g. "360p" for "360p_1"
+ */
+export function getVideoProfileLabel(profile: VideoEncoderConfigurationPreset): string {
+  return profile.split('_')[0];
+}
@@ -6,6 +6,7 @@ import AgoraRTC, {
   IAgoraRTCRemoteUser,
   ClientRole,
 } from 'agora-rtc-sdk-ng';
+import { useTrackEffects } from '@/hooks/useTrackEffects';
 
 export interface VideoConfig {
   appId: string;
@@ -24,6 +25,7 @@ export function useAgora() {
   const [isVideoOn, setIsVideoOn] = useState(true);
   const [remoteUsers, setRemoteUsers] = useState<IAgoraRTCRemoteUser[]>([]);
   const [connectionState, setConnectionState] = useState<string>('DISCONNECTED');
+  const { effects, attachVideoTrack, attachAudioTrack, releaseEffects } = useTrackEffects();
 
   const initClient = useCallback(() => {
     if (!clientRef.current) {
@@ -73,6 +75,8 @@ export function useAgora() {
     const [audioTrack, videoTrack] = await AgoraRTC.createMicrophoneAndCameraTracks();
     audioTrackRef.current = audioTrack;
     videoTrackRef.current = videoTrack;
+    attachAudioTrack(audioTrack);
+    attachVideoTrack(videoTrack);
 
     await client.publish([audioTrack, videoTrack]);
     videoTrack.play(localVideoEl);
@@ -80,7 +84,7 @@ export function useAgora() {
     setIsJoined(true);
     setIsAudioOn(true);
     setIsVideoOn(true);
-  }, [initClient]);
+  }, [initClient, attachAudioTrack, attachVideoTrack]);
 
   const joinAsViewer = useCallback(async (videoConfig: VideoConfig) => {
     const client = initClient();
@@ -106,6 +110,7 @@ export function useAgora() {
   }, [isVideoOn]);
 
   const leave = useCallback(async () => {
+    releaseEffects();
     audioTrackRef.current?.close();
     videoTrackRef.current?.close();
     audioTrackRef.current = null;
@@ -117,7 +122,7 @@ export function useAgora() {
     setIsJoined(false);
     setIsAudioOn(true);
     setIsVideoOn(true);
-  }, []);
+  }, [releaseEffects]);
 
   useEffect(() => {
     return () => {
@@ -133,6 +138,7 @@ export function useAgora() {
     isVideoOn,
     remoteUsers,
     connectionState,
+    effects,
     joinAsHost,
     joinAsViewer,
     toggleAudio,
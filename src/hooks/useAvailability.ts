@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents } from '@/services/socket';
 import { astrologerApi } from '@/services/api';
 
 type AvailabilityStatus = 'online' | 'offline' | 'busy';
@@ -33,9 +33,6 @@ export function useAvailability() {
 
   // Listen for socket events that affect availability
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
-
     // When a call is accepted, set status to busy
     const handleCallAccepted = () => {
       setStatus('busy');
@@ -46,17 +43,12 @@ export function useAvailability() {
       setStatus('online');
     };
 
-    socket.on('call_accepted', handleCallAccepted);
-    socket.on('live_started', handleCallAccepted); // For live sessions
-    socket.on('call_ended', handleCallEnded);
-    socket.on('live_ended', handleCallEnded); // For live sessions
-
-    return () => {
-      socket.off('call_accepted', handleCallAccepted);
-      socket.off('live_started', handleCallAccepted);
-      socket.off('call_ended', handleCallEnded);
-      socket.off('live_ended', handleCallEnded);
-    };
+    return subscribeToEvents({
+      call_accepted: handleCallAccepted,
+      live_started: handleCallAccepted, // For live sessions
+      call_ended: handleCallEnded,
+      live_ended: handleCallEnded, // For live sessions
+    });
   }, []);
 
   const updateStatus = useCallback((newStatus: AvailabilityStatus) => {
@@ -0,0 +1,168 @@
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CallSession } from '@/types/api';
+import type { BillingTickEvent, CallExtendedEvent } from '@/types/socket';
+import { useCallBilling } from './useCallBilling';
+
+interface BillingHandlers {
+  billing_tick: (tick: BillingTickEvent) => void;
+  call_extended: (event: CallExtendedEvent) => void;
+}
+
+const socket = vi.hoisted(() => ({ handlers: null as BillingHandlers | null }));
+
+vi.mock('@/services/socket', () => ({
+  subscribeToEvents: (handlers: BillingHandlers) => {
+    socket.handlers = handlers;
+    return () => undefined;
+  },
+}));
+
+function session(overrides: Partial<CallSession> = {}): CallSession {
+  return {
+    _id: 'call-1',
+    userId: 'user-1',
+    astrologerId: 'astro-1',
+    callType: 'video',
+    billingType: 'per_minute',
+    status: 'connected',
+    ratePerMinute: 10,
+    ...overrides,
+  } as CallSession;
+}
+
+function tick(overrides: Partial<BillingTickEvent>): BillingTickEvent {
+  return { callId: 'call-1', elapsedSeconds: 0, chargesSoFar: 0, ...overrides };
+}
+
+function emitTick(overrides: Partial<BillingTickEvent>) {
+  act(() => socket.handlers?.billing_tick(tick(overrides)));
+}
+
+function runSeconds(seconds: number) {
+  act(() => {
+    vi.advanceTimersByTime(seconds * 1000);
+  });
+}
+
+describe('useCallBilling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    socket.handlers = null;
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('estimates per-minute charges locally until the first tick', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session(), true));
+
+    runSeconds(61);
+
+    expect(result.current.elapsedTime).toBe(61);
+    expect(result.current.currentCharges).toBe(20);
+    expect(result.current.isServerSynced).toBe(false);
+  });
+
+  it('keeps the local timer when it is within the drift tolerance', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session(), true));
+    runSeconds(30);
+
+    emitTick({ elapsedSeconds: 32, chargesSoFar: 10 });
+
+    expect(result.current.elapsedTime).toBe(30);
+    expect(result.current.currentCharges).toBe(10);
+    expect(result.current.isServerSynced).toBe(true);
+  });
+
+  it('snaps to the server time when drift exceeds the tolerance', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session(), true));
+    runSeconds(30);
+
+    emitTick({ elapsedSeconds: 40, chargesSoFar: 10 });
+    expect(result.current.elapsedTime).toBe(40);
+
+    runSeconds(5);
+    expect(result.current.elapsedTime).toBe(45);
+  });
+
+  it('ignores ticks for other calls', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session(), true));
+
+    emitTick({ callId: 'call-2', elapsedSeconds: 100, chargesSoFar: 50 });
+
+    expect(result.current.elapsedTime).toBe(0);
+    expect(result.current.isServerSynced).toBe(false);
+  });
+
+  it('counts the time left down from the last tick', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session(), true));
+
+    emitTick({ elapsedSeconds: 0, chargesSoFar: 10, balance: 50, minutesLeft: 5 });
+    expect(result.current.remainingTime).toBe(300);
+
+    runSeconds(20);
+    expect(result.current.remainingTime).toBe(280);
+  });
+
+  it('applies a top-up at once as balance over the rate', () => {
+    const { result } = renderHook(() => useCallBilling('call-1', session({ ratePerMinute: 20 }), true));
+    emitTick({ elapsedSeconds: 0, chargesSoFar: 20, balance: 10, minutesLeft: 0.5 });
+    runSeconds(10);
+
+    act(() => result.current.applyTopUp(110));
+
+    expect(result.current.balance).toBe(110);
+    // 110 / 20 = 5.5 minutes from the moment of the top-up
+    expect(result.current.remainingTime).toBe(330);
+  });
+
+  it('leaves the time left alone on a top-up without a rate', () => {
+    const { result } = renderHook(() =>
+      useCallBilling('call-1', session({ billingType: 'package', ratePerMinute: undefined }), true)
+    );
+    emitTick({ elapsedSeconds: 0, chargesSoFar: 0, minutesLeft: 10 });
+
+    act(() => result.current.applyTopUp(500));
+
+    expect(result.current.balance).toBe(500);
+    expect(result.current.remainingTime).toBe(600);
+  });
+
+  it('counts package time down locally without ticks', () => {
+    const { result } = renderHook(() =>
+      useCallBilling('call-1', session({ billingType: 'package', package: { duration: 10, price: 99 } }), true)
+    );
+
+    runSeconds(90);
+
+    expect(result.current.remainingTime).toBe(510);
+    expect(result.current.currentCharges).toBe(0);
+  });
+
+  it('adds per-minute charges to the package price after switching over', () => {
+    const packageSession = session({ billingType: 'package', ratePerMinute: 10, package: { duration: 10, price: 99 } });
+    const { result, rerender } = renderHook(({ callSession }) => useCallBilling('call-1', callSession, true), {
+      initialProps: { callSession: packageSession },
+    });
+    runSeconds(600);
+
+    act(() => socket.handlers?.call_extended({ callId: 'call-1', billingType: 'per_minute' }));
+    // The page then switches the session over to per-minute billing
+    rerender({ callSession: { ...packageSession, billingType: 'per_minute' } });
+    runSeconds(61);
+
+    expect(result.current.currentCharges).toBe(99 + 2 * 10);
+  });
+
+  it('resumes from the connection time of a call already under way', () => {
+    vi.setSystemTime(new Date('2026-03-01T12:05:00Z'));
+    const { result } = renderHook(() =>
+      useCallBilling('call-1', session({ connectedAt: '2026-03-01T12:00:00Z' }), false)
+    );
+
+    expect(result.current.elapsedTime).toBe(300);
+  });
+});
@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { subscribeToEvents } from '@/services/socket';
+import type { BillingTickEvent } from '@/types/socket';
+import type { CallSession } from '@/types/api';
+import { config } from '@/config';
+
+interface SyncedTick {
+  tick: BillingTickEvent;
+  atElapsed: number; // Local elapsed time when the tick was applied
+}
+
+/**
+ * Where per-minute charges start counting, for calls switched over from a package
+ */
+interface PerMinuteStart {
+  atElapsed: number;
+  baseCharges: number;
+}
+
+/**
+ * Live call meter: a local one-second timer kept in line with the server's billing ticks
+ * Until the first tick arrives (or on servers that send none) charges and package time
+ * are estimated locally from the call's rate. A call already under way resumes from its
+ * connection time.
+ */
+export function useCallBilling(callId: string | undefined, callSession: CallSession | null, isActive: boolean) {
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [synced, setSynced] = useState<SyncedTick | null>(null);
+  const [perMinuteStart, setPerMinuteStart] = useState<PerMinuteStart | null>(null);
+  const elapsedRef = useRef(0);
+
+  // Pick up where the call is after a reload or rejoin rather than starting again from zero
+  // The first billing tick then corrects any difference between the two clocks
+  const connectedAt = callSession?.connectedAt;
+  useEffect(() => {
+    if (!connectedAt || callSession?.endedAt || elapsedRef.current > 0) return;
+    const seconds = Math.max(0, Math.floor((Date.now() - new Date(connectedAt).getTime()) / 1000));
+    elapsedRef.current = seconds;
+    setElapsedTime(seconds);
+  }, [connectedAt, callSession?.endedAt]);
+
+  // Local timer
+  useEffect(() => {
+    if (!isActive) return;
+
+    const interval = setInterval(() => {
+      elapsedRef.current += 1;
+      setElapsedTime(elapsedRef.current);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  // Server ticks
+  useEffect(() => {
+    if (!callId) return;
+
+    return subscribeToEvents({
+      billing_tick: (tick) => {
+        if (tick.callId !== callId) return;
+
+        const drift = Math.abs(elapsedRef.current - tick.elapsedSeconds);
+        if (drift > config.call.billingDriftToleranceSeconds) {
+          elapsedRef.current = tick.elapsedSeconds;
+          setElapsedTime(tick.elapsedSeconds);
+        }
+        setSynced({ tick, atElapsed: elapsedRef.current });
+      },
+
+      // New terms apply from now; the previous tick's time left is out of date
+      call_extended: (event) => {
+        if (event.callId !== callId) return;
+
+        if (event.billingType === 'per_minute' && callSession?.billingType === 'package') {
+          setPerMinuteStart({ atElapsed: elapsedRef.current, baseCharges: callSession.package?.price ?? 0 });
+        }
+        setSynced((current) => current && {
+          atElapsed: elapsedRef.current,
+          tick: { ...current.tick, minutesLeft: event.minutesLeft },
+        });
+      },
+    });
+  }, [callId, callSession?.billingType, callSession?.package?.price]);
+
+  /**
+   * Reflect a top-up straight away instead of waiting for the next tick
+   */
+  const applyTopUp = useCallback((balance: number) => {
+    const rate = callSession?.ratePerMinute;
+    setSynced((current) => {
+      if (!current) return current;
+      return {
+        atElapsed: elapsedRef.current,
+        tick: {
+          ...current.tick,
+          balance,
+          minutesLeft: rate ? balance / rate : current.tick.minutesLeft,
+        },
+      };
+    });
+  }, [callSession?.ratePerMinute]);
+
+  const tick = synced?.tick;
+  const secondsSinceTick = synced ? elapsedTime - synced.atElapsed : 0;
+  const isPerMinute = callSession?.billingType === 'per_minute';
+
+  let currentCharges = 0;
+  if (tick) {
+    currentCharges = tick.chargesSoFar;
+  } else if (isPerMinute && callSession?.ratePerMinute) {
+    const start = perMinuteStart ?? { atElapsed: 0, baseCharges: 0 };
+    currentCharges = start.baseCharges + Math.ceil((elapsedTime - start.atElapsed) / 60) * callSession.ratePerMinute;
+  }
+
+  // Seconds until the balance or package runs out, when known
+  let remainingTime: number | null = null;
+  if (tick?.minutesLeft !== undefined) {
+    remainingTime = Math.max(0, Math.round(tick.minutesLeft * 60) - secondsSinceTick);
+  } else if (callSession?.billingType === 'package' && callSession.package) {
+    remainingTime = Math.max(0, callSession.package.duration * 60 - elapsedTime);
+  }
+
+  return {
+    elapsedTime,
+    currentCharges,
+    remainingTime,
+    freeMinutesRemaining: tick?.freeMinutesRemaining ?? null,
+    balance: tick?.balance ?? null,
+    isServerSynced: !!tick,
+    applyTopUp,
+  };
+}
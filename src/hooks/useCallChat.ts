@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { useChat } from '@/contexts/ChatContext';
+
+/**
+ * The chat tied to a call, opened once the call is connected
+ * It goes through ChatContext like any other conversation, so sending, uploads and read
+ * receipts behave the same and the messages stay with the call afterwards.
+ */
+export function useCallChat(
+  callId: string | undefined,
+  participantName: string,
+  participantAvatar: string | undefined,
+  isActive: boolean
+) {
+  const { getCallConversation, getConversation, joinConversation } = useChat();
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!callId || !isActive || conversationId) return;
+
+    let cancelled = false;
+    getCallConversation(callId, participantName, participantAvatar)
+      .then((id) => {
+        if (cancelled) return;
+        setConversationId(id);
+      })
+      .catch(() => {
+        // Already reported by ChatContext; the call goes on without chat
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [callId, isActive, conversationId, participantName, participantAvatar, getCallConversation]);
+
+  // Joins the chat room so messages arrive while the drawer is closed, without taking over the active chat
+  useEffect(() => {
+    if (!conversationId) return;
+    return joinConversation(conversationId);
+  }, [conversationId, joinConversation]);
+
+  return {
+    conversationId,
+    unreadCount: conversationId ? getConversation(conversationId)?.unreadCount ?? 0 : 0,
+  };
+}
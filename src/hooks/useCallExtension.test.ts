@@ -0,0 +1,98 @@
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '@/config';
+import type { CallSession } from '@/types/api';
+import type { CallExtensionResponseEvent } from '@/types/socket';
+import { useCallExtension } from './useCallExtension';
+
+interface ExtensionHandlers {
+  call_extension_response: (event: CallExtensionResponseEvent) => void;
+}
+
+const socket = vi.hoisted(() => ({
+  connected: true,
+  handlers: null as ExtensionHandlers | null,
+  emitted: [] as string[],
+}));
+const toast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/services/socket', () => ({
+  subscribeToEvents: (handlers: ExtensionHandlers) => {
+    socket.handlers = handlers;
+    return () => undefined;
+  },
+  emitEvent: (event: string) => {
+    if (!socket.connected) return false;
+    socket.emitted.push(event);
+    return true;
+  },
+}));
+
+vi.mock('@/services/api', () => ({ userApi: {} }));
+
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast }) }));
+
+const session = { _id: 'call-1', astrologerId: 'astro-1', callType: 'video' } as CallSession;
+
+function renderExtension() {
+  return renderHook(() => useCallExtension('call-1', session, () => undefined));
+}
+
+describe('useCallExtension', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    socket.connected = true;
+    socket.handlers = null;
+    socket.emitted = [];
+    toast.mockClear();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('waits for the astrologer once the request is sent', () => {
+    const { result } = renderExtension();
+
+    act(() => result.current.requestExtension({ type: 'per_minute' }));
+
+    expect(socket.emitted).toEqual(['request_call_extension']);
+    expect(result.current.isPending).toBe(true);
+  });
+
+  it('does not wait for an answer to a request that could not be sent', () => {
+    socket.connected = false;
+    const { result } = renderExtension();
+
+    act(() => result.current.requestExtension({ type: 'per_minute' }));
+
+    expect(result.current.isPending).toBe(false);
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ variant: 'destructive' }));
+  });
+
+  it('stops waiting once the astrologer answers', () => {
+    const { result } = renderExtension();
+    act(() => result.current.requestExtension({ type: 'per_minute' }));
+
+    act(() => socket.handlers?.call_extension_response({ callId: 'call-1', accepted: false }));
+
+    expect(result.current.isPending).toBe(false);
+  });
+
+  it('gives up on a request nobody answers', () => {
+    const { result } = renderExtension();
+    act(() => result.current.requestExtension({ type: 'per_minute' }));
+
+    act(() => {
+      vi.advanceTimersByTime(config.call.extensionResponseTimeoutMs - 1);
+    });
+    expect(result.current.isPending).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.isPending).toBe(false);
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'No response' }));
+  });
+});
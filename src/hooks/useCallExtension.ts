@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import { userApi } from '@/services/api';
+import { config } from '@/config';
+import { useToast } from '@/hooks/use-toast';
+import type { CallPackage, CallSession } from '@/types/api';
+import type { CallExtendedEvent, CallExtensionOption, CallExtensionRequestedEvent } from '@/types/socket';
+
+export interface CallExtensionOptions {
+  packages: CallPackage[];
+  ratePerMinute: number | null; // Astrologer's rate for this call type
+}
+
+/**
+ * Extending a package call while it is in progress
+ * The user picks another package or a switch to per-minute billing, the astrologer
+ * accepts or declines, and the server announces the new terms to both sides with
+ * call_extended. The Agora channel is untouched throughout.
+ */
+export function useCallExtension(
+  callId: string | undefined,
+  callSession: CallSession | null,
+  onExtended: (event: CallExtendedEvent) => void
+) {
+  const [options, setOptions] = useState<CallExtensionOptions | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [incomingRequest, setIncomingRequest] = useState<CallExtensionRequestedEvent | null>(null);
+  const { toast } = useToast();
+  const onExtendedRef = useRef(onExtended);
+  onExtendedRef.current = onExtended;
+
+  const astrologerId = typeof callSession?.astrologerId === 'string'
+    ? callSession.astrologerId
+    : callSession?.astrologerId?._id;
+  const callType = callSession?.callType;
+
+  /**
+   * Fetch the astrologer's packages and per-minute rate (user side)
+   */
+  const loadOptions = useCallback(async () => {
+    if (!astrologerId) return;
+    try {
+      const [packagesData, astrologer] = await Promise.all([
+        userApi.getAstrologerPackages(astrologerId).catch(() => ({ packages: [] as CallPackage[] })),
+        userApi.getAstrologerProfile(astrologerId).catch(() => null),
+      ]);
+      const settings = astrologer?.callSettings;
+      setOptions({
+        packages: (packagesData.packages || []).filter((pkg) => pkg.isActive),
+        ratePerMinute: settings ? (callType === 'audio' ? settings.audioCallRate : settings.videoCallRate) : null,
+      });
+    } catch (error) {
+      console.error('[CallExtension] Failed to load options:', error);
+      setOptions({ packages: [], ratePerMinute: null });
+    }
+  }, [astrologerId, callType]);
+
+  const requestExtension = useCallback((option: CallExtensionOption) => {
+    if (!callId) return;
+    if (!emitEvent('request_call_extension', { callId, option })) {
+      toast({
+        title: 'Request not sent',
+        description: 'You are offline. Try again once the connection is back',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setIsPending(true);
+  }, [callId, toast]);
+
+  const respondToRequest = useCallback((accepted: boolean) => {
+    if (!callId) return;
+    setIncomingRequest(null);
+    emitEvent('respond_call_extension', { callId, accepted });
+  }, [callId]);
+
+  useEffect(() => {
+    if (!callId) return;
+
+    return subscribeToEvents({
+      // Astrologer side
+      call_extension_requested: (data) => {
+        if (data.callId === callId) setIncomingRequest(data);
+      },
+
+      // User side
+      call_extension_response: (data) => {
+        if (data.callId !== callId) return;
+        setIsPending(false);
+        if (!data.accepted) {
+          toast({
+            title: 'Extension not accepted',
+            description: data.reason || 'The astrologer declined the extension',
+            variant: 'destructive',
+          });
+        }
+      },
+
+      // Both sides
+      call_extended: (data) => {
+        if (data.callId !== callId) return;
+        setIsPending(false);
+        setIncomingRequest(null);
+        onExtendedRef.current(data);
+        toast({
+          title: 'Call extended',
+          description: data.billingType === 'per_minute'
+            ? 'The call continues with per-minute billing'
+            : data.addedMinutes
+              ? `${data.addedMinutes} more minutes added`
+              : 'More time has been added',
+        });
+      },
+    });
+  }, [callId, toast]);
+
+  // Stop waiting for an answer that is not coming, so the call can run out as usual
+  useEffect(() => {
+    if (!isPending) return;
+
+    const timeout = setTimeout(() => {
+      setIsPending(false);
+      toast({ title: 'No response', description: 'The astrologer did not answer the extension request' });
+    }, config.call.extensionResponseTimeoutMs);
+
+    return () => clearTimeout(timeout);
+  }, [isPending, toast]);
+
+  return {
+    options,
+    loadOptions,
+    isPending,
+    requestExtension,
+    incomingRequest,
+    respondToRequest,
+  };
+}
@@ -0,0 +1,226 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { CallMediaTracks } from '@/hooks/useOneToOneCall';
+import { saveCallRecording, type CallRecording } from '@/utils/callRecordings';
+import { config } from '@/config';
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const PIP_SCALE = 0.25; // Local video inset, as a fraction of the canvas width
+const PIP_MARGIN = 16;
+const AUDIO_SYNC_MS = 500; // Audio-only calls have no frames to draw, just rewire changed tracks
+
+// First supported type wins
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+type AudioKey = 'localAudio' | 'remoteAudio';
+type VideoKey = 'localVideo' | 'remoteVideo';
+
+interface RecordingSession {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  audioContext: AudioContext;
+  destination: MediaStreamAudioDestinationNode;
+  audioSources: Partial<Record<AudioKey, { trackId: string; node: MediaStreamAudioSourceNode }>>;
+  videos: Record<VideoKey, HTMLVideoElement> | null;
+  canvas: HTMLCanvasElement | null;
+  interval: ReturnType<typeof setInterval>;
+}
+
+function pickMimeType(candidates: string[]): string {
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+function createHiddenVideo(): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.muted = true; // Audio is mixed separately
+  video.playsInline = true;
+  return video;
+}
+
+/**
+ * Draw `video` scaled to fit inside the given box, keeping its aspect ratio
+ */
+function drawContained(
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  context.drawImage(video, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function drawFrame(session: RecordingSession) {
+  const context = session.canvas?.getContext('2d');
+  if (!context || !session.videos) return;
+
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  drawContained(context, session.videos.remoteVideo, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  const pipWidth = CANVAS_WIDTH * PIP_SCALE;
+  const pipHeight = (pipWidth * 9) / 16;
+  drawContained(
+    context,
+    session.videos.localVideo,
+    CANVAS_WIDTH - pipWidth - PIP_MARGIN,
+    CANVAS_HEIGHT - pipHeight - PIP_MARGIN,
+    pipWidth,
+    pipHeight
+  );
+}
+
+function releaseSession(session: RecordingSession) {
+  clearInterval(session.interval);
+  Object.values(session.audioSources).forEach((source) => source?.node.disconnect());
+  session.audioContext.close().catch(() => {});
+  if (session.videos) {
+    Object.values(session.videos).forEach((video) => {
+      video.pause();
+      video.srcObject = null;
+    });
+  }
+}
+
+export const isRecordingSupported = typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined';
+
+/**
+ * Record both sides of a one-to-one call on this device
+ * Audio from both participants is mixed; video calls are composed with the remote
+ * video full frame and the local video inset. Tracks are re-read while recording,
+ * so device switches and remote reconnects keep being captured.
+ */
+export function useCallRecording(callId: string | undefined, getTracks: () => CallMediaTracks, includeVideo: boolean) {
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  const syncTracks = useCallback((session: RecordingSession) => {
+    const tracks = getTracks();
+
+    (['localAudio', 'remoteAudio'] as const).forEach((key) => {
+      const track = tracks[key];
+      const current = session.audioSources[key];
+      if (track?.id === current?.trackId) return;
+
+      current?.node.disconnect();
+      delete session.audioSources[key];
+      if (track) {
+        const node = session.audioContext.createMediaStreamSource(new MediaStream([track]));
+        node.connect(session.destination);
+        session.audioSources[key] = { trackId: track.id, node };
+      }
+    });
+
+    const { videos } = session;
+    if (videos) {
+      (['localVideo', 'remoteVideo'] as const).forEach((key) => {
+        const track = tracks[key];
+        const video = videos[key];
+        const current = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+        if (track?.id === current?.id) return;
+
+        video.srcObject = track ? new MediaStream([track]) : null;
+        if (track) video.play().catch(() => {});
+      });
+    }
+  }, [getTracks]);
+
+  const startRecording = useCallback(() => {
+    if (sessionRef.current || !isRecordingSupported) return;
+
+    const audioContext = new AudioContext();
+    audioContext.resume().catch(() => {}); // May start suspended when triggered by the other party
+    const destination = audioContext.createMediaStreamDestination();
+    const canvas = includeVideo ? document.createElement('canvas') : null;
+    const outputTracks = [...destination.stream.getAudioTracks()];
+
+    if (canvas) {
+      canvas.width = CANVAS_WIDTH;
+      canvas.height = CANVAS_HEIGHT;
+      outputTracks.push(...canvas.captureStream(config.call.recordingFrameRate).getVideoTracks());
+    }
+
+    const mimeType = pickMimeType(includeVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES);
+    const recorder = new MediaRecorder(new MediaStream(outputTracks), mimeType ? { mimeType } : undefined);
+
+    const session: RecordingSession = {
+      recorder,
+      chunks: [],
+      startedAt: Date.now(),
+      audioContext,
+      destination,
+      audioSources: {},
+      videos: canvas ? { localVideo: createHiddenVideo(), remoteVideo: createHiddenVideo() } : null,
+      canvas,
+      interval: setInterval(
+        () => {
+          syncTracks(session);
+          drawFrame(session);
+        },
+        canvas ? 1000 / config.call.recordingFrameRate : AUDIO_SYNC_MS
+      ),
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) session.chunks.push(event.data);
+    };
+
+    syncTracks(session);
+    recorder.start(1000); // Flush a chunk every second so little is lost if the tab dies
+    sessionRef.current = session;
+    setIsRecording(true);
+  }, [includeVideo, syncTracks]);
+
+  /**
+   * Finish the recording and keep it on this device
+   * Resolves with the saved recording, or null when nothing was being recorded
+   */
+  const stopRecording = useCallback((): Promise<CallRecording | null> => {
+    const session = sessionRef.current;
+    if (!session) return Promise.resolve(null);
+    sessionRef.current = null;
+    setIsRecording(false);
+
+    return new Promise((resolve) => {
+      session.recorder.onstop = async () => {
+        releaseSession(session);
+        if (!callId || session.chunks.length === 0) {
+          resolve(null);
+          return;
+        }
+
+        const mimeType = session.recorder.mimeType || session.chunks[0].type;
+        const recording: CallRecording = {
+          callId,
+          blob: new Blob(session.chunks, { type: mimeType }),
+          mimeType,
+          createdAt: session.startedAt,
+          duration: Math.round((Date.now() - session.startedAt) / 1000),
+        };
+        await saveCallRecording(recording);
+        resolve(recording);
+      };
+      session.recorder.stop();
+    });
+  }, [callId]);
+
+  // Leaving the page mid-recording still keeps what was captured
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [stopRecording]);
+
+  return {
+    isRecording,
+    startRecording,
+    stopRecording,
+  };
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * Countdown that blocks an action (e.g. resending a code) for a while after it runs
+ * Returns the seconds left and a function that restarts the countdown
+ */
+export function useCooldown(durationMs: number) {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) setEndsAt(null);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const start = useCallback(() => {
+    setEndsAt(Date.now() + durationMs);
+  }, [durationMs]);
+
+  return { secondsLeft, isCoolingDown: secondsLeft > 0, start };
+}
@@ -1,7 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
-import { getSocket } from '@/services/socket';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { subscribeToEvents } from '@/services/socket';
 import { astrologerApi } from '@/services/api';
+import {
+  closeIncomingCallNotification,
+  getCallNotificationPermission,
+  registerCallNotificationWorker,
+  requestCallNotificationPermission,
+  showIncomingCallNotification,
+  startRingtone,
+  startTitleFlash,
+  stopRingtone,
+  stopTitleFlash,
+  subscribeToCallNotificationActions,
+} from '@/services/callNotifications';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { config } from '@/config';
+import { addMissedCall, clearMissedCalls, loadMissedCalls, removeMissedCall, type MissedCall } from '@/utils/missedCalls';
+import type { IncomingCallEvent, CallTimeoutEvent } from '@/types/socket';
+import type { AcceptCallResponse, WaitlistEntry } from '@/types/api';
 
 interface IncomingCall {
   callId: string;
@@ -10,77 +27,187 @@ interface IncomingCall {
   userPhoto?: string;
   callType: 'audio' | 'video';
   timestamp: string;
+  expiresAt: number; // Dropped from the queue after this if nobody answered
 }
 
-export function useIncomingCalls() {
-  const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
+interface IncomingCallOptions {
+  onAcceptedFromNotification?: (callId: string, response: AcceptCallResponse) => void; // Accept pressed on the desktop notification
+}
+
+/**
+ * Calls ringing for the astrologer, in arrival order, plus the waitlist of users
+ * queued while the astrologer was busy
+ * The head of the ringing queue is the one on screen (incomingCall); the rest
+ * wait behind it instead of replacing it.
+ * While anything is ringing the tab rings and flashes its title, and calls that arrive with
+ * the tab out of focus also get a desktop notification that can answer them.
+ */
+export function useIncomingCalls(options: IncomingCallOptions = {}) {
+  const [queue, setQueue] = useState<IncomingCall[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [missedCalls, setMissedCalls] = useState<MissedCall[]>(() => (userId ? loadMissedCalls(userId) : []));
+  const [notificationPermission, setNotificationPermission] = useState(getCallNotificationPermission);
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
+  const expiryTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const incomingCall = queue[0] ?? null;
+
+  useEffect(() => {
+    setMissedCalls(userId ? loadMissedCalls(userId) : []);
+  }, [userId]);
+
+  const removeCall = useCallback((callId: string) => {
+    const timer = expiryTimers.current.get(callId);
+    if (timer) clearTimeout(timer);
+    expiryTimers.current.delete(callId);
+    setQueue((current) => current.filter((call) => call.callId !== callId));
+    closeIncomingCallNotification(callId).catch(() => undefined);
+  }, []);
+
+  const loadWaitlist = useCallback(async () => {
+    try {
+      const response = await astrologerApi.getWaitlist();
+      setWaitlist(response.entries || []);
+    } catch (error) {
+      console.error('[IncomingCall] Failed to load waitlist:', error);
+    }
+  }, []);
 
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
+    loadWaitlist();
+  }, [loadWaitlist]);
+
+  /**
+   * A call nobody answered: log it as missed and drop it from the queue
+   * Reached from the server's call_timeout or the local fallback timer, whichever comes
+   * first; only the first one finds the call still queued, so it is logged once.
+   */
+  const expireCall = useCallback((callId: string) => {
+    const missed = queueRef.current.find((call) => call.callId === callId);
+    if (missed) {
+      if (userId) {
+        setMissedCalls(
+          addMissedCall(userId, {
+            callId: missed.callId,
+            userId: missed.userId,
+            userName: missed.userName,
+            userPhoto: missed.userPhoto,
+            callType: missed.callType,
+            missedAt: new Date().toISOString(),
+          })
+        );
+      }
+      if (queueRef.current[0]?.callId === callId) {
+        toast({
+          title: 'Call Missed',
+          description: 'The incoming call timed out',
+          variant: 'destructive',
+        });
+      }
+      queueRef.current = queueRef.current.filter((call) => call.callId !== callId);
+    }
+    removeCall(callId);
+  }, [userId, removeCall, toast]);
 
+  useEffect(() => {
     // Listen for incoming call events
-    const handleIncomingCall = (data: any) => {
+    const handleIncomingCall = (data: IncomingCallEvent) => {
       console.log('[IncomingCall] Received:', data);
-      setIncomingCall({
+      const call: IncomingCall = {
         callId: data.callId,
-        userId: data.user?._id || data.userId,
+        userId: data.user?._id || data.userId || '',
         userName: data.user?.fullName || data.userName || 'Unknown User',
         userPhoto: data.user?.profileImage || data.userPhoto,
         callType: data.callType || 'video',
         timestamp: new Date().toISOString(),
-      });
+        expiresAt: Date.now() + config.call.incomingCallTimeoutSeconds * 1000,
+      };
 
-      // Play notification sound (optional)
-      try {
-        const audio = new Audio('/notification.mp3');
-        audio.play().catch(() => {
-          // Ignore if audio fails
-        });
-      } catch {
-        // Ignore audio errors
+      setQueue((current) => (current.some((queued) => queued.callId === call.callId) ? current : [...current, call]));
+
+      // Fallback for a call_timeout that never arrives
+      if (!expiryTimers.current.has(call.callId)) {
+        expiryTimers.current.set(
+          call.callId,
+          setTimeout(() => expireCall(call.callId), config.call.incomingCallTimeoutSeconds * 1000)
+        );
+      }
+
+      // The in-page dialog is enough while the astrologer is looking at the tab
+      if (!document.hasFocus()) {
+        showIncomingCallNotification(call);
       }
     };
 
     // Listen for call timeout
-    const handleCallTimeout = (data: any) => {
+    const handleCallTimeout = (data: CallTimeoutEvent) => {
       console.log('[IncomingCall] Timeout:', data);
-      if (incomingCall?.callId === data.callId) {
-        setIncomingCall(null);
-        toast({
-          title: 'Call Missed',
-          description: 'The incoming call timed out',
-          variant: 'destructive',
-        });
-      }
+      expireCall(data.callId);
     };
 
-    socket.on('incoming_call', handleIncomingCall);
-    socket.on('call_timeout', handleCallTimeout);
+    return subscribeToEvents({
+      incoming_call: handleIncomingCall,
+      call_timeout: handleCallTimeout,
+      waitlist_changed: (data) => setWaitlist(data.entries || []),
+    });
+  }, [expireCall]);
+
+  // Drop waitlist entries whose time ran out before the server's update arrives
+  useEffect(() => {
+    const expiries = waitlist
+      .filter((entry) => entry.expiresAt)
+      .map((entry) => new Date(entry.expiresAt).getTime());
+    if (expiries.length === 0) return;
+
+    const timer = setTimeout(() => {
+      setWaitlist((current) => current.filter((entry) => !entry.expiresAt || new Date(entry.expiresAt).getTime() > Date.now()));
+    }, Math.max(0, Math.min(...expiries) - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [waitlist]);
+
+  // Ring and flash the title for as long as a call is on screen
+  useEffect(() => {
+    if (!incomingCall) return;
+    startRingtone();
+    startTitleFlash(`📞 ${incomingCall.userName} is calling`);
+    return () => {
+      stopRingtone();
+      stopTitleFlash();
+    };
+  }, [incomingCall]);
 
+  // Clear pending expiry timers on unmount
+  useEffect(() => {
+    const timers = expiryTimers.current;
     return () => {
-      socket.off('incoming_call', handleIncomingCall);
-      socket.off('call_timeout', handleCallTimeout);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
     };
-  }, [incomingCall, toast]);
+  }, []);
 
-  const acceptCall = useCallback(async () => {
-    if (!incomingCall || isProcessing) return;
+  const acceptCall = useCallback(async (callId = incomingCall?.callId) => {
+    if (!callId || isProcessing) return;
 
     setIsProcessing(true);
     try {
-      const response = await astrologerApi.acceptCall(incomingCall.callId);
+      const response = await astrologerApi.acceptCall(callId);
       console.log('[IncomingCall] Accepted:', response);
-      
+
       toast({
         title: 'Call Accepted',
         description: 'Connecting to the call...',
       });
 
       // Clear the incoming call
-      setIncomingCall(null);
+      removeCall(callId);
 
       // Return the call data for navigation
       return response;
@@ -91,28 +218,28 @@ export function useIncomingCalls() {
         description: error.message || 'Please try again',
         variant: 'destructive',
       });
-      setIncomingCall(null);
+      removeCall(callId);
       throw error;
     } finally {
       setIsProcessing(false);
     }
-  }, [incomingCall, isProcessing, toast]);
+  }, [incomingCall, isProcessing, removeCall, toast]);
 
-  const rejectCall = useCallback(async () => {
-    if (!incomingCall || isProcessing) return;
+  const rejectCall = useCallback(async (callId = incomingCall?.callId) => {
+    if (!callId || isProcessing) return;
 
     setIsProcessing(true);
     try {
-      await astrologerApi.rejectCall(incomingCall.callId);
-      console.log('[IncomingCall] Rejected:', incomingCall.callId);
-      
+      await astrologerApi.rejectCall(callId);
+      console.log('[IncomingCall] Rejected:', callId);
+
       toast({
         title: 'Call Rejected',
         description: 'The call has been declined',
       });
 
       // Clear the incoming call
-      setIncomingCall(null);
+      removeCall(callId);
     } catch (error: any) {
       console.error('[IncomingCall] Reject failed:', error);
       toast({
@@ -120,16 +247,109 @@ export function useIncomingCalls() {
         description: error.message || 'Please try again',
         variant: 'destructive',
       });
-      setIncomingCall(null);
+      removeCall(callId);
     } finally {
       setIsProcessing(false);
     }
-  }, [incomingCall, isProcessing, toast]);
+  }, [incomingCall, isProcessing, removeCall, toast]);
+
+  const acceptCallRef = useRef(acceptCall);
+  acceptCallRef.current = acceptCall;
+  const rejectCallRef = useRef(rejectCall);
+  rejectCallRef.current = rejectCall;
+
+  // Accept/Decline pressed on a desktop notification
+  useEffect(() => {
+    registerCallNotificationWorker();
+
+    return subscribeToCallNotificationActions(({ action, callId }) => {
+      if (!queueRef.current.some((call) => call.callId === callId)) return; // Already answered or gone
+
+      if (action === 'accept') {
+        acceptCallRef
+          .current(callId)
+          .then((response) => {
+            if (response) optionsRef.current.onAcceptedFromNotification?.(callId, response);
+          })
+          .catch(() => {
+            // Already reported by acceptCall
+          });
+      } else if (action === 'decline') {
+        rejectCallRef.current(callId);
+      }
+    });
+  }, []);
+
+  const enableNotifications = useCallback(async () => {
+    setNotificationPermission(await requestCallNotificationPermission());
+  }, []);
+
+  const dismissMissedCall = useCallback((callId: string) => {
+    if (!userId) return;
+    setMissedCalls(removeMissedCall(userId, callId));
+  }, [userId]);
+
+  const clearMissedCallLog = useCallback(() => {
+    if (userId) clearMissedCalls(userId);
+    setMissedCalls([]);
+  }, [userId]);
+
+  /**
+   * Start the call with the first user on the waitlist
+   * Resolves with the accepted call for navigation, like acceptCall
+   */
+  const takeNextFromWaitlist = useCallback(async () => {
+    if (waitlist.length === 0 || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const response = await astrologerApi.callNextInWaitlist();
+      setWaitlist((current) => current.slice(1));
+      toast({
+        title: 'Connecting',
+        description: `Starting the call with ${waitlist[0].user?.fullName || 'the next caller'}...`,
+      });
+      return response;
+    } catch (error: unknown) {
+      console.error('[IncomingCall] Take next failed:', error);
+      toast({
+        title: 'Failed to Start Call',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+      loadWaitlist();
+      throw error;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [waitlist, isProcessing, loadWaitlist, toast]);
+
+  const removeFromWaitlist = useCallback(async (entryId: string) => {
+    try {
+      await astrologerApi.removeFromWaitlist(entryId);
+      setWaitlist((current) => current.filter((entry) => entry._id !== entryId));
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to Remove Caller',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
 
   return {
     incomingCall,
+    queuedCount: Math.max(0, queue.length - 1),
+    waitlist,
     isProcessing,
     acceptCall,
     rejectCall,
+    takeNextFromWaitlist,
+    removeFromWaitlist,
+    missedCalls,
+    dismissMissedCall,
+    clearMissedCalls: clearMissedCallLog,
+    notificationPermission,
+    enableNotifications,
   };
 }
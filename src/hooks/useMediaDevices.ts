@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import AgoraRTC from 'agora-rtc-sdk-ng';
+
+/**
+ * Cameras, microphones and speakers available to Agora
+ * Lists refresh when a device is plugged in or removed
+ */
+export function useMediaDevices(includeCameras: boolean) {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [speakers, setSpeakers] = useState<MediaDeviceInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [cameraList, microphoneList, speakerList] = await Promise.all([
+        includeCameras ? AgoraRTC.getCameras() : Promise.resolve([]),
+        AgoraRTC.getMicrophones(),
+        // Browsers without output selection (e.g. Safari, Firefox) report none
+        AgoraRTC.getPlaybackDevices().catch(() => [] as MediaDeviceInfo[]),
+      ]);
+      setCameras(cameraList);
+      setMicrophones(microphoneList);
+      setSpeakers(speakerList);
+      setError(null);
+    } catch (err) {
+      console.error('[MediaDevices] Failed to list devices:', err);
+      setError('Could not access your camera or microphone. Please allow access in your browser settings.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeCameras]);
+
+  useEffect(() => {
+    refresh();
+
+    const handleChange = () => {
+      refresh();
+    };
+    AgoraRTC.on('camera-changed', handleChange);
+    AgoraRTC.on('microphone-changed', handleChange);
+    AgoraRTC.on('playback-device-changed', handleChange);
+
+    return () => {
+      AgoraRTC.off('camera-changed', handleChange);
+      AgoraRTC.off('microphone-changed', handleChange);
+      AgoraRTC.off('playback-device-changed', handleChange);
+    };
+  }, [refresh]);
+
+  return { cameras, microphones, speakers, isLoading, error, refresh };
+}
@@ -4,8 +4,17 @@ import AgoraRTC, {
   IMicrophoneAudioTrack,
   ICameraVideoTrack,
   IAgoraRTCRemoteUser,
+  ILocalTrack,
+  DeviceInfo,
   NetworkQuality,
+  RemoteStreamFallbackType,
+  VideoEncoderConfigurationPreset,
 } from 'agora-rtc-sdk-ng';
+import { useTrackEffects } from '@/hooks/useTrackEffects';
+import { saveDevicePreferences, type CallDevicePreferences } from '@/utils/devicePreferences';
+import { downsampleCallQuality, summarizeCallQuality } from '@/utils/callQuality';
+import { config } from '@/config';
+import type { CallQualityReport, CallQualitySample } from '@/types/api';
 
 export interface CallVideoConfig {
   appId: string;
@@ -19,10 +28,62 @@ export interface NetworkQualityStats {
   downlinkNetworkQuality: number;
 }
 
-export function useOneToOneCall() {
+/**
+ * The measured part of a CallQualityReport; the caller adds which call and who measured it
+ */
+export type CallQualityMeasurements = Pick<
+  CallQualityReport,
+  'durationSeconds' | 'sampleIntervalSeconds' | 'samples' | 'summary'
+>;
+
+/**
+ * Raw media of both participants, e.g. for recording
+ * Tracks are replaced when devices change, so read them again rather than holding on
+ */
+export interface CallMediaTracks {
+  localAudio?: MediaStreamTrack;
+  localVideo?: MediaStreamTrack;
+  remoteAudio?: MediaStreamTrack;
+  remoteVideo?: MediaStreamTrack;
+}
+
+// RemoteStreamFallbackType values; the SDK's ESM build exports only the default client
+const FALLBACK_DISABLE = 0 as RemoteStreamFallbackType;
+const FALLBACK_LOW_STREAM = 1 as RemoteStreamFallbackType;
+
+/**
+ * Getting back into the channel when our own connection drops
+ * fetchCredentials is asked for a fresh token before every attempt, and on token expiry
+ */
+export interface CallRejoinOptions {
+  fetchCredentials?: () => Promise<CallVideoConfig>;
+  onRejoined?: () => void;
+  onRejoinFailed?: () => void;
+}
+
+/**
+ * Device a local track actually opened, which may differ from the one requested
+ */
+function getTrackDeviceId(track: ILocalTrack): string | undefined {
+  return track.getMediaStreamTrack().getSettings().deviceId;
+}
+
+export function useOneToOneCall(options: CallRejoinOptions = {}) {
   const clientRef = useRef<IAgoraRTCClient | null>(null);
   const audioTrackRef = useRef<IMicrophoneAudioTrack | null>(null);
   const videoTrackRef = useRef<ICameraVideoTrack | null>(null);
+  const devicesRef = useRef<CallDevicePreferences>({}); // Devices in use, first chosen in the lobby
+  const isJoinedRef = useRef(false); // For client event handlers, which are registered once
+  const isRejoiningRef = useRef(false);
+  const lowStreamFallbackRef = useRef(false); // Let the remote feed drop to its low stream on a weak downlink
+  const networkQualityRef = useRef<NetworkQualityStats>({ uplinkNetworkQuality: 0, downlinkNetworkQuality: 0 });
+  const qualitySamplesRef = useRef<CallQualitySample[]>([]); // Since joining, for the diagnostics report
+  const freezeTotalsRef = useRef({ audio: 0, video: 0 }); // Agora reports freeze time as running totals
+  const joinedAtRef = useRef(0);
+  const reconnectsRef = useRef(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { effects, attachVideoTrack, attachAudioTrack, detachVideoTrack, releaseEffects } = useTrackEffects();
   
   const [isJoined, setIsJoined] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -35,6 +96,66 @@ export function useOneToOneCall() {
     downlinkNetworkQuality: 0,
   });
   const [isAudioOnly, setIsAudioOnly] = useState(false);
+  const [activeDevices, setActiveDevices] = useState<CallDevicePreferences>({});
+  const [isRejoining, setIsRejoining] = useState(false);
+  const [rejoinAttempt, setRejoinAttempt] = useState(0);
+
+  // Record devices in use and remember them for the next call
+  const updateDevices = useCallback((changes: CallDevicePreferences) => {
+    devicesRef.current = { ...devicesRef.current, ...changes };
+    setActiveDevices(devicesRef.current);
+    saveDevicePreferences(devicesRef.current);
+  }, []);
+
+  /**
+   * Join the same channel again with a fresh token and republish the tracks we still hold
+   * Agora retries short drops itself; this runs only once it has given up (DISCONNECTED)
+   */
+  const rejoin = useCallback(async () => {
+    const client = clientRef.current;
+    const { fetchCredentials } = optionsRef.current;
+    if (!client || !fetchCredentials || isRejoiningRef.current) return;
+
+    isRejoiningRef.current = true;
+    setIsRejoining(true);
+    let rejoined = false;
+
+    for (let attempt = 1; attempt <= config.call.rejoinAttempts && isJoinedRef.current; attempt++) {
+      setRejoinAttempt(attempt);
+      try {
+        const videoConfig = await fetchCredentials();
+        await client.join(videoConfig.appId, videoConfig.channelName, videoConfig.token, videoConfig.uid);
+
+        const tracks = [audioTrackRef.current, videoTrackRef.current].filter(Boolean);
+        if (tracks.length > 0) await client.publish(tracks);
+        rejoined = true;
+        break;
+      } catch (error) {
+        console.error(`Rejoin attempt ${attempt} failed:`, error);
+        if (attempt < config.call.rejoinAttempts) {
+          await new Promise((resolve) => setTimeout(resolve, config.call.rejoinRetryDelayMs * attempt));
+        }
+      }
+    }
+
+    isRejoiningRef.current = false;
+    setIsRejoining(false);
+    setRejoinAttempt(0);
+
+    // The call was left while we were still trying
+    if (!isJoinedRef.current) {
+      if (rejoined) await client.leave();
+      return;
+    }
+
+    if (rejoined) {
+      console.log('Rejoined channel');
+      reconnectsRef.current += 1;
+      optionsRef.current.onRejoined?.();
+    } else {
+      optionsRef.current.onRejoinFailed?.();
+    }
+  }, []);
 
   const initClient = useCallback(() => {
     if (!clientRef.current) {
@@ -55,10 +176,22 @@ export function useOneToOneCall() {
           if (mediaType === 'audio') {
             console.log('Playing remote audio');
             user.audioTrack?.play();
+            const { speakerId } = devicesRef.current;
+            if (speakerId) {
+              user.audioTrack?.setPlaybackDevice(speakerId).catch((error) => {
+                console.warn('Could not route audio to the selected speaker:', error);
+              });
+            }
           }
           
           if (mediaType === 'video') {
             console.log('Remote video track available');
+            clientRef.current.setStreamFallbackOption(
+              user.uid,
+              lowStreamFallbackRef.current ? FALLBACK_LOW_STREAM : FALLBACK_DISABLE
+            ).catch((error) => {
+              console.warn('Could not set the remote stream fallback:', error);
+            });
           }
         } catch (error) {
           console.error('Error subscribing to remote user:', error);
@@ -78,30 +211,51 @@ export function useOneToOneCall() {
       });
 
       // Handle connection state changes
-      clientRef.current.on('connection-state-change', (curState, prevState) => {
-        console.log(`Connection state changed from ${prevState} to ${curState}`);
+      clientRef.current.on('connection-state-change', (curState, prevState, reason) => {
+        console.log(`Connection state changed from ${prevState} to ${curState}`, reason ?? '');
         setConnectionState(curState);
+
+        // Dropped rather than left: get back in on our own
+        if (curState === 'DISCONNECTED' && reason !== 'LEAVE' && isJoinedRef.current) {
+          rejoin();
+        }
+      });
+
+      // Swap the token in place before it runs out
+      clientRef.current.on('token-privilege-will-expire', async () => {
+        const { fetchCredentials } = optionsRef.current;
+        if (!fetchCredentials || !clientRef.current) return;
+        try {
+          const { token } = await fetchCredentials();
+          await clientRef.current.renewToken(token);
+          console.log('Agora token renewed');
+        } catch (error) {
+          console.error('Error renewing token:', error);
+        }
       });
 
       // Handle network quality
       clientRef.current.on('network-quality', (stats) => {
-        setNetworkQuality({
+        networkQualityRef.current = {
           uplinkNetworkQuality: stats.uplinkNetworkQuality,
           downlinkNetworkQuality: stats.downlinkNetworkQuality,
-        });
+        };
+        setNetworkQuality(networkQualityRef.current);
       });
     }
     return clientRef.current;
-  }, []);
+  }, [rejoin]);
 
   const joinCall = useCallback(async (
     videoConfig: CallVideoConfig,
     localVideoEl: string,
-    audioOnly: boolean = false
+    audioOnly: boolean = false,
+    devices: CallDevicePreferences = {}
   ) => {
     try {
       setIsConnecting(true);
       setIsAudioOnly(audioOnly);
+      devicesRef.current = devices;
       
       // Request permissions first
       try {
@@ -109,7 +263,8 @@ export function useOneToOneCall() {
           ? { audio: true }
           : { audio: true, video: true };
         
-        await navigator.mediaDevices.getUserMedia(constraints);
+        const stream = await navigator.mediaDevices.getUserMedia(constraints);
+        stream.getTracks().forEach((track) => track.stop()); // Agora opens its own tracks below
         console.log('Permissions granted');
       } catch (permError: any) {
         console.error('Permission denied:', permError);
@@ -135,31 +290,52 @@ export function useOneToOneCall() {
       );
       
       console.log('Successfully joined channel');
+      qualitySamplesRef.current = [];
+      freezeTotalsRef.current = { audio: 0, video: 0 };
+      joinedAtRef.current = Date.now();
+      reconnectsRef.current = 0;
 
       // Create and publish tracks
       if (audioOnly) {
         // Audio-only mode
         console.log('Creating audio track...');
-        const audioTrack = await AgoraRTC.createMicrophoneAudioTrack();
+        const audioTrack = await AgoraRTC.createMicrophoneAudioTrack({ microphoneId: devices.microphoneId });
         audioTrackRef.current = audioTrack;
+        attachAudioTrack(audioTrack);
         console.log('Publishing audio track...');
         await client.publish([audioTrack]);
         console.log('Audio track published successfully');
+        updateDevices({ microphoneId: getTrackDeviceId(audioTrack) });
         setIsVideoOn(false);
       } else {
         // Video + audio mode
         console.log('Creating audio and video tracks...');
-        const [audioTrack, videoTrack] = await AgoraRTC.createMicrophoneAndCameraTracks();
+        const [audioTrack, videoTrack] = await AgoraRTC.createMicrophoneAndCameraTracks(
+          { microphoneId: devices.microphoneId },
+          { cameraId: devices.cameraId }
+        );
         audioTrackRef.current = audioTrack;
         videoTrackRef.current = videoTrack;
+        attachAudioTrack(audioTrack);
+        attachVideoTrack(videoTrack);
+
+        // A low stream alongside the camera lets the other side fall back on a weak downlink
+        await client.enableDualStream().catch((error) => {
+          console.warn('Dual stream not available:', error);
+        });
         
         console.log('Publishing audio and video tracks...');
         await client.publish([audioTrack, videoTrack]);
         videoTrack.play(localVideoEl);
         console.log('Tracks published successfully');
+        updateDevices({
+          microphoneId: getTrackDeviceId(audioTrack),
+          cameraId: getTrackDeviceId(videoTrack),
+        });
         setIsVideoOn(true);
       }
 
+      isJoinedRef.current = true;
       setIsJoined(true);
       setIsAudioOn(true);
       setIsConnecting(false);
@@ -176,7 +352,7 @@ export function useOneToOneCall() {
         throw new Error(error.message || 'Failed to join call. Please check your connection and try again.');
       }
     }
-  }, [initClient]);
+  }, [initClient, updateDevices, attachAudioTrack, attachVideoTrack]);
 
   const toggleAudio = useCallback(async () => {
     if (audioTrackRef.current) {
@@ -199,21 +375,24 @@ export function useOneToOneCall() {
         setIsVideoOn(true);
       } else if (!isVideoOn && !videoTrackRef.current && !isAudioOnly) {
         // Create video track if it doesn't exist (switching from audio-only)
-        const videoTrack = await AgoraRTC.createCameraVideoTrack();
+        const videoTrack = await AgoraRTC.createCameraVideoTrack({ cameraId: devicesRef.current.cameraId });
         videoTrackRef.current = videoTrack;
+        attachVideoTrack(videoTrack);
         await clientRef.current.publish([videoTrack]);
+        updateDevices({ cameraId: getTrackDeviceId(videoTrack) });
         setIsVideoOn(true);
       }
     } catch (error) {
       console.error('Error toggling video:', error);
       throw error;
     }
-  }, [isVideoOn, isAudioOnly]);
+  }, [isVideoOn, isAudioOnly, updateDevices, attachVideoTrack]);
 
   const switchToAudioOnly = useCallback(async () => {
     if (videoTrackRef.current && clientRef.current) {
       try {
         await clientRef.current.unpublish([videoTrackRef.current]);
+        detachVideoTrack();
         videoTrackRef.current.close();
         videoTrackRef.current = null;
         setIsVideoOn(false);
@@ -223,26 +402,73 @@ export function useOneToOneCall() {
         throw error;
       }
     }
-  }, []);
+  }, [detachVideoTrack]);
 
-  const switchCamera = useCallback(async () => {
-    if (videoTrackRef.current) {
-      try {
-        await videoTrackRef.current.setDevice(
-          await AgoraRTC.getCameras().then(devices => 
-            devices.find(d => d.deviceId !== videoTrackRef.current?.getTrackLabel())?.deviceId || devices[0].deviceId
-          )
-        );
-      } catch (error) {
-        console.error('Error switching camera:', error);
-        throw error;
-      }
+  const selectCamera = useCallback(async (deviceId: string) => {
+    if (!videoTrackRef.current) return;
+    try {
+      await videoTrackRef.current.setDevice(deviceId);
+      updateDevices({ cameraId: deviceId });
+    } catch (error) {
+      console.error('Error switching camera:', error);
+      throw error;
     }
+  }, [updateDevices]);
+
+  const selectMicrophone = useCallback(async (deviceId: string) => {
+    if (!audioTrackRef.current) return;
+    try {
+      await audioTrackRef.current.setDevice(deviceId);
+      updateDevices({ microphoneId: deviceId });
+    } catch (error) {
+      console.error('Error switching microphone:', error);
+      throw error;
+    }
+  }, [updateDevices]);
+
+  const selectSpeaker = useCallback(async (deviceId: string) => {
+    try {
+      // Remote audio published later picks the speaker up from devicesRef
+      await Promise.all(
+        (clientRef.current?.remoteUsers ?? []).map((user) => user.audioTrack?.setPlaybackDevice(deviceId))
+      );
+      updateDevices({ speakerId: deviceId });
+    } catch (error) {
+      console.error('Error switching speaker:', error);
+      throw error;
+    }
+  }, [updateDevices]);
+
+  const setVideoProfile = useCallback(async (profile: VideoEncoderConfigurationPreset) => {
+    if (!videoTrackRef.current) return;
+    await videoTrackRef.current.setEncoderConfiguration(profile);
   }, []);
 
+  const setLowStreamFallback = useCallback(async (enabled: boolean) => {
+    lowStreamFallbackRef.current = enabled;
+    const fallback = enabled ? FALLBACK_LOW_STREAM : FALLBACK_DISABLE;
+    await Promise.all(
+      (clientRef.current?.remoteUsers ?? [])
+        .filter((user) => user.hasVideo)
+        .map((user) => clientRef.current?.setStreamFallbackOption(user.uid, fallback))
+    );
+  }, []);
+
+  // Cycle to the next camera, e.g. front/back on phones
+  const switchCamera = useCallback(async () => {
+    if (!videoTrackRef.current) return;
+    const cameras = await AgoraRTC.getCameras();
+    if (cameras.length < 2) return;
+    const currentIndex = cameras.findIndex((camera) => camera.deviceId === devicesRef.current.cameraId);
+    await selectCamera(cameras[(currentIndex + 1) % cameras.length].deviceId);
+  }, [selectCamera]);
+
   const leave = useCallback(async () => {
     try {
+      isJoinedRef.current = false; // Stops any rejoin in progress
+
       // Close tracks
+      releaseEffects();
       audioTrackRef.current?.close();
       videoTrackRef.current?.close();
       audioTrackRef.current = null;
@@ -265,16 +491,127 @@ export function useOneToOneCall() {
       console.error('Error leaving call:', error);
       throw error;
     }
+  }, [releaseEffects]);
+
+  /**
+   * Stats sampled since joining, summarized and trimmed for upload; null if nothing was sampled
+   * Still available after leave(), until the next join
+   */
+  const getQualityReport = useCallback((): CallQualityMeasurements | null => {
+    const samples = qualitySamplesRef.current;
+    if (samples.length === 0) return null;
+
+    const interval = config.call.qualitySampleSeconds;
+    const { samples: trimmed, groupSize } = downsampleCallQuality(samples, config.call.qualityReportMaxSamples);
+    return {
+      durationSeconds: Math.round((Date.now() - joinedAtRef.current) / 1000),
+      sampleIntervalSeconds: interval * groupSize,
+      samples: trimmed,
+      summary: summarizeCallQuality(samples, interval, reconnectsRef.current),
+    };
+  }, []);
+
+  const getMediaTracks = useCallback((): CallMediaTracks => {
+    const remote = clientRef.current?.remoteUsers[0]; // One-to-one: at most one remote user
+    return {
+      localAudio: audioTrackRef.current?.getMediaStreamTrack(),
+      localVideo: videoTrackRef.current?.getMediaStreamTrack(),
+      remoteAudio: remote?.audioTrack?.getMediaStreamTrack(),
+      remoteVideo: remote?.videoTrack?.getMediaStreamTrack(),
+    };
   }, []);
 
+  // Follow devices plugged in or removed mid-call: a new device takes over (e.g. a headset),
+  // and losing the device in use falls back to whatever is still connected
+  useEffect(() => {
+    if (!isJoined) return;
+
+    const follow = (
+      kind: 'cameraId' | 'microphoneId' | 'speakerId',
+      list: () => Promise<MediaDeviceInfo[]>,
+      select: (deviceId: string) => Promise<void>
+    ) => async (info: DeviceInfo) => {
+      try {
+        if (info.state === 'ACTIVE') {
+          console.log(`Device plugged in, switching ${kind}:`, info.device.label);
+          await select(info.device.deviceId);
+        } else if (info.device.deviceId === devicesRef.current[kind]) {
+          const [fallback] = await list();
+          if (fallback) {
+            console.log(`Device removed, falling back ${kind}:`, fallback.label);
+            await select(fallback.deviceId);
+          }
+        }
+      } catch (error) {
+        console.error('Error following device change:', error);
+      }
+    };
+
+    const onCameraChanged = follow('cameraId', () => AgoraRTC.getCameras(), selectCamera);
+    const onMicrophoneChanged = follow('microphoneId', () => AgoraRTC.getMicrophones(), selectMicrophone);
+    const onPlaybackDeviceChanged = follow('speakerId', () => AgoraRTC.getPlaybackDevices(), selectSpeaker);
+
+    AgoraRTC.on('camera-changed', onCameraChanged);
+    AgoraRTC.on('microphone-changed', onMicrophoneChanged);
+    AgoraRTC.on('playback-device-changed', onPlaybackDeviceChanged);
+    return () => {
+      AgoraRTC.off('camera-changed', onCameraChanged);
+      AgoraRTC.off('microphone-changed', onMicrophoneChanged);
+      AgoraRTC.off('playback-device-changed', onPlaybackDeviceChanged);
+    };
+  }, [isJoined, selectCamera, selectMicrophone, selectSpeaker]);
+
+  // Sample media stats throughout the call for the diagnostics report
+  useEffect(() => {
+    if (!isJoined) return;
+
+    // Frozen time since the previous sample, from Agora's running total
+    const frozenSince = (kind: 'audio' | 'video', total = 0) => {
+      const frozen = Math.max(0, total - freezeTotalsRef.current[kind]);
+      freezeTotalsRef.current[kind] = total;
+      return frozen;
+    };
+
+    const takeSample = () => {
+      const client = clientRef.current;
+      if (!client) return;
+
+      const rtc = client.getRTCStats();
+      const remote = client.remoteUsers[0]; // One-to-one: at most one remote user
+      const remoteAudio = remote?.hasAudio ? client.getRemoteAudioStats()[remote.uid] : undefined;
+      const remoteVideo = remote?.hasVideo ? client.getRemoteVideoStats()[remote.uid] : undefined;
+      const localVideo = videoTrackRef.current ? client.getLocalVideoStats() : undefined;
+
+      qualitySamplesRef.current.push({
+        at: Math.round((Date.now() - joinedAtRef.current) / 1000),
+        rtt: rtc.RTT,
+        uplinkQuality: networkQualityRef.current.uplinkNetworkQuality,
+        downlinkQuality: networkQualityRef.current.downlinkNetworkQuality,
+        sendBitrate: Math.round(rtc.SendBitrate / 1000),
+        receiveBitrate: Math.round(rtc.RecvBitrate / 1000),
+        audioPacketLoss: remoteAudio?.packetLossRate ?? 0,
+        videoPacketLoss: remoteVideo?.packetLossRate,
+        sendFrameRate: localVideo?.sendFrameRate,
+        receiveFrameRate: remoteVideo?.receiveFrameRate,
+        audioFrozenSeconds: frozenSince('audio', remoteAudio?.totalFreezeTime),
+        videoFrozenSeconds: frozenSince('video', remoteVideo?.totalFreezeTime),
+      });
+    };
+
+    const timer = setInterval(takeSample, config.call.qualitySampleSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [isJoined]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      isJoinedRef.current = false;
+      releaseEffects(); // Frees the effect processors and their workers before the tracks go
       audioTrackRef.current?.close();
       videoTrackRef.current?.close();
       clientRef.current?.leave();
     };
-  }, []);
+  }, [releaseEffects]);
 
   return {
     isJoined,
@@ -285,11 +622,22 @@ export function useOneToOneCall() {
     remoteUser,
     connectionState,
     networkQuality,
+    activeDevices,
+    effects,
+    isRejoining,
+    rejoinAttempt,
     joinCall,
     toggleAudio,
     toggleVideo,
     switchToAudioOnly,
     switchCamera,
+    selectCamera,
+    selectMicrophone,
+    selectSpeaker,
+    setVideoProfile,
+    setLowStreamFallback,
+    getMediaTracks,
+    getQualityReport,
     leave,
   };
 }
@@ -0,0 +1,225 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { ICameraVideoTrack, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
+import type { IVirtualBackgroundProcessor, VirtualBackgroundEffectOptions } from 'agora-extension-virtual-background';
+import type { IAIDenoiserProcessor } from 'agora-extension-ai-denoiser';
+import { useAuth } from '@/contexts/AuthContext';
+import { getNoiseSuppressionExtension, getVirtualBackgroundExtension } from '@/services/trackEffects';
+import {
+  loadCallEffects,
+  loadImageElement,
+  saveCallEffects,
+  type BackgroundEffect,
+  type CallEffectsPreferences,
+} from '@/utils/callEffectsPreferences';
+
+// 'unavailable': the browser or device cannot run it; 'overloaded': it was turned off for being too slow
+export type EffectStatus = 'off' | 'loading' | 'on' | 'unavailable' | 'overloaded';
+
+/**
+ * Effects on the local camera and microphone, and how to change them
+ */
+export interface TrackEffects {
+  preferences: CallEffectsPreferences;
+  backgroundStatus: EffectStatus;
+  noiseSuppressionStatus: EffectStatus;
+  setBackground: (background: BackgroundEffect, image?: string) => Promise<void>;
+  setNoiseSuppression: (enabled: boolean) => Promise<void>;
+}
+
+/**
+ * Virtual background and noise suppression for the local tracks of a call or live stream
+ * The owning hook attaches each track it creates; saved preferences are applied to it in the
+ * background, so joining never waits on the extensions. When an effect cannot run, the plain
+ * track keeps going and the status says why.
+ */
+export function useTrackEffects() {
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [preferences, setPreferences] = useState(() => loadCallEffects(userId));
+  const [backgroundStatus, setBackgroundStatus] = useState<EffectStatus>('off');
+  const [noiseSuppressionStatus, setNoiseSuppressionStatus] = useState<EffectStatus>('off');
+  const preferencesRef = useRef(preferences);
+  const videoTrackRef = useRef<ICameraVideoTrack | null>(null);
+  const audioTrackRef = useRef<IMicrophoneAudioTrack | null>(null);
+  const backgroundProcessorRef = useRef<IVirtualBackgroundProcessor | null>(null);
+  const denoiserRef = useRef<IAIDenoiserProcessor | null>(null);
+  const pipedVideoTrackRef = useRef<ICameraVideoTrack | null>(null);
+  const pipedAudioTrackRef = useRef<IMicrophoneAudioTrack | null>(null);
+
+  useEffect(() => {
+    const loaded = loadCallEffects(userId);
+    preferencesRef.current = loaded;
+    setPreferences(loaded);
+  }, [userId]);
+
+  const updatePreferences = useCallback((changes: Partial<CallEffectsPreferences>) => {
+    preferencesRef.current = { ...preferencesRef.current, ...changes };
+    setPreferences(preferencesRef.current);
+    saveCallEffects(userId, preferencesRef.current);
+  }, [userId]);
+
+  const applyBackground = useCallback(async () => {
+    const track = videoTrackRef.current;
+    const { background, blurDegree, backgroundImage } = preferencesRef.current;
+    if (!track) return;
+
+    if (background === 'none' || (background === 'image' && !backgroundImage)) {
+      // disable() may or may not return a promise
+      if (backgroundProcessorRef.current) await Promise.resolve(backgroundProcessorRef.current.disable()).catch(() => undefined);
+      setBackgroundStatus('off');
+      return;
+    }
+
+    setBackgroundStatus('loading');
+    try {
+      let processor = backgroundProcessorRef.current;
+      if (!processor) {
+        const extension = await getVirtualBackgroundExtension();
+        if (!extension) {
+          setBackgroundStatus('unavailable');
+          return;
+        }
+        const created = extension.createProcessor();
+        await created.init();
+        created.onoverload = () => {
+          console.warn('Virtual background is too slow on this device, turning it off');
+          Promise.resolve(created.disable()).catch(() => undefined);
+          setBackgroundStatus('overloaded');
+        };
+        backgroundProcessorRef.current = created;
+        processor = created;
+      }
+
+      const options: VirtualBackgroundEffectOptions =
+        background === 'blur'
+          ? { type: 'blur', blurDegree }
+          : { type: 'img', source: await loadImageElement(backgroundImage!), fit: 'cover' };
+
+      if (videoTrackRef.current !== track) return; // Replaced meanwhile; the new track applies it
+      if (pipedVideoTrackRef.current !== track) {
+        processor.unpipe();
+        track.pipe(processor).pipe(track.processorDestination);
+        pipedVideoTrackRef.current = track;
+      }
+      processor.setOptions(options);
+      await processor.enable();
+      setBackgroundStatus('on');
+    } catch (error) {
+      console.error('Error applying virtual background:', error);
+      setBackgroundStatus('unavailable');
+    }
+  }, []);
+
+  const applyNoiseSuppression = useCallback(async () => {
+    const track = audioTrackRef.current;
+    if (!track) return;
+
+    if (!preferencesRef.current.noiseSuppression) {
+      if (denoiserRef.current) await Promise.resolve(denoiserRef.current.disable()).catch(() => undefined);
+      setNoiseSuppressionStatus('off');
+      return;
+    }
+
+    setNoiseSuppressionStatus('loading');
+    try {
+      let processor = denoiserRef.current;
+      if (!processor) {
+        const extension = await getNoiseSuppressionExtension();
+        if (!extension) {
+          setNoiseSuppressionStatus('unavailable');
+          return;
+        }
+        const created = extension.createProcessor();
+        created.onoverload = () => {
+          console.warn('Noise suppression is too slow on this device, turning it off');
+          Promise.resolve(created.disable()).catch(() => undefined);
+          setNoiseSuppressionStatus('overloaded');
+        };
+        denoiserRef.current = created;
+        processor = created;
+      }
+
+      if (audioTrackRef.current !== track) return;
+      if (pipedAudioTrackRef.current !== track) {
+        processor.unpipe();
+        track.pipe(processor).pipe(track.processorDestination);
+        pipedAudioTrackRef.current = track;
+      }
+      await processor.enable();
+      setNoiseSuppressionStatus('on');
+    } catch (error) {
+      console.error('Error applying noise suppression:', error);
+      setNoiseSuppressionStatus('unavailable');
+    }
+  }, []);
+
+  /**
+   * Call right after creating the camera track; resolves without waiting for the effect
+   */
+  const attachVideoTrack = useCallback((track: ICameraVideoTrack) => {
+    videoTrackRef.current = track;
+    if (preferencesRef.current.background !== 'none') applyBackground();
+  }, [applyBackground]);
+
+  const attachAudioTrack = useCallback((track: IMicrophoneAudioTrack) => {
+    audioTrackRef.current = track;
+    if (preferencesRef.current.noiseSuppression) applyNoiseSuppression();
+  }, [applyNoiseSuppression]);
+
+  // Before closing the camera track on its own, e.g. switching to audio only
+  const detachVideoTrack = useCallback(() => {
+    backgroundProcessorRef.current?.unpipe();
+    videoTrackRef.current = null;
+    pipedVideoTrackRef.current = null;
+    setBackgroundStatus('off');
+  }, []);
+
+  /**
+   * Free the processors when leaving; the next join creates them again
+   */
+  const releaseEffects = useCallback(() => {
+    const background = backgroundProcessorRef.current;
+    const denoiser = denoiserRef.current;
+    backgroundProcessorRef.current = null;
+    denoiserRef.current = null;
+    videoTrackRef.current = null;
+    audioTrackRef.current = null;
+    pipedVideoTrackRef.current = null;
+    pipedAudioTrackRef.current = null;
+    setBackgroundStatus('off');
+    setNoiseSuppressionStatus('off');
+
+    background?.unpipe();
+    background?.release().catch(() => undefined);
+    denoiser?.unpipe();
+    denoiser?.destroy().catch(() => undefined);
+  }, []);
+
+  const setBackground = useCallback(async (background: BackgroundEffect, image?: string) => {
+    updatePreferences(image ? { background, backgroundImage: image } : { background });
+    await applyBackground();
+  }, [updatePreferences, applyBackground]);
+
+  const setNoiseSuppression = useCallback(async (enabled: boolean) => {
+    updatePreferences({ noiseSuppression: enabled });
+    await applyNoiseSuppression();
+  }, [updatePreferences, applyNoiseSuppression]);
+
+  useEffect(() => releaseEffects, [releaseEffects]);
+
+  const effects: TrackEffects = {
+    preferences,
+    backgroundStatus,
+    noiseSuppressionStatus,
+    setBackground,
+    setNoiseSuppression,
+  };
+
+  return {
+    effects,
+    attachVideoTrack,
+    attachAudioTrack,
+    detachVideoTrack,
+    releaseEffects,
+  };
+}
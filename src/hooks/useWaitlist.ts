@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { onWaitlistChange } from '@/services/waitlist';
+import type { WaitlistEntry } from '@/types/api';
+
+/**
+ * The user's waitlist entries, kept in sync with the waitlist service
+ * Pass an astrologer id to get just the entry for that astrologer
+ */
+export function useWaitlist(astrologerId?: string) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  useEffect(() => onWaitlistChange(setEntries), []);
+
+  return {
+    entries,
+    entry: astrologerId
+      ? entries.find((entry) => entry.astrologerId === astrologerId && entry.status === 'waiting') ?? null
+      : null,
+  };
+}
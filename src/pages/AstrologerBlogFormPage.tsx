@@ -22,14 +22,8 @@ export default function AstrologerBlogFormPage() {
       if (!isEdit) return;
       setLoading(true);
       try {
-        const res = await astrologerApi.getMyBlogs(1, 50);
-        const data = 'data' in res ? (res as any).data : res;
-        const list = Array.isArray((data as any)?.data)
-          ? (data as any).data
-          : Array.isArray(data)
-          ? (data as any)
-          : [];
-        const found = list.find((x: any) => x._id === blogId);
+        const list = await astrologerApi.getMyBlogs(1, 50);
+        const found = list.find((x) => x._id === blogId);
         if (found) {
           setTitle(found.title || '');
           setContent(found.content || '');
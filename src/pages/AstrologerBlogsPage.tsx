@@ -3,23 +3,18 @@ import { astrologerApi } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import type { Blog } from '@/types/api';
 
 export default function AstrologerBlogsPage() {
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [items, setItems] = useState<any[]>([]);
+  const [items, setItems] = useState<Blog[]>([]);
   const [loading, setLoading] = useState(true);
 
   const load = async () => {
     setLoading(true);
     try {
-      const res = await astrologerApi.getMyBlogs(1, 20);
-      const data = 'data' in res ? (res as any).data : res;
-      const list = Array.isArray((data as any)?.data)
-        ? (data as any).data
-        : Array.isArray(data)
-        ? (data as any)
-        : [];
+      const list = await astrologerApi.getMyBlogs(1, 20);
       setItems(list);
     } catch (e: any) {
       toast({ title: 'Failed to load blogs', description: e.message, variant: 'destructive' });
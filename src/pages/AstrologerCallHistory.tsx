@@ -73,8 +73,8 @@ export default function AstrologerCallHistory() {
       }
 
       const data = await astrologerApi.getCallHistory(params);
-      setCalls(data.data?.calls || []);
-      setPagination(data.data?.pagination || pagination);
+      setCalls(data.calls || []);
+      setPagination(data.pagination || pagination);
     } catch (error) {
       console.error('Failed to fetch call history:', error);
       setCalls([]);
@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ChevronLeft, Phone, Video, Clock, Calendar, IndianRupee, MessageSquare, Sparkles, NotebookPen, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import AstrologerLayout from '@/components/AstrologerLayout';
+import { astrologerApi } from '@/services/api';
+import { format } from 'date-fns';
+import type { ClientProfile } from '@/types/api';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * One client's history with the astrologer: calls with their private notes, chats and remedy bookings
+ */
+export default function AstrologerClientPage() {
+  const { userId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<ClientProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchProfile = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      setProfile(await astrologerApi.getClientProfile(userId));
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to load client',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const clientName = profile?.user.fullName || 'Client';
+
+  const openChat = () => {
+    if (!profile) return;
+    navigate(`/astrologer/chat/${profile.user._id}`, {
+      state: { participantName: clientName, participantAvatar: profile.user.profilePhoto },
+    });
+  };
+
+  return (
+    <AstrologerLayout>
+      <header className="border-b border-border glass sticky top-0 z-40">
+        <div className="px-6 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="text-muted-foreground">
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-8 h-8 rounded-lg gold-gradient flex items-center justify-center">
+              <UserRound className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="font-display font-bold text-foreground">{clientName}</h1>
+              <p className="text-xs text-muted-foreground">Client history, visible only to you</p>
+            </div>
+          </div>
+          {profile && (
+            <Button variant="outline" onClick={openChat} className="gap-2">
+              <MessageSquare className="w-4 h-4" />
+              Message
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !profile ? (
+        <div className="py-20 text-center">
+          <UserRound className="w-16 h-16 text-muted-foreground/30 mx-auto mb-4" />
+          <h2 className="font-display text-xl text-foreground mb-2">Client not found</h2>
+          <p className="text-muted-foreground">You have no history with this user yet</p>
+        </div>
+      ) : (
+        <main className="px-6 py-6 grid gap-6 lg:grid-cols-[2fr_1fr]">
+          <div className="space-y-6">
+            {/* Totals */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs text-muted-foreground">Calls</p>
+                <p className="text-2xl font-bold text-foreground">{profile.totalCalls}</p>
+              </div>
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs text-muted-foreground">Minutes</p>
+                <p className="text-2xl font-bold text-foreground">{Math.round(profile.totalMinutes)}</p>
+              </div>
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs text-muted-foreground">Earned</p>
+                <p className="text-2xl font-bold text-green-600">₹{profile.totalEarnings.toFixed(2)}</p>
+              </div>
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs text-muted-foreground">Client since</p>
+                <p className="text-sm font-semibold text-foreground mt-2">
+                  {profile.firstContactAt ? format(new Date(profile.firstContactAt), 'MMM dd, yyyy') : '—'}
+                </p>
+              </div>
+            </div>
+
+            {/* Calls and notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <NotebookPen className="h-5 w-5 text-primary" />
+                  Consultations
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {profile.calls.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No calls yet</p>
+                ) : (
+                  profile.calls.map((call) => (
+                    <button
+                      key={call._id}
+                      type="button"
+                      onClick={() => navigate(`/astrologer/calls/${call._id}/details`)}
+                      className="w-full text-left border border-border rounded-lg p-4 hover:border-primary/50 transition-colors"
+                    >
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1 text-foreground font-medium">
+                          {call.callType === 'video' ? <Video className="w-4 h-4" /> : <Phone className="w-4 h-4" />}
+                          <span className="capitalize">{call.callType}</span>
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-4 h-4" />
+                          {format(new Date(call.initiatedAt), 'MMM dd, yyyy')}
+                        </span>
+                        {call.duration > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-4 h-4" />
+                            {formatDuration(call.duration)}
+                          </span>
+                        )}
+                        {call.astrologerEarnings > 0 && (
+                          <span className="flex items-center gap-1 text-green-600 font-semibold">
+                            <IndianRupee className="w-4 h-4" />
+                            {call.astrologerEarnings.toFixed(2)}
+                          </span>
+                        )}
+                      </div>
+                      {call.note?.tags.length ? (
+                        <div className="flex flex-wrap gap-1 mt-3">
+                          {call.note.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">{tag}</Badge>
+                          ))}
+                        </div>
+                      ) : null}
+                      <p className="text-sm mt-2 whitespace-pre-line line-clamp-4 text-foreground">
+                        {call.note?.notes || <span className="text-muted-foreground italic">No notes</span>}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {/* Tags across all notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Tags</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {profile.tags.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Tag your notes to see them here</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {profile.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Chats */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <MessageSquare className="h-4 w-4 text-primary" />
+                  Chats
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {profile.chats.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No chats yet</p>
+                ) : (
+                  profile.chats.map((chat) => (
+                    <button
+                      key={chat.sessionId}
+                      type="button"
+                      onClick={openChat}
+                      className="w-full flex items-center justify-between text-left text-sm border border-border rounded-lg px-3 py-2 hover:border-primary/50 transition-colors"
+                    >
+                      <span>{chat.messageCount ?? 0} messages</span>
+                      <span className="text-xs text-muted-foreground">
+                        {chat.lastMessageAt ? format(new Date(chat.lastMessageAt), 'MMM dd, yyyy') : ''}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Remedy bookings */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Sparkles className="h-4 w-4 text-primary" />
+                  Remedy bookings
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {profile.remedyBookings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No remedy bookings yet</p>
+                ) : (
+                  profile.remedyBookings.map((booking) => (
+                    <div key={booking._id} className="border border-border rounded-lg px-3 py-2 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-foreground">{booking.remedyName}</span>
+                        <Badge variant="outline" className="capitalize">{booking.status.replace('_', ' ')}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(booking.createdAt), 'MMM dd, yyyy')}
+                        {booking.amount !== undefined && ` · ₹${booking.amount}`}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      )}
+    </AstrologerLayout>
+  );
+}
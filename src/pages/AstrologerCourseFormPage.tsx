@@ -83,12 +83,8 @@ export default function AstrologerCourseFormPage() {
     setUploadingIndex(index);
     try {
       const response = await astrologerApi.uploadCourseVideo(formData);
-      if (response.success) {
-        updateModule(index, 'videoUrl', response.data.videoUrl);
-        toast({ title: "Video uploaded to YouTube", description: "The URL has been automatically filled." });
-      } else {
-        throw new Error(response.message);
-      }
+      updateModule(index, 'videoUrl', response.videoUrl);
+      toast({ title: "Video uploaded to YouTube", description: "The URL has been automatically filled." });
     } catch (error: any) {
       toast({
         title: "Upload failed",
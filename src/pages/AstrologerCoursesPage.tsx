@@ -85,9 +85,9 @@ export default function AstrologerCoursesPage() {
       const response = await astrologerApi.getCourseLiveToken(course._id);
       navigate(`/astrologer/live-course/${course._id}`, {
         state: {
-          agora: response.data?.agora,
-          channelName: response.data?.channelName,
-          courseInfo: response.data?.courseInfo
+          agora: response.agora,
+          channelName: response.channelName,
+          courseInfo: response.courseInfo
         }
       });
     } catch (error: unknown) {
@@ -11,39 +11,42 @@ import CreateSessionModal from '@/components/CreateSessionModal';
 import StatsWidget from '@/components/StatsWidget';
 import IncomingCallNotification from '@/components/IncomingCallNotification';
 import AvailabilityToggle from '@/components/AvailabilityToggle';
+import CallQueuePanel from '@/components/CallQueuePanel';
+import MissedCallsPanel from '@/components/MissedCallsPanel';
+import CallNotificationPrompt from '@/components/CallNotificationPrompt';
 import { useIncomingCalls } from '@/hooks/useIncomingCalls';
 import { useAvailability } from '@/hooks/useAvailability';
 import AstrologerSidebar from '@/components/AstrologerSidebar';
-
-interface Session {
-  _id: string;
-  title: string;
-  description?: string;
-  topic?: string;
-  status: string;
-  scheduledStartTime?: string;
-  actualStartTime?: string;
-  stats: {
-    totalViewers: number;
-    peakViewers: number;
-    totalMessages: number;
-    totalLikes: number;
-  };
-  videoConfig?: any;
-}
+import type { LiveSession, LiveOverallStats, AcceptCallResponse } from '@/types/api';
 
 export default function AstrologerDashboard() {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
   const [activeTab, setActiveTab] = useState('scheduled');
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [overallStats, setOverallStats] = useState<any>(null);
+  const [overallStats, setOverallStats] = useState<LiveOverallStats | null>(null);
   
   // Incoming call management
-  const { incomingCall, isProcessing, acceptCall, rejectCall } = useIncomingCalls();
+  const {
+    incomingCall,
+    queuedCount,
+    waitlist,
+    isProcessing,
+    acceptCall,
+    rejectCall,
+    takeNextFromWaitlist,
+    removeFromWaitlist,
+    missedCalls,
+    dismissMissedCall,
+    clearMissedCalls,
+    notificationPermission,
+    enableNotifications,
+  } = useIncomingCalls({
+    onAcceptedFromNotification: (callId, callData) => joinAcceptedCall(callId, callData),
+  });
   
   // Availability management
   const { status: availabilityStatus, updateStatus: updateAvailabilityStatus } = useAvailability();
@@ -74,7 +77,7 @@ export default function AstrologerDashboard() {
     }
   };
 
-  const handleGoLive = (session: Session) => {
+  const handleGoLive = (session: LiveSession) => {
     navigate(`/astrologer/live/${session._id}`, { state: { session } });
   };
 
@@ -94,18 +97,35 @@ export default function AstrologerDashboard() {
     toast({ title: 'Session scheduled!' });
   };
 
+  const joinAcceptedCall = (callId: string, callData: AcceptCallResponse) => {
+    // Store Agora credentials in localStorage for InCallUI to use
+    if (callData.agora) {
+      console.log('[AstrologerDashboard] Storing Agora credentials:', callData.agora);
+      localStorage.setItem(`agora_${callId}`, JSON.stringify(callData.agora));
+    }
+
+    navigate(`/astrologer/call/${callId}`);
+  };
+
   const handleAcceptCall = async () => {
     try {
+      const callId = incomingCall?.callId;
       const callData = await acceptCall();
       // Navigate to call page with call data
-      if (callData) {
-        // Store Agora credentials in localStorage for InCallUI to use
-        if (callData.data?.agora) {
-          console.log('[AstrologerDashboard] Storing Agora credentials:', callData.data.agora);
-          localStorage.setItem(`agora_${incomingCall?.callId}`, JSON.stringify(callData.data.agora));
-        }
-        
-        navigate(`/astrologer/call/${incomingCall?.callId}`);
+      if (callData && callId) {
+        joinAcceptedCall(callId, callData);
+      }
+    } catch (error) {
+      // Error already handled in hook
+    }
+  };
+
+  const handleTakeNext = async () => {
+    try {
+      const callData = await takeNextFromWaitlist();
+      const callId = callData?.call?._id;
+      if (callData && callId) {
+        joinAcceptedCall(callId, callData);
       }
     } catch (error) {
       // Error already handled in hook
@@ -147,6 +167,19 @@ export default function AstrologerDashboard() {
         </header>
 
         <main className="px-6 py-6 space-y-6">
+        <CallNotificationPrompt permission={notificationPermission} onEnable={enableNotifications} />
+
+        {/* Callers waiting for this astrologer */}
+        <CallQueuePanel
+          entries={waitlist}
+          isProcessing={isProcessing}
+          onTakeNext={handleTakeNext}
+          onRemove={removeFromWaitlist}
+        />
+
+        {/* Calls that rang out */}
+        <MissedCallsPanel calls={missedCalls} onDismiss={dismissMissedCall} onClear={clearMissedCalls} />
+
         {/* Stats Overview */}
         {overallStats && (
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -213,9 +246,9 @@ export default function AstrologerDashboard() {
                     )}
 
                     <div className="flex items-center gap-4 text-xs text-muted-foreground mb-4">
-                      <span className="flex items-center gap-1"><Eye className="w-3.5 h-3.5" />{session.stats.totalViewers}</span>
-                      <span className="flex items-center gap-1"><MessageCircle className="w-3.5 h-3.5" />{session.stats.totalMessages}</span>
-                      <span className="flex items-center gap-1"><Heart className="w-3.5 h-3.5" />{session.stats.totalLikes}</span>
+                      <span className="flex items-center gap-1"><Eye className="w-3.5 h-3.5" />{session.stats?.totalViewers ?? 0}</span>
+                      <span className="flex items-center gap-1"><MessageCircle className="w-3.5 h-3.5" />{session.stats?.totalMessages ?? 0}</span>
+                      <span className="flex items-center gap-1"><Heart className="w-3.5 h-3.5" />{session.stats?.totalLikes ?? 0}</span>
                     </div>
 
                     {session.status === 'scheduled' && (
@@ -243,13 +276,16 @@ export default function AstrologerDashboard() {
         {/* Incoming Call Notification */}
         {incomingCall && (
           <IncomingCallNotification
+            key={incomingCall.callId}
             callId={incomingCall.callId}
+            userId={incomingCall.userId}
             userName={incomingCall.userName}
             userPhoto={incomingCall.userPhoto}
             callType={incomingCall.callType}
             onAccept={handleAcceptCall}
             onReject={handleRejectCall}
-            timeout={30}
+            timeout={Math.max(1, Math.round((incomingCall.expiresAt - Date.now()) / 1000))}
+            queuedCount={queuedCount}
           />
         )}
       </div>
@@ -98,10 +98,7 @@ export default function AstrologerEarnings() {
   const fetchEarnings = async () => {
     setIsLoading(true);
     try {
-      const response = await astrologerApi.getEarnings(selectedPeriod);
-      const data = (response && typeof response === 'object' && 'data' in response)
-        ? (response as any).data
-        : response;
+      const data = await astrologerApi.getEarnings(selectedPeriod);
       const summary = data?.summary || {
         totalEarnings: 0,
         grossEarnings: 0,
@@ -127,10 +124,7 @@ export default function AstrologerEarnings() {
 
   const fetchWalletData = async () => {
     try {
-      const response = await astrologerApi.getWalletSummary();
-      const data = (response && typeof response === 'object' && 'data' in response)
-        ? (response as any).data
-        : response;
+      const data = await astrologerApi.getWalletSummary();
       const balance = typeof data?.balance === 'number' ? data.balance : 0;
       const transactions = Array.isArray(data?.transactions) ? data.transactions : [];
       const withdrawals = Array.isArray(data?.withdrawals) ? data.withdrawals : [];
@@ -332,10 +332,16 @@ export default function AstrologerList() {
                     disabled={astrologer.availability?.status === 'offline'}
                     onClick={(e) => {
                       e.stopPropagation();
-                      navigate(`/user/astrologer/${astrologer._id}`);
+                      navigate(`/user/astrologer/${astrologer._id}`, {
+                        state: { joinWaitlist: astrologer.availability?.status === 'busy' },
+                      });
                     }}
                   >
-                    {astrologer.availability?.status === 'online' ? 'Start Consultation' : 'View Profile'}
+                    {astrologer.availability?.status === 'online'
+                      ? 'Start Consultation'
+                      : astrologer.availability?.status === 'busy'
+                        ? 'Join Waitlist'
+                        : 'View Profile'}
                   </Button>
                 </div>
               </div>
@@ -4,7 +4,9 @@ import { Mic, MicOff, PhoneOff, Video, VideoOff, MessageCircle, Users, Share2 }
 import { useAgora, type VideoConfig } from '@/hooks/useAgora';
 import { useScreenShare } from '@/hooks/useScreenShare';
 import { astrologerApi } from '@/services/api';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import { unwrapLiveChatMessage } from '@/utils/messages';
+import type { LiveChatMessageEvent, StudentJoinedEvent } from '@/types/socket';
 import { Button } from '@/components/ui/button';
 import ChatPanel from '@/components/ChatPanel';
 import { useToast } from '@/hooks/use-toast';
@@ -49,7 +51,6 @@ export default function AstrologerLiveCourse() {
   const [courseTitle, setCourseTitle] = useState<string>('Live Course');
 
   const videoContainerRef = useRef<HTMLDivElement>(null);
-  const socket = getSocket();
 
   const {
     isJoined,
@@ -64,6 +65,10 @@ export default function AstrologerLiveCourse() {
     startLiveStreaming,
   } = useAgora();
 
+  // startLiveStreaming changes identity once joined; read it through a ref so joining does not restart the effect below
+  const startLiveStreamingRef = useRef(startLiveStreaming);
+  startLiveStreamingRef.current = startLiveStreaming;
+
   const client = getClient();
   const localTracks = useMemo(() => getLocalTracks(), [getLocalTracks, isJoined]);
   const { isSharing, startScreenShare, stopScreenShare, screenTrack } = useScreenShare(client, localTracks);
@@ -99,9 +104,9 @@ export default function AstrologerLiveCourse() {
 
         if (!agoraConfig) {
           const response = await astrologerApi.getCourseLiveToken(courseId);
-          agoraConfig = response.data?.agora;
-          courseInfo = response.data?.courseInfo;
-          youtubeConfig = response.data?.youtube;
+          agoraConfig = response.agora;
+          courseInfo = response.courseInfo;
+          youtubeConfig = response.youtube;
         }
 
         if (!agoraConfig?.appId) {
@@ -118,7 +123,7 @@ export default function AstrologerLiveCourse() {
         // If YouTube is configured AND enabled, start pushing to CDN
         if (youtubeConfig?.rtmpUrl && youtubeConfig?.streamKey && youtubeConfig?.enabled) {
           const combinedUrl = `${youtubeConfig.rtmpUrl}/${youtubeConfig.streamKey}`;
-          startLiveStreaming(combinedUrl).catch(err => {
+          startLiveStreamingRef.current(combinedUrl).catch(err => {
             console.error('Failed to start YouTube push for course:', err);
             toast({ title: "Recording Issue", description: "Course is live but YouTube recording failed to start.", variant: "destructive" });
           });
@@ -127,7 +132,7 @@ export default function AstrologerLiveCourse() {
         // Store videoConfig for screen share
         (window as any).__videoConfig = videoConfig;
 
-        socket?.emit('start_course_live', {
+        emitEvent('start_course_live', {
           courseId,
           astrologerId: user?._id
         });
@@ -145,7 +150,7 @@ export default function AstrologerLiveCourse() {
     };
 
     init();
-  }, [courseId, joinAsHost, socket, state?.agora, state?.courseInfo, toVideoConfig, toast, user?._id]);
+  }, [courseId, joinAsHost, state, toVideoConfig, toast, user?._id]);
 
   useEffect(() => {
     if (isSharing && screenTrack && isJoined) {
@@ -154,10 +159,8 @@ export default function AstrologerLiveCourse() {
   }, [isSharing, screenTrack, isJoined]);
 
   useEffect(() => {
-    if (!socket) return;
-
-    const normalizeMessage = (payload: any): ChatMessage | null => {
-      const msg = payload?.message || payload;
+    const normalizeMessage = (payload: LiveChatMessageEvent): ChatMessage | null => {
+      const msg = unwrapLiveChatMessage(payload);
       if (!msg) return null;
       return {
         _id: msg._id || `${msg.userId}-${msg.timestamp || Date.now()}`,
@@ -170,13 +173,13 @@ export default function AstrologerLiveCourse() {
       };
     };
 
-    const onMessage = (data: any) => {
+    const onMessage = (data: LiveChatMessageEvent) => {
       const msg = normalizeMessage(data);
       if (!msg) return;
       setMessages((prev) => [...prev, msg]);
     };
 
-    const onStudentJoined = (data: any) => {
+    const onStudentJoined = (data: StudentJoinedEvent) => {
       setParticipantCount((count) => count + 1);
       toast({
         title: "New Student",
@@ -188,21 +191,17 @@ export default function AstrologerLiveCourse() {
       setParticipantCount((count) => Math.max(0, count - 1));
     };
 
-    socket.on('course_chat_message', onMessage);
-    socket.on('student_joined', onStudentJoined);
-    socket.on('participant_left', onParticipantLeft);
-
-    return () => {
-      socket.off('course_chat_message', onMessage);
-      socket.off('student_joined', onStudentJoined);
-      socket.off('participant_left', onParticipantLeft);
-    };
-  }, [socket]);
+    return subscribeToEvents({
+      course_chat_message: onMessage,
+      student_joined: onStudentJoined,
+      participant_left: onParticipantLeft,
+    });
+  }, [toast]);
 
   const handleSendMessage = useCallback((message: string) => {
     if (!courseId || !user?._id) return;
-    socket?.emit('course_message', { courseId, userId: user._id, message });
-  }, [courseId, socket, user?._id]);
+    emitEvent('course_message', { courseId, userId: user._id, message });
+  }, [courseId, user?._id]);
 
   const handleToggleScreenShare = useCallback(async () => {
     if (!courseId || !user?._id) return;
@@ -223,21 +222,21 @@ export default function AstrologerLiveCourse() {
         setTimeout(() => localTracks.videoTrack?.play('course-local-video'), 500);
       }
 
-      socket?.emit('course_screen_share', {
+      emitEvent('course_screen_share', {
         courseId,
         astrologerId: user._id,
         isSharing: nextSharing
       });
     }
-  }, [courseId, isSharing, startScreenShare, stopScreenShare, socket, user?._id, localTracks.videoTrack]);
+  }, [courseId, isSharing, startScreenShare, stopScreenShare, user?._id, localTracks.videoTrack]);
 
   const handleEndLive = useCallback(async () => {
     if (courseId) {
-      socket?.emit('leave_course_live', { courseId });
+      emitEvent('leave_course_live', { courseId });
     }
     await leave();
     navigate('/astrologer');
-  }, [courseId, leave, navigate, socket]);
+  }, [courseId, leave, navigate]);
 
   const statusLabel = useMemo(() => {
     if (isStarting) return 'Starting live course...';
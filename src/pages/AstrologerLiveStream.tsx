@@ -1,11 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { Video, VideoOff, Mic, MicOff, PhoneOff, Eye, Heart, MessageCircle, Clock } from 'lucide-react';
+import { Video, VideoOff, Mic, MicOff, PhoneOff, Eye, Heart, MessageCircle, Clock, Sparkles } from 'lucide-react';
 import { useAgora, VideoConfig } from '@/hooks/useAgora';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import { unwrapLiveChatMessage } from '@/utils/messages';
+import type { LiveChatMessageEvent, LiveViewerEvent, LiveLikeEvent, LiveStatsUpdateEvent, LiveStartedEvent } from '@/types/socket';
 import { astrologerApi } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import ChatPanel from '@/components/ChatPanel';
+import CallEffectsMenu from '@/components/CallEffectsMenu';
 import { useToast } from '@/hooks/use-toast';
 
 interface ChatMessage {
@@ -23,7 +26,7 @@ export default function AstrologerLiveStream() {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const { isJoined, isAudioOn, isVideoOn, joinAsHost, toggleAudio, toggleVideo, leave, startLiveStreaming } = useAgora();
+  const { isJoined, isAudioOn, isVideoOn, joinAsHost, toggleAudio, toggleVideo, leave, startLiveStreaming, effects } = useAgora();
 
   const [isLive, setIsLive] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
@@ -51,11 +54,8 @@ export default function AstrologerLiveStream() {
 
   // Socket listeners
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
-
-    const normalizeMessage = (payload: any): ChatMessage | null => {
-      const msg = payload?.message || payload;
+    const normalizeMessage = (payload: LiveChatMessageEvent): ChatMessage | null => {
+      const msg = unwrapLiveChatMessage(payload);
       if (!msg) return null;
       return {
         _id: msg._id || msg.id || `${msg.userId}-${msg.timestamp || Date.now()}`,
@@ -68,34 +68,34 @@ export default function AstrologerLiveStream() {
       };
     };
 
-    const onViewerJoined = (data: any) => {
+    const onViewerJoined = (data: LiveViewerEvent) => {
       const count = data.currentViewers ?? data.currentViewerCount ?? 0;
       setStats((s) => ({ ...s, currentViewers: count }));
       const name = data.viewerName || data.userName || 'Viewer';
       toast({ title: `${name} joined!`, duration: 2000 });
     };
 
-    const onViewerLeft = (data: any) => {
+    const onViewerLeft = (data: LiveViewerEvent) => {
       const count = data.currentViewers ?? data.currentViewerCount ?? 0;
       setStats((s) => ({ ...s, currentViewers: count }));
     };
 
-    const onMessage = (data: any) => {
+    const onMessage = (data: LiveChatMessageEvent) => {
       const msg = normalizeMessage(data);
       if (!msg) return;
       setMessages((prev) => [...prev, msg]);
       setStats((s) => ({ ...s, totalMessages: s.totalMessages + 1 }));
     };
 
-    const onLike = (data: any) => {
+    const onLike = (data: LiveLikeEvent) => {
       setStats((s) => ({ ...s, totalLikes: data.totalLikes ?? s.totalLikes }));
     };
 
-    const onStatsUpdate = (data: any) => {
+    const onStatsUpdate = (data: LiveStatsUpdateEvent) => {
       setStats((s) => ({ ...s, ...data }));
     };
 
-    const onLiveStarted = (data: any) => {
+    const onLiveStarted = (data: LiveStartedEvent) => {
       setIsLive(true);
       setIsStarting(false);
 
@@ -131,27 +131,17 @@ export default function AstrologerLiveStream() {
       clearInterval(timerRef.current);
     };
 
-    socket.on('viewer_joined', onViewerJoined);
-    socket.on('viewer_left', onViewerLeft);
-    socket.on('live_message', onMessage);
-    socket.on('live_chat_message', onMessage);
-    socket.on('live_like', onLike);
-    socket.on('live_liked', onLike);
-    socket.on('stats_update', onStatsUpdate);
-    socket.on('live_started', onLiveStarted);
-    socket.on('live_ended', onLiveEnded);
-
-    return () => {
-      socket.off('viewer_joined', onViewerJoined);
-      socket.off('viewer_left', onViewerLeft);
-      socket.off('live_message', onMessage);
-      socket.off('live_chat_message', onMessage);
-      socket.off('live_like', onLike);
-      socket.off('live_liked', onLike);
-      socket.off('stats_update', onStatsUpdate);
-      socket.off('live_started', onLiveStarted);
-      socket.off('live_ended', onLiveEnded);
-    };
+    return subscribeToEvents({
+      viewer_joined: onViewerJoined,
+      viewer_left: onViewerLeft,
+      live_message: onMessage,
+      live_chat_message: onMessage,
+      live_like: onLike,
+      live_liked: onLike,
+      stats_update: onStatsUpdate,
+      live_started: onLiveStarted,
+      live_ended: onLiveEnded,
+    });
   }, [toast]);
 
   const handleStartLive = useCallback(async () => {
@@ -188,8 +178,7 @@ export default function AstrologerLiveStream() {
       }
 
       // Emit start_live event - backend will generate tokens if needed
-      const socket = getSocket();
-      socket?.emit('start_live', { sessionId });
+      emitEvent('start_live', { sessionId });
 
     } catch (err: any) {
       console.error('Failed to start live:', err);
@@ -199,8 +188,9 @@ export default function AstrologerLiveStream() {
   }, [sessionId, joinAsHost, toast, isJoined]);
 
   const handleEndLive = useCallback(async () => {
-    const socket = getSocket();
-    socket?.emit('end_live', { sessionId, reason: 'Session completed' });
+    if (sessionId) {
+      emitEvent('end_live', { sessionId, reason: 'Session completed' });
+    }
     await leave();
     setIsLive(false);
     clearInterval(timerRef.current);
@@ -208,8 +198,9 @@ export default function AstrologerLiveStream() {
   }, [sessionId, leave, navigate]);
 
   const handleDeleteMessage = useCallback((messageId: string) => {
-    const socket = getSocket();
-    socket?.emit('delete_message', { sessionId, messageId });
+    if (sessionId) {
+      emitEvent('delete_message', { sessionId, messageId });
+    }
     setMessages((prev) => prev.filter((m) => m._id !== messageId));
   }, [sessionId]);
 
@@ -273,6 +264,11 @@ export default function AstrologerLiveStream() {
               >
                 {isAudioOn ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
               </Button>
+              <CallEffectsMenu effects={effects} showBackground={isVideoOn}>
+                <Button variant="secondary" size="icon" className="rounded-full w-12 h-12" title="Background and noise effects">
+                  <Sparkles className="w-5 h-5" />
+                </Button>
+              </CallEffectsMenu>
               <Button onClick={handleEndLive} variant="destructive" className="rounded-full px-6 h-12 gap-2">
                 <PhoneOff className="w-5 h-5" /> End Live
               </Button>
@@ -1,11 +1,17 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Phone, Video, Star, Clock, Tag, CheckCircle2, MessageCircle } from 'lucide-react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Phone, Video, Star, Clock, Tag, CheckCircle2, MessageCircle, Hourglass, CalendarClock } from 'lucide-react';
 import { userApi } from '@/services/api';
+import { leaveWaitlist } from '@/services/waitlist';
+import { useWaitlist } from '@/hooks/useWaitlist';
+import { toast } from '@/components/ui/use-toast';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import CallInitiationModal from '@/components/CallInitiationModal';
+import BookAppointmentModal from '@/components/BookAppointmentModal';
 import ChatNavLink from '@/components/ChatNavLink';
+import { formatDateTime } from '@/utils/appointments';
+import type { Appointment } from '@/types/api';
 
 interface CallPackage {
   _id: string;
@@ -43,11 +49,15 @@ interface Astrologer {
 export default function AstrologerProfile() {
   const { astrologerId } = useParams<{ astrologerId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const [astrologer, setAstrologer] = useState<Astrologer | null>(null);
   const [packages, setPackages] = useState<CallPackage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCallModal, setShowCallModal] = useState(false);
+  const [isLeavingWaitlist, setIsLeavingWaitlist] = useState(false);
+  const [showBookingModal, setShowBookingModal] = useState(false);
+  const { entry: waitlistEntry } = useWaitlist(astrologerId);
 
   useEffect(() => {
     if (astrologerId) {
@@ -103,6 +113,49 @@ export default function AstrologerProfile() {
     return astrologer.availability.status === 'busy' || astrologer.availability.status === 'offline';
   };
 
+  const isBusy = astrologer?.availability.status === 'busy';
+
+  // Arriving from the list's "Join Waitlist" opens the modal straight away
+  const wantsWaitlist = (location.state as { joinWaitlist?: boolean } | null)?.joinWaitlist;
+  useEffect(() => {
+    if (wantsWaitlist && isBusy && !waitlistEntry) {
+      setShowCallModal(true);
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [wantsWaitlist, isBusy, waitlistEntry, navigate, location.pathname]);
+
+  const handleWaitlistJoined = () => {
+    setShowCallModal(false);
+    toast({
+      title: 'Added to waitlist',
+      description: "We'll connect you as soon as it's your turn",
+    });
+  };
+
+  const handleAppointmentBooked = (appointment: Appointment) => {
+    setShowBookingModal(false);
+    toast({
+      title: 'Appointment booked',
+      description: `${formatDateTime(appointment.startsAt)}. We'll remind you before it starts.`,
+    });
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!waitlistEntry) return;
+    setIsLeavingWaitlist(true);
+    try {
+      await leaveWaitlist(waitlistEntry._id);
+    } catch (err: unknown) {
+      toast({
+        title: 'Failed to leave waitlist',
+        description: err instanceof Error ? err.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLeavingWaitlist(false);
+    }
+  };
+
   const handleCallInitiated = (callId: string) => {
     setShowCallModal(false);
 
@@ -336,29 +389,54 @@ export default function AstrologerProfile() {
                 <MessageCircle className="w-5 h-5" />
                 Message
               </Button>
-              <Button
-                size="lg"
-                className="flex-1"
-                disabled={isCallDisabled()}
-                onClick={() => setShowCallModal(true)}
-              >
-                {astrologer.availability.status === 'busy' ? (
-                  <>Currently Busy</>
-                ) : astrologer.availability.status === 'offline' ? (
-                  <>Currently Offline</>
-                ) : (
-                  <>
-                    <Phone className="w-5 h-5" />
-                    Call Now
-                  </>
-                )}
+              <Button size="lg" variant="outline" className="flex-1" onClick={() => setShowBookingModal(true)}>
+                <CalendarClock className="w-5 h-5" />
+                Schedule
               </Button>
+              {isBusy && waitlistEntry ? (
+                <Button
+                  size="lg"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isLeavingWaitlist}
+                  onClick={handleLeaveWaitlist}
+                >
+                  Leave Waitlist
+                </Button>
+              ) : isBusy ? (
+                <Button size="lg" className="flex-1" onClick={() => setShowCallModal(true)}>
+                  <Hourglass className="w-5 h-5" />
+                  Join Waitlist
+                </Button>
+              ) : (
+                <Button
+                  size="lg"
+                  className="flex-1"
+                  disabled={isCallDisabled()}
+                  onClick={() => setShowCallModal(true)}
+                >
+                  {astrologer.availability.status === 'offline' ? (
+                    <>Currently Offline</>
+                  ) : (
+                    <>
+                      <Phone className="w-5 h-5" />
+                      Call Now
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
             {isCallDisabled() && (
               <p className="text-xs text-center text-muted-foreground mt-2">
-                {astrologer.availability.status === 'busy'
-                  ? 'Astrologer is currently in another call'
-                  : 'Astrologer is currently offline'}
+                {isBusy && waitlistEntry
+                  ? `You're #${waitlistEntry.position} in line${
+                      waitlistEntry.estimatedWaitMinutes !== undefined
+                        ? ` • about ${Math.ceil(waitlistEntry.estimatedWaitMinutes)} min wait`
+                        : ''
+                    }`
+                  : isBusy
+                    ? 'Astrologer is currently in another call. Join the waitlist to be connected when they are free'
+                    : 'Astrologer is currently offline'}
               </p>
             )}
           </div>
@@ -377,8 +455,24 @@ export default function AstrologerProfile() {
           packages={packages}
           onClose={() => setShowCallModal(false)}
           onCallInitiated={handleCallInitiated}
+          mode={isBusy ? 'waitlist' : 'call'}
+          onWaitlistJoined={handleWaitlistJoined}
         />
       )}
+
+      {/* Appointment Booking */}
+      <BookAppointmentModal
+        open={showBookingModal}
+        onOpenChange={setShowBookingModal}
+        astrologerId={astrologer._id}
+        astrologerName={astrologer.personalDetails.pseudonym || 'Astrologer'}
+        audioCallRate={astrologer.callSettings.audioCallRate}
+        videoCallRate={astrologer.callSettings.videoCallRate}
+        acceptAudioCalls={astrologer.callSettings.acceptAudioCalls}
+        acceptVideoCalls={astrologer.callSettings.acceptVideoCalls}
+        packages={packages}
+        onBooked={handleAppointmentBooked}
+      />
     </div>
   );
 }
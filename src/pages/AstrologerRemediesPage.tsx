@@ -107,8 +107,8 @@ const AstrologerRemediesPage = () => {
         remedyApi.getAvailableRemediesForAstrologer(),
         remedyApi.getMyAstrologerServices(),
       ]);
-      setAvailableRemedies(availableRes.data || []);
-      setMyServices(myServicesRes.data || []);
+      setAvailableRemedies(availableRes || []);
+      setMyServices(myServicesRes || []);
     } catch (error: any) {
       toast({
         title: 'Failed to load remedies',
@@ -125,7 +125,7 @@ const AstrologerRemediesPage = () => {
       setBookingsLoading(true);
       const status = bookingStatusFilter === 'all' ? undefined : bookingStatusFilter;
       const response = await remedyApi.getAstrologerBookings({ status, limit: 50 });
-      setBookings(response.data.bookings || []);
+      setBookings(response.bookings || []);
     } catch (error: any) {
       toast({
         title: 'Failed to load bookings',
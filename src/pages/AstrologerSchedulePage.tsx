@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Plus, Trash2, Loader2, Mic, Video, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import AstrologerLayout from '@/components/AstrologerLayout';
+import { astrologerApi } from '@/services/api';
+import {
+  formatDateTime,
+  getAppointmentUserName,
+  getLocalTimeZone,
+  getTimeZoneLabel,
+  getTimeZoneOptions,
+} from '@/utils/appointments';
+import type { Appointment, AstrologerSchedule, AvailabilityWindow } from '@/types/api';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SLOT_LENGTHS = [15, 30, 45, 60];
+const DEFAULT_WINDOW = { startTime: '10:00', endTime: '13:00' };
+
+export default function AstrologerSchedulePage() {
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<AstrologerSchedule>({
+    timezone: getLocalTimeZone(),
+    slotMinutes: 30,
+    windows: [],
+  });
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [scheduleData, appointmentsData] = await Promise.all([
+        astrologerApi.getSchedule().catch(() => null),
+        astrologerApi.getAppointments({ status: 'scheduled', from: new Date().toISOString() }),
+      ]);
+      if (scheduleData) setSchedule(scheduleData);
+      setAppointments(
+        (appointmentsData.appointments || []).sort(
+          (a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime()
+        )
+      );
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to load schedule',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const windowsFor = (dayOfWeek: number) =>
+    schedule.windows
+      .map((window, index) => ({ window, index }))
+      .filter(({ window }) => window.dayOfWeek === dayOfWeek);
+
+  const setWindows = (windows: AvailabilityWindow[]) => setSchedule((current) => ({ ...current, windows }));
+
+  const toggleDay = (dayOfWeek: number, enabled: boolean) => {
+    setWindows(
+      enabled
+        ? [...schedule.windows, { dayOfWeek, ...DEFAULT_WINDOW }]
+        : schedule.windows.filter((window) => window.dayOfWeek !== dayOfWeek)
+    );
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows(schedule.windows.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const removeWindow = (index: number) => {
+    setWindows(schedule.windows.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const invalid = schedule.windows.find((window) => window.startTime >= window.endTime);
+    if (invalid) {
+      toast({
+        title: 'Check your hours',
+        description: `${WEEKDAYS[invalid.dayOfWeek]}: the end time must be after the start time`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await astrologerApi.updateSchedule(schedule);
+      setSchedule(saved);
+      toast({ title: 'Availability saved', description: 'Users can now book your free slots' });
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to save availability',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+    try {
+      await astrologerApi.cancelAppointment(cancelTarget._id, cancelReason.trim() || undefined);
+      setAppointments((current) => current.filter((a) => a._id !== cancelTarget._id));
+      toast({ title: 'Appointment cancelled', description: 'The user has been notified' });
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to cancel',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelTarget(null);
+      setCancelReason('');
+    }
+  };
+
+  return (
+    <AstrologerLayout>
+      <header className="border-b border-border glass sticky top-0 z-40">
+        <div className="px-6 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg gold-gradient flex items-center justify-center">
+              <CalendarClock className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="font-display font-bold text-foreground">Schedule</h1>
+              <p className="text-xs text-muted-foreground">Weekly hours users can book</p>
+            </div>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || isLoading} className="gold-gradient text-primary-foreground gap-2">
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save availability
+          </Button>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <main className="px-6 py-6 grid gap-6 lg:grid-cols-[2fr_1fr]">
+          {/* Weekly availability */}
+          <div className="bg-card border border-border rounded-xl p-5 space-y-5">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Timezone</Label>
+                <Select value={schedule.timezone} onValueChange={(timezone) => setSchedule((current) => ({ ...current, timezone }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([schedule.timezone, ...getTimeZoneOptions()])].map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone} ({getTimeZoneLabel(zone)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Slot length</Label>
+                <Select
+                  value={String(schedule.slotMinutes)}
+                  onValueChange={(value) => setSchedule((current) => ({ ...current, slotMinutes: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLOT_LENGTHS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes} minutes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="divide-y divide-border">
+              {WEEKDAYS.map((day, dayOfWeek) => {
+                const dayWindows = windowsFor(dayOfWeek);
+                return (
+                  <div key={day} className="py-3 flex flex-col sm:flex-row sm:items-start gap-3">
+                    <div className="flex items-center gap-3 w-40">
+                      <Switch
+                        checked={dayWindows.length > 0}
+                        onCheckedChange={(checked) => toggleDay(dayOfWeek, checked)}
+                        aria-label={`Available on ${day}`}
+                      />
+                      <span className="text-sm font-medium text-foreground">{day}</span>
+                    </div>
+                    {dayWindows.length === 0 ? (
+                      <p className="text-sm text-muted-foreground py-2">Unavailable</p>
+                    ) : (
+                      <div className="flex-1 space-y-2">
+                        {dayWindows.map(({ window, index }) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Input
+                              type="time"
+                              value={window.startTime}
+                              onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                              className="w-32"
+                              aria-label={`${day} start time`}
+                            />
+                            <span className="text-muted-foreground">–</span>
+                            <Input
+                              type="time"
+                              value={window.endTime}
+                              onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                              className="w-32"
+                              aria-label={`${day} end time`}
+                            />
+                            <Button variant="ghost" size="icon" onClick={() => removeWindow(index)} aria-label="Remove hours">
+                              <Trash2 className="w-4 h-4 text-muted-foreground" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1 text-primary"
+                          onClick={() => setWindows([...schedule.windows, { dayOfWeek, startTime: '16:00', endTime: '19:00' }])}
+                        >
+                          <Plus className="w-3.5 h-3.5" /> Add hours
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Upcoming bookings */}
+          <div className="bg-card border border-border rounded-xl p-5 h-fit">
+            <h2 className="font-display font-semibold text-foreground mb-4">Upcoming appointments</h2>
+            {appointments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No bookings yet</p>
+            ) : (
+              <ul className="space-y-3">
+                {appointments.map((appointment) => (
+                  <li key={appointment._id} className="flex items-center gap-3">
+                    {appointment.callType === 'video' ? (
+                      <Video className="w-4 h-4 text-primary flex-shrink-0" />
+                    ) : (
+                      <Mic className="w-4 h-4 text-primary flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{getAppointmentUserName(appointment)}</p>
+                      <p className="text-xs text-muted-foreground">{formatDateTime(appointment.startsAt)}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => setCancelTarget(appointment)}
+                      aria-label="Cancel appointment"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+      )}
+
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel appointment</DialogTitle>
+            <DialogDescription>
+              {cancelTarget &&
+                `${getAppointmentUserName(cancelTarget)} will be told their call on ${formatDateTime(cancelTarget.startsAt)} is cancelled.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason (optional, shared with the user)"
+            maxLength={300}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)}>
+              Keep it
+            </Button>
+            <Button variant="destructive" onClick={handleCancel}>
+              Cancel appointment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AstrologerLayout>
+  );
+}
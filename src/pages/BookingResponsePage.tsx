@@ -36,9 +36,9 @@ const BookingResponsePage = () => {
       ]);
 
       const merged: RemedyBooking = {
-        ...detailsRes.data,
-        delivery: responseRes.data.delivery,
-        status: responseRes.data.status,
+        ...detailsRes,
+        delivery: responseRes.delivery,
+        status: responseRes.status,
       };
 
       setBooking(merged);
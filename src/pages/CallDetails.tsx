@@ -1,13 +1,24 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { Phone, Video, Clock, Calendar, ChevronLeft, DollarSign, User, Star } from 'lucide-react';
+import { Phone, Video, Clock, Calendar, ChevronLeft, DollarSign, User, Star, Disc, Download, Trash2, MessageSquare, History, Flag } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { userApi, astrologerApi } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import CallChatTranscript from '@/components/CallChatTranscript';
+import CallNotesCard from '@/components/CallNotesCard';
+import CallQualityReportCard from '@/components/CallQualityReportCard';
+import { ReportCallDialog } from '@/components/ReportCallDialog';
 import { format } from 'date-fns';
+import {
+  getCallRecording,
+  deleteCallRecording,
+  getRecordingFileName,
+  type CallRecording,
+} from '@/utils/callRecordings';
+import type { CallQualityReport } from '@/types/api';
 
 interface CallDetails {
   _id: string;
@@ -39,6 +50,7 @@ interface CallDetails {
   acceptedAt?: string;
   connectedAt?: string;
   endedAt?: string;
+  chatSessionId?: string;
   rating?: {
     stars: number;
     review?: string;
@@ -56,11 +68,47 @@ export default function CallDetails() {
   const navigate = useNavigate();
   const [call, setCall] = useState<CallDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [recording, setRecording] = useState<CallRecording | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [qualityReports, setQualityReports] = useState<CallQualityReport[]>([]);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   useEffect(() => {
     fetchCallDetails();
   }, [callId]);
 
+  // Uploaded by each side when it left the call; older calls have none
+  useEffect(() => {
+    if (!callId || !role) return;
+    const api = role === 'user' ? userApi : astrologerApi;
+    api
+      .getCallDiagnostics(callId)
+      .then((data) => setQualityReports(data.reports || []))
+      .catch(() => setQualityReports([]));
+  }, [callId, role]);
+
+  // Recordings are kept on the device that made them, not on the server
+  useEffect(() => {
+    if (!callId) return;
+    getCallRecording(callId).then(setRecording);
+  }, [callId]);
+
+  useEffect(() => {
+    if (!recording) {
+      setRecordingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recording.blob);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const handleDeleteRecording = async () => {
+    if (!callId) return;
+    await deleteCallRecording(callId);
+    setRecording(null);
+  };
+
   const fetchCallDetails = async () => {
     if (!callId) return;
     setIsLoading(true);
@@ -68,7 +116,7 @@ export default function CallDetails() {
       const data = role === 'user' 
         ? await userApi.getCallDetails(callId)
         : await astrologerApi.getCallDetails(callId);
-      setCall(data.call || data);
+      setCall((data.call || data.session || null) as CallDetails | null); // Populated on the detail endpoint
     } catch (error) {
       console.error('Failed to fetch call details:', error);
     } finally {
@@ -98,6 +146,9 @@ export default function CallDetails() {
     }
   };
 
+  const ownQualityReport = qualityReports.find((report) => report.role === role);
+  const otherQualityReport = qualityReports.find((report) => report.role !== role);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -131,6 +182,17 @@ export default function CallDetails() {
               <ChevronLeft className="h-5 w-5" />
             </Button>
             <h1 className="text-xl font-semibold">Call Details</h1>
+            {role === 'user' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto gap-2 text-destructive"
+                onClick={() => setIsReportOpen(true)}
+              >
+                <Flag className="h-4 w-4" />
+                Report a problem
+              </Button>
+            )}
           </div>
         </div>
       </header>
@@ -170,6 +232,17 @@ export default function CallDetails() {
                       : call.userId?.name || 'Unknown User'}
                   </p>
                 </div>
+                {role === 'astrologer' && call.userId?._id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto gap-2"
+                    onClick={() => navigate(`/astrologer/clients/${call.userId!._id}`)}
+                  >
+                    <History className="h-4 w-4" />
+                    Client history
+                  </Button>
+                )}
               </div>
 
               <Separator />
@@ -314,6 +387,71 @@ export default function CallDetails() {
           </CardContent>
         </Card>
 
+        {/* Recording (if made on this device) */}
+        {recording && recordingUrl && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Disc className="h-5 w-5 text-primary" />
+                Recording
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {recording.mimeType.startsWith('audio') ? (
+                  <audio src={recordingUrl} controls className="w-full" />
+                ) : (
+                  <video src={recordingUrl} controls className="w-full rounded-lg bg-black" />
+                )}
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {formatDuration(recording.duration)} · Saved on this device
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={handleDeleteRecording}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                    <Button size="sm" asChild>
+                      <a href={recordingUrl} download={getRecordingFileName(recording)}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Private notes (astrologer only) */}
+        {role === 'astrologer' && <CallNotesCard callId={call._id} />}
+
+        {/* Chat written during the call */}
+        {call.chatSessionId && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5 text-primary" />
+                Chat During the Call
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CallChatTranscript sessionId={call.chatSessionId} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Connection quality, from each side's stats */}
+        {ownQualityReport && <CallQualityReportCard report={ownQualityReport} title="Your Connection" />}
+        {otherQualityReport && (
+          <CallQualityReportCard
+            report={otherQualityReport}
+            title={role === 'user' ? "Astrologer's Connection" : "Client's Connection"}
+          />
+        )}
+
         {/* Rating Section (if submitted) */}
         {call.rating && (
           <Card>
@@ -361,6 +499,15 @@ export default function CallDetails() {
           </Card>
         )}
       </div>
+
+      {role === 'user' && (
+        <ReportCallDialog
+          open={isReportOpen}
+          onClose={() => setIsReportOpen(false)}
+          callId={call._id}
+          diagnostics={ownQualityReport}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
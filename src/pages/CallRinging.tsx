@@ -4,7 +4,8 @@ import { Phone, PhoneOff, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { userApi } from '@/services/api';
 import { toast } from '@/components/ui/use-toast';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents } from '@/services/socket';
+import type { CallAcceptedEvent, CallRejectedEvent, CallTimeoutEvent } from '@/types/socket';
 
 interface CallSession {
   _id: string;
@@ -78,13 +79,12 @@ export default function CallRinging() {
 
   // Listen for Socket.io events
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket || !callId) return;
+    if (!callId) return;
 
     console.log('Setting up socket listeners for call:', callId);
 
     // Call accepted by astrologer
-    const handleCallAccepted = (data: any) => {
+    const handleCallAccepted = (data: CallAcceptedEvent) => {
       console.log('Call accepted event received:', data);
       if (data.callId === callId) {
         // Store Agora credentials from the event
@@ -103,7 +103,7 @@ export default function CallRinging() {
     };
 
     // Call rejected by astrologer
-    const handleCallRejected = (data: any) => {
+    const handleCallRejected = (data: CallRejectedEvent) => {
       console.log('Call rejected event received:', data);
       if (data.callId === callId) {
         toast({
@@ -118,7 +118,7 @@ export default function CallRinging() {
     };
 
     // Call timeout (no answer)
-    const handleCallTimeout = (data: any) => {
+    const handleCallTimeout = (data: CallTimeoutEvent) => {
       console.log('Call timeout event received:', data);
       if (data.callId === callId) {
         setTimeoutReached(true);
@@ -133,17 +133,12 @@ export default function CallRinging() {
       }
     };
 
-    // Register event listeners
-    socket.on('call_accepted', handleCallAccepted);
-    socket.on('call_rejected', handleCallRejected);
-    socket.on('call_timeout', handleCallTimeout);
-
-    // Cleanup
-    return () => {
-      socket.off('call_accepted', handleCallAccepted);
-      socket.off('call_rejected', handleCallRejected);
-      socket.off('call_timeout', handleCallTimeout);
-    };
+    // Register event listeners; the handle removes only these handlers
+    return subscribeToEvents({
+      call_accepted: handleCallAccepted,
+      call_rejected: handleCallRejected,
+      call_timeout: handleCallTimeout,
+    });
   }, [callId, navigate]);
 
   // Handle cancel call
@@ -50,6 +50,8 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
   const [showChatWindow, setShowChatWindow] = useState(false);
   const [isCreatingConversation, setIsCreatingConversation] = useState(false);
   const [creationError, setCreationError] = useState<string | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightQuery, setHighlightQuery] = useState('');
 
   /**
    * Handle window resize for responsive layout
@@ -179,6 +181,29 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
     [isMobileView, setActiveConversation]
   );
 
+  /**
+   * Open the conversation containing a search hit and scroll to it
+   */
+  const handleSearchResultSelect = useCallback(
+    (conversationId: string, messageId: string, query: string) => {
+      setFocusMessageId(messageId);
+      setHighlightQuery(query);
+      handleConversationSelect(conversationId);
+    },
+    [handleConversationSelect]
+  );
+
+  const handleListSelect = useCallback(
+    (conversationId: string) => {
+      setFocusMessageId(null);
+      setHighlightQuery('');
+      handleConversationSelect(conversationId);
+    },
+    [handleConversationSelect]
+  );
+
+  const handleFocusHandled = useCallback(() => setFocusMessageId(null), []);
+
   /**
    * Handle back button on mobile
    * Requirements: 13.4
@@ -271,7 +296,8 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
         {/* Chat List - 30% width */}
         <div className="w-[30%] min-w-[300px] max-w-[400px] border-r border-border" role="navigation" aria-label="Conversation list">
           <ChatList
-            onConversationSelect={handleConversationSelect}
+            onConversationSelect={handleListSelect}
+            onSearchResultSelect={handleSearchResultSelect}
             selectedConversationId={selectedConversationId}
             className="h-full"
           />
@@ -282,7 +308,12 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
           {selectedConversationId ? (
             <>
               {console.log('[ChatPage] Rendering ChatWindow with conversationId:', selectedConversationId)}
-              <ChatWindow conversationId={selectedConversationId} />
+              <ChatWindow
+                conversationId={selectedConversationId}
+                focusMessageId={focusMessageId}
+                highlightQuery={highlightQuery}
+                onFocusHandled={handleFocusHandled}
+              />
             </>
           ) : (
             <div className="flex items-center justify-center h-full text-center p-8">
@@ -310,7 +341,8 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
       {!showChatWindow && (
         <div className="flex-1 overflow-hidden" role="navigation" aria-label="Conversation list">
           <ChatList
-            onConversationSelect={handleConversationSelect}
+            onConversationSelect={handleListSelect}
+            onSearchResultSelect={handleSearchResultSelect}
             selectedConversationId={selectedConversationId}
             className="h-full"
           />
@@ -323,6 +355,9 @@ function ChatPageContent({ participantId }: ChatPageContentProps) {
           <ChatWindow
             conversationId={selectedConversationId}
             onBack={handleBack}
+            focusMessageId={focusMessageId}
+            highlightQuery={highlightQuery}
+            onFocusHandled={handleFocusHandled}
           />
         </div>
       )}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { KeyRound, Radio } from 'lucide-react';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { authApi } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useCooldown } from '@/hooks/useCooldown';
+import AuthLayout from '@/components/AuthLayout';
+import RoleSelector from '@/components/RoleSelector';
+import OtpCodeInput from '@/components/OtpCodeInput';
+import { config } from '@/config';
+
+interface ForgotPasswordState {
+  email?: string;
+  role?: UserRole;
+}
+
+type Step = 'request' | 'reset';
+
+export default function ForgotPassword() {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const state = (useLocation().state || {}) as ForgotPasswordState; // Prefilled from the login form
+  const [step, setStep] = useState<Step>('request');
+  const [role, setRole] = useState<UserRole>(state.role || 'user');
+  const [email, setEmail] = useState(state.email || '');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const cooldown = useCooldown(config.auth.otpResendCooldownMs);
+
+  const sendCode = async () => {
+    if (!email.trim()) {
+      toast({ title: 'Enter your email', variant: 'destructive' });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await authApi.forgotPassword(role, email.trim());
+      cooldown.start();
+      setStep('reset');
+      toast({ title: 'Code sent', description: `If ${email.trim()} has an account, a reset code is on its way` });
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not send code',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetPassword = async () => {
+    if (code.length !== config.auth.otpLength) {
+      toast({ title: 'Enter the code from your email', variant: 'destructive' });
+      return;
+    }
+    if (newPassword.length < config.auth.minPasswordLength) {
+      toast({
+        title: `Password must be at least ${config.auth.minPasswordLength} characters`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({ title: 'Passwords do not match', variant: 'destructive' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await authApi.resetPassword(role, { email: email.trim(), otp: code, newPassword });
+    } catch (error: unknown) {
+      setIsSubmitting(false);
+      toast({
+        title: 'Reset failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Sign straight in with the new password
+    try {
+      await login(email.trim(), newPassword, role);
+      toast({ title: 'Password updated', description: 'You are now signed in' });
+      navigate(role === 'astrologer' ? '/astrologer' : '/user', { replace: true });
+    } catch {
+      toast({ title: 'Password updated', description: 'Sign in with your new password' });
+      navigate('/', { replace: true });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthLayout
+      subtitle="Reset your password"
+      footer={
+        <>
+          Remembered it?{' '}
+          <Link to="/" className="text-primary hover:underline font-medium">Back to sign in</Link>
+        </>
+      }
+    >
+      {step === 'request' ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            sendCode();
+          }}
+          className="space-y-4"
+        >
+          <RoleSelector value={role} onChange={setRole} />
+          <div className="space-y-2">
+            <Label htmlFor="email" className="text-secondary-foreground">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <Button type="submit" disabled={isSubmitting} className="w-full gold-gradient text-primary-foreground font-semibold h-12">
+            {isSubmitting ? <Radio className="w-4 h-4 animate-spin" /> : 'Send Reset Code'}
+          </Button>
+        </form>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            resetPassword();
+          }}
+          className="space-y-4"
+        >
+          <div className="text-center space-y-2">
+            <KeyRound className="w-10 h-10 mx-auto text-primary" />
+            <p className="text-sm text-muted-foreground">
+              Enter the code sent to <span className="font-medium text-foreground">{email.trim()}</span> and choose a new password
+            </p>
+          </div>
+
+          <OtpCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+
+          <div className="space-y-2">
+            <Label htmlFor="new-password" className="text-secondary-foreground">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password" className="text-secondary-foreground">Confirm New Password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+
+          <Button type="submit" disabled={isSubmitting} className="w-full gold-gradient text-primary-foreground font-semibold h-12">
+            {isSubmitting ? <Radio className="w-4 h-4 animate-spin" /> : 'Reset Password'}
+          </Button>
+
+          <div className="flex justify-between text-xs">
+            <button
+              type="button"
+              onClick={() => setStep('request')}
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              ← Use a different email
+            </button>
+            <button
+              type="button"
+              onClick={sendCode}
+              disabled={cooldown.isCoolingDown || isSubmitting}
+              className="text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50 disabled:hover:text-muted-foreground"
+            >
+              {cooldown.isCoolingDown ? `Resend in ${cooldown.secondsLeft}s` : 'Resend code'}
+            </button>
+          </div>
+        </form>
+      )}
+    </AuthLayout>
+  );
+}
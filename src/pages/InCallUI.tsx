@@ -3,79 +3,134 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { 
   PhoneOff, 
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  Circle,
+  Square,
+  MessageSquare,
+  Sparkles
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/components/ui/use-toast';
-import { useOneToOneCall } from '@/hooks/useOneToOneCall';
-import { getSocket } from '@/services/socket';
+import { useOneToOneCall, type CallVideoConfig } from '@/hooks/useOneToOneCall';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import type { CallEndedEvent, ParticipantPresenceEvent } from '@/types/socket';
+import type { CallAgoraConfig, CallSession } from '@/types/api';
 import { userApi, astrologerApi } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
 import CallControls from '@/components/CallControls';
+import DeviceSettingsPopover from '@/components/DeviceSettingsPopover';
+import CallEffectsMenu from '@/components/CallEffectsMenu';
 import CallTimerBilling from '@/components/CallTimerBilling';
 import NetworkQualityIndicator from '@/components/NetworkQualityIndicator';
 import ReconnectionOverlay from '@/components/ReconnectionOverlay';
+import CallLobby from '@/components/CallLobby';
+import RecordingIndicator from '@/components/RecordingIndicator';
+import RecordingConsentDialog from '@/components/RecordingConsentDialog';
+import { CallEndedSummaryModal } from '@/components/CallEndedSummaryModal';
+import { useCallRecording, isRecordingSupported } from '@/hooks/useCallRecording';
+import { useCallBilling } from '@/hooks/useCallBilling';
+import { useAdaptiveQuality, getVideoProfileLabel, type QualityAdjustment } from '@/hooks/useAdaptiveQuality';
+import CallEndingCountdown from '@/components/CallEndingCountdown';
+import InCallTopUpDialog from '@/components/InCallTopUpDialog';
+import { useCallExtension } from '@/hooks/useCallExtension';
+import CallExtensionOffer from '@/components/CallExtensionOffer';
+import CallExtensionRequestDialog from '@/components/CallExtensionRequestDialog';
+import InCallChatDrawer from '@/components/InCallChatDrawer';
+import { useCallChat } from '@/hooks/useCallChat';
+import { loadDevicePreferences, saveDevicePreferences, type CallDevicePreferences } from '@/utils/devicePreferences';
+import { getCallRecording, type CallRecording } from '@/utils/callRecordings';
+import { config } from '@/config';
+
+/**
+ * Recording handshake from this side's point of view
+ * - awaiting: we asked and the other party has not answered yet
+ * - incoming: the other party asked and we have not answered yet
+ */
+type RecordingConsentState = 'idle' | 'awaiting' | 'incoming';
+
+interface CallSummary {
+  duration: number; // Seconds
+  recording: CallRecording | null;
+}
 
-interface CallSession {
-  _id: string;
-  userId: string;
-  astrologerId: string;
-  callType: 'audio' | 'video';
-  billingType: 'per_minute' | 'package';
-  status: string;
-  ratePerMinute?: number;
-  package?: {
-    duration: number;
-    price: number;
-  };
-  agora: {
-    channelName: string;
-    appId: string;
-    token?: string;  // Token for the current user (sent via Socket.io)
-    uid?: number;    // UID for the current user (sent via Socket.io)
-    userToken?: string;      // Stored in DB
-    astrologerToken?: string; // Stored in DB
-    userUid?: number;         // Stored in DB
-    astrologerUid?: number;   // Stored in DB
-  };
-  connectedAt?: string;
-  astrologer?: {
-    personalDetails: {
-      name: string;
-      pseudonym: string;
-      profileImage: string;
-    };
-  };
-  user?: {
-    fullName: string;
-    profileImage: string;
-  };
+/**
+ * Agora credentials for this side of the call
+ * Call details store both parties' tokens (userToken/astrologerToken); the socket and the
+ * token endpoint send just ours as token/uid
+ */
+function toVideoConfig(agora: CallAgoraConfig | undefined, role: string | null): CallVideoConfig | null {
+  if (!agora?.appId) return null;
+  const token = agora.token || (role === 'user' ? agora.userToken : agora.astrologerToken);
+  const uid = agora.uid ?? (role === 'user' ? agora.userUid : agora.astrologerUid);
+  if (!token) return null;
+  return { appId: agora.appId, channelName: agora.channelName, token, uid };
+}
+
+// Set in sessionStorage once this tab has joined a call, so a reload can tell a resume from a first join
+const JOINED_CALL_KEY_PREFIX = 'joined_call_';
+
+function hasJoinedCallInTab(callId: string | undefined): boolean {
+  if (!callId) return false;
+  try {
+    return sessionStorage.getItem(`${JOINED_CALL_KEY_PREFIX}${callId}`) === '1';
+  } catch {
+    return false;
+  }
+}
+
+function markCallJoinedInTab(callId: string) {
+  try {
+    sessionStorage.setItem(`${JOINED_CALL_KEY_PREFIX}${callId}`, '1');
+  } catch {
+    // Storage unavailable; a reload goes through the lobby again
+  }
 }
 
 export default function InCallUI() {
   const { callId } = useParams<{ callId: string }>();
   const navigate = useNavigate();
   const { user, role } = useAuth();
-  const socket = getSocket();
 
   const [callSession, setCallSession] = useState<CallSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [currentCharges, setCurrentCharges] = useState(0);
-  const [remainingTime, setRemainingTime] = useState<number | null>(null);
-  const [freeMinutesRemaining, setFreeMinutesRemaining] = useState<number | null>(null);
   const [showLowBalanceWarning, setShowLowBalanceWarning] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [reconnectCountdown, setReconnectCountdown] = useState(60);
   const [permissionGranted, setPermissionGranted] = useState(false);
   const [checkingPermissions, setCheckingPermissions] = useState(true);
+  const [devices, setDevices] = useState<CallDevicePreferences | null>(null); // Set when the lobby is passed
+  const [recordingConsent, setRecordingConsent] = useState<RecordingConsentState>('idle');
+  const [recordingRequester, setRecordingRequester] = useState<string | undefined>();
+  const recordingConsentRef = useRef(recordingConsent);
+  recordingConsentRef.current = recordingConsent;
+  const [callSummary, setCallSummary] = useState<CallSummary | null>(null); // Set once the call is over
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+  const [isExtensionDismissed, setIsExtensionDismissed] = useState(false);
+  const [isAdaptiveQuality, setIsAdaptiveQuality] = useState(true);
+  const [isAutoAudioOnly, setIsAutoAudioOnly] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
 
   const localVideoRef = useRef<HTMLDivElement>(null);
   const remoteVideoRef = useRef<HTMLDivElement>(null);
-  const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const autoEndedRef = useRef(false);
+  const qualityReportSentRef = useRef(false); // Both ends of the call can trigger the upload
   const reconnectTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // This tab joined the call before this page loaded (a reload or a redirect back into it), and it is
+  // still under way; the other party having connected alone does not make a first join a resume
+  const [hasJoinedBefore] = useState(() => hasJoinedCallInTab(callId));
+  const isResuming = hasJoinedBefore && !!callSession?.connectedAt && !callSession.endedAt;
+
+  const fetchCallCredentials = useCallback(async () => {
+    const agora = role === 'user'
+      ? await userApi.getCallToken(callId!)
+      : await astrologerApi.getCallToken(callId!);
+    const videoConfig = toVideoConfig(agora, role);
+    if (!videoConfig) throw new Error('No Agora credentials available');
+    return videoConfig;
+  }, [callId, role]);
+
   const {
     isJoined,
     isConnecting,
@@ -83,15 +138,105 @@ export default function InCallUI() {
     isVideoOn,
     isAudioOnly,
     remoteUser,
-    connectionState,
     networkQuality,
+    activeDevices,
+    effects,
+    isRejoining,
+    rejoinAttempt,
     joinCall,
     toggleAudio,
     toggleVideo,
     switchToAudioOnly,
     switchCamera,
+    selectCamera,
+    selectMicrophone,
+    selectSpeaker,
+    setVideoProfile,
+    setLowStreamFallback,
+    getMediaTracks,
+    getQualityReport,
     leave,
-  } = useOneToOneCall();
+  } = useOneToOneCall({
+    fetchCredentials: fetchCallCredentials,
+    onRejoined: () => {
+      emitEvent('rejoin_call', { callId: callId! }); // Billing state is resent right away
+      toast({ title: 'Reconnected', description: 'You are back in the call' });
+    },
+    onRejoinFailed: () => {
+      toast({
+        title: 'Could not reconnect',
+        description: 'The call has ended. Please check your connection.',
+        variant: 'destructive',
+      });
+      handleEndCallRef.current();
+    },
+  });
+  const deviceSwitcher = { activeDevices, selectCamera, selectMicrophone, selectSpeaker };
+  const qualitySettings = {
+    adaptive: isAdaptiveQuality,
+    autoAudioOnly: isAutoAudioOnly,
+    onAdaptiveChange: setIsAdaptiveQuality,
+    onAutoAudioOnlyChange: setIsAutoAudioOnly,
+  };
+  const adaptiveQuality = useAdaptiveQuality({
+    isActive: isJoined && callSession?.callType === 'video' && !isAudioOnly,
+    adaptive: isAdaptiveQuality,
+    autoAudioOnly: isAutoAudioOnly,
+    networkQuality,
+    setVideoProfile,
+    switchToAudioOnly,
+    onAdjust: (adjustment: QualityAdjustment) => {
+      if (adjustment.type === 'audio_only') {
+        toast({
+          title: 'Switched to Audio Only',
+          description: `Your connection stayed poor for ${config.call.audioOnlyFallbackSeconds}s, so video was turned off`,
+        });
+        return;
+      }
+      const label = getVideoProfileLabel(adjustment.profile);
+      toast(adjustment.direction === 'down'
+        ? { title: 'Video quality lowered', description: `Sending ${label} video to keep the call smooth` }
+        : { title: 'Video quality raised', description: `Your connection improved; sending ${label} video` });
+    },
+  });
+  const {
+    elapsedTime,
+    currentCharges,
+    remainingTime,
+    freeMinutesRemaining,
+    balance,
+    applyTopUp,
+  } = useCallBilling(callId, callSession, isJoined);
+  const extension = useCallExtension(callId, callSession, (event) => {
+    // New terms take effect in place; the Agora channel is left alone
+    setCallSession((prev) => prev && {
+      ...prev,
+      billingType: event.billingType,
+      ratePerMinute: event.ratePerMinute ?? prev.ratePerMinute,
+      package: event.package ?? prev.package,
+    });
+    setIsExtensionDismissed(false);
+  });
+  const isExtensionWindow = role === 'user'
+    && callSession?.billingType === 'package'
+    && isJoined
+    && remainingTime !== null
+    && remainingTime > 0
+    && remainingTime <= config.call.extensionOfferSeconds;
+  const chatParticipantName = (role === 'user'
+    ? callSession?.astrologer?.personalDetails?.pseudonym || callSession?.astrologer?.personalDetails?.name
+    : callSession?.user?.fullName) || 'Participant';
+  const callChat = useCallChat(
+    callId,
+    chatParticipantName,
+    role === 'user' ? callSession?.astrologer?.personalDetails?.profileImage : callSession?.user?.profileImage,
+    isJoined
+  );
+  const { isRecording, startRecording, stopRecording } = useCallRecording(
+    callId,
+    getMediaTracks,
+    callSession?.callType === 'video'
+  );
 
   // Fetch call session details
   useEffect(() => {
@@ -104,10 +249,8 @@ export default function InCallUI() {
           ? await userApi.getCallDetails(callId)
           : await astrologerApi.getCallDetails(callId);
         
-        // Backend returns different structures:
-        // User: { data: { call, billingBreakdown } }
-        // Astrologer: { data: { call, earnings } } or similar
-        const session = response.data?.call || response.data?.session || response.session;
+        // Users get { call, billingBreakdown }, astrologers { call, earnings } or { session }
+        const session = response.call || response.session;
         
         if (!session) {
           throw new Error('Call session data not found in response');
@@ -159,86 +302,58 @@ export default function InCallUI() {
 
   // Join Agora call when session is loaded and permissions granted
   useEffect(() => {
-    if (!callSession || isJoined || !permissionGranted) return;
+    if (!callSession || isJoined || !permissionGranted || !devices || callSummary) return;
 
     const isAudioCall = callSession.callType === 'audio';
     if (!isAudioCall && !localVideoRef.current) return;
 
     const initializeCall = async () => {
       try {
-        // Get Agora credentials from call session or localStorage
-        let agoraConfig = callSession.agora;
-        
-        // If agora config exists but has userToken/astrologerToken instead of token
-        // (from API response), extract the correct one based on role
-        if (agoraConfig && !agoraConfig.token && (agoraConfig.userToken || agoraConfig.astrologerToken)) {
-          console.log('Converting DB format to Socket.io format');
-          agoraConfig = {
-            appId: agoraConfig.appId,
-            channelName: agoraConfig.channelName,
-            token: role === 'user' ? agoraConfig.userToken : agoraConfig.astrologerToken,
-            uid: role === 'user' ? agoraConfig.userUid : agoraConfig.astrologerUid
-          };
-        }
-        
-        if (!agoraConfig || !agoraConfig.appId) {
-          // Try to get from localStorage (stored when call was accepted)
+        // Get Agora credentials: a fresh token when resuming, else from the call session
+        // or localStorage (stored when the call was accepted)
+        let videoConfig = isResuming
+          ? await fetchCallCredentials()
+          : toVideoConfig(callSession.agora, role);
+
+        if (!videoConfig) {
           const storedAgora = localStorage.getItem(`agora_${callId}`);
           if (storedAgora) {
             console.log('Retrieved Agora credentials from localStorage');
-            agoraConfig = JSON.parse(storedAgora);
+            videoConfig = toVideoConfig(JSON.parse(storedAgora), role);
           }
         }
 
-        if (!agoraConfig || !agoraConfig.appId) {
+        if (!videoConfig) {
           console.error('No Agora config found. callSession.agora:', callSession.agora);
-          console.error('localStorage agora:', localStorage.getItem(`agora_${callId}`));
           throw new Error('No Agora credentials available. Please try reconnecting.');
         }
 
-        // Backend sends token and uid directly (not userToken/astrologerToken)
-        const token = agoraConfig.token;
-        const uid = agoraConfig.uid;
-
-        console.log('Agora config:', { 
-          hasAppId: !!agoraConfig.appId, 
-          hasToken: !!token, 
-          hasUid: !!uid,
-          channelName: agoraConfig.channelName 
-        });
-
-        if (!token) {
-          console.error('No token in agoraConfig:', agoraConfig);
-          throw new Error('No Agora token available');
-        }
-
-        const videoConfig = {
-          appId: agoraConfig.appId,
-          channelName: agoraConfig.channelName,
-          token,
-          uid,
-        };
-
         console.log('Joining Agora with config:', { ...videoConfig, token: '***' });
 
         const audioOnly = callSession.callType === 'audio';
-        await joinCall(videoConfig, 'local-video', audioOnly);
+        await joinCall(videoConfig, 'local-video', audioOnly, devices);
 
-        // Notify server that we've connected (both user and astrologer)
-        console.log('[InCallUI] Confirming connection to server...');
-        if (role === 'user') {
-          await userApi.confirmConnection(callId!);
+        if (isResuming) {
+          // Already connected once; the server resends the billing state instead
+          emitEvent('rejoin_call', { callId: callId! });
         } else {
-          await astrologerApi.confirmConnection(callId!);
+          // Notify server that we've connected (both user and astrologer)
+          console.log('[InCallUI] Confirming connection to server...');
+          if (role === 'user') {
+            await userApi.confirmConnection(callId!);
+          } else {
+            await astrologerApi.confirmConnection(callId!);
+          }
+          console.log('[InCallUI] Connection confirmed successfully');
         }
-        console.log('[InCallUI] Connection confirmed successfully');
+        markCallJoinedInTab(callId!);
 
         // Clean up localStorage after successful join
         localStorage.removeItem(`agora_${callId}`);
 
         toast({
           title: 'Connected',
-          description: 'You are now connected to the call',
+          description: isResuming ? 'You are back in the call' : 'You are now connected to the call',
         });
       } catch (err: any) {
         console.error('Error joining call:', err);
@@ -264,7 +379,15 @@ export default function InCallUI() {
     };
 
     initializeCall();
-  }, [callSession, isJoined, joinCall, role, callId, permissionGranted]);
+  }, [callSession, isJoined, joinCall, role, callId, permissionGranted, devices, callSummary, isResuming, fetchCallCredentials, navigate]);
+
+  // The other side's feed drops to its low stream on a weak downlink while adaptive quality is on
+  useEffect(() => {
+    if (!isJoined) return;
+    setLowStreamFallback(isAdaptiveQuality).catch((err) => {
+      console.warn('Could not set the remote stream fallback:', err);
+    });
+  }, [isJoined, isAdaptiveQuality, setLowStreamFallback]);
 
   // Render remote video when remote user joins
   useEffect(() => {
@@ -280,59 +403,38 @@ export default function InCallUI() {
     }
   }, [remoteUser]);
 
-  // Timer for elapsed time and billing
+  // Fetch extension options once the package is about to run out
+  const { options: extensionOptions, loadOptions: loadExtensionOptions } = extension;
   useEffect(() => {
-    if (!isJoined || !callSession) return;
-
-    timerIntervalRef.current = setInterval(() => {
-      setElapsedTime((prev) => prev + 1);
-
-      // Calculate charges for per-minute billing
-      if (callSession.billingType === 'per_minute' && callSession.ratePerMinute) {
-        const minutes = Math.ceil((elapsedTime + 1) / 60);
-        setCurrentCharges(minutes * callSession.ratePerMinute);
-      }
+    if (isExtensionWindow && !extensionOptions) loadExtensionOptions();
+  }, [isExtensionWindow, extensionOptions, loadExtensionOptions]);
 
-      // Calculate remaining time for package billing
-      if (callSession.billingType === 'package' && callSession.package) {
-        const remaining = callSession.package.duration * 60 - (elapsedTime + 1);
-        setRemainingTime(Math.max(0, remaining));
-      }
-    }, 1000);
+  // Hang up gracefully when the balance or package runs out (the server would cut the call anyway)
+  // An extension still awaiting the astrologer's answer is left for the server to settle
+  useEffect(() => {
+    if (role !== 'user' || !isJoined || remainingTime !== 0 || autoEndedRef.current || extension.isPending) return;
+    autoEndedRef.current = true;
+    toast({
+      title: 'Call Ended',
+      description: callSession?.billingType === 'package' ? 'Your package time is over' : 'Your wallet balance ran out',
+    });
+    handleEndCallRef.current();
+  }, [role, isJoined, remainingTime, callSession?.billingType, extension.isPending]);
 
-    return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
-    };
-  }, [isJoined, callSession, elapsedTime]);
+  // Our own connection dropped; useOneToOneCall rejoins with a fresh token
+  useEffect(() => {
+    if (!isRejoining) return;
+    toast({
+      title: 'Connection Lost',
+      description: 'Rejoining the call...',
+      variant: 'destructive',
+    });
+  }, [isRejoining]);
 
-  // Monitor Agora connection state for auto-reconnection
+  // Back into a call under way: the devices from last time are used without the lobby
   useEffect(() => {
-    if (connectionState === 'DISCONNECTED' && isJoined) {
-      // Connection lost, attempt to reconnect
-      setIsReconnecting(true);
-      
-      toast({
-        title: 'Connection Lost',
-        description: 'Attempting to reconnect...',
-        variant: 'destructive',
-      });
-    } else if (connectionState === 'CONNECTED' && isReconnecting) {
-      // Reconnected successfully
-      setIsReconnecting(false);
-      setReconnectCountdown(60);
-      
-      if (reconnectTimerRef.current) {
-        clearInterval(reconnectTimerRef.current);
-      }
-      
-      toast({
-        title: 'Reconnected',
-        description: 'Connection restored successfully',
-      });
-    }
-  }, [connectionState, isJoined, isReconnecting]);
+    if (isResuming && !devices) setDevices(loadDevicePreferences());
+  }, [isResuming, devices]);
 
   // Cleanup reconnect timer on unmount
   useEffect(() => {
@@ -343,72 +445,121 @@ export default function InCallUI() {
     };
   }, []);
 
-  // Socket event listeners
+  // Socket event listeners; unsubscribing removes only this page's handlers
   useEffect(() => {
-    if (!socket || !callId) return;
+    if (!callId) return;
+
+    return subscribeToEvents({
+      // Low balance warning
+      low_balance_warning: (data) => {
+        if (data.callId === callId) {
+          setShowLowBalanceWarning(true);
+          toast({
+            title: 'Low Balance',
+            description: `Your balance is running low. Remaining: ₹${data.remainingBalance}`,
+            variant: 'destructive',
+          });
+        }
+      },
 
-    // Low balance warning
-    socket.on('low_balance_warning', (data: any) => {
-      if (data.callId === callId) {
-        setShowLowBalanceWarning(true);
-        toast({
-          title: 'Low Balance',
-          description: `Your balance is running low. Remaining: ₹${data.remainingBalance}`,
-          variant: 'destructive',
-        });
-      }
-    });
+      // Call ended by other party
+      call_ended: (data) => {
+        if (data.callId === callId) {
+          handleCallEndRef.current(data);
+        }
+      },
 
-    // Call ended by other party
-    socket.on('call_ended', (data: any) => {
-      if (data.callId === callId) {
-        handleCallEnd(data);
-      }
-    });
+      // Participant left (disconnection)
+      participant_left: (data) => {
+        if (data.callId === callId) {
+          handleParticipantLeftRef.current(data);
+        }
+      },
 
-    // Participant left (disconnection)
-    socket.on('participant_left', (data: any) => {
-      if (data.callId === callId) {
-        handleParticipantLeft(data);
-      }
+      // Participant rejoined
+      participant_joined: (data) => {
+        if (data.callId === callId && isReconnecting) {
+          setIsReconnecting(false);
+          setReconnectCountdown(60);
+          if (reconnectTimerRef.current) {
+            clearInterval(reconnectTimerRef.current);
+          }
+          toast({
+            title: 'Reconnected',
+            description: 'The other participant has reconnected',
+          });
+        }
+      },
+
+      // Network quality warning
+      network_quality_warning: (data) => {
+        if (data.callId === callId) {
+          toast({
+            title: 'Poor Connection',
+            description: isAdaptiveQuality
+              ? 'Your network quality is poor. Video quality will adjust to keep the call going.'
+              : 'Your network quality is poor. Consider switching to audio-only mode.',
+            variant: 'destructive',
+          });
+        }
+      },
     });
+  }, [callId, isReconnecting, isAdaptiveQuality]);
 
-    // Participant rejoined
-    socket.on('participant_joined', (data: any) => {
-      if (data.callId === callId && isReconnecting) {
-        setIsReconnecting(false);
-        setReconnectCountdown(60);
-        if (reconnectTimerRef.current) {
-          clearInterval(reconnectTimerRef.current);
+  // Recording consent handshake; nothing is recorded until the other party agrees
+  useEffect(() => {
+    if (!callId) return;
+
+    return subscribeToEvents({
+      recording_requested: (data) => {
+        if (data.callId === callId) {
+          setRecordingRequester(data.requestedBy);
+          setRecordingConsent('incoming');
         }
-        toast({
-          title: 'Reconnected',
-          description: 'The other participant has reconnected',
-        });
-      }
+      },
+
+      recording_consent: (data) => {
+        // A late answer to a request that already timed out starts nothing
+        if (data.callId !== callId || recordingConsentRef.current !== 'awaiting') return;
+        setRecordingConsent('idle');
+        if (data.accepted) {
+          startRecording();
+          toast({ title: 'Recording started', description: 'Both of you can see the REC indicator' });
+        } else {
+          toast({ title: 'Recording declined', description: 'The call will not be recorded' });
+        }
+      },
+
+      recording_stopped: async (data) => {
+        if (data.callId !== callId) return;
+        // The requester gave up waiting for an answer
+        if (recordingConsentRef.current === 'incoming') {
+          setRecordingConsent('idle');
+          toast({ title: 'Recording request withdrawn', description: 'The call will not be recorded' });
+        }
+        const recording = await stopRecording();
+        if (recording) {
+          toast({ title: 'Recording stopped', description: 'The recording is saved on this device' });
+        }
+      },
     });
+  }, [callId, startRecording, stopRecording]);
 
-    // Network quality warning
-    socket.on('network_quality_warning', (data: any) => {
-      if (data.callId === callId) {
-        toast({
-          title: 'Poor Connection',
-          description: 'Your network quality is poor. Consider switching to audio-only mode.',
-          variant: 'destructive',
-        });
-      }
-    });
+  // Stop waiting for an answer that is not coming, and withdraw the request on the other side
+  useEffect(() => {
+    if (recordingConsent !== 'awaiting' || !callId) return;
 
-    return () => {
-      socket.off('low_balance_warning');
-      socket.off('call_ended');
-      socket.off('participant_left');
-      socket.off('participant_joined');
-      socket.off('network_quality_warning');
-    };
-  }, [socket, callId, isReconnecting]);
+    const timeout = setTimeout(() => {
+      recordingConsentRef.current = 'idle';
+      setRecordingConsent('idle');
+      emitEvent('stop_recording', { callId });
+      toast({ title: 'No response', description: 'The recording request was not answered' });
+    }, config.call.recordingConsentTimeoutMs);
+
+    return () => clearTimeout(timeout);
+  }, [recordingConsent, callId]);
 
-  const handleParticipantLeft = (data: any) => {
+  const handleParticipantLeft = (data: ParticipantPresenceEvent) => {
     setIsReconnecting(true);
     setReconnectCountdown(60);
 
@@ -434,31 +585,43 @@ export default function InCallUI() {
     });
   };
 
-  const handleCallEnd = async (data: any) => {
-    await leave();
-    
-    const formatTime = (seconds: number): string => {
-      const hrs = Math.floor(seconds / 3600);
-      const mins = Math.floor((seconds % 3600) / 60);
-      const secs = seconds % 60;
-      
-      if (hrs > 0) {
-        return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-      }
-      return `${mins}:${secs.toString().padStart(2, '0')}`;
+  // Stop any recording in progress; an earlier one stopped mid-call is still offered
+  const finishRecording = async (): Promise<CallRecording | null> => {
+    return (await stopRecording()) ?? (await getCallRecording(callId!));
+  };
+
+  // Our side's quality stats, kept with the call record for later diagnosis
+  const uploadQualityReport = () => {
+    const measurements = getQualityReport();
+    if (!measurements || !callSession || !role || qualityReportSentRef.current) return;
+    qualityReportSentRef.current = true;
+
+    const report = {
+      ...measurements,
+      callId: callId!,
+      role,
+      callType: callSession.callType,
+      userAgent: navigator.userAgent,
+      createdAt: new Date().toISOString(),
     };
-    
-    toast({
-      title: 'Call Ended',
-      description: `Duration: ${formatTime(data.duration || elapsedTime)}`,
+    const api = role === 'user' ? userApi : astrologerApi;
+    api.uploadCallDiagnostics(callId!, report).catch((err: unknown) => {
+      console.error('Failed to upload call diagnostics:', err);
     });
+  };
 
-    // Navigate to call summary or dashboard
-    navigate(role === 'user' ? '/user/dashboard' : '/astrologer/dashboard');
+  const handleCallEnd = async (data: CallEndedEvent) => {
+    const recording = await finishRecording();
+    setCallSummary({ duration: data.duration || elapsedTime, recording });
+    uploadQualityReport();
+    await leave();
   };
 
   const handleEndCall = async () => {
     try {
+      const recording = await finishRecording();
+      setCallSummary({ duration: elapsedTime, recording });
+      uploadQualityReport();
       await leave();
       
       if (role === 'user') {
@@ -466,13 +629,6 @@ export default function InCallUI() {
       } else {
         await astrologerApi.endCall(callId!);
       }
-
-      toast({
-        title: 'Call Ended',
-        description: 'The call has been ended successfully',
-      });
-
-      navigate(role === 'user' ? '/user/dashboard' : '/astrologer/dashboard');
     } catch (err: any) {
       console.error('Error ending call:', err);
       toast({
@@ -483,10 +639,36 @@ export default function InCallUI() {
     }
   };
 
+  const handleEndCallRef = useRef(handleEndCall);
+  handleEndCallRef.current = handleEndCall;
+  const handleCallEndRef = useRef(handleCallEnd);
+  handleCallEndRef.current = handleCallEnd;
+  const handleParticipantLeftRef = useRef(handleParticipantLeft);
+  handleParticipantLeftRef.current = handleParticipantLeft;
+
+  const handleToggleRecording = async () => {
+    if (isRecording) {
+      await stopRecording();
+      emitEvent('stop_recording', { callId: callId! });
+      toast({ title: 'Recording stopped', description: 'The recording is saved on this device' });
+      return;
+    }
+
+    setRecordingConsent('awaiting');
+    emitEvent('request_recording', { callId: callId! });
+    toast({ title: 'Recording requested', description: 'Waiting for the other participant to agree' });
+  };
+
+  const answerRecordingRequest = (accepted: boolean) => {
+    setRecordingConsent('idle');
+    emitEvent('recording_consent', { callId: callId!, accepted });
+    if (accepted) startRecording();
+  };
+
   const handleToggleAudio = async () => {
     try {
       await toggleAudio();
-      socket?.emit('toggle_audio', { callId, enabled: !isAudioOn });
+      emitEvent('toggle_audio', { callId: callId!, enabled: !isAudioOn });
     } catch (err) {
       toast({
         title: 'Error',
@@ -499,7 +681,7 @@ export default function InCallUI() {
   const handleToggleVideo = async () => {
     try {
       await toggleVideo();
-      socket?.emit('toggle_video', { callId, enabled: !isVideoOn });
+      emitEvent('toggle_video', { callId: callId!, enabled: !isVideoOn });
     } catch (err) {
       toast({
         title: 'Error',
@@ -614,6 +796,83 @@ export default function InCallUI() {
     : callSession.user?.profileImage;
   const isAudioCall = callSession.callType === 'audio';
 
+  // Only wallet-billed calls can be extended by topping up
+  const canTopUp = role === 'user' && callSession.billingType === 'per_minute' && !callSummary;
+  const isEnding = remainingTime !== null && remainingTime <= config.call.endingCountdownSeconds && isJoined;
+
+  const extensionOffer = isExtensionWindow && !isExtensionDismissed && (
+    <CallExtensionOffer
+      secondsLeft={remainingTime}
+      options={extension.options}
+      isPending={extension.isPending}
+      onSelect={extension.requestExtension}
+      onDismiss={() => setIsExtensionDismissed(true)}
+    />
+  );
+
+  const callDialogs = (
+    <>
+      <CallExtensionRequestDialog
+        request={extension.incomingRequest}
+        userName={displayName || 'The user'}
+        onAccept={() => extension.respondToRequest(true)}
+        onDecline={() => extension.respondToRequest(false)}
+      />
+      {canTopUp && (
+        <InCallTopUpDialog
+          open={isTopUpOpen}
+          onOpenChange={setIsTopUpOpen}
+          balance={balance}
+          ratePerMinute={callSession.ratePerMinute}
+          onToppedUp={(newBalance) => {
+            applyTopUp(newBalance);
+            setShowLowBalanceWarning(false);
+          }}
+        />
+      )}
+      <InCallChatDrawer
+        open={isChatOpen && !callSummary}
+        onOpenChange={setIsChatOpen}
+        conversationId={callChat.conversationId}
+        participantName={chatParticipantName}
+      />
+      <RecordingConsentDialog
+        open={recordingConsent === 'incoming'}
+        requesterName={recordingRequester || displayName || 'The other participant'}
+        onAccept={() => answerRecordingRequest(true)}
+        onDecline={() => answerRecordingRequest(false)}
+      />
+      {callSummary && (
+        <CallEndedSummaryModal
+          open
+          onClose={() => navigate(role === 'user' ? '/user/dashboard' : '/astrologer/dashboard')}
+          callData={{
+            duration: callSummary.duration,
+            billingType: callSession.billingType,
+            ratePerMinute: callSession.ratePerMinute,
+            totalAmount: callSession.billingType === 'per_minute' ? currentCharges : callSession.package?.price,
+          }}
+          userType={role === 'astrologer' ? 'astrologer' : 'user'}
+          recording={callSummary.recording}
+        />
+      )}
+    </>
+  );
+
+  if (!devices) {
+    return (
+      <CallLobby
+        callType={callSession.callType}
+        participantName={displayName}
+        onJoin={(chosen) => {
+          saveDevicePreferences(chosen);
+          setDevices(chosen);
+        }}
+        onCancel={() => navigate(role === 'user' ? '/user/dashboard' : '/astrologer/dashboard')}
+      />
+    );
+  }
+
   // Audio Call UI
   if (isAudioCall) {
     return (
@@ -633,11 +892,14 @@ export default function InCallUI() {
                 remainingTime={remainingTime}
                 freeMinutesRemaining={freeMinutesRemaining}
                 showLowBalanceWarning={showLowBalanceWarning}
+                balance={balance}
+                onTopUp={canTopUp ? () => setIsTopUpOpen(true) : undefined}
               />
             </div>
           </div>
 
           <div className="flex items-center space-x-4">
+            <RecordingIndicator isRecording={isRecording} />
             <NetworkQualityIndicator
               uplinkQuality={networkQuality.uplinkNetworkQuality}
               downlinkQuality={networkQuality.downlinkNetworkQuality}
@@ -648,7 +910,7 @@ export default function InCallUI() {
         </div>
 
         {/* Main Content - Profile Display */}
-        <div className="flex-1 flex flex-col items-center justify-center p-8">
+        <div className="relative flex-1 flex flex-col items-center justify-center p-8">
           {/* Profile Image with Pulse Animation */}
           <div className="relative mb-8">
             {/* Animated rings */}
@@ -716,6 +978,9 @@ export default function InCallUI() {
               </p>
             </div>
           </div>
+
+          {/* Package Extension Offer */}
+          {extensionOffer}
         </div>
 
         {/* Reconnecting Overlay */}
@@ -723,10 +988,17 @@ export default function InCallUI() {
           isReconnecting={isReconnecting}
           participantName={displayName || 'participant'}
           countdown={reconnectCountdown}
+          rejoinAttempt={rejoinAttempt}
         />
 
-        {/* Low Balance Warning */}
-        {showLowBalanceWarning && (
+        {/* Ending Countdown / Low Balance Warning */}
+        {isEnding ? (
+          <CallEndingCountdown
+            secondsLeft={remainingTime}
+            reason={callSession.billingType === 'package' ? 'package' : 'balance'}
+            onTopUp={canTopUp ? () => setIsTopUpOpen(true) : undefined}
+          />
+        ) : showLowBalanceWarning && (
           <div className="absolute top-24 left-1/2 transform -translate-x-1/2 bg-red-500 text-white px-6 py-3 rounded-full shadow-lg animate-bounce">
             <div className="flex items-center space-x-2">
               <AlertTriangle className="h-5 w-5" />
@@ -766,20 +1038,71 @@ export default function InCallUI() {
               <PhoneOff className="w-8 h-8" />
             </button>
 
-            {/* Speaker Button (placeholder) */}
-            <button
-              className="w-16 h-16 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center transition-all transform hover:scale-110"
-            >
-              <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-              </svg>
-            </button>
+            {/* Speaker Button: microphone and speaker selection */}
+            <DeviceSettingsPopover callType="audio" switcher={deviceSwitcher}>
+              <button
+                title="Audio settings"
+                className="w-16 h-16 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center transition-all transform hover:scale-110"
+              >
+                <svg className="w-7 h-7" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </DeviceSettingsPopover>
+
+            {/* Noise suppression */}
+            <CallEffectsMenu effects={effects} showBackground={false}>
+              <button
+                title="Noise suppression"
+                className="w-16 h-16 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center transition-all transform hover:scale-110"
+              >
+                <Sparkles className="w-7 h-7" />
+              </button>
+            </CallEffectsMenu>
+
+            {/* Record Button (with the other party's consent) */}
+            {isRecordingSupported && (
+              <button
+                onClick={handleToggleRecording}
+                disabled={recordingConsent === 'awaiting'}
+                title={isRecording ? 'Stop recording' : 'Record call'}
+                className={`w-16 h-16 rounded-full flex items-center justify-center transition-all transform hover:scale-110 disabled:opacity-50 disabled:hover:scale-100 ${
+                  isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                {recordingConsent === 'awaiting' ? (
+                  <Loader2 className="w-7 h-7 animate-spin" />
+                ) : isRecording ? (
+                  <Square className="w-6 h-6 fill-current" />
+                ) : (
+                  <Circle className="w-7 h-7 fill-red-500 text-red-500" />
+                )}
+              </button>
+            )}
+
+            {/* Chat Button */}
+            {callChat.conversationId && (
+              <button
+                onClick={() => setIsChatOpen(true)}
+                title="Chat"
+                className="relative w-16 h-16 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center transition-all transform hover:scale-110"
+              >
+                <MessageSquare className="w-7 h-7" />
+                {callChat.unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                    {callChat.unreadCount > 9 ? '9+' : callChat.unreadCount}
+                  </span>
+                )}
+              </button>
+            )}
           </div>
           
           <p className="text-center text-white/40 text-sm mt-4">
             {isAudioOn ? 'Microphone On' : 'Microphone Muted'}
           </p>
         </div>
+
+        {callDialogs}
       </div>
     );
   }
@@ -802,17 +1125,22 @@ export default function InCallUI() {
               remainingTime={remainingTime}
               freeMinutesRemaining={freeMinutesRemaining}
               showLowBalanceWarning={showLowBalanceWarning}
+              balance={balance}
+              onTopUp={canTopUp ? () => setIsTopUpOpen(true) : undefined}
             />
           </div>
         </div>
 
         <div className="flex items-center space-x-4">
+          <RecordingIndicator isRecording={isRecording} />
+
           {/* Network Quality */}
           <NetworkQualityIndicator
             uplinkQuality={networkQuality.uplinkNetworkQuality}
             downlinkQuality={networkQuality.downlinkNetworkQuality}
             onSwitchToAudioOnly={handleSwitchToAudioOnly}
             showSwitchButton={false}
+            videoQualityLabel={adaptiveQuality.isReduced ? getVideoProfileLabel(adaptiveQuality.videoProfile) : undefined}
           />
         </div>
       </div>
@@ -849,10 +1177,17 @@ export default function InCallUI() {
           isReconnecting={isReconnecting}
           participantName={displayName || 'participant'}
           countdown={reconnectCountdown}
+          rejoinAttempt={rejoinAttempt}
         />
 
-        {/* Low Balance Warning */}
-        {showLowBalanceWarning && (
+        {/* Ending Countdown / Low Balance Warning */}
+        {isEnding ? (
+          <CallEndingCountdown
+            secondsLeft={remainingTime}
+            reason={callSession.billingType === 'package' ? 'package' : 'balance'}
+            onTopUp={canTopUp ? () => setIsTopUpOpen(true) : undefined}
+          />
+        ) : showLowBalanceWarning && (
           <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-red-600 text-white px-6 py-3 rounded-lg shadow-lg">
             <div className="flex items-center space-x-2">
               <AlertTriangle className="h-5 w-5" />
@@ -868,6 +1203,9 @@ export default function InCallUI() {
           onSwitchToAudioOnly={handleSwitchToAudioOnly}
           showSwitchButton={true}
         />
+
+        {/* Package Extension Offer */}
+        {extensionOffer}
       </div>
 
       {/* Controls */}
@@ -877,10 +1215,20 @@ export default function InCallUI() {
         callType={callSession.callType}
         onToggleAudio={handleToggleAudio}
         onToggleVideo={handleToggleVideo}
-        onSwitchCamera={switchCamera}
+        onSwitchCamera={() => switchCamera()}
         onEndCall={handleEndCall}
         showSwitchCamera={true}
+        deviceSwitcher={deviceSwitcher}
+        qualitySettings={qualitySettings}
+        effects={effects}
+        isRecording={isRecording}
+        isRecordingPending={recordingConsent === 'awaiting'}
+        onToggleRecording={isRecordingSupported ? handleToggleRecording : undefined}
+        onOpenChat={callChat.conversationId ? () => setIsChatOpen(true) : undefined}
+        unreadMessages={callChat.unreadCount}
       />
+
+      {callDialogs}
     </div>
   );
 }
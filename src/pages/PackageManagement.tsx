@@ -23,15 +23,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import PackageFormModal from '@/components/PackageFormModal';
-
-interface CallPackage {
-  _id: string;
-  duration: number;
-  price: number;
-  discountPercentage: number;
-  isActive: boolean;
-  createdAt: string;
-}
+import type { CallPackage } from '@/types/api';
 
 export default function PackageManagement() {
   const navigate = useNavigate();
@@ -25,7 +25,7 @@ const RemediesPage = () => {
     try {
       setLoading(true);
       const remediesRes = await remedyApi.getAllRemedies();
-      setRemedies(remediesRes.data);
+      setRemedies(remediesRes);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -154,7 +154,7 @@ const RemedyBookingPage = () => {
       });
       
       // Navigate to booking details or user dashboard
-      navigate(`/user/bookings/${response.data._id}`);
+      navigate(`/user/bookings/${response._id}`);
       
     } catch (error: any) {
       toast({
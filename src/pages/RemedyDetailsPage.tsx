@@ -43,7 +43,7 @@ const RemedyDetailsPage = () => {
     try {
       setLoading(true);
       const response = await remedyApi.getRemedyById(remedyId!);
-      setRemedy(response.data);
+      setRemedy(response);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -62,7 +62,7 @@ const RemedyDetailsPage = () => {
         sortBy, 
         limit: 20 
       });
-      setAstrologers(response.data.astrologers);
+      setAstrologers(response.astrologers);
     } catch (error: any) {
       toast({
         title: "Error",
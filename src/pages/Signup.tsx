@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Radio, Check } from 'lucide-react';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import AuthLayout from '@/components/AuthLayout';
+import RoleSelector from '@/components/RoleSelector';
+import { config, ASTROLOGER_SKILLS, LANGUAGES } from '@/config';
+import { cn } from '@/lib/utils';
+import type { SignupRequest } from '@/types/api';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toggleItem(list: string[], item: string): string[] {
+  return list.includes(item) ? list.filter((value) => value !== item) : [...list, item];
+}
+
+interface ChipGroupProps {
+  label: string;
+  options: readonly string[];
+  selected: string[];
+  onToggle: (item: string) => void;
+}
+
+function ChipGroup({ label, options, selected, onToggle }: ChipGroupProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-secondary-foreground">{label}</Label>
+      <div className="flex flex-wrap gap-2" role="group" aria-label={label}>
+        {options.map((option) => {
+          const isSelected = selected.includes(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => onToggle(option)}
+              className={cn(
+                'inline-flex items-center gap-1 px-3 py-1 rounded-full border text-xs transition-colors',
+                isSelected
+                  ? 'border-primary bg-primary/10 text-primary'
+                  : 'border-border text-muted-foreground hover:border-muted-foreground/50'
+              )}
+            >
+              {isSelected && <Check className="w-3 h-3" />}
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function Signup() {
+  const { signup, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [role, setRole] = useState<UserRole>('user');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [experience, setExperience] = useState('');
+  const [skills, setSkills] = useState<string[]>([]);
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [about, setAbout] = useState('');
+
+  const validate = (): string | null => {
+    if (!name.trim()) return 'Please enter your name';
+    if (!EMAIL_PATTERN.test(email.trim())) return 'Please enter a valid email address';
+    if (password.length < config.auth.minPasswordLength) {
+      return `Password must be at least ${config.auth.minPasswordLength} characters`;
+    }
+    if (password !== confirmPassword) return 'Passwords do not match';
+    if (role === 'astrologer') {
+      const years = Number(experience);
+      if (experience === '' || !Number.isFinite(years) || years < 0) return 'Please enter your years of experience';
+      if (skills.length === 0) return 'Select at least one skill';
+      if (languages.length === 0) return 'Select at least one language';
+    }
+    return null;
+  };
+
+  const buildRequest = (): SignupRequest => {
+    const common = {
+      email: email.trim(),
+      phone: phone.trim() || undefined,
+      password,
+    };
+    return role === 'astrologer'
+      ? {
+          role,
+          ...common,
+          name: name.trim(),
+          experience: Number(experience),
+          skills,
+          languages,
+          about: about.trim() || undefined,
+        }
+      : { role, ...common, fullName: name.trim() };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const problem = validate();
+    if (problem) {
+      toast({ title: 'Check your details', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const result = await signup(buildRequest());
+      if (result.verificationRequired || !result.token) {
+        toast({ title: 'Verify your email', description: `We sent a code to ${email.trim()}` });
+        navigate('/verify-email', { state: { email: email.trim(), role } });
+        return;
+      }
+      toast({ title: 'Welcome!', description: 'Your account is ready' });
+      navigate(role === 'astrologer' ? '/astrologer' : '/user');
+    } catch (error: unknown) {
+      toast({
+        title: 'Signup Failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <AuthLayout
+      subtitle="Create your account"
+      footer={
+        <>
+          Already have an account?{' '}
+          <Link to="/" className="text-primary hover:underline font-medium">Sign in</Link>
+        </>
+      }
+    >
+      <RoleSelector value={role} onChange={setRole} astrologerHint="Offer readings" userHint="Consult" />
+
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <div className="space-y-2">
+          <Label htmlFor="name" className="text-secondary-foreground">
+            {role === 'astrologer' ? 'Professional Name' : 'Full Name'}
+          </Label>
+          <Input
+            id="name"
+            autoComplete="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="email" className="text-secondary-foreground">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="phone" className="text-secondary-foreground">Phone (optional)</Label>
+          <Input
+            id="phone"
+            type="tel"
+            autoComplete="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="bg-secondary border-border"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-secondary-foreground">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm" className="text-secondary-foreground">Confirm</Label>
+            <Input
+              id="confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="bg-secondary border-border"
+            />
+          </div>
+        </div>
+
+        {role === 'astrologer' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="experience" className="text-secondary-foreground">Experience (years)</Label>
+              <Input
+                id="experience"
+                type="number"
+                min={0}
+                value={experience}
+                onChange={(e) => setExperience(e.target.value)}
+                className="bg-secondary border-border"
+              />
+            </div>
+            <ChipGroup
+              label="Skills"
+              options={ASTROLOGER_SKILLS}
+              selected={skills}
+              onToggle={(skill) => setSkills((current) => toggleItem(current, skill))}
+            />
+            <ChipGroup
+              label="Languages"
+              options={LANGUAGES}
+              selected={languages}
+              onToggle={(language) => setLanguages((current) => toggleItem(current, language))}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="about" className="text-secondary-foreground">About you (optional)</Label>
+              <Textarea
+                id="about"
+                rows={3}
+                value={about}
+                onChange={(e) => setAbout(e.target.value)}
+                className="bg-secondary border-border"
+              />
+            </div>
+          </>
+        )}
+
+        <Button type="submit" disabled={isLoading} className="w-full gold-gradient text-primary-foreground font-semibold h-12">
+          {isLoading ? (
+            <Radio className="w-4 h-4 animate-spin" />
+          ) : (
+            <>Create {role === 'astrologer' ? 'Astrologer' : 'User'} Account</>
+          )}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, Mic, Phone, Video, X, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import UserLayout from '@/components/UserLayout';
+import BookAppointmentModal from '@/components/BookAppointmentModal';
+import { userApi } from '@/services/api';
+import { config } from '@/config';
+import {
+  canChangeAppointment,
+  canRescheduleAppointment,
+  formatDateTime,
+  getAppointmentAstrologerName,
+  isAppointmentJoinable,
+} from '@/utils/appointments';
+import type { Appointment, AstrologerSummary, CallPackage } from '@/types/api';
+
+const STATUS_STYLES: Record<string, string> = {
+  scheduled: 'bg-accent/20 text-accent',
+  in_progress: 'bg-primary/15 text-primary',
+  completed: 'bg-muted text-muted-foreground',
+  cancelled: 'bg-destructive/20 text-destructive',
+  missed: 'bg-destructive/20 text-destructive',
+};
+
+interface RescheduleTarget {
+  appointment: Appointment;
+  astrologer: AstrologerSummary;
+  packages: CallPackage[];
+}
+
+export default function UserAppointmentsPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tab, setTab] = useState<'upcoming' | 'past'>('upcoming');
+  const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null);
+  const [rescheduleTarget, setRescheduleTarget] = useState<RescheduleTarget | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  const fetchAppointments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await userApi.getAppointments();
+      setAppointments(data.appointments || []);
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to load appointments',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  const isUpcoming = (appointment: Appointment) =>
+    appointment.status === 'scheduled' || appointment.status === 'in_progress';
+
+  const visible = appointments
+    .filter((appointment) => (tab === 'upcoming' ? isUpcoming(appointment) : !isUpcoming(appointment)))
+    .sort((a, b) => {
+      const diff = new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime();
+      return tab === 'upcoming' ? diff : -diff;
+    });
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+    try {
+      const updated = await userApi.cancelAppointment(cancelTarget._id);
+      setAppointments((current) => current.map((a) => (a._id === updated._id ? updated : a)));
+      toast({ title: 'Appointment cancelled' });
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to cancel',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelTarget(null);
+    }
+  };
+
+  const openReschedule = async (appointment: Appointment) => {
+    const astrologerId = typeof appointment.astrologerId === 'string' ? appointment.astrologerId : appointment.astrologerId._id;
+    try {
+      const [astrologer, packagesData] = await Promise.all([
+        userApi.getAstrologerProfile(astrologerId),
+        userApi.getAstrologerPackages(astrologerId).catch(() => ({ packages: [] as CallPackage[] })),
+      ]);
+      setRescheduleTarget({ appointment, astrologer, packages: packagesData.packages || [] });
+    } catch (error: unknown) {
+      toast({
+        title: 'Failed to load availability',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRescheduled = (updated: Appointment) => {
+    setAppointments((current) => current.map((a) => (a._id === updated._id ? updated : a)));
+    setRescheduleTarget(null);
+    toast({ title: 'Appointment rescheduled', description: formatDateTime(updated.startsAt) });
+  };
+
+  const handleStart = async (appointment: Appointment) => {
+    setStartingId(appointment._id);
+    try {
+      const response = await userApi.startAppointmentCall(appointment._id);
+      const callId = response.callId || response.session?._id;
+      if (!callId) throw new Error('Call ID not received from server');
+      localStorage.setItem('calling_astrologer', JSON.stringify({
+        name: getAppointmentAstrologerName(appointment),
+        profileImage: typeof appointment.astrologerId === 'string'
+          ? undefined
+          : appointment.astrologerId.personalDetails?.profileImage,
+        callType: appointment.callType,
+      }));
+      navigate(`/user/call/${callId}/ringing`);
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not start the call',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+      setStartingId(null);
+    }
+  };
+
+  return (
+    <UserLayout>
+      <header className="border-b border-border glass sticky top-0 z-40">
+        <div className="px-6 h-16 flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg gold-gradient flex items-center justify-center">
+            <CalendarClock className="w-4 h-4 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="font-display font-bold text-foreground">My Appointments</h1>
+            <p className="text-xs text-muted-foreground">Scheduled calls with astrologers</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-6 py-6 space-y-4 max-w-4xl">
+        <Tabs value={tab} onValueChange={(value) => setTab(value as 'upcoming' | 'past')}>
+          <TabsList className="bg-secondary">
+            <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+            <TabsTrigger value="past">Past</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <CalendarClock className="w-12 h-12 mx-auto mb-3" />
+            <p>No {tab} appointments</p>
+            {tab === 'upcoming' && (
+              <Button variant="outline" className="mt-4" onClick={() => navigate('/user/astrologers')}>
+                Find an astrologer
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((appointment) => (
+              <div key={appointment._id} className="bg-card border border-border rounded-xl p-4 flex items-center gap-4">
+                <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                  {appointment.callType === 'video' ? <Video className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-foreground truncate">{getAppointmentAstrologerName(appointment)}</p>
+                  <p className="text-sm text-muted-foreground">{formatDateTime(appointment.startsAt)}</p>
+                  {appointment.cancelReason && (
+                    <p className="text-xs text-muted-foreground mt-1">{appointment.cancelReason}</p>
+                  )}
+                </div>
+                <Badge className={STATUS_STYLES[appointment.status]} variant="secondary">
+                  {appointment.status.replace('_', ' ')}
+                </Badge>
+
+                {isAppointmentJoinable(appointment) && (
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={startingId === appointment._id}
+                    onClick={() => handleStart(appointment)}
+                  >
+                    <Phone className="w-3.5 h-3.5" /> Start
+                  </Button>
+                )}
+                {canRescheduleAppointment(appointment) && (
+                  <Button size="sm" variant="outline" className="gap-1" onClick={() => openReschedule(appointment)}>
+                    <RefreshCw className="w-3.5 h-3.5" /> Reschedule
+                  </Button>
+                )}
+                {canChangeAppointment(appointment) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => setCancelTarget(appointment)}
+                    aria-label="Cancel appointment"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {tab === 'upcoming' && (
+              <p className="text-xs text-muted-foreground">
+                Appointments can be cancelled or rescheduled (up to {config.appointments.maxReschedules} times) until{' '}
+                {config.appointments.changeCutoffHours} hours before they start.
+              </p>
+            )}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel appointment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelTarget &&
+                `Your call with ${getAppointmentAstrologerName(cancelTarget)} on ${formatDateTime(cancelTarget.startsAt)} will be cancelled.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep it</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Cancel appointment
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {rescheduleTarget && (
+        <BookAppointmentModal
+          open
+          onOpenChange={(open) => !open && setRescheduleTarget(null)}
+          astrologerId={rescheduleTarget.astrologer._id}
+          astrologerName={getAppointmentAstrologerName(rescheduleTarget.appointment)}
+          audioCallRate={rescheduleTarget.astrologer.callSettings?.audioCallRate ?? 0}
+          videoCallRate={rescheduleTarget.astrologer.callSettings?.videoCallRate ?? 0}
+          acceptAudioCalls={rescheduleTarget.astrologer.callSettings?.acceptAudioCalls ?? true}
+          acceptVideoCalls={rescheduleTarget.astrologer.callSettings?.acceptVideoCalls ?? true}
+          packages={rescheduleTarget.packages}
+          appointment={rescheduleTarget.appointment}
+          onBooked={handleRescheduled}
+        />
+      )}
+    </UserLayout>
+  );
+}
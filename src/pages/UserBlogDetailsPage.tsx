@@ -2,20 +2,19 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { userApi } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
+import type { Blog } from '@/types/api';
 
 export default function UserBlogDetailsPage() {
   const { blogId } = useParams();
   const { toast } = useToast();
-  const [blog, setBlog] = useState<any | null>(null);
+  const [blog, setBlog] = useState<Blog | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const load = async () => {
       setLoading(true);
       try {
-        const res = await userApi.getBlogById(blogId as string);
-        const data = 'data' in res ? (res as any).data : res;
-        setBlog(data?.data || data?.blog || data || null);
+        setBlog(await userApi.getBlogById(blogId as string));
       } catch (e: any) {
         toast({ title: 'Failed to load blog', description: e.message, variant: 'destructive' });
       } finally {
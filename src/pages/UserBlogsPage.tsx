@@ -4,24 +4,19 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import type { Blog } from '@/types/api';
 
 export default function UserBlogsPage() {
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [items, setItems] = useState<any[]>([]);
+  const [items, setItems] = useState<Blog[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
 
   const load = async () => {
     setLoading(true);
     try {
-      const res = await userApi.getBlogs({ search, page: 1, limit: 20 });
-      const data = 'data' in res ? (res as any).data : res;
-      const list = Array.isArray((data as any)?.data)
-        ? (data as any).data
-        : Array.isArray(data)
-        ? (data as any)
-        : [];
+      const list = await userApi.getBlogs({ search, page: 1, limit: 20 });
       setItems(list);
     } catch (e: any) {
       toast({ title: 'Failed to load blogs', description: e.message, variant: 'destructive' });
@@ -61,7 +61,7 @@ const UserBookingsPage = () => {
       console.log('Bookings response:', response);
       
       // Filter out bookings with missing populated data
-      const validBookings = response.data.bookings.filter(booking => {
+      const validBookings = response.bookings.filter(booking => {
         const isValid = booking?.remedy_id && 
                        booking?.astrologer_id && 
                        booking?.selected_service &&
@@ -2,7 +2,7 @@ import { useCallback, useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Calendar, ExternalLink, Video, Radio, ArrowLeft, Clock, Play, FileText, Headphones, Package, Download } from 'lucide-react';
 import { userApi } from '@/services/api';
-import type { AdminCourse, AstrologerCourse } from '@/types/course';
+import type { AdminCourse, AstrologerCourse, Enrollment } from '@/types/course';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -15,7 +15,7 @@ export default function UserCourseDetail() {
 
   const [course, setCourse] = useState<AdminCourse | AstrologerCourse | null>(null);
   const [isEnrolled, setIsEnrolled] = useState(false);
-  const [enrollment, setEnrollment] = useState<any>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isJoining, setIsJoining] = useState(false);
   const [isRecordingLoading, setIsRecordingLoading] = useState(false);
@@ -24,9 +24,9 @@ export default function UserCourseDetail() {
     setIsLoading(true);
     try {
       const response = await userApi.getCourseById(courseId as string, type as 'admin' | 'astrologer');
-      setCourse(response.data.course);
-      setIsEnrolled(response.data.isEnrolled);
-      setEnrollment(response.data.enrollment);
+      setCourse(response.course);
+      setIsEnrolled(response.isEnrolled);
+      setEnrollment(response.enrollment);
     } catch (error: unknown) {
       toast({
         title: 'Failed to load course',
@@ -47,10 +47,10 @@ export default function UserCourseDetail() {
     try {
       const response = await userApi.enrollInCourse(courseId as string, type as 'admin' | 'astrologer');
       setIsEnrolled(true);
-      setEnrollment(response.data);
+      setEnrollment(response);
       toast({
         title: 'Enrolled',
-        description: response.message || 'You are enrolled in this course.'
+        description: 'You are enrolled in this course.'
       });
     } catch (error: unknown) {
       toast({
@@ -65,14 +65,14 @@ export default function UserCourseDetail() {
     try {
       setIsJoining(true);
       const response = await userApi.getCourseJoinInfo(courseId as string, type as 'admin' | 'astrologer');
-      if (!response.data?.canJoin) {
+      if (!response.canJoin) {
         toast({
           title: 'Join unavailable',
-          description: response.data?.message || 'Join window has not opened yet.'
+          description: response.message || 'Join window has not opened yet.'
         });
         return;
       }
-      if (!response.data?.agora) {
+      if (!response.agora) {
         toast({
           title: 'Join unavailable',
           description: 'Live session configuration is missing.'
@@ -81,9 +81,9 @@ export default function UserCourseDetail() {
       }
       navigate(`/user/live-course/${courseId}`, {
         state: {
-          agora: response.data.agora,
-          channelName: response.data.channelName,
-          courseInfo: response.data.courseInfo,
+          agora: response.agora,
+          channelName: response.channelName,
+          courseInfo: response.courseInfo,
           courseSource: type
         }
       });
@@ -102,8 +102,8 @@ export default function UserCourseDetail() {
     try {
       setIsRecordingLoading(true);
       const response = await userApi.getCourseRecording(courseId as string, type as 'admin' | 'astrologer');
-      if (response.data?.recordingUrl) {
-        window.open(response.data.recordingUrl, '_blank');
+      if (response.recordingUrl) {
+        window.open(response.recordingUrl, '_blank');
       } else {
         toast({
           title: 'Recording unavailable',
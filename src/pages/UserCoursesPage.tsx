@@ -20,8 +20,8 @@ export default function UserCoursesPage() {
     setIsLoading(true);
     try {
       const data = await userApi.getAllCourses({ search, limit: 20 });
-      setAdminCourses(data?.data?.adminCourses?.courses || []);
-      setAstrologerCourses(data?.data?.astrologerCourses?.courses || []);
+      setAdminCourses(data?.adminCourses?.courses || []);
+      setAstrologerCourses(data?.astrologerCourses?.courses || []);
     } catch (error: unknown) {
       toast({
         title: 'Failed to load courses',
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Eye, Search, Sparkles, Star, Filter } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { userApi } from '@/services/api';
-import { getSocket } from '@/services/socket';
+import { subscribe } from '@/services/socket';
 import { TOPICS } from '@/config';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -50,15 +50,11 @@ export default function UserDashboard() {
   }, [topic]);
 
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
-
-    const onNewSession = (data: any) => {
+    const onNewSession = () => {
       fetchSessions();
     };
 
-    socket.on('new_live_session', onNewSession);
-    return () => { socket.off('new_live_session', onNewSession); };
+    return subscribe('new_live_session', onNewSession);
   }, []);
 
   const fetchSessions = async () => {
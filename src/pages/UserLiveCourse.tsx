@@ -2,7 +2,9 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { Eye, Clock, Loader2, LogOut, MessageCircle } from 'lucide-react';
 import { useAgora, type VideoConfig } from '@/hooks/useAgora';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import { unwrapLiveChatMessage } from '@/utils/messages';
+import type { LiveChatMessageEvent, InstructorScreenShareEvent } from '@/types/socket';
 import { userApi } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import ChatPanel from '@/components/ChatPanel';
@@ -52,7 +54,6 @@ export default function UserLiveCourse() {
   const timerRef = useRef<ReturnType<typeof setInterval>>();
   const remoteVideoRef = useRef<HTMLDivElement>(null);
 
-  const socket = getSocket();
 
   const { isJoined, remoteUsers, joinAsViewer, leave } = useAgora();
 
@@ -82,9 +83,9 @@ export default function UserLiveCourse() {
 
         if (!agoraConfig) {
           const response = await userApi.getCourseJoinInfo(courseId, courseSource);
-          agoraConfig = response.data?.agora;
-          info = response.data?.courseInfo;
-          yt = response.data?.youtube;
+          agoraConfig = response.agora;
+          info = response.courseInfo;
+          yt = response.youtube;
         }
 
         if (!agoraConfig?.appId) {
@@ -102,7 +103,7 @@ export default function UserLiveCourse() {
         const videoConfig = toVideoConfig(agoraConfig);
         await joinAsViewer(videoConfig);
 
-        socket?.emit('join_course_live', {
+        emitEvent('join_course_live', {
           courseId,
           userId: user?._id
         });
@@ -119,7 +120,7 @@ export default function UserLiveCourse() {
     };
 
     init();
-  }, [courseId, joinAsViewer, socket, state?.agora, state?.courseInfo, state?.courseSource, toVideoConfig, toast, user?._id]);
+  }, [courseId, joinAsViewer, state, toVideoConfig, toast, user?._id]);
 
   useEffect(() => {
     if (isJoined) {
@@ -166,10 +167,8 @@ export default function UserLiveCourse() {
   }, [remoteUsers]);
 
   useEffect(() => {
-    if (!socket) return;
-
-    const normalizeMessage = (payload: any): ChatMessage | null => {
-      const msg = payload?.message || payload;
+    const normalizeMessage = (payload: LiveChatMessageEvent): ChatMessage | null => {
+      const msg = unwrapLiveChatMessage(payload);
       if (!msg) return null;
       return {
         _id: msg._id || `${msg.userId}-${msg.timestamp || Date.now()}`,
@@ -182,37 +181,34 @@ export default function UserLiveCourse() {
       };
     };
 
-    const onMessage = (data: any) => {
+    const onMessage = (data: LiveChatMessageEvent) => {
       const msg = normalizeMessage(data);
       if (!msg) return;
       setMessages((prev) => [...prev, msg]);
     };
 
-    const onScreenShare = (data: any) => {
+    const onScreenShare = (data: InstructorScreenShareEvent) => {
       setIsScreenSharing(!!data?.isSharing);
     };
 
-    socket.on('course_chat_message', onMessage);
-    socket.on('instructor_screen_share', onScreenShare);
-
-    return () => {
-      socket.off('course_chat_message', onMessage);
-      socket.off('instructor_screen_share', onScreenShare);
-    };
-  }, [socket]);
+    return subscribeToEvents({
+      course_chat_message: onMessage,
+      instructor_screen_share: onScreenShare,
+    });
+  }, []);
 
   const handleSendMessage = useCallback((message: string) => {
     if (!courseId || !user?._id) return;
-    socket?.emit('course_message', { courseId, userId: user._id, message });
-  }, [courseId, socket, user?._id]);
+    emitEvent('course_message', { courseId, userId: user._id, message });
+  }, [courseId, user?._id]);
 
   const handleLeave = useCallback(async () => {
     if (courseId) {
-      socket?.emit('leave_course_live', { courseId });
+      emitEvent('leave_course_live', { courseId });
     }
     await leave();
     navigate('/user');
-  }, [courseId, leave, navigate, socket]);
+  }, [courseId, leave, navigate]);
 
   const formatDuration = (s: number) => {
     const m = Math.floor(s / 60);
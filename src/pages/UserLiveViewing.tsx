@@ -2,7 +2,10 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Heart, Share2, LogOut as LeaveIcon, Eye, Clock, Loader2 } from 'lucide-react';
 import { useAgora, VideoConfig } from '@/hooks/useAgora';
-import { getSocket } from '@/services/socket';
+import { subscribeToEvents, emitEvent } from '@/services/socket';
+import { unwrapLiveChatMessage } from '@/utils/messages';
+import type { MessageDeletedEvent } from '@/types/chat';
+import type { LiveChatMessageEvent, LiveViewerEvent, LiveLikeEvent } from '@/types/socket';
 import { userApi } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import ChatPanel from '@/components/ChatPanel';
@@ -64,8 +67,7 @@ export default function UserLiveViewing() {
         setCurrentViewers(data.session?.currentViewers || 0);
 
         // Join via socket
-        const socket = getSocket();
-        socket?.emit('join_live', { sessionId });
+        emitEvent('join_live', { sessionId });
 
         // Join Agora as viewer
         if (data.videoConfig) {
@@ -99,11 +101,8 @@ export default function UserLiveViewing() {
 
   // Socket listeners
   useEffect(() => {
-    const socket = getSocket();
-    if (!socket) return;
-
-    const normalizeMessage = (payload: any): ChatMessage | null => {
-      const msg = payload?.message || payload;
+    const normalizeMessage = (payload: LiveChatMessageEvent): ChatMessage | null => {
+      const msg = unwrapLiveChatMessage(payload);
       if (!msg) return null;
       return {
         _id: msg._id || msg.id || `${msg.userId}-${msg.timestamp || Date.now()}`,
@@ -116,72 +115,65 @@ export default function UserLiveViewing() {
       };
     };
 
-    const onMessage = (data: any) => {
+    const onMessage = (data: LiveChatMessageEvent) => {
       const msg = normalizeMessage(data);
       if (!msg) return;
       setMessages((prev) => [...prev, msg]);
     };
 
-    const onLike = (data: any) => {
+    const onLike = (data: LiveLikeEvent) => {
       setLikes((prev) => data.totalLikes ?? prev);
     };
 
-    const onViewerJoined = (data: any) => {
+    const onViewerJoined = (data: LiveViewerEvent) => {
       const count = data.currentViewers ?? data.currentViewerCount ?? 0;
       setCurrentViewers(count);
     };
 
-    const onViewerLeft = (data: any) => {
+    const onViewerLeft = (data: LiveViewerEvent) => {
       const count = data.currentViewers ?? data.currentViewerCount ?? 0;
       setCurrentViewers(count);
     };
 
-    const onEnded = (data: any) => {
+    const onEnded = () => {
       setIsEnded(true);
       clearInterval(timerRef.current);
       toast({ title: 'Stream ended', description: 'The astrologer has ended the session' });
     };
 
-    const onMessageDeleted = (data: any) => {
+    const onMessageDeleted = (data: MessageDeletedEvent) => {
       setMessages((prev) => prev.filter((m) => m._id !== data.messageId));
     };
 
-    socket.on('live_message', onMessage);
-    socket.on('live_chat_message', onMessage);
-    socket.on('live_like', onLike);
-    socket.on('live_liked', onLike);
-    socket.on('viewer_joined', onViewerJoined);
-    socket.on('viewer_left', onViewerLeft);
-    socket.on('live_ended', onEnded);
-    socket.on('message_deleted', onMessageDeleted);
-
-    return () => {
-      socket.off('live_message', onMessage);
-      socket.off('live_chat_message', onMessage);
-      socket.off('live_like', onLike);
-      socket.off('live_liked', onLike);
-      socket.off('viewer_joined', onViewerJoined);
-      socket.off('viewer_left', onViewerLeft);
-      socket.off('live_ended', onEnded);
-      socket.off('message_deleted', onMessageDeleted);
-    };
+    return subscribeToEvents({
+      live_message: onMessage,
+      live_chat_message: onMessage,
+      live_like: onLike,
+      live_liked: onLike,
+      viewer_joined: onViewerJoined,
+      viewer_left: onViewerLeft,
+      live_ended: onEnded,
+      message_deleted: onMessageDeleted,
+    });
   }, [toast]);
 
   const handleSendMessage = useCallback((message: string) => {
-    const socket = getSocket();
-    socket?.emit('live_message', { sessionId, message });
+    if (!sessionId) return;
+    emitEvent('live_message', { sessionId, message });
   }, [sessionId]);
 
   const handleLike = useCallback(() => {
-    const socket = getSocket();
-    socket?.emit('live_like', { sessionId });
+    if (sessionId) {
+      emitEvent('live_like', { sessionId });
+    }
     setLikeAnimating(true);
     setTimeout(() => setLikeAnimating(false), 300);
   }, [sessionId]);
 
   const handleLeave = useCallback(async () => {
-    const socket = getSocket();
-    socket?.emit('leave_live', { sessionId });
+    if (sessionId) {
+      emitEvent('leave_live', { sessionId });
+    }
     await leave();
     navigate('/user');
   }, [sessionId, leave, navigate]);
@@ -18,7 +18,7 @@ export default function UserMyCoursesPage() {
     setIsLoading(true);
     try {
       const response = await userApi.getMyCourses({ limit: 50 });
-      setEnrollments(response?.data?.enrollments || []);
+      setEnrollments(response?.enrollments || []);
     } catch (error: unknown) {
       toast({
         title: 'Failed to load enrollments',
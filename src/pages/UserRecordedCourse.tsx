@@ -43,9 +43,7 @@ export default function UserRecordedCourse() {
         setIsUpdating(true);
         try {
             const res = await userApi.updateCourseProgress(enrollment._id, moduleId, !currentlyCompleted);
-            if (res.success) {
-                setEnrollment(res.data);
-            }
+            setEnrollment(res);
         } catch (error) {
             console.error('Failed to update progress:', error);
         } finally {
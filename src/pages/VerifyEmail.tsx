@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { MailCheck, Radio } from 'lucide-react';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
+import { authApi } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useCooldown } from '@/hooks/useCooldown';
+import AuthLayout from '@/components/AuthLayout';
+import OtpCodeInput from '@/components/OtpCodeInput';
+import { config } from '@/config';
+
+interface VerifyEmailState {
+  email?: string;
+  role?: UserRole;
+}
+
+export default function VerifyEmail() {
+  const { verifyEmail, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const state = (location.state || {}) as VerifyEmailState;
+  // Links in the verification email carry the address in the query string
+  const email = state.email || searchParams.get('email') || '';
+  const role: UserRole = (state.role || searchParams.get('role')) === 'astrologer' ? 'astrologer' : 'user';
+
+  const [code, setCode] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const cooldown = useCooldown(config.auth.otpResendCooldownMs);
+  const startCooldown = cooldown.start;
+
+  // A code was sent when the account was created
+  useEffect(() => {
+    startCooldown();
+  }, [startCooldown]);
+
+  if (!email) {
+    return <Navigate to="/signup" replace />;
+  }
+
+  const submit = async (otp: string) => {
+    if (otp.length !== config.auth.otpLength || isLoading) return;
+    try {
+      await verifyEmail(email, otp, role);
+      toast({ title: 'Email verified', description: 'Welcome aboard!' });
+      navigate(role === 'astrologer' ? '/astrologer' : '/user', { replace: true });
+    } catch (error: unknown) {
+      setCode('');
+      toast({
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Check the code and try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      await authApi.resendVerificationCode(role, email);
+      cooldown.start();
+      toast({ title: 'Code sent', description: `Check ${email} for a new code` });
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not resend code',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <AuthLayout
+      subtitle="Verify your email"
+      footer={
+        <>
+          Wrong address?{' '}
+          <Link to="/signup" className="text-primary hover:underline font-medium">Sign up again</Link>
+        </>
+      }
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(code);
+        }}
+        className="space-y-6"
+      >
+        <div className="text-center space-y-2">
+          <MailCheck className="w-10 h-10 mx-auto text-primary" />
+          <p className="text-sm text-muted-foreground">
+            Enter the {config.auth.otpLength}-digit code we sent to{' '}
+            <span className="font-medium text-foreground">{email}</span>
+          </p>
+        </div>
+
+        <OtpCodeInput value={code} onChange={setCode} onComplete={submit} disabled={isLoading} />
+
+        <Button
+          type="submit"
+          disabled={isLoading || code.length !== config.auth.otpLength}
+          className="w-full gold-gradient text-primary-foreground font-semibold h-12"
+        >
+          {isLoading ? <Radio className="w-4 h-4 animate-spin" /> : 'Verify Email'}
+        </Button>
+
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={cooldown.isCoolingDown || isResending}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors w-full text-center disabled:opacity-50 disabled:hover:text-muted-foreground"
+        >
+          {cooldown.isCoolingDown ? `Resend code in ${cooldown.secondsLeft}s` : "Didn't get a code? Resend"}
+        </button>
+      </form>
+    </AuthLayout>
+  );
+}
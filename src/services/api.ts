@@ -1,204 +1,342 @@
-import { config } from '@/config';
-
-const BASE_URL = config.api.baseURL;
-
-async function request<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = localStorage.getItem('auth_token');
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...options.headers,
-  };
-
-  const res = await fetch(`${BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
+import { request, requestFormData } from './httpClient';
+import type { AstrologerCourse, Enrollment } from '@/types/course';
+import type {
+  LoginResponse,
+  RefreshTokenResponse,
+  SignupRequest,
+  SignupResponse,
+  ResetPasswordRequest,
+  LiveSessionsResponse,
+  LiveSessionDetailResponse,
+  LiveSession,
+  LiveStatsResponse,
+  CreateLiveSessionRequest,
+  AcceptCallResponse,
+  ActiveCallResponse,
+  CallAgoraConfig,
+  CallDetailsResponse,
+  CallDiagnosticsResponse,
+  CallQualityReport,
+  CallHistoryParams,
+  CallHistoryResponse,
+  UserCallHistoryItem,
+  AstrologerCallHistoryItem,
+  InitiateCallRequest,
+  InitiateCallResponse,
+  JoinWaitlistRequest,
+  WaitlistEntry,
+  WaitlistResponse,
+  Appointment,
+  AppointmentsParams,
+  AppointmentsResponse,
+  AppointmentSlotsResponse,
+  AstrologerSchedule,
+  BookAppointmentRequest,
+  CallNote,
+  CallNoteInput,
+  ClientProfile,
+  ClientSummary,
+  EarningsPeriod,
+  EarningsData,
+  WalletSummary,
+  WithdrawalAccountDetails,
+  Withdrawal,
+  AddMoneyRequest,
+  CallPackage,
+  CallPackageInput,
+  CallPackagesResponse,
+  AstrologerSummary,
+  AstrologerListParams,
+  UserProfileResponse,
+  CourseSource,
+  CourseLiveTokenResponse,
+  CourseJoinInfoResponse,
+  CourseListParams,
+  CourseCatalogResponse,
+  CourseDetailResponse,
+  CourseRecordingResponse,
+  MyCoursesResponse,
+  AstrologerCoursesResponse,
+  AstrologerCourseInput,
+  UploadCourseVideoResponse,
+  Blog,
+  BlogListPayload,
+} from '@/types/api';
+
+/**
+ * Build a query string from optional params, skipping unset values
+ */
+function toQuery(params?: object): string {
+  const query = new URLSearchParams();
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      query.append(key, String(value));
+    }
   });
+  return query.toString();
+}
 
-  const data = await res.json();
-  if (!res.ok) throw new Error(data.message || 'Request failed');
-  return data;
+/**
+ * Blog lists arrive either bare or paginated; always hand pages an array
+ */
+function toBlogList(payload: BlogListPayload | null): Blog[] {
+  if (Array.isArray(payload)) return payload;
+  return payload?.data || payload?.blogs || [];
 }
 
 // Auth
 export const authApi = {
   loginAstrologer: (email: string, password: string) =>
-    request<any>('/api/v1/astrologer/login', {
+    request<LoginResponse>('/api/v1/astrologer/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     }),
 
   loginUser: (email: string, password: string) =>
-    request<any>('/api/v1/user/login', {
+    request<LoginResponse>('/api/v1/user/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     }),
+
+  refreshToken: (role: 'astrologer' | 'user', refreshToken: string) =>
+    request<RefreshTokenResponse>(`/api/v1/${role}/refresh-token`, {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+      skipAuthRefresh: true,
+    }),
+
+  register: ({ role, ...details }: SignupRequest) =>
+    request<SignupResponse>(`/api/v1/${role}/register`, {
+      method: 'POST',
+      body: JSON.stringify(details),
+    }),
+
+  // Email verification signs the new account in
+  verifyEmail: (role: 'astrologer' | 'user', email: string, otp: string) =>
+    request<LoginResponse>(`/api/v1/${role}/verify-email`, {
+      method: 'POST',
+      body: JSON.stringify({ email, otp }),
+    }),
+
+  resendVerificationCode: (role: 'astrologer' | 'user', email: string) =>
+    request<void>(`/api/v1/${role}/resend-otp`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }),
+
+  forgotPassword: (role: 'astrologer' | 'user', email: string) =>
+    request<void>(`/api/v1/${role}/forgot-password`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }),
+
+  resetPassword: (role: 'astrologer' | 'user', details: ResetPasswordRequest) =>
+    request<void>(`/api/v1/${role}/reset-password`, {
+      method: 'POST',
+      body: JSON.stringify(details),
+    }),
 };
 
 // Astrologer
 export const astrologerApi = {
   getSessions: (status: string, page = 1, limit = 20) =>
-    request<any>(`/api/v1/astrologer/live/my-sessions?status=${status}&page=${page}&limit=${limit}`),
+    request<LiveSessionsResponse>(`/api/v1/astrologer/live/my-sessions?status=${status}&page=${page}&limit=${limit}`),
 
-  createSession: (data: any) =>
-    request<any>('/api/v1/astrologer/live/schedule', {
+  createSession: (data: CreateLiveSessionRequest) =>
+    request<LiveSession>('/api/v1/astrologer/live/schedule', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
   getSession: (sessionId: string) =>
-    request<any>(`/api/v1/astrologer/live/session/${sessionId}`),
+    request<LiveSessionDetailResponse>(`/api/v1/astrologer/live/session/${sessionId}`),
 
-  updateSession: (sessionId: string, data: any) =>
-    request<any>(`/api/v1/astrologer/live/session/${sessionId}`, {
+  updateSession: (sessionId: string, data: Partial<CreateLiveSessionRequest>) =>
+    request<LiveSession>(`/api/v1/astrologer/live/session/${sessionId}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
   cancelSession: (sessionId: string) =>
-    request<any>(`/api/v1/astrologer/live/session/${sessionId}`, {
+    request<void>(`/api/v1/astrologer/live/session/${sessionId}`, {
       method: 'DELETE',
     }),
 
   getStats: (period = 'today') =>
-    request<any>(`/api/v1/astrologer/live/stats?period=${period}`),
+    request<LiveStatsResponse>(`/api/v1/astrologer/live/stats?period=${period}`),
 
   // Call management
   acceptCall: (callId: string) =>
-    request<any>(`/api/v1/astrologer/calls/${callId}/accept`, {
+    request<AcceptCallResponse>(`/api/v1/astrologer/calls/${callId}/accept`, {
       method: 'POST',
     }),
 
   rejectCall: (callId: string) =>
-    request<any>(`/api/v1/astrologer/calls/${callId}/reject`, {
+    request<void>(`/api/v1/astrologer/calls/${callId}/reject`, {
       method: 'POST',
     }),
 
   endCall: (callId: string) =>
-    request<any>(`/api/v1/astrologer/calls/${callId}/end`, {
+    request<void>(`/api/v1/astrologer/calls/${callId}/end`, {
       method: 'POST',
     }),
 
   confirmConnection: (callId: string) =>
-    request<any>(`/api/v1/astrologer/calls/${callId}/connected`, {
+    request<void>(`/api/v1/astrologer/calls/${callId}/connected`, {
       method: 'POST',
     }),
 
   getActiveCall: () =>
-    request<any>('/api/v1/astrologer/calls/active'),
+    request<ActiveCallResponse>('/api/v1/astrologer/calls/active'),
+
+  // Fresh Agora token for getting back into a call in progress
+  getCallToken: (callId: string) =>
+    request<CallAgoraConfig>(`/api/v1/astrologer/calls/${callId}/token`),
 
   getCallDetails: (callId: string) =>
-    request<any>(`/api/v1/astrologer/calls/${callId}`),
+    request<CallDetailsResponse>(`/api/v1/astrologer/calls/${callId}`),
+
+  // Quality stats sampled during the call, for "the call was choppy" complaints
+  uploadCallDiagnostics: (callId: string, report: CallQualityReport) =>
+    request<void>(`/api/v1/astrologer/calls/${callId}/diagnostics`, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    }),
+
+  getCallDiagnostics: (callId: string) =>
+    request<CallDiagnosticsResponse>(`/api/v1/astrologer/calls/${callId}/diagnostics`),
 
   updateAvailability: (status: 'online' | 'offline') =>
-    request<any>('/api/v1/astrologer/calls/availability', {
+    request<void>('/api/v1/astrologer/calls/availability', {
       method: 'PUT',
       body: JSON.stringify({ status }),
     }),
 
-  getCallHistory: (params?: { page?: number; limit?: number; startDate?: string; endDate?: string; status?: string }) =>
-    request<any>(`/api/v1/astrologer/calls/history?${new URLSearchParams(params as any).toString()}`),
+  getCallHistory: (params?: CallHistoryParams) =>
+    request<CallHistoryResponse<AstrologerCallHistoryItem>>(`/api/v1/astrologer/calls/history?${toQuery(params)}`),
 
-  getEarnings: (period: 'all' | 'daily' | 'weekly' | 'monthly' = 'all') =>
-    request<any>(`/api/v1/astrologer/calls/earnings?period=${period}`),
+  getWaitlist: () =>
+    request<WaitlistResponse>('/api/v1/astrologer/calls/waitlist'),
+
+  // Starts the call with the first caller in the queue, already accepted
+  callNextInWaitlist: () =>
+    request<AcceptCallResponse>('/api/v1/astrologer/calls/waitlist/next', {
+      method: 'POST',
+    }),
+
+  removeFromWaitlist: (entryId: string) =>
+    request<void>(`/api/v1/astrologer/calls/waitlist/${entryId}`, {
+      method: 'DELETE',
+    }),
+
+  getEarnings: (period: EarningsPeriod = 'all') =>
+    request<Partial<EarningsData>>(`/api/v1/astrologer/calls/earnings?period=${period}`),
+
+  // Appointments
+  getSchedule: () =>
+    request<AstrologerSchedule>('/api/v1/astrologer/appointments/schedule'),
+
+  updateSchedule: (schedule: AstrologerSchedule) =>
+    request<AstrologerSchedule>('/api/v1/astrologer/appointments/schedule', {
+      method: 'PUT',
+      body: JSON.stringify(schedule),
+    }),
+
+  getAppointments: (params?: AppointmentsParams) =>
+    request<AppointmentsResponse>(`/api/v1/astrologer/appointments?${toQuery(params)}`),
+
+  cancelAppointment: (appointmentId: string, reason?: string) =>
+    request<Appointment>(`/api/v1/astrologer/appointments/${appointmentId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  // Clients (private notes, visible to the astrologer only)
+  getCallNote: (callId: string) =>
+    request<CallNote | null>(`/api/v1/astrologer/calls/${callId}/note`),
+
+  saveCallNote: (callId: string, note: CallNoteInput) =>
+    request<CallNote>(`/api/v1/astrologer/calls/${callId}/note`, {
+      method: 'PUT',
+      body: JSON.stringify(note),
+    }),
+
+  getClientProfile: (userId: string) =>
+    request<ClientProfile>(`/api/v1/astrologer/clients/${userId}`),
+
+  getClientSummary: (userId: string) =>
+    request<ClientSummary>(`/api/v1/astrologer/clients/${userId}/summary`),
 
   getWalletSummary: () =>
-    request<any>('/api/v1/astrologer/wallet'),
+    request<Partial<WalletSummary>>('/api/v1/astrologer/wallet'),
 
-  requestWithdrawal: (data: { amount: number; accountDetails: { bankName: string; accountNumber: string; ifscCode: string; accountHolderName: string } }) =>
-    request<any>('/api/v1/astrologer/wallet/withdraw', {
+  requestWithdrawal: (data: { amount: number; accountDetails: WithdrawalAccountDetails }) =>
+    request<Withdrawal>('/api/v1/astrologer/wallet/withdraw', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
   changePassword: (currentPassword: string, newPassword: string) =>
-    request<any>('/api/v1/astrologer/change-password', {
+    request<void>('/api/v1/astrologer/change-password', {
       method: 'PUT',
       body: JSON.stringify({ currentPassword, newPassword }),
     }),
 
   // Package management
   getPackages: () =>
-    request<any>('/api/v1/astrologer/packages'),
+    request<CallPackagesResponse>('/api/v1/astrologer/packages'),
 
-  createPackage: (data: { duration: number; price: number }) =>
-    request<any>('/api/v1/astrologer/packages', {
+  createPackage: (data: CallPackageInput) =>
+    request<CallPackage>('/api/v1/astrologer/packages', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
-  updatePackage: (packageId: string, data: { duration: number; price: number }) =>
-    request<any>(`/api/v1/astrologer/packages/${packageId}`, {
+  updatePackage: (packageId: string, data: CallPackageInput) =>
+    request<CallPackage>(`/api/v1/astrologer/packages/${packageId}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
   deletePackage: (packageId: string) =>
-    request<any>(`/api/v1/astrologer/packages/${packageId}`, {
+    request<void>(`/api/v1/astrologer/packages/${packageId}`, {
       method: 'DELETE',
     }),
 
   // Course live
   getCourseLiveToken: (courseId: string) =>
-    request<any>(`/api/v1/astrologer/course/${courseId}/live-token`),
+    request<CourseLiveTokenResponse>(`/api/v1/astrologer/course/${courseId}/live-token`),
 
   // Courses
   getCourses: () =>
-    request<any>('/api/v1/astrologer/courses'),
+    request<AstrologerCoursesResponse>('/api/v1/astrologer/courses'),
 
-  createCourse: (data: any) =>
-    request<any>('/api/v1/astrologer/course', {
+  createCourse: (data: AstrologerCourseInput) =>
+    request<AstrologerCourse>('/api/v1/astrologer/course', {
       method: 'POST',
       body: JSON.stringify(data)
     }),
 
-  updateCourse: (courseId: string, data: any) =>
-    request<any>(`/api/v1/astrologer/course/${courseId}`, {
+  updateCourse: (courseId: string, data: AstrologerCourseInput) =>
+    request<AstrologerCourse>(`/api/v1/astrologer/course/${courseId}`, {
       method: 'PUT',
       body: JSON.stringify(data)
     }),
 
   deleteCourse: (courseId: string) =>
-    request<any>(`/api/v1/astrologer/course/${courseId}`, {
+    request<void>(`/api/v1/astrologer/course/${courseId}`, {
       method: 'DELETE'
     }),
 
-  uploadCourseVideo: (formData: FormData) => {
-    const token = localStorage.getItem('auth_token');
-    return fetch(`${BASE_URL}/api/v1/astrologer/course/upload-video`, {
-      method: 'POST',
-      headers: {
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-      body: formData,
-    }).then(res => res.json());
-  },
+  uploadCourseVideo: (formData: FormData) =>
+    requestFormData<UploadCourseVideoResponse>('/api/v1/astrologer/course/upload-video', formData),
   getMyBlogs: (page = 1, limit = 10) =>
-    request<any>(`/api/v1/astrologer/blogs?page=${page}&limit=${limit}`),
-  createBlog: (formData: FormData) => {
-    const token = localStorage.getItem('auth_token');
-    return fetch(`${BASE_URL}/api/v1/astrologer/blog`, {
-      method: 'POST',
-      headers: {
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-      body: formData,
-    }).then(res => res.json());
-  },
-  updateBlog: (blogId: string, formData: FormData) => {
-    const token = localStorage.getItem('auth_token');
-    return fetch(`${BASE_URL}/api/v1/astrologer/blog/${blogId}`, {
-      method: 'PUT',
-      headers: {
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-      body: formData,
-    }).then(res => res.json());
-  },
+    request<BlogListPayload>(`/api/v1/astrologer/blogs?page=${page}&limit=${limit}`).then(toBlogList),
+  createBlog: (formData: FormData) =>
+    requestFormData<Blog>('/api/v1/astrologer/blog', formData),
+  updateBlog: (blogId: string, formData: FormData) =>
+    requestFormData<Blog>(`/api/v1/astrologer/blog/${blogId}`, formData, { method: 'PUT' }),
   deleteBlog: (blogId: string) =>
-    request<any>(`/api/v1/astrologer/blog/${blogId}`, {
+    request<void>(`/api/v1/astrologer/blog/${blogId}`, {
       method: 'DELETE',
     }),
 };
@@ -206,105 +344,168 @@ export const astrologerApi = {
 // User
 export const userApi = {
   getActiveSessions: (topic = 'All', page = 1, limit = 20) =>
-    request<any>(`/api/v1/user/live/active?topic=${topic}&page=${page}&limit=${limit}`),
+    request<LiveSessionsResponse>(`/api/v1/user/live/active?topic=${topic}&page=${page}&limit=${limit}`),
 
   getSession: (sessionId: string) =>
-    request<any>(`/api/v1/user/live/session/${sessionId}`),
+    request<LiveSessionDetailResponse>(`/api/v1/user/live/session/${sessionId}`),
 
   getProfile: () =>
-    request<any>('/api/v1/user/profile'),
+    request<UserProfileResponse>('/api/v1/user/profile'),
 
-  getAllAstrologers: (params?: { isOnline?: boolean; skills?: string; languages?: string; sortBy?: string }) =>
-    request<any>(`/api/v1/astrologer?${new URLSearchParams(params as any).toString()}`),
+  getAllAstrologers: (params?: AstrologerListParams) =>
+    request<AstrologerSummary[]>(`/api/v1/astrologer?${toQuery(params)}`),
 
   getAstrologerProfile: (astrologerId: string) =>
-    request<any>(`/api/v1/astrologer/${astrologerId}`),
+    request<AstrologerSummary>(`/api/v1/astrologer/${astrologerId}`),
 
   getAstrologerPackages: (astrologerId: string) =>
-    request<any>(`/api/v1/user/calls/astrologers/${astrologerId}/packages`),
+    request<CallPackagesResponse>(`/api/v1/user/calls/astrologers/${astrologerId}/packages`),
 
-  initiateCall: (data: any) =>
-    request<any>('/api/v1/user/calls/initiate', {
+  initiateCall: (data: InitiateCallRequest) =>
+    request<InitiateCallResponse>('/api/v1/user/calls/initiate', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
   cancelCall: (callId: string) =>
-    request<any>(`/api/v1/user/calls/${callId}/cancel`, {
+    request<void>(`/api/v1/user/calls/${callId}/cancel`, {
       method: 'POST',
     }),
 
   confirmConnection: (callId: string) =>
-    request<any>(`/api/v1/user/calls/${callId}/connected`, {
+    request<void>(`/api/v1/user/calls/${callId}/connected`, {
       method: 'POST',
     }),
 
   endCall: (callId: string) =>
-    request<any>(`/api/v1/user/calls/${callId}/end`, {
+    request<void>(`/api/v1/user/calls/${callId}/end`, {
       method: 'POST',
     }),
 
   getCallDetails: (callId: string) =>
-    request<any>(`/api/v1/user/calls/${callId}`),
+    request<CallDetailsResponse>(`/api/v1/user/calls/${callId}`),
+
+  // Quality stats sampled during the call, for "the call was choppy" complaints
+  uploadCallDiagnostics: (callId: string, report: CallQualityReport) =>
+    request<void>(`/api/v1/user/calls/${callId}/diagnostics`, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    }),
+
+  getCallDiagnostics: (callId: string) =>
+    request<CallDiagnosticsResponse>(`/api/v1/user/calls/${callId}/diagnostics`),
 
   rateCall: (callId: string, data: { stars: number; review?: string }) =>
-    request<any>(`/api/v1/user/calls/${callId}/rate`, {
+    request<void>(`/api/v1/user/calls/${callId}/rate`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
-  reportCall: (callId: string, data: { reason: string }) =>
-    request<any>(`/api/v1/user/calls/${callId}/report`, {
+  reportCall: (callId: string, data: { reason: string; diagnostics?: CallQualityReport }) =>
+    request<void>(`/api/v1/user/calls/${callId}/report`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
-  getCallHistory: (params?: { page?: number; limit?: number; startDate?: string; endDate?: string; status?: string }) =>
-    request<any>(`/api/v1/user/calls/history?${new URLSearchParams(params as any).toString()}`),
+  getCallHistory: (params?: CallHistoryParams) =>
+    request<CallHistoryResponse<UserCallHistoryItem>>(`/api/v1/user/calls/history?${toQuery(params)}`),
 
   getActiveCall: () =>
-    request<any>('/api/v1/user/calls/active'),
+    request<ActiveCallResponse>('/api/v1/user/calls/active'),
+
+  // Fresh Agora token for getting back into a call in progress
+  getCallToken: (callId: string) =>
+    request<CallAgoraConfig>(`/api/v1/user/calls/${callId}/token`),
+
+  joinWaitlist: (astrologerId: string, data: JoinWaitlistRequest) =>
+    request<WaitlistEntry>(`/api/v1/user/calls/astrologers/${astrologerId}/waitlist`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  leaveWaitlist: (entryId: string) =>
+    request<void>(`/api/v1/user/calls/waitlist/${entryId}`, {
+      method: 'DELETE',
+    }),
+
+  getMyWaitlist: () =>
+    request<WaitlistResponse>('/api/v1/user/calls/waitlist'),
+
+  // Appointments
+  getAppointmentSlots: (astrologerId: string, from: string, to: string) =>
+    request<AppointmentSlotsResponse>(
+      `/api/v1/user/appointments/astrologers/${astrologerId}/slots?${toQuery({ from, to })}`
+    ),
+
+  bookAppointment: (data: BookAppointmentRequest) =>
+    request<Appointment>('/api/v1/user/appointments', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  getAppointments: (params?: AppointmentsParams) =>
+    request<AppointmentsResponse>(`/api/v1/user/appointments?${toQuery(params)}`),
+
+  rescheduleAppointment: (appointmentId: string, startsAt: string) =>
+    request<Appointment>(`/api/v1/user/appointments/${appointmentId}/reschedule`, {
+      method: 'PUT',
+      body: JSON.stringify({ startsAt }),
+    }),
+
+  cancelAppointment: (appointmentId: string, reason?: string) =>
+    request<Appointment>(`/api/v1/user/appointments/${appointmentId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  // Rings the astrologer for a booked slot; returns the existing call if already started
+  startAppointmentCall: (appointmentId: string) =>
+    request<InitiateCallResponse>(`/api/v1/user/appointments/${appointmentId}/start`, {
+      method: 'POST',
+    }),
 
-  addMoneyToWallet: (data: { amount: number; paymentGatewayId?: string; description?: string }) =>
-    request<any>('/api/v1/user/wallet/add-money', {
+  addMoneyToWallet: (data: AddMoneyRequest) =>
+    request<{ balance?: number }>('/api/v1/user/wallet/add-money', {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
   // Courses
-  getAllCourses: (params?: { search?: string; level?: string; isFree?: boolean; courseType?: string; page?: number; limit?: number }) =>
-    request<any>(`/api/v1/user/courses/courses?${new URLSearchParams(params as any).toString()}`),
+  getAllCourses: (params?: CourseListParams) =>
+    request<CourseCatalogResponse>(`/api/v1/user/courses/courses?${toQuery(params)}`),
 
-  getCourseById: (courseId: string, type: 'admin' | 'astrologer') =>
-    request<any>(`/api/v1/user/courses/courses/${courseId}?type=${type}`),
+  getCourseById: (courseId: string, type: CourseSource) =>
+    request<CourseDetailResponse>(`/api/v1/user/courses/courses/${courseId}?type=${type}`),
 
-  enrollInCourse: (courseId: string, type: 'admin' | 'astrologer') =>
-    request<any>(`/api/v1/user/courses/courses/${courseId}/enroll`, {
+  enrollInCourse: (courseId: string, type: CourseSource) =>
+    request<Enrollment>(`/api/v1/user/courses/courses/${courseId}/enroll`, {
       method: 'POST',
       body: JSON.stringify({ type })
     }),
 
   getMyCourses: (params?: { status?: string; page?: number; limit?: number }) =>
-    request<any>(`/api/v1/user/courses/my-courses?${new URLSearchParams(params as any).toString()}`),
+    request<MyCoursesResponse>(`/api/v1/user/courses/my-courses?${toQuery(params)}`),
 
-  getCourseJoinInfo: (courseId: string, type: 'admin' | 'astrologer') =>
-    request<any>(`/api/v1/user/courses/courses/${courseId}/join?type=${type}`),
+  getCourseJoinInfo: (courseId: string, type: CourseSource) =>
+    request<CourseJoinInfoResponse>(`/api/v1/user/courses/courses/${courseId}/join?type=${type}`),
 
-  getCourseRecording: (courseId: string, type: 'admin' | 'astrologer') =>
-    request<any>(`/api/v1/user/courses/courses/${courseId}/recording?type=${type}`),
+  getCourseRecording: (courseId: string, type: CourseSource) =>
+    request<CourseRecordingResponse>(`/api/v1/user/courses/courses/${courseId}/recording?type=${type}`),
 
   updateCourseProgress: (enrollmentId: string, moduleId: string, completed: boolean) =>
-    request<any>(`/api/v1/user/courses/enrollments/${enrollmentId}/progress`, {
+    request<Enrollment>(`/api/v1/user/courses/enrollments/${enrollmentId}/progress`, {
       method: 'PUT',
       body: JSON.stringify({ moduleId, completed })
     }),
   changePassword: (currentPassword: string, newPassword: string) =>
-    request<any>('/api/v1/user/change-password', {
+    request<void>('/api/v1/user/change-password', {
       method: 'PUT',
       body: JSON.stringify({ currentPassword, newPassword }),
     }),
   getBlogs: (params?: { search?: string; page?: number; limit?: number }) =>
-    request<any>(`/api/v1/user/blogs?${new URLSearchParams(params as any).toString()}`),
+    request<BlogListPayload>(`/api/v1/user/blogs?${toQuery(params)}`).then(toBlogList),
   getBlogById: (id: string) =>
-    request<any>(`/api/v1/user/blogs/${id}`),
+    request<Blog | { blog: Blog }>(`/api/v1/user/blogs/${id}`).then((payload) =>
+      'blog' in payload ? payload.blog : payload
+    ),
 };
@@ -0,0 +1,184 @@
+/**
+ * Auth session
+ * Token storage, single-flight access token renewal and cross-tab session sync
+ */
+
+import { authApi } from './api';
+import { ApiError, setTokenRefresher } from './httpClient';
+import { getTokenExpiry } from '@/utils/jwt';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+const ROLE_KEY = 'auth_role';
+const SESSION_CHANNEL = 'auth-session';
+const REFRESH_LOCK = 'auth-refresh';
+
+const REFRESH_MARGIN_MS = 60 * 1000; // Renew this long before the access token expires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1; // setTimeout overflows beyond this
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Session change seen by this tab
+ * - refreshed: the access token was renewed, here or in another tab
+ * - logout: another tab signed out
+ */
+export type SessionEvent = { type: 'refreshed'; token: string } | { type: 'logout' };
+
+export type SessionEventCallback = (event: SessionEvent) => void;
+
+/**
+ * Message posted between tabs; tokens are read back from localStorage, never broadcast
+ */
+type SessionBroadcast = { type: 'refreshed' | 'logout' };
+
+// ============================================================================
+// State
+// ============================================================================
+
+let refreshInFlight: Promise<string | null> | null = null;
+const sessionCallbacks: Set<SessionEventCallback> = new Set();
+let channel: BroadcastChannel | null = null;
+
+// ============================================================================
+// Token Storage
+// ============================================================================
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Store the tokens of a new sign-in
+ * A sign-in without a refresh token drops any left over from an earlier session
+ */
+export function saveTokens(token: string, refreshToken?: string) {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  } else {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+export function clearTokens() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Milliseconds until `token` should be renewed, or null when it carries no expiry
+ */
+export function getRefreshDelay(token: string): number | null {
+  const expiry = getTokenExpiry(token);
+  if (expiry === null) return null;
+  return Math.min(Math.max(expiry - Date.now() - REFRESH_MARGIN_MS, 0), MAX_TIMER_DELAY_MS);
+}
+
+// ============================================================================
+// Cross-Tab Sync
+// ============================================================================
+
+function notifySessionEvent(event: SessionEvent) {
+  sessionCallbacks.forEach((callback) => callback(event));
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  if (!channel) {
+    channel = new BroadcastChannel(SESSION_CHANNEL);
+    channel.onmessage = (event: MessageEvent<SessionBroadcast>) => {
+      if (event.data.type === 'logout') {
+        notifySessionEvent({ type: 'logout' });
+        return;
+      }
+      const token = localStorage.getItem(TOKEN_KEY);
+      if (token) notifySessionEvent({ type: 'refreshed', token });
+    };
+  }
+  return channel;
+}
+
+function broadcast(message: SessionBroadcast) {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Subscribe to session renewals and sign-outs in other tabs
+ * Returns unsubscribe function
+ */
+export function onSessionEvent(callback: SessionEventCallback): () => void {
+  sessionCallbacks.add(callback);
+  getChannel();
+
+  return () => {
+    sessionCallbacks.delete(callback);
+  };
+}
+
+/**
+ * Tell other tabs this one signed out
+ */
+export function announceLogout() {
+  broadcast({ type: 'logout' });
+}
+
+// ============================================================================
+// Renewal
+// ============================================================================
+
+async function renew(staleToken: string): Promise<string | null> {
+  // Another tab may have renewed while this one waited for the lock
+  const current = localStorage.getItem(TOKEN_KEY);
+  if (current && current !== staleToken) return current;
+
+  const refreshToken = getRefreshToken();
+  const role = localStorage.getItem(ROLE_KEY);
+  if (!refreshToken || (role !== 'astrologer' && role !== 'user')) return null;
+
+  try {
+    const session = await authApi.refreshToken(role, refreshToken);
+    localStorage.setItem(TOKEN_KEY, session.token);
+    if (session.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken); // Rotated
+    }
+    notifySessionEvent({ type: 'refreshed', token: session.token });
+    broadcast({ type: 'refreshed' });
+    return session.token;
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'http') {
+      console.error('[AuthSession] Refresh rejected:', error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Renew the access token after `staleToken` expired or was rejected
+ * Callers in this tab share one request and tabs take turns through a Web Lock, so a
+ * rotating refresh token is never spent twice. Resolves null when there is no refresh
+ * token or the server refuses it; rejects when the server could not be reached.
+ */
+export function refreshSession(staleToken: string): Promise<string | null> {
+  if (!refreshInFlight) {
+    const run = () => renew(staleToken);
+    const pending = typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(REFRESH_LOCK, run)
+      : run();
+    refreshInFlight = pending.finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// Installed on import so requests fired before AuthProvider mounts can renew too
+setTokenRefresher(refreshSession);
@@ -0,0 +1,221 @@
+/**
+ * Call notifications
+ * Incoming-call alerts that reach an astrologer with the tab in the background: desktop
+ * notifications with Accept/Decline (through a service worker), a ringtone that keeps going
+ * until the call is answered or gone, and a flashing tab title
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CallNotificationAction = 'accept' | 'decline' | 'open';
+
+export interface CallNotificationActionEvent {
+  action: CallNotificationAction;
+  callId: string;
+}
+
+export interface IncomingCallNotificationData {
+  callId: string;
+  userName: string;
+  userPhoto?: string;
+  callType: 'audio' | 'video';
+}
+
+// Not all of these are in lib.dom yet, but Chromium and Firefox support them
+interface CallNotificationOptions extends NotificationOptions {
+  actions?: { action: CallNotificationAction; title: string }[];
+  renotify?: boolean;
+  vibrate?: number[];
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+const WORKER_URL = '/call-notifications-sw.js';
+const NOTIFICATION_TAG_PREFIX = 'incoming-call-';
+const RING_INTERVAL_MS = 3000;
+const TITLE_FLASH_INTERVAL_MS = 1000;
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+let audioContext: AudioContext | null = null;
+let ringTimer: ReturnType<typeof setInterval> | null = null;
+
+let titleTimer: ReturnType<typeof setInterval> | null = null;
+let originalTitle: string | null = null;
+
+// ============================================================================
+// Service worker and permission
+// ============================================================================
+
+export function isCallNotificationSupported(): boolean {
+  return 'Notification' in window && 'serviceWorker' in navigator;
+}
+
+export function getCallNotificationPermission(): NotificationPermission | 'unsupported' {
+  return isCallNotificationSupported() ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Register the worker once; later calls share the same registration
+ */
+export function registerCallNotificationWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isCallNotificationSupported()) return Promise.resolve(null);
+
+  if (!registration) {
+    registration = navigator.serviceWorker.register(WORKER_URL).catch((error: unknown) => {
+      console.error('[CallNotifications] Service worker registration failed:', error);
+      registration = null;
+      return null;
+    });
+  }
+  return registration;
+}
+
+/**
+ * Must be called from a click; browsers ignore permission requests made without one
+ */
+export async function requestCallNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!isCallNotificationSupported()) return 'unsupported';
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') await registerCallNotificationWorker();
+  return permission;
+}
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+export async function showIncomingCallNotification(call: IncomingCallNotificationData): Promise<void> {
+  if (getCallNotificationPermission() !== 'granted') return;
+
+  const worker = await registerCallNotificationWorker();
+  if (!worker) return;
+
+  const options: CallNotificationOptions = {
+    body: `Incoming ${call.callType} call`,
+    icon: call.userPhoto || '/favicon.ico',
+    tag: `${NOTIFICATION_TAG_PREFIX}${call.callId}`,
+    renotify: true,
+    requireInteraction: true, // Stays up until answered, declined or closed by us
+    vibrate: [300, 200, 300],
+    data: { callId: call.callId, url: window.location.pathname },
+    actions: [
+      { action: 'accept', title: 'Accept' },
+      { action: 'decline', title: 'Decline' },
+    ],
+  };
+
+  try {
+    await worker.showNotification(call.userName, options);
+  } catch (error) {
+    console.error('[CallNotifications] Failed to show notification:', error);
+  }
+}
+
+export async function closeIncomingCallNotification(callId: string): Promise<void> {
+  if (!registration) return;
+  const worker = await registration;
+  if (!worker) return;
+
+  const notifications = await worker.getNotifications({ tag: `${NOTIFICATION_TAG_PREFIX}${callId}` });
+  notifications.forEach((notification) => notification.close());
+}
+
+/**
+ * Accept/Decline clicks relayed by the worker
+ * Returns an unsubscribe function.
+ */
+export function subscribeToCallNotificationActions(
+  handler: (event: CallNotificationActionEvent) => void
+): () => void {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  const listener = (event: MessageEvent) => {
+    const data: unknown = event.data;
+    if (!data || typeof data !== 'object') return;
+    const message = data as { type?: string; action?: CallNotificationAction; callId?: string };
+    if (message.type !== 'call_notification_action' || !message.action || !message.callId) return;
+    handler({ action: message.action, callId: message.callId });
+  };
+
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
+
+// ============================================================================
+// Ringtone
+// ============================================================================
+
+/**
+ * One ring: two short bursts of a dual-tone chord, like a phone
+ */
+function playRing(context: AudioContext) {
+  const start = context.currentTime;
+  [0, 0.5].forEach((offset) => {
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, start + offset);
+    gain.gain.linearRampToValueAtTime(0.2, start + offset + 0.02);
+    gain.gain.setValueAtTime(0.2, start + offset + 0.38);
+    gain.gain.linearRampToValueAtTime(0, start + offset + 0.4);
+    gain.connect(context.destination);
+
+    [440, 480].forEach((frequency) => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = frequency;
+      oscillator.connect(gain);
+      oscillator.start(start + offset);
+      oscillator.stop(start + offset + 0.4);
+    });
+  });
+}
+
+/**
+ * Ring until stopRingtone; calling it again while ringing does nothing
+ */
+export function startRingtone(): void {
+  if (ringTimer) return;
+
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const context = audioContext;
+    context.resume().catch(() => {
+      // Blocked until the page has had a click; the notification still shows
+    });
+    playRing(context);
+    ringTimer = setInterval(() => playRing(context), RING_INTERVAL_MS);
+  } catch (error) {
+    console.error('[CallNotifications] Ringtone failed:', error);
+  }
+}
+
+export function stopRingtone(): void {
+  if (ringTimer) clearInterval(ringTimer);
+  ringTimer = null;
+  audioContext?.suspend().catch(() => undefined);
+}
+
+// ============================================================================
+// Tab title
+// ============================================================================
+
+export function startTitleFlash(message: string): void {
+  stopTitleFlash();
+  originalTitle = document.title;
+  let showMessage = true;
+  document.title = message;
+  titleTimer = setInterval(() => {
+    showMessage = !showMessage;
+    document.title = showMessage ? message : originalTitle ?? '';
+  }, TITLE_FLASH_INTERVAL_MS);
+}
+
+export function stopTitleFlash(): void {
+  if (titleTimer) clearInterval(titleTimer);
+  titleTimer = null;
+  if (originalTitle !== null) document.title = originalTitle;
+  originalTitle = null;
+}
@@ -4,6 +4,7 @@
  */
 
 import { config } from '@/config';
+import { request, unwrapResponse, withTokenRefresh, ApiError } from './httpClient';
 import type {
   Conversation,
   GetConversationsParams,
@@ -11,9 +12,13 @@ import type {
   GetOrCreateConversationResponse,
   GetMessagesParams,
   GetMessagesResponse,
+  MarkMessagesAsReadResponse,
   UploadAttachmentResponse,
   GetUnreadCountResponse,
   ParticipantRole,
+  SearchMessagesParams,
+  SearchMessagesResponse,
+  ChatMessage,
 } from '@/types/chat';
 
 const BASE_URL = config.api.baseURL;
@@ -102,33 +107,6 @@ function mapSessionToConversation(session: RawSession, role: ParticipantRole): C
   };
 }
 
-async function request<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = localStorage.getItem('auth_token');
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...options.headers,
-  };
-
-  const res = await fetch(`${BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
-  });
-
-  const responseData = await res.json();
-  if (!res.ok) throw new Error(responseData.message || 'Request failed');
-  
-  // Unwrap the data property if it exists (backend wraps responses in {success, message, data})
-  if (responseData && typeof responseData === 'object' && 'data' in responseData) {
-    return responseData.data as T;
-  }
-  
-  return responseData as T;
-}
-
 /**
  * Chat API endpoints
  */
@@ -220,6 +198,19 @@ export const chatApi = {
     };
   },
 
+  /**
+   * Get or create the chat tied to a call, shared by both participants
+   * Messages sent in it are kept as the call's transcript
+   * @param callId - ID of the call session
+   * @returns Conversation with the other participant
+   */
+  getCallConversation: async (callId: string): Promise<Conversation> => {
+    const session = await request<RawSession>(`/api/chat/calls/${callId}/session`, {
+      method: 'POST',
+    });
+    return mapSessionToConversation(session, getStoredRole() || 'user');
+  },
+
   /**
    * Get message history for a conversation
    * @param conversationId - ID of the conversation (sessionId)
@@ -258,14 +249,23 @@ export const chatApi = {
    * Upload a file attachment
    * @param file - File to upload
    * @param onProgress - Optional callback for upload progress
+   * @param signal - Optional abort signal to cancel the upload
    * @returns Attachment metadata with URL
    */
   uploadAttachment: (
     file: File,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<UploadAttachmentResponse> => {
-    return new Promise((resolve, reject) => {
-      const token = localStorage.getItem('auth_token');
+    const endpoint = '/api/chat/attachments';
+
+    // One XHR attempt; a 401 is retried once with a renewed token by withTokenRefresh
+    const send = (token: string | null) => new Promise<UploadAttachmentResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ApiError('Upload cancelled', { code: 'aborted', endpoint }));
+        return;
+      }
+
       const formData = new FormData();
       formData.append('file', file);
 
@@ -282,57 +282,108 @@ export const chatApi = {
       }
 
       xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const data = JSON.parse(xhr.responseText);
-            resolve(data);
-          } catch (err) {
-            reject(new Error('Failed to parse response'));
-          }
-        } else {
-          try {
-            const data = JSON.parse(xhr.responseText);
-            reject(new Error(data.message || 'Upload failed'));
-          } catch {
-            reject(new Error('Upload failed'));
+        let body: unknown = null;
+        try {
+          body = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+        } catch {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            reject(new ApiError('Failed to parse response', { code: 'invalid_response', endpoint, status: xhr.status }));
+            return;
           }
         }
+
+        try {
+          resolve(unwrapResponse<UploadAttachmentResponse>(endpoint, xhr.status, body, false));
+        } catch (err) {
+          reject(err);
+        }
       });
 
       xhr.addEventListener('error', () => {
-        reject(new Error('Network error during upload'));
+        reject(new ApiError('Network error during upload', { code: 'network', endpoint }));
       });
 
       xhr.addEventListener('abort', () => {
-        reject(new Error('Upload cancelled'));
+        reject(new ApiError('Upload cancelled', { code: 'aborted', endpoint }));
+      });
+
+      xhr.addEventListener('timeout', () => {
+        reject(new ApiError('Upload timed out', { code: 'timeout', endpoint }));
       });
 
-      xhr.open('POST', `${BASE_URL}/api/chat/attachments`);
+      signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+      xhr.open('POST', `${BASE_URL}${endpoint}`);
+      xhr.timeout = config.api.uploadTimeout;
       if (token) {
         xhr.setRequestHeader('Authorization', `Bearer ${token}`);
       }
 
       xhr.send(formData);
     });
+
+    return withTokenRefresh(send);
   },
 
   /**
-   * Mark a conversation as read
+   * Mark messages in a conversation as read
+   * Used when the socket is offline; online clients emit 'mark_read' instead
    * @param conversationId - ID of the conversation (sessionId)
+   * @param messageIds - Messages the user has seen (omit to mark the whole conversation)
+   * @returns Read timestamp and remaining unread count
+   */
+  markAsRead: async (conversationId: string, messageIds?: string[]): Promise<MarkMessagesAsReadResponse> => {
+    const response = await request<MarkMessagesAsReadResponse>(`/api/chat/sessions/${conversationId}/read`, {
+      method: 'POST',
+      body: JSON.stringify(messageIds ? { messageIds } : {}),
+    });
+
+    return {
+      messageIds: response?.messageIds || messageIds || [],
+      readAt: response?.readAt ? new Date(response.readAt) : new Date(),
+      unreadCount: response?.unreadCount ?? 0,
+    };
+  },
+
+  /**
+   * Full-text search over message contents
+   * @param params - Query, optional conversation filter and result limit
+   * @returns Matching messages, newest first
    */
-  markAsRead: (conversationId: string): Promise<void> => {
-    // Mark as read is handled via socket.io emit('mark_read', { sessionId })
-    // This is a no-op for REST API compatibility
-    return Promise.resolve();
+  searchMessages: async (params: SearchMessagesParams): Promise<SearchMessagesResponse> => {
+    const queryParams = new URLSearchParams({ q: params.query });
+    if (params.conversationId) queryParams.append('sessionId', params.conversationId);
+    if (params.limit) queryParams.append('limit', params.limit.toString());
+
+    const response = await request<{
+      messages: Array<ChatMessage & { sessionId?: string }>;
+      pagination?: { totalCount: number };
+    }>(`/api/chat/search?${queryParams.toString()}`);
+
+    const hits = (response.messages || []).map((msg) => {
+      const conversationId = msg.sessionId || msg.conversationId;
+      return {
+        conversationId,
+        message: { ...msg, conversationId, timestamp: new Date(msg.timestamp) },
+      };
+    });
+
+    return {
+      hits,
+      total: response.pagination?.totalCount ?? hits.length,
+    };
   },
 
   /**
    * Get unread message count
    * @returns Total unread count and per-conversation breakdown
    */
-  getUnreadCount: (): Promise<GetUnreadCountResponse> => {
-    // Unread count is tracked in the conversation list response
-    // This is a no-op for REST API compatibility
-    return Promise.resolve({ total: 0, byConversation: {} });
+  getUnreadCount: async (): Promise<GetUnreadCountResponse> => {
+    const response = await request<Partial<GetUnreadCountResponse>>('/api/chat/unread-count');
+
+    return {
+      total: response?.total || 0,
+      byConversation: response?.byConversation || {},
+    };
   },
 };
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearPendingMessages } from '@/utils/chatCache';
+import type { ConnectionStatus, MessageStatus, PendingMessage } from '@/types/chat';
+import { confirmMessage, enqueueMessage, flushOutbox, getOutbox, startOutbox, type OutboxHandlers } from './chatOutbox';
+
+const socket = vi.hoisted(() => ({
+  status: 'connected' as ConnectionStatus,
+  listeners: new Set<(status: ConnectionStatus) => void>(),
+}));
+
+vi.mock('@/services/socket', () => ({
+  getConnectionStatus: () => socket.status,
+  onConnectionStatusChange: (callback: (status: ConnectionStatus) => void) => {
+    socket.listeners.add(callback);
+    callback(socket.status);
+    return () => socket.listeners.delete(callback);
+  },
+}));
+
+function setStatus(status: ConnectionStatus) {
+  socket.status = status;
+  socket.listeners.forEach((callback) => callback(status));
+}
+
+function reconnect() {
+  setStatus('reconnecting');
+  setStatus('connected');
+}
+
+/**
+ * What logging out does to the socket module: report the disconnect, then drop every status listener
+ */
+function disconnectSocket() {
+  setStatus('disconnected');
+  socket.listeners.clear();
+}
+
+let idCount = 0;
+function nextTempId(): string {
+  idCount += 1;
+  return `temp-${idCount}`;
+}
+
+/**
+ * Handlers that record every send and status change; the server echo is up to each test
+ */
+function recordingHandlers(send: (message: PendingMessage) => void = () => undefined) {
+  const sent: string[] = [];
+  const statuses: [string, MessageStatus][] = [];
+  const handlers: OutboxHandlers = {
+    send: async (message) => {
+      sent.push(message.tempId);
+      send(message);
+    },
+    onStatusChange: (message, status) => {
+      statuses.push([message.tempId, status]);
+    },
+  };
+  return { handlers, sent, statuses };
+}
+
+describe('chatOutbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    socket.status = 'connected';
+    clearPendingMessages();
+  });
+
+  afterEach(() => {
+    disconnectSocket();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends queued messages one at a time in the order they were written', async () => {
+    const ids = [nextTempId(), nextTempId(), nextTempId()];
+    ids.forEach((id, index) => {
+      vi.setSystemTime(1000 + index);
+      enqueueMessage(id, 'c1', `message ${index}`);
+    });
+    const { handlers, sent } = recordingHandlers((message) => confirmMessage(message.tempId));
+
+    await flushOutbox(handlers);
+
+    expect(sent).toEqual(ids);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('still flushes after a flush that found nothing to send', async () => {
+    await flushOutbox(recordingHandlers().handlers);
+
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    const { handlers, sent } = recordingHandlers((message) => confirmMessage(message.tempId));
+    await flushOutbox(handlers);
+
+    expect(sent).toEqual([id]);
+  });
+
+  it('queues a tempId once, and not again after the server confirmed it', () => {
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    enqueueMessage(id, 'c1', 'hello');
+    expect(getOutbox().map((message) => message.tempId)).toEqual([id]);
+
+    confirmMessage(id);
+    enqueueMessage(id, 'c1', 'hello');
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('retries a message the socket could not take, after a backoff', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    let attempts = 0;
+    const { handlers, sent, statuses } = recordingHandlers((message) => {
+      attempts += 1;
+      if (attempts === 1) throw new Error('socket closed');
+      confirmMessage(message.tempId);
+    });
+
+    const flushed = flushOutbox(handlers);
+    await vi.runAllTimersAsync();
+    await flushed;
+
+    expect(sent).toEqual([id, id]);
+    expect(statuses).toEqual([
+      [id, 'sending'],
+      [id, 'queued'],
+      [id, 'sending'],
+    ]);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('marks a message failed once it runs out of attempts', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    const { handlers, statuses } = recordingHandlers(() => {
+      throw new Error('socket closed');
+    });
+
+    const flushed = flushOutbox(handlers);
+    await vi.runAllTimersAsync();
+    await flushed;
+
+    expect(statuses[statuses.length - 1]).toEqual([id, 'failed']);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('leaves a late echo room to confirm the message during the backoff', async () => {
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    const { handlers, sent, statuses } = recordingHandlers();
+
+    const flushed = flushOutbox(handlers);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(statuses).toEqual([
+      [id, 'sending'],
+      [id, 'queued'],
+    ]);
+
+    confirmMessage(id);
+    await vi.runAllTimersAsync();
+    await flushed;
+
+    expect(sent).toEqual([id]);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('keeps the queue moving when an echo never arrives', async () => {
+    const lost = nextTempId();
+    const next = nextTempId();
+    vi.setSystemTime(1000);
+    enqueueMessage(lost, 'c1', 'lost');
+    vi.setSystemTime(2000);
+    enqueueMessage(next, 'c1', 'next');
+    const { handlers, sent, statuses } = recordingHandlers((message) => {
+      if (message.tempId === next) confirmMessage(message.tempId);
+    });
+
+    const flushed = flushOutbox(handlers);
+    await vi.runAllTimersAsync();
+    await flushed;
+
+    expect(sent).toEqual([lost, lost, lost, lost, lost, next]);
+    expect(statuses).toContainEqual([lost, 'failed']);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('resends an unconfirmed message at once when the socket reconnects', async () => {
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    let echo = false;
+    const { handlers, sent } = recordingHandlers((message) => {
+      if (echo) confirmMessage(message.tempId);
+    });
+    startOutbox(handlers);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    setStatus('disconnected');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(sent).toEqual([id]);
+
+    echo = true;
+    reconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent).toEqual([id, id]);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it('keeps counting reconnects after a logout dropped its listener', async () => {
+    startOutbox(recordingHandlers().handlers);
+    await vi.advanceTimersByTimeAsync(0);
+    disconnectSocket();
+
+    // Signing in again starts a new session on a new socket
+    socket.status = 'connected';
+    const id = nextTempId();
+    enqueueMessage(id, 'c1', 'hello');
+    let echo = false;
+    const { handlers, sent } = recordingHandlers((message) => {
+      if (echo) confirmMessage(message.tempId);
+    });
+    startOutbox(handlers);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    setStatus('disconnected');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    echo = true;
+    reconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent).toEqual([id, id]);
+    expect(getOutbox()).toEqual([]);
+  });
+});
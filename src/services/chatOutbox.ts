@@ -0,0 +1,203 @@
+/**
+ * Chat Outbox
+ * Durable, ordered queue for outgoing chat messages
+ *
+ * Messages are persisted through the chat cache's pending-message store, so anything
+ * typed while offline survives a reload. The outbox is flushed one message at a time
+ * whenever the socket connects while startOutbox() runs for the signed-in session;
+ * a message leaves the queue only when the
+ * server confirms its tempId, which keeps flaky networks from producing double sends.
+ * A message whose echo does not arrive in time counts as a failed attempt so the queue keeps
+ * moving. On the same connection it is resent only after its backoff, which leaves a late
+ * echo room to confirm it first; after a reconnect it is resent right away. It is marked
+ * failed once MAX_SEND_ATTEMPTS run out.
+ */
+
+import { config } from '@/config';
+import { getConnectionStatus, onConnectionStatusChange } from '@/services/socket';
+import {
+  addPendingMessage,
+  getPendingMessages,
+  incrementPendingMessageRetry,
+  removePendingMessage,
+} from '@/utils/chatCache';
+import type {
+  ConnectionStatus,
+  MessageAttachment,
+  MessageReplyPreview,
+  MessageStatus,
+  PendingMessage,
+} from '@/types/chat';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Callbacks supplied by the owner of the outbox (ChatContext)
+ */
+export interface OutboxHandlers {
+  /** Deliver a pending message to the server; throw if it could not be handed off */
+  send: (message: PendingMessage) => Promise<void>;
+  /** Reflect queue progress on the optimistic message */
+  onStatusChange: (message: PendingMessage, status: MessageStatus) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Time to wait for the server to echo a tempId before the attempt counts as failed */
+const CONFIRMATION_TIMEOUT_MS = 10000;
+
+/** Attempts before a message is given up on and marked failed */
+const MAX_SEND_ATTEMPTS = config.chat.reconnectionAttempts;
+
+const MAX_BACKOFF_MS = 30000;
+
+// ============================================================================
+// State
+// ============================================================================
+
+const confirmations = new Map<string, (confirmed: boolean) => void>();
+const confirmedTempIds = new Set<string>();
+let flushing: Promise<void> | null = null;
+
+/** Bumped on every connect; a message last emitted on an earlier connection is resent without a backoff */
+let connectionEpoch = 0;
+let lastStatus: ConnectionStatus | null = null;
+const emittedInEpoch = new Map<string, number>();
+
+function isAwaitingEcho(tempId: string): boolean {
+  return emittedInEpoch.get(tempId) === connectionEpoch;
+}
+
+function getBackoffDelay(retryCount: number): number {
+  return Math.min(config.chat.reconnectionDelayMs * Math.pow(2, retryCount - 1), MAX_BACKOFF_MS);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function waitForConfirmation(tempId: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      confirmations.delete(tempId);
+      resolve(false);
+    }, CONFIRMATION_TIMEOUT_MS);
+
+    confirmations.set(tempId, (confirmed) => {
+      clearTimeout(timer);
+      confirmations.delete(tempId);
+      resolve(confirmed);
+    });
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Follow the socket for a signed-in session: count each new connection and flush on it
+ * disconnectSocket() drops every status listener on logout, so the owner calls this per session
+ * Returns a stop function
+ */
+export function startOutbox(handlers: OutboxHandlers): () => void {
+  return onConnectionStatusChange((status) => {
+    const isNewConnection = status === 'connected' && lastStatus !== 'connected';
+    lastStatus = status;
+    if (!isNewConnection) return;
+
+    connectionEpoch += 1;
+    flushOutbox(handlers);
+  });
+}
+
+/**
+ * Add a message to the outbox
+ * Re-enqueueing a tempId that is already queued or confirmed is a no-op
+ */
+export function enqueueMessage(
+  tempId: string,
+  conversationId: string,
+  content: string,
+  attachments?: MessageAttachment[],
+  replyTo?: MessageReplyPreview
+): void {
+  if (confirmedTempIds.has(tempId)) return;
+  addPendingMessage(tempId, conversationId, content, attachments, replyTo);
+}
+
+/**
+ * Mark a message as accepted by the server and drop it from the outbox
+ * Called when new_message / message_delivered echoes the tempId
+ */
+export function confirmMessage(tempId: string): void {
+  confirmedTempIds.add(tempId);
+  emittedInEpoch.delete(tempId);
+  removePendingMessage(tempId);
+  confirmations.get(tempId)?.(true);
+}
+
+/**
+ * Pending messages in send order
+ */
+export function getOutbox(): PendingMessage[] {
+  return getPendingMessages();
+}
+
+/**
+ * Send queued messages in order while the socket stays connected
+ * Concurrent calls share the same flush
+ */
+export function flushOutbox(handlers: OutboxHandlers): Promise<void> {
+  if (flushing) return flushing;
+
+  // Cleared asynchronously: a flush with nothing to send settles before it is even assigned
+  flushing = (async () => {
+    while (getConnectionStatus() === 'connected') {
+      const next = getPendingMessages()[0];
+      if (!next) break;
+
+      if (next.retryCount >= MAX_SEND_ATTEMPTS) {
+        emittedInEpoch.delete(next.tempId);
+        removePendingMessage(next.tempId);
+        handlers.onStatusChange(next, 'failed');
+        continue;
+      }
+
+      const emittedEarlier = emittedInEpoch.has(next.tempId) && !isAwaitingEcho(next.tempId);
+      if (next.retryCount > 0 && !emittedEarlier) {
+        await delay(getBackoffDelay(next.retryCount));
+        // A late echo during the backoff confirms the message without a second copy
+        if (confirmedTempIds.has(next.tempId)) continue;
+        if (getConnectionStatus() !== 'connected') break;
+      }
+
+      handlers.onStatusChange(next, 'sending');
+      const confirmed = waitForConfirmation(next.tempId);
+
+      try {
+        await handlers.send(next);
+      } catch (error) {
+        console.error('[ChatOutbox] Failed to send message:', error);
+        confirmations.get(next.tempId)?.(false);
+        incrementPendingMessageRetry(next.tempId);
+        handlers.onStatusChange(next, 'queued');
+        continue;
+      }
+      emittedInEpoch.set(next.tempId, connectionEpoch);
+
+      if (!(await confirmed) && !confirmedTempIds.has(next.tempId)) {
+        incrementPendingMessageRetry(next.tempId);
+        handlers.onStatusChange(next, 'queued');
+      }
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
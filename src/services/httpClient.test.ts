@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, onUnauthorized, request, setTokenRefresher, unwrapResponse, withTokenRefresh } from './httpClient';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('httpClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    setTokenRefresher(null);
+    vi.restoreAllMocks();
+  });
+
+  describe('unwrapResponse', () => {
+    it('returns the data of a successful envelope', () => {
+      expect(unwrapResponse('/x', 200, { success: true, data: { id: 1 } }, false)).toEqual({ id: 1 });
+    });
+
+    it('returns bodies that are not enveloped as they are', () => {
+      expect(unwrapResponse('/x', 200, [1, 2], false)).toEqual([1, 2]);
+    });
+
+    it('throws the server message for success: false', () => {
+      expect(() => unwrapResponse('/x', 200, { success: false, message: 'Slot taken' }, false)).toThrow('Slot taken');
+    });
+
+    it('throws an http ApiError carrying the status for non-2xx answers', () => {
+      try {
+        unwrapResponse('/x', 404, { message: 'Not found' }, false);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error).toMatchObject({ code: 'http', status: 404, endpoint: '/x', message: 'Not found' });
+      }
+    });
+
+    it('reports a 401 only when asked to', () => {
+      const listener = vi.fn();
+      const unsubscribe = onUnauthorized(listener);
+
+      expect(() => unwrapResponse('/x', 401, null, false)).toThrow(ApiError);
+      expect(listener).not.toHaveBeenCalled();
+      expect(() => unwrapResponse('/x', 401, null, true)).toThrow(ApiError);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+    });
+  });
+
+  describe('request', () => {
+    it('sends the stored token and a JSON content type', async () => {
+      localStorage.setItem('auth_token', 'token-1');
+      fetchMock.mockResolvedValue(jsonResponse(200, { success: true, data: 'ok' }));
+
+      await expect(request('/api/thing', { method: 'POST', body: '{}' })).resolves.toBe('ok');
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer token-1', 'Content-Type': 'application/json' });
+    });
+
+    it('rejects a 2xx answer that is not JSON', async () => {
+      fetchMock.mockResolvedValue(new Response('<html></html>', { status: 200 }));
+
+      await expect(request('/api/thing')).rejects.toMatchObject({ code: 'invalid_response' });
+    });
+
+    it('turns a failed fetch into a network error', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(request('/api/thing')).rejects.toMatchObject({ code: 'network', status: 0 });
+    });
+
+    it('times out after timeoutMs', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+          })
+      );
+
+      const pending = expect(request('/api/thing', { timeoutMs: 5000 })).rejects.toMatchObject({ code: 'timeout' });
+      await vi.advanceTimersByTimeAsync(5000);
+      await pending;
+    });
+
+    it('reports a cancelled request as aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+        init.signal?.aborted ? Promise.reject(new DOMException('Aborted', 'AbortError')) : Promise.resolve(jsonResponse(200, {}))
+      );
+
+      await expect(request('/api/thing', { signal: controller.signal })).rejects.toMatchObject({ code: 'aborted' });
+    });
+  });
+
+  describe('token refresh', () => {
+    let unauthorized: ReturnType<typeof vi.fn>;
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      localStorage.setItem('auth_token', 'stale');
+      unauthorized = vi.fn();
+      unsubscribe = onUnauthorized(unauthorized);
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('retries a 401 once with the renewed token', async () => {
+      const refresher = vi.fn().mockResolvedValue('fresh');
+      setTokenRefresher(refresher);
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { message: 'Expired' }))
+        .mockResolvedValueOnce(jsonResponse(200, { success: true, data: 'ok' }));
+
+      await expect(request('/api/thing')).resolves.toBe('ok');
+
+      expect(refresher).toHaveBeenCalledWith('stale');
+      expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ Authorization: 'Bearer fresh' });
+      expect(unauthorized).not.toHaveBeenCalled();
+    });
+
+    it('signs out when the session cannot be renewed', async () => {
+      setTokenRefresher(vi.fn().mockResolvedValue(null));
+      fetchMock.mockImplementation(async () => jsonResponse(401, {}));
+
+      await expect(request('/api/thing')).rejects.toMatchObject({ status: 401 });
+      expect(unauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it('signs out when the retry is rejected too', async () => {
+      setTokenRefresher(vi.fn().mockResolvedValue('fresh'));
+      fetchMock.mockImplementation(async () => jsonResponse(401, {}));
+
+      await expect(request('/api/thing')).rejects.toMatchObject({ status: 401 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(unauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the session when renewal could not be attempted', async () => {
+      setTokenRefresher(vi.fn().mockRejectedValue(new Error('offline')));
+      fetchMock.mockImplementation(async () => jsonResponse(401, {}));
+
+      await expect(request('/api/thing')).rejects.toMatchObject({ status: 401 });
+      expect(unauthorized).not.toHaveBeenCalled();
+    });
+
+    it('does not refresh for the refresh call itself', async () => {
+      const refresher = vi.fn().mockResolvedValue('fresh');
+      setTokenRefresher(refresher);
+      fetchMock.mockImplementation(async () => jsonResponse(401, {}));
+
+      await expect(request('/api/auth/refresh', { skipAuthRefresh: true })).rejects.toMatchObject({ status: 401 });
+      expect(refresher).not.toHaveBeenCalled();
+      expect(unauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it('renews for transports outside fetch, such as XHR uploads', async () => {
+      setTokenRefresher(vi.fn().mockResolvedValue('fresh'));
+      const attempt = vi.fn(async (token: string | null) => {
+        if (token === 'stale') throw new ApiError('Expired', { code: 'http', endpoint: '/upload', status: 401 });
+        return 'uploaded';
+      });
+
+      await expect(withTokenRefresh(attempt)).resolves.toBe('uploaded');
+      expect(attempt.mock.calls.map(([token]) => token)).toEqual(['stale', 'fresh']);
+      expect(unauthorized).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * HTTP client
+ * Shared fetch wrapper for every REST service layer: auth header, request timeouts,
+ * {success, data, message} unwrapping, refresh-and-retry on 401 and structured ApiError failures
+ */
+
+import { config } from '@/config';
+
+const BASE_URL = config.api.baseURL;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why a request failed
+ * - http: the server answered with a non-2xx status or success: false
+ * - network: the server could not be reached
+ * - timeout: no answer within the request timeout
+ * - aborted: cancelled by the caller's AbortSignal
+ * - invalid_response: a 2xx answer whose body is not JSON
+ */
+export type ApiErrorCode = 'http' | 'network' | 'timeout' | 'aborted' | 'invalid_response';
+
+export interface RequestOptions extends Omit<RequestInit, 'headers'> {
+  headers?: Record<string, string>;
+  timeoutMs?: number; // Defaults to config.api.timeout
+  skipAuthRefresh?: boolean; // Set on the refresh call itself so a 401 there cannot recurse
+}
+
+/**
+ * Envelope most endpoints wrap their payload in
+ */
+export interface ApiEnvelope<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+}
+
+/**
+ * Called when an authenticated request is rejected with 401
+ */
+export type UnauthorizedCallback = (error: ApiError) => void;
+
+/**
+ * Renews the access token after `rejectedToken` got a 401
+ * Resolves the new token, null when the session cannot be renewed,
+ * and rejects when renewal could not be attempted (e.g. offline)
+ */
+export type TokenRefresher = (rejectedToken: string) => Promise<string | null>;
+
+// ============================================================================
+// ApiError
+// ============================================================================
+
+/**
+ * Structured request failure
+ * parseError in utils/errorHandling classifies these by code and status
+ */
+export class ApiError extends Error {
+  readonly status: number; // 0 when no response was received
+  readonly code: ApiErrorCode;
+  readonly endpoint: string;
+  readonly body?: unknown;
+
+  constructor(
+    message: string,
+    details: { code: ApiErrorCode; endpoint: string; status?: number; body?: unknown }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = details.code;
+    this.endpoint = details.endpoint;
+    this.status = details.status ?? 0;
+    this.body = details.body;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+}
+
+// ============================================================================
+// Unauthorized Event
+// ============================================================================
+
+const unauthorizedCallbacks: Set<UnauthorizedCallback> = new Set();
+
+/**
+ * Subscribe to 401 responses on authenticated requests
+ * Returns unsubscribe function
+ */
+export function onUnauthorized(callback: UnauthorizedCallback): () => void {
+  unauthorizedCallbacks.add(callback);
+
+  return () => {
+    unauthorizedCallbacks.delete(callback);
+  };
+}
+
+function notifyUnauthorized(error: ApiError) {
+  unauthorizedCallbacks.forEach((callback) => callback(error));
+}
+
+// ============================================================================
+// Token Refresh
+// ============================================================================
+
+let tokenRefresher: TokenRefresher | null = null;
+
+/**
+ * Install the handler that renews expired access tokens
+ * Without one, every 401 on an authenticated request fires the unauthorized event
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+  tokenRefresher = refresher;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('auth_token');
+}
+
+function isEnvelope(body: unknown): body is ApiEnvelope<unknown> {
+  return !!body && typeof body === 'object' && !Array.isArray(body) && ('success' in body || 'data' in body);
+}
+
+function getErrorMessage(body: unknown, fallback: string): string {
+  if (body && typeof body === 'object' && 'message' in body && typeof body.message === 'string' && body.message) {
+    return body.message;
+  }
+  return fallback;
+}
+
+/**
+ * Turn a parsed response body into its payload
+ * Throws ApiError for non-2xx statuses and success: false envelopes. With reportUnauthorized
+ * set, a 401 also fires the unauthorized event - pass it only for requests that carried a
+ * token (a failed login is not a logout).
+ * Exported for transports that cannot use fetch, such as XHR uploads with progress.
+ */
+export function unwrapResponse<T>(
+  endpoint: string,
+  status: number,
+  body: unknown,
+  reportUnauthorized: boolean
+): T {
+  if (status < 200 || status >= 300) {
+    const error = new ApiError(getErrorMessage(body, `Request failed (${status})`), {
+      code: 'http',
+      endpoint,
+      status,
+      body,
+    });
+    if (status === 401 && reportUnauthorized) {
+      notifyUnauthorized(error);
+    }
+    throw error;
+  }
+
+  if (isEnvelope(body)) {
+    if (body.success === false) {
+      throw new ApiError(getErrorMessage(body, 'Request failed'), { code: 'http', endpoint, status, body });
+    }
+    if ('data' in body) {
+      return body.data as T;
+    }
+  }
+
+  return body as T;
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Single fetch attempt with the given token
+ */
+async function send<T>(endpoint: string, options: RequestOptions, token: string | null): Promise<T> {
+  const { timeoutMs = config.api.timeout, signal, headers, skipAuthRefresh: _skipAuthRefresh, ...init } = options;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+  }
+
+  try {
+    const res = await fetch(`${BASE_URL}${endpoint}`, {
+      ...init,
+      headers: {
+        ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers,
+      },
+      signal: controller.signal,
+    });
+
+    const body = await readBody(res);
+    if (res.ok && typeof body === 'string') {
+      throw new ApiError('Unexpected response from server', {
+        code: 'invalid_response',
+        endpoint,
+        status: res.status,
+        body,
+      });
+    }
+
+    // 401s are reported by request() once a refresh has been ruled out
+    return unwrapResponse<T>(endpoint, res.status, body, false);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (timedOut) {
+      throw new ApiError('The request timed out. Please try again.', { code: 'timeout', endpoint });
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError('Request cancelled', { code: 'aborted', endpoint });
+    }
+    throw new ApiError('Network error. Please check your connection and try again.', {
+      code: 'network',
+      endpoint,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+function isUnauthorizedError(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.isUnauthorized;
+}
+
+/**
+ * Run an authenticated attempt with the current token
+ * An attempt rejected with 401 is retried once after the token refresher renews the session;
+ * the unauthorized event fires only when renewal is refused or the retry is rejected too.
+ * Exported for transports that cannot use fetch, such as XHR uploads with progress - their
+ * attempt must unwrap with reportUnauthorized off so this decides when to sign out.
+ */
+export async function withTokenRefresh<T>(
+  attempt: (token: string | null) => Promise<T>,
+  skipAuthRefresh = false
+): Promise<T> {
+  const token = getAuthToken();
+
+  try {
+    return await attempt(token);
+  } catch (error) {
+    if (!token || !isUnauthorizedError(error)) throw error;
+
+    if (tokenRefresher && !skipAuthRefresh) {
+      // A refresher that cannot reach the server rejects; surface the original 401 without signing out
+      const renewed = await tokenRefresher(token).catch(() => {
+        throw error;
+      });
+
+      if (renewed) {
+        try {
+          return await attempt(renewed);
+        } catch (retryError) {
+          if (isUnauthorizedError(retryError)) notifyUnauthorized(retryError);
+          throw retryError;
+        }
+      }
+    }
+
+    notifyUnauthorized(error);
+    throw error;
+  }
+}
+
+/**
+ * Perform an API request and return the unwrapped payload
+ * JSON content type is set unless the body is FormData. A 401 is handled by withTokenRefresh.
+ */
+export function request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+  return withTokenRefresh((token) => send<T>(endpoint, options, token), options.skipAuthRefresh);
+}
+
+/**
+ * Send multipart form data (POST unless a method is given)
+ * Uses the longer upload timeout by default
+ */
+export function requestFormData<T>(
+  endpoint: string,
+  formData: FormData,
+  options: RequestOptions = {}
+): Promise<T> {
+  return request<T>(endpoint, {
+    method: 'POST',
+    timeoutMs: config.api.uploadTimeout,
+    ...options,
+    body: formData,
+  });
+}
@@ -1,72 +1,24 @@
-import { config } from '@/config';
-import { 
-  Remedy, 
-  AstrologerRemedyService, 
-  RemedyBooking, 
+import { request, requestFormData } from './httpClient';
+import type {
+  Remedy,
+  AstrologerRemedyService,
+  RemedyBooking,
   CreateBookingRequest,
-  APIResponse,
-  PaginatedResponse
 } from '@/types/remedy';
 
-const BASE_URL = config.api.baseURL;
-
-async function request<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = localStorage.getItem('auth_token');
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...options.headers,
-  };
-
-  const res = await fetch(`${BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
-  });
-
-  const data = await res.json();
-  if (!res.ok) throw new Error(data.message || 'Request failed');
-  return data;
-}
-
-async function requestFormData<T>(
-  endpoint: string,
-  formData: FormData,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = localStorage.getItem('auth_token');
-  const headers: HeadersInit = {
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...options.headers,
-  };
-
-  const res = await fetch(`${BASE_URL}${endpoint}`, {
-    method: 'POST',
-    body: formData,
-    ...options,
-    headers,
-  });
-
-  const data = await res.json();
-  if (!res.ok) throw new Error(data.message || 'Request failed');
-  return data;
-}
-
 // Remedy API Methods
 export const remedyApi = {
   // Browse Remedies (Public)
   getAllRemedies: (category?: string) => {
     const params = category ? `?category=${encodeURIComponent(category)}` : '';
-    return request<APIResponse<Remedy[]>>(`/api/v1/user/remedies${params}`);
+    return request<Remedy[]>(`/api/v1/user/remedies${params}`);
   },
 
   getRemedyCategories: () =>
-    request<APIResponse<string[]>>('/api/v1/user/remedies/categories'),
+    request<string[]>('/api/v1/user/remedies/categories'),
 
   getRemedyById: (remedyId: string) =>
-    request<APIResponse<Remedy>>(`/api/v1/user/remedies/${remedyId}`),
+    request<Remedy>(`/api/v1/user/remedies/${remedyId}`),
 
   // Find Astrologers
   getAstrologersForRemedy: (
@@ -83,7 +35,7 @@ export const remedyApi = {
     if (options?.limit) params.append('limit', options.limit.toString());
     
     const query = params.toString() ? `?${params.toString()}` : '';
-    return request<APIResponse<{
+    return request<{
       astrologers: AstrologerRemedyService[];
       pagination: {
         total: number;
@@ -91,12 +43,12 @@ export const remedyApi = {
         limit: number;
         totalPages: number;
       };
-    }>>(`/api/v1/user/remedies/${remedyId}/astrologers${query}`);
+    }>(`/api/v1/user/remedies/${remedyId}/astrologers${query}`);
   },
 
   // Booking Management (Requires Auth)
   createBooking: (bookingData: CreateBookingRequest) =>
-    request<APIResponse<RemedyBooking>>('/api/v1/user/remedies/bookings', {
+    request<RemedyBooking>('/api/v1/user/remedies/bookings', {
       method: 'POST',
       body: JSON.stringify(bookingData),
     }),
@@ -108,7 +60,7 @@ export const remedyApi = {
     if (options?.limit) params.append('limit', options.limit.toString());
     
     const query = params.toString() ? `?${params.toString()}` : '';
-    return request<APIResponse<{
+    return request<{
       bookings: RemedyBooking[];
       pagination: {
         total: number;
@@ -116,11 +68,11 @@ export const remedyApi = {
         limit: number;
         totalPages: number;
       };
-    }>>(`/api/v1/user/remedies/bookings/my-bookings${query}`);
+    }>(`/api/v1/user/remedies/bookings/my-bookings${query}`);
   },
 
   getBookingById: (bookingId: string) =>
-    request<APIResponse<RemedyBooking>>(`/api/v1/user/remedies/bookings/${bookingId}`),
+    request<RemedyBooking>(`/api/v1/user/remedies/bookings/${bookingId}`),
 
   updateBookingStatus: (
     bookingId: string,
@@ -130,7 +82,7 @@ export const remedyApi = {
       transaction_id?: string;
     }
   ) =>
-    request<APIResponse<RemedyBooking>>(`/api/v1/user/remedies/bookings/${bookingId}`, {
+    request<RemedyBooking>(`/api/v1/user/remedies/bookings/${bookingId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
     }),
@@ -143,14 +95,14 @@ export const remedyApi = {
       comment: string;
     }
   ) =>
-    request<APIResponse<RemedyBooking>>(`/api/v1/user/remedies/bookings/${bookingId}/review`, {
+    request<RemedyBooking>(`/api/v1/user/remedies/bookings/${bookingId}/review`, {
       method: 'POST',
       body: JSON.stringify(review),
     }),
 
   // Astrologer Services (Requires Auth)
   getAvailableRemediesForAstrologer: () =>
-    request<APIResponse<Remedy[]>>('/api/v1/astrologer/remedies/available-remedies'),
+    request<Remedy[]>('/api/v1/astrologer/remedies/available-remedies'),
 
   setupAstrologerService: (payload: {
     remedy_id: string;
@@ -174,7 +126,7 @@ export const remedyApi = {
     portfolio?: Record<string, unknown>;
     service_settings?: Record<string, unknown>;
   }) =>
-    request<APIResponse<AstrologerRemedyService>>('/api/v1/astrologer/remedies/setup-service', {
+    request<AstrologerRemedyService>('/api/v1/astrologer/remedies/setup-service', {
       method: 'POST',
       body: JSON.stringify(payload),
     }),
@@ -197,16 +149,16 @@ export const remedyApi = {
       is_available: boolean;
     }[];
   }) =>
-    request<APIResponse<Remedy>>('/api/v1/astrologer/remedy', {
+    request<Remedy>('/api/v1/astrologer/remedy', {
       method: 'POST',
       body: JSON.stringify(payload),
     }),
 
   getMyAstrologerServices: () =>
-    request<APIResponse<AstrologerRemedyService[]>>('/api/v1/astrologer/remedies/my-services'),
+    request<AstrologerRemedyService[]>('/api/v1/astrologer/remedies/my-services'),
 
   toggleAstrologerService: (serviceId: string, is_active: boolean) =>
-    request<APIResponse<AstrologerRemedyService>>(`/api/v1/astrologer/remedies/services/${serviceId}/toggle`, {
+    request<AstrologerRemedyService>(`/api/v1/astrologer/remedies/services/${serviceId}/toggle`, {
       method: 'PATCH',
       body: JSON.stringify({ is_active }),
     }),
@@ -218,7 +170,7 @@ export const remedyApi = {
     if (options?.limit) params.append('limit', options.limit.toString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return request<APIResponse<{
+    return request<{
       bookings: RemedyBooking[];
       pagination: {
         total: number;
@@ -226,7 +178,7 @@ export const remedyApi = {
         limit: number;
         totalPages: number;
       };
-    }>>(`/api/v1/astrologer/remedies/bookings${query}`);
+    }>(`/api/v1/astrologer/remedies/bookings${query}`);
   },
 
   updateAstrologerBookingStatus: (
@@ -242,7 +194,7 @@ export const remedyApi = {
       astrologer_notes?: string;
     }
   ) =>
-    request<APIResponse<RemedyBooking>>(`/api/v1/astrologer/remedies/bookings/${bookingId}/status`, {
+    request<RemedyBooking>(`/api/v1/astrologer/remedies/bookings/${bookingId}/status`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
     }),
@@ -261,14 +213,14 @@ export const remedyApi = {
     if (payload.text_content) formData.append('text_content', payload.text_content);
     if (payload.delivery_notes) formData.append('delivery_notes', payload.delivery_notes);
     if (payload.responseFile) formData.append('responseFile', payload.responseFile);
-    return requestFormData<APIResponse<RemedyBooking>>(
+    return requestFormData<RemedyBooking>(
       `/api/v1/astrologer/remedies/bookings/${bookingId}/response`,
       formData
     );
   },
 
   getBookingResponse: (bookingId: string) =>
-    request<APIResponse<Pick<RemedyBooking, 'delivery' | 'status'>>>(
+    request<Pick<RemedyBooking, 'delivery' | 'status'>>(
       `/api/v1/user/remedies/bookings/${bookingId}/response`
     ),
 };
\ No newline at end of file
@@ -1,40 +1,33 @@
 import { io, Socket } from 'socket.io-client';
 import { config } from '@/config';
+import type { ConnectionStatus, SendMessageEvent, MarkReadEvent, EditMessageEvent, DeleteMessageEvent } from '@/types/chat';
 import type {
-  ConnectionStatus,
-  NewMessageEvent,
-  MessageDeliveredEvent,
-  MessageStatusChangedEvent,
-  TypingIndicatorEvent,
-  UserOnlineEvent,
-  UserOfflineEvent,
-  MissedMessagesEvent,
-  ReconnectionCompleteEvent,
-  ChatJoinedEvent,
-  SocketErrorEvent,
-  SendMessageEvent,
-} from '@/types/chat';
+  ServerToClientEvents,
+  ClientToServerEvents,
+  ServerEventName,
+  ClientEventName,
+} from '@/types/socket';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 /**
- * Chat event handlers
- * Typed event handlers for all chat-specific Socket.io events
+ * Socket typed with the shared event contract
  */
-export interface ChatEventHandlers {
-  onNewMessage?: (event: NewMessageEvent) => void;
-  onMessageDelivered?: (event: MessageDeliveredEvent) => void;
-  onMessageStatusChanged?: (event: MessageStatusChangedEvent) => void;
-  onTypingIndicator?: (event: TypingIndicatorEvent) => void;
-  onUserOnline?: (event: UserOnlineEvent) => void;
-  onUserOffline?: (event: UserOfflineEvent) => void;
-  onMissedMessages?: (event: MissedMessagesEvent) => void;
-  onReconnectionComplete?: (event: ReconnectionCompleteEvent) => void;
-  onChatJoined?: (event: ChatJoinedEvent) => void;
-  onError?: (event: SocketErrorEvent) => void;
-}
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * Handler for a single server event
+ */
+export type ServerEventHandler<E extends ServerEventName> = ServerToClientEvents[E];
+
+/**
+ * Map of handlers accepted by subscribeToEvents
+ */
+export type ServerEventHandlers = Partial<ServerToClientEvents>;
+
+type AnyEventHandler = (payload: unknown) => void;
 
 /**
  * Connection status change callback
@@ -45,10 +38,13 @@ export type ConnectionStatusCallback = (status: ConnectionStatus) => void;
 // State
 // ============================================================================
 
-let socket: Socket | null = null;
+let socket: AppSocket | null = null;
 let connectionStatus: ConnectionStatus = 'disconnected';
 let connectionStatusCallbacks: Set<ConnectionStatusCallback> = new Set();
-let chatEventHandlers: ChatEventHandlers = {};
+// Subscribers outlive individual socket instances so re-login and reconnects keep them attached
+const eventSubscribers = new Map<ServerEventName, Set<AnyEventHandler>>();
+// One dispatcher per event on the current socket instance
+let eventDispatchers = new Map<ServerEventName, AnyEventHandler>();
 let reconnectionAttempt = 0;
 let maxReconnectionAttempts = 10;
 
@@ -99,7 +95,7 @@ export function onConnectionStatusChange(
 /**
  * Get current socket instance
  */
-export function getSocket(): Socket | null {
+export function getSocket(): AppSocket | null {
   return socket;
 }
 
@@ -117,10 +113,13 @@ function getReconnectionDelay(attempt: number): number {
 /**
  * Connect to Socket.io server with authentication
  * Implements exponential backoff reconnection logic
+ * Calling again with a renewed token re-authenticates: a connected socket keeps its
+ * session and presents the new token on its next handshake, any other socket is replaced.
  * Requirements: 1.1, 1.3, 1.4
  */
-export function connectSocket(token: string, role: string): Socket {
+export function connectSocket(token: string, role: string): AppSocket {
   if (socket?.connected) {
+    socket.auth = { token, role };
     return socket;
   }
 
@@ -129,6 +128,7 @@ export function connectSocket(token: string, role: string): Socket {
     socket.removeAllListeners();
     socket.disconnect();
   }
+  eventDispatchers = new Map();
 
   socket = io(config.api.socketURL, {
     auth: { token, role }, // Include role in the auth payload
@@ -192,91 +192,103 @@ function setupSocketListeners() {
     setConnectionStatus('reconnecting');
   });
 
-  // Set up chat event listeners
-  setupChatEventListeners();
-}
-
-/**
- * Set up chat-specific event listeners
- * Requirements: 1.4
- */
-function setupChatEventListeners() {
-  if (!socket) return;
-
-  // New message received
-  socket.on('new_message', (event: NewMessageEvent) => {
-    chatEventHandlers.onNewMessage?.(event);
-  });
-
-  // Message delivered confirmation
-  socket.on('message_delivered', (event: MessageDeliveredEvent) => {
-    chatEventHandlers.onMessageDelivered?.(event);
-  });
-
-  // Message status changed (delivered, read)
-  socket.on('message_status_changed', (event: MessageStatusChangedEvent) => {
-    chatEventHandlers.onMessageStatusChanged?.(event);
-  });
-
-  // Typing indicator
-  socket.on('typing_indicator', (event: TypingIndicatorEvent) => {
-    chatEventHandlers.onTypingIndicator?.(event);
-  });
-
-  // User online status
-  socket.on('user_online', (event: UserOnlineEvent) => {
-    chatEventHandlers.onUserOnline?.(event);
+  socket.on('error', (event) => {
+    console.error('[Socket] Error:', event);
   });
 
-  // User offline status
-  socket.on('user_offline', (event: UserOfflineEvent) => {
-    chatEventHandlers.onUserOffline?.(event);
-  });
+  // Re-attach dispatchers for everything subscribed before this socket existed
+  eventSubscribers.forEach((_, event) => attachDispatcher(event));
+}
 
-  // Missed messages on reconnection
-  socket.on('missed_messages', (event: MissedMessagesEvent) => {
-    chatEventHandlers.onMissedMessages?.(event);
-  });
+// ============================================================================
+// Event Subscriptions
+// ============================================================================
 
-  // Reconnection complete
-  socket.on('reconnection_complete', (event: ReconnectionCompleteEvent) => {
-    chatEventHandlers.onReconnectionComplete?.(event);
-  });
+/**
+ * Attach the dispatcher for an event to the current socket
+ */
+function attachDispatcher(event: ServerEventName) {
+  if (!socket || eventDispatchers.has(event)) return;
+
+  const dispatcher: AnyEventHandler = (payload) => {
+    eventSubscribers.get(event)?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[Socket] Handler for "${event}" failed:`, error);
+      }
+    });
+  };
+  eventDispatchers.set(event, dispatcher);
+  socket.on(event, dispatcher as ServerEventHandler<typeof event>);
+}
 
-  // Chat joined confirmation
-  socket.on('chat_joined', (event: ChatJoinedEvent) => {
-    chatEventHandlers.onChatJoined?.(event);
-  });
+/**
+ * Detach the dispatcher once an event has no subscribers left
+ */
+function detachDispatcher(event: ServerEventName) {
+  const dispatcher = eventDispatchers.get(event);
+  if (!dispatcher) return;
 
-  // Error events
-  socket.on('error', (event: SocketErrorEvent) => {
-    console.error('[Socket] Error:', event);
-    chatEventHandlers.onError?.(event);
-  });
+  socket?.off(event, dispatcher as ServerEventHandler<typeof event>);
+  eventDispatchers.delete(event);
 }
 
 /**
- * Register chat event handlers
- * Requirements: 1.4
+ * Subscribe to a server event
+ * Returns an unsubscribe handle that removes only this handler, never other subscribers' listeners
  */
-export function registerChatEventHandlers(handlers: ChatEventHandlers) {
-  chatEventHandlers = { ...chatEventHandlers, ...handlers };
+export function subscribe<E extends ServerEventName>(
+  event: E,
+  handler: ServerEventHandler<E>
+): () => void {
+  const wrapped = handler as AnyEventHandler;
+  let handlers = eventSubscribers.get(event);
+  if (!handlers) {
+    handlers = new Set();
+    eventSubscribers.set(event, handlers);
+  }
+  handlers.add(wrapped);
+  attachDispatcher(event);
+
+  return () => {
+    const current = eventSubscribers.get(event);
+    if (!current) return;
+    current.delete(wrapped);
+    if (current.size === 0) {
+      eventSubscribers.delete(event);
+      detachDispatcher(event);
+    }
+  };
 }
 
 /**
- * Unregister specific chat event handler
+ * Subscribe to several server events at once
+ * Returns a single handle that unsubscribes all of them
  */
-export function unregisterChatEventHandler(
-  handlerName: keyof ChatEventHandlers
-) {
-  delete chatEventHandlers[handlerName];
+export function subscribeToEvents(handlers: ServerEventHandlers): () => void {
+  const unsubscribes = (Object.keys(handlers) as ServerEventName[]).flatMap((event) => {
+    const handler = handlers[event];
+    return handler ? [subscribe(event, handler)] : [];
+  });
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
 }
 
 /**
- * Clear all chat event handlers
+ * Emit a typed client event
+ * Returns false when the socket is offline so callers can fall back or report it
  */
-export function clearChatEventHandlers() {
-  chatEventHandlers = {};
+export function emitEvent<E extends ClientEventName>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+): boolean {
+  if (!socket?.connected) {
+    console.error(`[Socket] Cannot emit "${event}": not connected`);
+    return false;
+  }
+  socket.emit(event, ...args);
+  return true;
 }
 
 // ============================================================================
@@ -317,10 +329,36 @@ export function sendMessage(event: SendMessageEvent): void {
   }
   socket.emit('send_message', {
     sessionId: event.sessionId,
-    content: event.content
+    content: event.content,
+    tempId: event.tempId, // Echoed back so the outbox can confirm the send
+    type: event.type,
+    attachments: event.attachments,
+    replyToId: event.replyToId,
   });
 }
 
+/**
+ * Edit the content of an own message
+ */
+export function editMessage(event: EditMessageEvent): void {
+  if (!socket?.connected) {
+    console.error('[Socket] Cannot edit message: not connected');
+    throw new Error('Socket not connected');
+  }
+  socket.emit('edit_message', event);
+}
+
+/**
+ * Delete an own message for everyone
+ */
+export function deleteMessage(event: DeleteMessageEvent): void {
+  if (!socket?.connected) {
+    console.error('[Socket] Cannot delete message: not connected');
+    throw new Error('Socket not connected');
+  }
+  socket.emit('delete_message', event);
+}
+
 /**
  * Emit typing indicator
  */
@@ -334,16 +372,19 @@ export function emitTyping(sessionId: string, isTyping: boolean): void {
 
 /**
  * Mark messages as read
+ * Returns false when the socket is offline so callers can fall back to REST
  */
 export function markMessagesAsRead(
   sessionId: string,
-  messageIds?: string[]
-): void {
+  messageIds: string[]
+): boolean {
   if (!socket?.connected) {
     console.error('[Socket] Cannot mark messages as read: not connected');
-    return;
+    return false;
   }
-  socket.emit('mark_read', { sessionId });
+  const event: MarkReadEvent = { sessionId, messageIds };
+  socket.emit('mark_read', event);
+  return true;
 }
 
 /**
@@ -373,6 +414,6 @@ export function disconnectSocket() {
   }
   setConnectionStatus('disconnected');
   connectionStatusCallbacks.clear();
-  chatEventHandlers = {};
+  eventDispatchers = new Map();
   reconnectionAttempt = 0;
 }
@@ -0,0 +1,70 @@
+/**
+ * Track effects
+ * Agora's virtual background and AI noise suppression extensions, loaded on first use
+ * (they are large) and registered with the SDK once per page
+ */
+
+import AgoraRTC from 'agora-rtc-sdk-ng';
+import type { IVirtualBackgroundExtension } from 'agora-extension-virtual-background';
+import type { IAIDenoiserExtension } from 'agora-extension-ai-denoiser';
+import { config } from '@/config';
+
+// ============================================================================
+// State
+// ============================================================================
+
+let virtualBackground: Promise<IVirtualBackgroundExtension | null> | null = null;
+let noiseSuppression: Promise<IAIDenoiserExtension | null> | null = null;
+
+// ============================================================================
+// Extensions
+// ============================================================================
+
+/**
+ * Resolves to null when the browser cannot run it (no WebGL or WebAssembly, or too old)
+ */
+export function getVirtualBackgroundExtension(): Promise<IVirtualBackgroundExtension | null> {
+  if (!virtualBackground) {
+    virtualBackground = import('agora-extension-virtual-background')
+      .then(({ default: VirtualBackgroundExtension }) => {
+        const extension = new VirtualBackgroundExtension();
+        if (!extension.checkCompatibility()) {
+          console.warn('[TrackEffects] Virtual background is not supported in this browser');
+          return null;
+        }
+        AgoraRTC.registerExtensions([extension]);
+        return extension;
+      })
+      .catch((error: unknown) => {
+        console.error('[TrackEffects] Failed to load virtual background:', error);
+        return null;
+      });
+  }
+  return virtualBackground;
+}
+
+/**
+ * Resolves to null when the browser cannot run it or its models cannot be fetched
+ */
+export function getNoiseSuppressionExtension(): Promise<IAIDenoiserExtension | null> {
+  if (!noiseSuppression) {
+    noiseSuppression = import('agora-extension-ai-denoiser')
+      .then(({ AIDenoiserExtension }) => {
+        const extension = new AIDenoiserExtension({ assetsPath: config.agora.denoiserAssetsPath });
+        if (!extension.checkCompatibility()) {
+          console.warn('[TrackEffects] Noise suppression is not supported in this browser');
+          return null;
+        }
+        extension.onloaderror = () => {
+          console.error('[TrackEffects] Noise suppression models failed to load');
+        };
+        AgoraRTC.registerExtensions([extension]);
+        return extension;
+      })
+      .catch((error: unknown) => {
+        console.error('[TrackEffects] Failed to load noise suppression:', error);
+        return null;
+      });
+  }
+  return noiseSuppression;
+}
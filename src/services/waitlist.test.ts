@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WaitlistEntry } from '@/types/api';
+import type { ServerEventHandlers } from '@/services/socket';
+import { getWaitlistEntries, joinWaitlist, refreshWaitlist, resetWaitlist } from './waitlist';
+
+const mocks = vi.hoisted(() => ({
+  handlers: {} as ServerEventHandlers,
+  entries: [] as WaitlistEntry[],
+}));
+
+vi.mock('@/services/socket', () => ({
+  subscribeToEvents: (handlers: ServerEventHandlers) => {
+    mocks.handlers = handlers;
+    return () => {
+      mocks.handlers = {};
+    };
+  },
+}));
+
+vi.mock('@/services/api', () => ({
+  userApi: {
+    getMyWaitlist: async () => ({ entries: mocks.entries }),
+    joinWaitlist: async (astrologerId: string) => entry('e-joined', { astrologerId, expiresAt: inMinutes(5) }),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+
+function entry(id: string, overrides: Partial<WaitlistEntry> = {}): WaitlistEntry {
+  return {
+    _id: id,
+    astrologerId: 'astro-1',
+    callType: 'video',
+    billingType: 'per_minute',
+    status: 'waiting',
+    position: 1,
+    joinedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function inMinutes(minutes: number): string {
+  return new Date(Date.now() + minutes * MINUTE).toISOString();
+}
+
+function statusOf(id: string) {
+  return getWaitlistEntries().find((e) => e._id === id)?.status;
+}
+
+describe('waitlist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    resetWaitlist();
+    mocks.entries = [];
+    vi.useRealTimers();
+  });
+
+  it('expires a waiting entry once its expiresAt has passed, even without the server event', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(10) })];
+    await refreshWaitlist();
+
+    vi.advanceTimersByTime(10 * MINUTE - 1);
+    expect(statusOf('e1')).toBe('waiting');
+
+    vi.advanceTimersByTime(1);
+    expect(statusOf('e1')).toBe('expired');
+  });
+
+  it('expires an entry whose expiresAt passed while the app was closed', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(-1) })];
+    await refreshWaitlist();
+
+    vi.advanceTimersByTime(0);
+
+    expect(statusOf('e1')).toBe('expired');
+  });
+
+  it('moves the expiry when the server extends the wait', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(5) })];
+    await refreshWaitlist();
+
+    mocks.handlers.waitlist_update?.({ entryId: 'e1', position: 1, expiresAt: inMinutes(15) });
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(statusOf('e1')).toBe('waiting');
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(statusOf('e1')).toBe('expired');
+  });
+
+  it('does not expire an entry the astrologer already took', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(5) })];
+    await refreshWaitlist();
+
+    mocks.handlers.waitlist_ready?.({ entryId: 'e1', callId: 'call-1' });
+    vi.advanceTimersByTime(10 * MINUTE);
+
+    expect(statusOf('e1')).toBe('ready');
+  });
+
+  it('schedules expiry for a newly joined entry next to the existing ones', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(20) })];
+    await refreshWaitlist();
+
+    await joinWaitlist('astro-2', { callType: 'video', billingType: 'per_minute' });
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(statusOf('e-joined')).toBe('expired');
+    expect(statusOf('e1')).toBe('waiting');
+
+    vi.advanceTimersByTime(15 * MINUTE);
+    expect(statusOf('e1')).toBe('expired');
+  });
+
+  it('drops entries and pending expiry on logout', async () => {
+    mocks.entries = [entry('e1', { expiresAt: inMinutes(5) })];
+    await refreshWaitlist();
+
+    resetWaitlist();
+
+    expect(getWaitlistEntries()).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
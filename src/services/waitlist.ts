@@ -0,0 +1,146 @@
+/**
+ * Call Waitlist
+ * The signed-in user's places in busy astrologers' queues
+ *
+ * Entries live in module state so every screen sees the same positions. The server
+ * pushes position changes, expiry and the moment the astrologer takes the caller;
+ * entries are also dropped locally once their expiresAt has passed, in case the
+ * expiry event was missed while offline.
+ */
+
+import { userApi } from '@/services/api';
+import { subscribeToEvents } from '@/services/socket';
+import type { JoinWaitlistRequest, WaitlistEntry } from '@/types/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WaitlistCallback = (entries: WaitlistEntry[]) => void;
+
+// ============================================================================
+// State
+// ============================================================================
+
+let entries: WaitlistEntry[] = [];
+const callbacks: Set<WaitlistCallback> = new Set();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let unsubscribeEvents: (() => void) | null = null;
+
+function setEntries(next: WaitlistEntry[]) {
+  entries = next;
+  scheduleExpiry();
+  callbacks.forEach((callback) => callback(entries));
+}
+
+function updateEntry(entryId: string, changes: Partial<WaitlistEntry>) {
+  if (!entries.some((entry) => entry._id === entryId)) return;
+  setEntries(entries.map((entry) => (entry._id === entryId ? { ...entry, ...changes } : entry)));
+}
+
+/**
+ * Mark waiting entries expired once their expiresAt passes
+ */
+function scheduleExpiry() {
+  expiryTimers.forEach((timer) => clearTimeout(timer));
+  expiryTimers.clear();
+
+  entries.forEach((entry) => {
+    if (entry.status !== 'waiting' || !entry.expiresAt) return;
+    const delay = Math.max(0, new Date(entry.expiresAt).getTime() - Date.now());
+    expiryTimers.set(entry._id, setTimeout(() => updateEntry(entry._id, { status: 'expired' }), delay));
+  });
+}
+
+function ensureSubscribed() {
+  if (unsubscribeEvents) return;
+
+  unsubscribeEvents = subscribeToEvents({
+    waitlist_update: (data) => {
+      updateEntry(data.entryId, {
+        position: data.position,
+        estimatedWaitMinutes: data.estimatedWaitMinutes,
+        ...(data.expiresAt ? { expiresAt: data.expiresAt } : {}),
+      });
+    },
+
+    waitlist_ready: (data) => {
+      // Same hand-off CallRinging uses for an accepted call
+      if (data.agora) {
+        localStorage.setItem(`agora_${data.callId}`, JSON.stringify(data.agora));
+      }
+      updateEntry(data.entryId, { status: 'ready', callId: data.callId });
+    },
+
+    waitlist_expired: (data) => {
+      updateEntry(data.entryId, { status: 'expired' });
+    },
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function getWaitlistEntries(): WaitlistEntry[] {
+  return entries;
+}
+
+/**
+ * Subscribe to waitlist changes
+ * Returns unsubscribe function
+ */
+export function onWaitlistChange(callback: WaitlistCallback): () => void {
+  callbacks.add(callback);
+  callback(entries);
+
+  return () => {
+    callbacks.delete(callback);
+  };
+}
+
+/**
+ * Load the user's current entries, e.g. after a reload
+ */
+export async function refreshWaitlist(): Promise<void> {
+  ensureSubscribed();
+  try {
+    const response = await userApi.getMyWaitlist();
+    setEntries(response.entries || []);
+  } catch (error) {
+    console.error('[Waitlist] Failed to load entries:', error);
+  }
+}
+
+export async function joinWaitlist(
+  astrologerId: string,
+  data: JoinWaitlistRequest,
+  astrologerName?: string
+): Promise<WaitlistEntry> {
+  ensureSubscribed();
+  const entry = await userApi.joinWaitlist(astrologerId, data);
+  const joined = { ...entry, astrologerName: entry.astrologerName || astrologerName };
+  setEntries([...entries.filter((existing) => existing._id !== joined._id), joined]);
+  return joined;
+}
+
+export async function leaveWaitlist(entryId: string): Promise<void> {
+  await userApi.leaveWaitlist(entryId);
+  dismissWaitlistEntry(entryId);
+}
+
+/**
+ * Forget an entry locally once it has been acted on (taken into the call or expired)
+ */
+export function dismissWaitlistEntry(entryId: string) {
+  setEntries(entries.filter((entry) => entry._id !== entryId));
+}
+
+/**
+ * Drop all state on logout
+ */
+export function resetWaitlist() {
+  unsubscribeEvents?.();
+  unsubscribeEvents = null;
+  setEntries([]);
+}
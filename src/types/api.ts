@@ -0,0 +1,757 @@
+/**
+ * REST API response models
+ * Payload shapes returned by services/api.ts after the HTTP client unwraps the
+ * {success, data, message} envelope
+ */
+
+import type { VideoConfig } from '@/hooks/useAgora';
+import type { AdminCourse, AstrologerCourse, Enrollment } from './course';
+
+// ============================================================================
+// Common
+// ============================================================================
+
+export interface PaginationInfo {
+  currentPage: number;
+  totalPages: number;
+  total: number;
+  limit: number;
+}
+
+export interface AstrologerPersonalDetails {
+  name?: string;
+  pseudonym?: string;
+  profileImage?: string;
+  profilePicture?: string;
+  about?: string;
+  experience?: number;
+  languages?: string[];
+  skills?: string[];
+}
+
+/**
+ * Astrologer reference as populated on sessions and calls
+ */
+export interface AstrologerRef {
+  _id: string;
+  personalDetails?: AstrologerPersonalDetails;
+  ratings?: {
+    average: number;
+    total: number;
+  };
+}
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+export interface LoginResponse {
+  token: string;
+  refreshToken?: string; // Absent on backends without session renewal
+  user?: {
+    _id: string;
+    fullName?: string;
+    avatar?: string;
+  };
+  astrologer?: {
+    _id: string;
+    personalDetails?: AstrologerPersonalDetails;
+  };
+}
+
+/**
+ * Renewed session; refresh tokens rotate when the backend returns a new one
+ */
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+export interface UserSignupRequest {
+  fullName: string;
+  email: string;
+  phone?: string;
+  password: string;
+}
+
+export interface AstrologerSignupRequest {
+  name: string;
+  email: string;
+  phone?: string;
+  password: string;
+  experience: number; // Years
+  skills: string[];
+  languages: string[];
+  about?: string;
+}
+
+export type SignupRequest =
+  | ({ role: 'user' } & UserSignupRequest)
+  | ({ role: 'astrologer' } & AstrologerSignupRequest);
+
+/**
+ * Accounts that need email verification come back without a token
+ */
+export interface SignupResponse extends Partial<LoginResponse> {
+  verificationRequired?: boolean;
+}
+
+export interface ResetPasswordRequest {
+  email: string;
+  otp: string;
+  newPassword: string;
+}
+
+// ============================================================================
+// Live Sessions
+// ============================================================================
+
+export interface LiveSessionStats {
+  totalViewers: number;
+  peakViewers: number;
+  totalMessages: number;
+  totalLikes: number;
+}
+
+export interface LiveSession {
+  _id: string;
+  title: string;
+  description?: string;
+  topic?: string;
+  status: string;
+  scheduledStartTime?: string;
+  actualStartTime?: string;
+  astrologerId?: AstrologerRef;
+  currentViewers?: number;
+  stats?: LiveSessionStats;
+  videoConfig?: VideoConfig;
+}
+
+/**
+ * Full session as returned by the session detail endpoints
+ */
+export interface LiveSessionDetail extends LiveSession {
+  agora?: VideoConfig;
+  messages?: Array<{
+    _id: string;
+    userId: string;
+    userName: string;
+    userPhoto?: string;
+    message: string;
+    timestamp: string;
+    isDeleted?: boolean;
+  }>;
+  streamSettings?: {
+    streamPlatform?: 'agora' | 'youtube';
+  };
+  youtube?: {
+    broadcastId?: string;
+    rtmpUrl?: string;
+    streamKey?: string;
+  };
+}
+
+export interface CreateLiveSessionRequest {
+  title: string;
+  description?: string;
+  topic?: string;
+  scheduledStartTime: string;
+  allowChat?: boolean;
+  isPublic?: boolean;
+  maxViewers?: number;
+  isMonetized?: boolean;
+  entryFee?: number;
+  streamPlatform?: string;
+}
+
+export interface LiveSessionsResponse {
+  sessions: LiveSession[];
+}
+
+export interface LiveSessionDetailResponse {
+  session: LiveSessionDetail;
+  videoConfig?: VideoConfig;
+}
+
+export interface LiveOverallStats {
+  totalSessions?: number;
+  totalViewers?: number;
+  totalMinutesStreamed?: number;
+  averageViewersPerSession?: number;
+}
+
+export interface LiveStatsResponse {
+  stats: LiveOverallStats;
+}
+
+// ============================================================================
+// Calls
+// ============================================================================
+
+export type CallType = 'audio' | 'video';
+export type CallBillingType = 'per_minute' | 'package';
+
+export interface CallAgoraConfig {
+  channelName: string;
+  appId: string;
+  token?: string; // Token for the current user (sent via Socket.io)
+  uid?: number; // UID for the current user (sent via Socket.io)
+  userToken?: string; // Stored in DB
+  astrologerToken?: string; // Stored in DB
+  userUid?: number; // Stored in DB
+  astrologerUid?: number; // Stored in DB
+}
+
+/**
+ * Call as returned by the call detail endpoints
+ * userId / astrologerId are populated for history views and plain ids during a call
+ */
+export interface CallSession {
+  _id: string;
+  userId: string | { _id: string; fullName?: string; name?: string; email?: string; profilePhoto?: string };
+  astrologerId: string | AstrologerRef;
+  callType: CallType;
+  billingType: CallBillingType;
+  status: string;
+  ratePerMinute?: number;
+  duration?: number;
+  billedDuration?: number;
+  totalAmount?: number;
+  freeMinutesUsed?: number;
+  paidAmount?: number;
+  platformCommission?: number;
+  astrologerEarnings?: number;
+  initiatedAt?: string;
+  acceptedAt?: string;
+  connectedAt?: string;
+  endedAt?: string;
+  package?: {
+    duration: number;
+    price: number;
+  };
+  agora?: CallAgoraConfig;
+  chatSessionId?: string; // In-call chat, once either side has opened it
+  rating?: {
+    stars: number;
+    review?: string;
+    ratedAt?: string;
+  };
+  astrologer?: {
+    personalDetails: {
+      name: string;
+      pseudonym: string;
+      profileImage: string;
+    };
+  };
+  user?: {
+    fullName: string;
+    profileImage: string;
+  };
+}
+
+export interface CallDetailsResponse {
+  call?: CallSession;
+  session?: CallSession;
+}
+
+export interface ActiveCallResponse {
+  call?: CallSession | null;
+}
+
+export interface AcceptCallResponse {
+  call?: CallSession;
+  agora?: CallAgoraConfig;
+}
+
+export interface InitiateCallRequest {
+  astrologerId: string;
+  callType: CallType;
+  billingType: CallBillingType;
+  packageId?: string;
+}
+
+export interface InitiateCallResponse {
+  callId?: string;
+  session?: { _id: string };
+}
+
+export interface CallHistoryParams {
+  page?: number;
+  limit?: number;
+  startDate?: string;
+  endDate?: string;
+  status?: string;
+}
+
+export interface UserCallHistoryItem {
+  _id: string;
+  astrologerId: AstrologerRef;
+  callType: CallType;
+  status: string;
+  duration: number;
+  totalAmount: number;
+  initiatedAt: string;
+  endedAt?: string;
+  rating?: {
+    stars: number;
+  };
+}
+
+export interface AstrologerCallHistoryItem {
+  _id: string;
+  userId: {
+    _id: string;
+    fullName?: string;
+    profilePhoto?: string;
+  };
+  callType: CallType;
+  status: string;
+  duration: number;
+  astrologerEarnings: number;
+  initiatedAt: string;
+  endedAt?: string;
+}
+
+export interface CallHistoryResponse<T> {
+  calls: T[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * One reading of the media stats, taken every few seconds during a call
+ * Times in ms, bitrates in kbps, packet loss in percent
+ */
+export interface CallQualitySample {
+  at: number; // Seconds since joining
+  rtt: number;
+  uplinkQuality: number; // Agora's scale: 1 excellent … 6 down, 0 unknown
+  downlinkQuality: number;
+  sendBitrate: number;
+  receiveBitrate: number;
+  audioPacketLoss: number; // Of the audio received
+  videoPacketLoss?: number; // Of the video received; absent without remote video
+  sendFrameRate?: number;
+  receiveFrameRate?: number;
+  audioFrozenSeconds: number; // Frozen within this sample's interval
+  videoFrozenSeconds: number;
+}
+
+export interface CallQualitySummary {
+  avgRtt: number;
+  maxRtt: number;
+  avgPacketLoss: number; // Audio and video together
+  maxPacketLoss: number;
+  avgSendBitrate: number;
+  avgReceiveBitrate: number;
+  avgReceiveFrameRate?: number;
+  audioFreezeCount: number;
+  audioFreezeSeconds: number;
+  videoFreezeCount: number;
+  videoFreezeSeconds: number;
+  poorNetworkSeconds: number; // Uplink or downlink rated poor or worse
+  reconnects: number; // Times we dropped out of the channel and rejoined
+}
+
+/**
+ * One participant's view of a call's quality, uploaded when they leave
+ */
+export interface CallQualityReport {
+  callId: string;
+  role: 'user' | 'astrologer';
+  callType: CallType;
+  durationSeconds: number;
+  sampleIntervalSeconds: number; // Of the uploaded samples, after downsampling long calls
+  samples: CallQualitySample[];
+  summary: CallQualitySummary;
+  userAgent: string;
+  createdAt: string;
+}
+
+export interface CallDiagnosticsResponse {
+  reports: CallQualityReport[]; // One per participant who uploaded
+}
+
+/**
+ * A user's place in a busy astrologer's queue
+ * The call terms are chosen when joining, so the call can start as soon as the
+ * astrologer takes this caller.
+ */
+export interface WaitlistEntry {
+  _id: string;
+  astrologerId: string;
+  astrologerName?: string;
+  user?: { _id: string; fullName?: string; profileImage?: string }; // Astrologer's view of the queue
+  callType: CallType;
+  billingType: CallBillingType;
+  packageId?: string;
+  status: 'waiting' | 'ready' | 'expired';
+  position: number; // 1 = next in line
+  estimatedWaitMinutes?: number;
+  joinedAt: string;
+  expiresAt?: string; // Dropped from the queue after this unless taken
+  callId?: string; // Set once the astrologer takes this caller
+}
+
+export type JoinWaitlistRequest = Omit<InitiateCallRequest, 'astrologerId'>;
+
+export interface WaitlistResponse {
+  entries: WaitlistEntry[];
+}
+
+// ============================================================================
+// Appointments
+// ============================================================================
+
+/**
+ * One bookable stretch of a weekday, in the astrologer's own timezone
+ */
+export interface AvailabilityWindow {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface AstrologerSchedule {
+  timezone: string; // IANA name, e.g. Asia/Kolkata
+  slotMinutes: number;
+  windows: AvailabilityWindow[];
+}
+
+/**
+ * A free slot; times are absolute (ISO, UTC) so they can be shown in any timezone
+ */
+export interface AppointmentSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface AppointmentSlotsResponse {
+  timezone: string; // Astrologer's timezone
+  slots: AppointmentSlot[];
+}
+
+export type AppointmentStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'missed';
+
+export interface Appointment {
+  _id: string;
+  userId: string | { _id: string; fullName?: string; profileImage?: string };
+  astrologerId: string | AstrologerRef;
+  callType: CallType;
+  billingType: CallBillingType;
+  packageId?: string;
+  startsAt: string;
+  endsAt: string;
+  timezone?: string; // Astrologer's timezone when booked
+  status: AppointmentStatus;
+  rescheduleCount?: number;
+  cancelledBy?: 'user' | 'astrologer';
+  cancelReason?: string;
+  callId?: string; // Set once the call has been started
+  createdAt?: string;
+}
+
+export interface BookAppointmentRequest extends InitiateCallRequest {
+  startsAt: string;
+}
+
+export interface AppointmentsParams {
+  status?: AppointmentStatus;
+  from?: string;
+  to?: string;
+}
+
+export interface AppointmentsResponse {
+  appointments: Appointment[];
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+/**
+ * An astrologer's private notes on one call; never shown to the user
+ */
+export interface CallNote {
+  callId: string;
+  userId: string;
+  notes: string;
+  tags: string[];
+  updatedAt?: string;
+}
+
+export type CallNoteInput = Pick<CallNote, 'notes' | 'tags'>;
+
+export interface ClientCall extends AstrologerCallHistoryItem {
+  note?: CallNote;
+}
+
+export interface ClientChat {
+  sessionId: string;
+  messageCount?: number;
+  lastMessageAt?: string;
+}
+
+export interface ClientRemedyBooking {
+  _id: string;
+  remedyName: string;
+  status: string;
+  amount?: number;
+  createdAt: string;
+}
+
+/**
+ * Everything an astrologer has had with one user, keyed by the user's id
+ */
+export interface ClientProfile {
+  user: {
+    _id: string;
+    fullName?: string;
+    profilePhoto?: string;
+  };
+  totalCalls: number;
+  totalMinutes: number;
+  totalEarnings: number;
+  firstContactAt?: string;
+  lastContactAt?: string;
+  tags: string[]; // From all call notes, most used first
+  calls: ClientCall[]; // Newest first
+  chats: ClientChat[];
+  remedyBookings: ClientRemedyBooking[];
+}
+
+/**
+ * The short version shown while the client's call is ringing
+ */
+export interface ClientSummary {
+  totalCalls: number;
+  lastCallAt?: string;
+  tags: string[];
+  lastNote?: CallNote;
+}
+
+// ============================================================================
+// Packages
+// ============================================================================
+
+export interface CallPackage {
+  _id: string;
+  duration: number;
+  price: number;
+  discountPercentage: number;
+  isActive: boolean;
+  createdAt?: string;
+}
+
+export interface CallPackageInput {
+  duration: number;
+  price: number;
+}
+
+export interface CallPackagesResponse {
+  packages: CallPackage[];
+}
+
+// ============================================================================
+// Astrologers
+// ============================================================================
+
+export interface AstrologerSummary {
+  _id: string;
+  personalDetails: AstrologerPersonalDetails;
+  ratings: {
+    average: number;
+    count: number;
+  };
+  availability: {
+    status: 'online' | 'busy' | 'offline';
+  };
+  callSettings: {
+    audioCallRate: number;
+    videoCallRate: number;
+    acceptAudioCalls: boolean;
+    acceptVideoCalls: boolean;
+  };
+}
+
+export interface AstrologerListParams {
+  isOnline?: boolean;
+  skills?: string;
+  languages?: string;
+  sortBy?: string;
+}
+
+export interface UserProfileResponse {
+  user?: {
+    _id: string;
+    fullName?: string;
+    email?: string;
+    walletBalance?: number;
+  };
+}
+
+// ============================================================================
+// Earnings & Wallet
+// ============================================================================
+
+export type EarningsPeriod = 'all' | 'daily' | 'weekly' | 'monthly';
+
+export interface EarningsSummary {
+  totalEarnings: number;
+  grossEarnings: number;
+  netEarnings: number;
+  totalCalls: number;
+  averageDuration: number;
+  averageRating: number;
+  acceptanceRate: number;
+}
+
+export interface EarningsData {
+  summary: EarningsSummary;
+  breakdown: Array<{
+    label: string;
+    earnings: number;
+    calls: number;
+  }>;
+  period: string;
+}
+
+export interface WalletTransaction {
+  _id: string;
+  amount: number;
+  type: 'Credit' | 'Debit';
+  description: string;
+  balanceAfter: number;
+  createdAt: string;
+}
+
+export interface WithdrawalAccountDetails {
+  bankName: string;
+  accountNumber: string;
+  ifscCode: string;
+  accountHolderName: string;
+}
+
+export interface Withdrawal {
+  _id: string;
+  amount: number;
+  status: 'Pending' | 'Approved' | 'Rejected' | 'Processed';
+  accountDetails: WithdrawalAccountDetails;
+  createdAt: string;
+  processedAt?: string;
+  adminComments?: string;
+}
+
+export interface WalletSummary {
+  balance: number;
+  transactions: WalletTransaction[];
+  withdrawals: Withdrawal[];
+}
+
+export interface AddMoneyRequest {
+  amount: number;
+  paymentGatewayId?: string;
+  description?: string;
+}
+
+// ============================================================================
+// Courses
+// ============================================================================
+
+export type CourseSource = 'admin' | 'astrologer';
+
+export interface CourseAgoraCredentials {
+  appId: string;
+  token?: string;
+  channelName?: string;
+  uid?: number;
+  role?: string;
+}
+
+export interface CourseYoutubeConfig {
+  enabled?: boolean;
+  rtmpUrl?: string;
+  streamKey?: string;
+  broadcastId?: string;
+  watchUrl?: string;
+}
+
+export interface CourseLiveInfo {
+  title?: string;
+  instructor?: string;
+  status?: string;
+}
+
+export interface CourseLiveTokenResponse {
+  agora?: CourseAgoraCredentials;
+  channelName?: string;
+  courseInfo?: CourseLiveInfo;
+  youtube?: CourseYoutubeConfig;
+}
+
+export interface CourseJoinInfoResponse extends CourseLiveTokenResponse {
+  canJoin: boolean;
+  message?: string;
+}
+
+export interface CourseListParams {
+  search?: string;
+  level?: string;
+  isFree?: boolean;
+  courseType?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface CourseCatalogResponse {
+  adminCourses?: { courses: AdminCourse[] };
+  astrologerCourses?: { courses: AstrologerCourse[] };
+}
+
+export interface CourseDetailResponse {
+  course: AdminCourse | AstrologerCourse;
+  isEnrolled: boolean;
+  enrollment?: Enrollment | null;
+}
+
+export interface MyCoursesResponse {
+  enrollments: Enrollment[];
+}
+
+export interface AstrologerCoursesResponse {
+  courses: AstrologerCourse[];
+}
+
+/**
+ * Create / update payload for an astrologer's own course
+ */
+export type AstrologerCourseInput = Partial<Omit<AstrologerCourse, '_id' | 'status' | 'astrologer'>>;
+
+export interface CourseRecordingResponse {
+  recordingUrl?: string;
+}
+
+export interface UploadCourseVideoResponse {
+  videoUrl: string;
+}
+
+// ============================================================================
+// Blogs
+// ============================================================================
+
+export interface Blog {
+  _id: string;
+  title: string;
+  content: string;
+  image?: string;
+  status?: string;
+  author?: {
+    _id?: string;
+    personalDetails?: AstrologerPersonalDetails;
+  };
+  createdAt?: string;
+}
+
+/**
+ * Blog lists arrive either as a bare array or paginated under data / blogs
+ */
+export type BlogListPayload = Blog[] | { data?: Blog[]; blogs?: Blog[] };
@@ -17,7 +17,7 @@
  * - read: Message read by recipient
  * - failed: Message failed to send
  */
-export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed';
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
 
 /**
  * Message content type
@@ -50,6 +50,18 @@ export interface MessageAttachment {
   thumbnailUrl?: string;
 }
 
+/**
+ * Snapshot of the message being replied to, embedded in the reply
+ */
+export interface MessageReplyPreview {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+  type: MessageType;
+  isDeleted?: boolean;
+}
+
 /**
  * Chat message (backend schema)
  * Represents a single message in a conversation
@@ -67,7 +79,11 @@ export interface ChatMessage {
   status: MessageStatus;
   timestamp: Date;
   deliveredAt?: Date;
-  isDeleted: boolean;
+  readAt?: Date; // Set when the recipient has seen the message
+  editedAt?: Date; // Set when the sender edited the content
+  replyTo?: MessageReplyPreview;
+  isDeleted: boolean; // Deleted for everyone; rendered as a tombstone
+  deletedAt?: Date;
 }
 
 /**
@@ -115,7 +131,7 @@ export interface UIConversation extends Conversation {
   hasMoreMessages: boolean;
   isLoadingMessages: boolean;
   initialHistoryLoaded: boolean;
-  currentPage: number;
+  currentPage: number; // Pages loaded so far; older pages are fetched by cursor, not by number
   scrollPosition: number; // Saved scroll position for restoration
 }
 
@@ -195,6 +211,7 @@ export interface GetMessagesParams {
   page?: number;
   limit?: number;
   before?: string; // Message ID for cursor-based pagination
+  markAsRead?: boolean; // Ask the server to mark the returned page as read
 }
 
 /**
@@ -214,6 +231,15 @@ export interface MarkMessagesAsReadParams {
   messageIds?: string[]; // Optional: specific messages to mark as read
 }
 
+/**
+ * Mark messages as read response
+ */
+export interface MarkMessagesAsReadResponse {
+  messageIds: string[];
+  readAt: Date;
+  unreadCount: number; // Remaining unread messages in the conversation
+}
+
 /**
  * Upload attachment response
  */
@@ -221,6 +247,42 @@ export interface UploadAttachmentResponse {
   attachment: MessageAttachment;
 }
 
+/**
+ * Message search parameters
+ */
+export interface SearchMessagesParams {
+  query: string;
+  conversationId?: string; // Restrict to one conversation
+  limit?: number;
+}
+
+/**
+ * A message matching a search query
+ */
+export interface MessageSearchHit {
+  conversationId: string;
+  message: ChatMessage;
+}
+
+/**
+ * Search messages response
+ */
+export interface SearchMessagesResponse {
+  hits: MessageSearchHit[];
+  total: number;
+}
+
+/**
+ * Combined chat search results
+ * Conversations match on participant name; messages on content
+ */
+export interface ChatSearchResults {
+  query: string;
+  conversations: Conversation[];
+  messages: MessageSearchHit[];
+  fromCache: boolean; // True when the server could not be reached
+}
+
 /**
  * Get unread count response
  */
@@ -240,6 +302,28 @@ export interface SendMessageEvent {
   sessionId: string; // Backend uses sessionId instead of conversationId
   content: string;
   tempId: string; // Client-generated ID for optimistic updates
+  type?: MessageType; // Defaults to 'text' on the server
+  attachments?: MessageAttachment[]; // Already uploaded via chatApi.uploadAttachment
+  replyToId?: string;
+}
+
+/**
+ * Edit message event (client -> server)
+ * Only the sender may edit, within config.chat.messageEditWindowMs
+ */
+export interface EditMessageEvent {
+  sessionId: string;
+  messageId: string;
+  content: string;
+}
+
+/**
+ * Delete message event (client -> server)
+ * Deletes the message for both participants
+ */
+export interface DeleteMessageEvent {
+  sessionId: string;
+  messageId: string;
 }
 
 /**
@@ -253,12 +337,34 @@ export interface NewMessageEvent {
     senderId: string;
     senderType: ParticipantRole;
     content: string;
+    type?: MessageType;
+    attachments?: MessageAttachment[];
     timestamp: Date;
     status: MessageStatus;
     tempId?: string;
+    replyTo?: MessageReplyPreview;
   };
 }
 
+/**
+ * Message edited event (server -> client)
+ */
+export interface MessageEditedEvent {
+  sessionId: string;
+  messageId: string;
+  content: string;
+  editedAt: Date;
+}
+
+/**
+ * Message deleted event (server -> client)
+ */
+export interface MessageDeletedEvent {
+  sessionId: string;
+  messageId: string;
+  deletedAt?: Date; // Absent on live stream moderation events
+}
+
 /**
  * Message delivered event (server -> client)
  * Confirmation that message was saved to database
@@ -278,15 +384,32 @@ export interface MessageDeliveredEvent {
 export interface MessageStatusChangedEvent {
   sessionId: string;
   messageIds: string[];
-  status: 'delivered';
+  status: 'delivered' | 'read';
   deliveredAt?: Date;
   deliveredTo?: string;
+  readAt?: Date;
+  readBy?: string;
+}
+
+/**
+ * Mark read event (client -> server)
+ * Only messages the recipient has actually seen are included
+ */
+export interface MarkReadEvent {
+  sessionId: string;
+  messageIds: string[];
 }
 
 /**
  * Typing indicator event (server -> client)
+ * Relayed from the other participant's typing_start / typing_stop
  */
-// Typing indicator event removed
+export interface TypingIndicatorEvent {
+  sessionId: string;
+  userId: string;
+  userRole: ParticipantRole;
+  isTyping: boolean;
+}
 
 /**
  * User online event (server -> client)
@@ -365,8 +488,9 @@ export interface SocketErrorEvent {
 
 /**
  * Cache version for migrations
+ * v2: per-conversation messagesLastFetched for independent message TTL
  */
-export const CACHE_VERSION = 1;
+export const CACHE_VERSION = 2;
 
 /**
  * Cache expiration time (24 hours in milliseconds)
@@ -380,7 +504,8 @@ export interface PendingMessage {
   tempId: string;
   conversationId: string;
   content: string;
-  attachments?: File[];
+  attachments?: MessageAttachment[]; // Uploaded before queuing, so only metadata is stored
+  replyTo?: MessageReplyPreview;
   timestamp: number;
   retryCount: number;
 }
@@ -391,7 +516,8 @@ export interface PendingMessage {
 export interface CachedConversation {
   data: Conversation;
   messages: ChatMessage[];
-  lastFetched: number;
+  lastFetched: number; // Conversation metadata fetch time (config.chat.cacheTTL.conversations)
+  messagesLastFetched: number; // Message list fetch time (config.chat.cacheTTL.messages)
 }
 
 /**
@@ -28,6 +28,7 @@ export interface CourseModule {
 export interface CourseAgora {
   channelName?: string;
   recordingEnabled?: boolean;
+  youtubeEnabled?: boolean;
 }
 
 export interface CourseResource {
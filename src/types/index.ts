@@ -5,3 +5,5 @@
 export * from './chat';
 export * from './remedy';
 export * from './course';
+export * from './socket';
+export * from './api';
@@ -0,0 +1,414 @@
+/**
+ * Socket.io event contract
+ * Typed payloads for every realtime feature (chat, calls, live streams, live courses)
+ * and the ServerToClient / ClientToServer event maps used by services/socket.ts
+ */
+
+import type { VideoConfig } from '@/hooks/useAgora';
+import type { Appointment, CallBillingType, WaitlistEntry } from './api';
+import type {
+  NewMessageEvent,
+  MessageDeliveredEvent,
+  MessageStatusChangedEvent,
+  MessageEditedEvent,
+  MessageDeletedEvent,
+  TypingIndicatorEvent,
+  UserOnlineEvent,
+  UserOfflineEvent,
+  MissedMessagesEvent,
+  ReconnectionCompleteEvent,
+  ChatJoinedEvent,
+  SocketErrorEvent,
+  SendMessageEvent,
+  EditMessageEvent,
+  DeleteMessageEvent,
+  MarkReadEvent,
+} from './chat';
+
+// ============================================================================
+// Call Events
+// ============================================================================
+
+/**
+ * Agora credentials pushed to the caller when a call is accepted
+ */
+export interface CallAgoraCredentials {
+  appId: string;
+  channelName: string;
+  token?: string;
+  uid?: number;
+}
+
+/**
+ * Incoming call (server -> astrologer)
+ * Older servers send flat user fields, newer ones a populated user object
+ */
+export interface IncomingCallEvent {
+  callId: string;
+  callType?: 'audio' | 'video';
+  userId?: string;
+  userName?: string;
+  userPhoto?: string;
+  user?: {
+    _id: string;
+    fullName?: string;
+    profileImage?: string;
+  };
+}
+
+export interface CallAcceptedEvent {
+  callId: string;
+  agora?: CallAgoraCredentials;
+}
+
+export interface CallRejectedEvent {
+  callId: string;
+  reason?: string;
+}
+
+export interface CallTimeoutEvent {
+  callId: string;
+}
+
+export interface CallEndedEvent {
+  callId: string;
+  duration?: number; // Seconds
+  endedBy?: string;
+  reason?: string;
+}
+
+export interface LowBalanceWarningEvent {
+  callId: string;
+  remainingBalance: number;
+  remainingMinutes?: number;
+}
+
+/**
+ * Periodic billing update (server -> both participants); the source of truth for the meter
+ * Wallet fields are only sent to the user
+ */
+export interface BillingTickEvent {
+  callId: string;
+  elapsedSeconds: number; // Call time as billed by the server
+  chargesSoFar: number;
+  balance?: number; // Wallet balance left after this tick
+  minutesLeft?: number; // Talk time the balance (per-minute) or package still covers
+  freeMinutesRemaining?: number;
+}
+
+/**
+ * Participant joined / left
+ * Shared by calls (callId) and live courses (courseId)
+ */
+export interface ParticipantPresenceEvent {
+  callId?: string;
+  courseId?: string;
+  userId?: string;
+}
+
+export interface NetworkQualityWarningEvent {
+  callId: string;
+  quality?: number;
+}
+
+export interface ToggleMediaEvent {
+  callId: string;
+  enabled: boolean;
+}
+
+/**
+ * Recording consent handshake (relayed to the other participant)
+ * Nothing is recorded until the party who did not ask answers with accepted: true
+ */
+export interface RecordingRequestedEvent {
+  callId: string;
+  requestedBy?: string; // Display name
+}
+
+export interface RecordingConsentEvent {
+  callId: string;
+  accepted: boolean;
+}
+
+export interface RecordingStoppedEvent {
+  callId: string;
+}
+
+/**
+ * How the user wants to keep a package call going
+ * - package: buy another of the astrologer's packages on top of the current one
+ * - per_minute: continue at the astrologer's per-minute rate once the package runs out
+ */
+export type CallExtensionOption = { type: 'package'; packageId: string } | { type: 'per_minute' };
+
+export interface CallExtensionRequest {
+  callId: string;
+  option: CallExtensionOption;
+}
+
+/**
+ * Extension request (server -> astrologer), with the terms resolved by the server
+ */
+export interface CallExtensionRequestedEvent extends CallExtensionRequest {
+  minutes?: number; // Package extensions
+  price?: number;
+  ratePerMinute?: number; // Per-minute switches
+  userName?: string;
+}
+
+/**
+ * Astrologer's answer (astrologer -> server -> user)
+ */
+export interface CallExtensionResponseEvent {
+  callId: string;
+  accepted: boolean;
+  reason?: string; // e.g. insufficient balance when the server could not charge the wallet
+}
+
+/**
+ * New billing terms once an extension is in effect (server -> both participants)
+ */
+export interface CallExtendedEvent {
+  callId: string;
+  billingType: CallBillingType;
+  ratePerMinute?: number;
+  package?: { duration: number; price: number }; // Totals including the extension
+  addedMinutes?: number;
+  minutesLeft?: number;
+}
+
+/**
+ * Waitlist progress (server -> waiting user)
+ */
+export interface WaitlistUpdateEvent {
+  entryId: string;
+  position: number;
+  estimatedWaitMinutes?: number;
+  expiresAt?: string;
+}
+
+/**
+ * The astrologer took this caller; the call is already accepted (server -> user)
+ */
+export interface WaitlistReadyEvent {
+  entryId: string;
+  callId: string;
+  agora?: CallAgoraCredentials;
+}
+
+export interface WaitlistExpiredEvent {
+  entryId: string;
+  reason?: string;
+}
+
+/**
+ * The astrologer's queue after any join, leave, expiry or take (server -> astrologer)
+ */
+export interface WaitlistChangedEvent {
+  entries: WaitlistEntry[];
+}
+
+/**
+ * Upcoming appointment (server -> both participants)
+ */
+export interface AppointmentReminderEvent {
+  appointmentId: string;
+  startsAt: string;
+  minutesBefore: number;
+}
+
+/**
+ * Booked, rescheduled or cancelled by the other side (server -> both participants)
+ */
+export interface AppointmentUpdatedEvent {
+  appointment: Appointment;
+}
+
+// ============================================================================
+// Live Stream Events
+// ============================================================================
+
+/**
+ * Chat message in a live stream or live course
+ * Field names differ between the stream and course backends
+ */
+export interface LiveChatMessage {
+  _id?: string;
+  id?: string;
+  userId: string;
+  userName?: string;
+  name?: string;
+  userPhoto?: string;
+  photo?: string;
+  message: string;
+  timestamp?: string;
+  isDeleted?: boolean;
+}
+
+/**
+ * Live chat payloads arrive either bare or wrapped in { message }
+ */
+export type LiveChatMessageEvent = LiveChatMessage | { message: LiveChatMessage };
+
+export interface LiveViewerEvent {
+  sessionId?: string;
+  currentViewers?: number;
+  currentViewerCount?: number;
+  viewerName?: string;
+  userName?: string;
+}
+
+export interface LiveLikeEvent {
+  sessionId?: string;
+  totalLikes?: number;
+}
+
+export interface LiveStatsUpdateEvent {
+  currentViewers?: number;
+  totalViewers?: number;
+  totalMessages?: number;
+  totalLikes?: number;
+  peakViewers?: number;
+}
+
+export interface LiveStartedEvent {
+  sessionId?: string;
+  videoConfig?: VideoConfig;
+  session?: {
+    streamSettings?: { streamPlatform?: string };
+    youtube?: { rtmpUrl?: string; streamKey?: string };
+  };
+}
+
+export interface LiveEndedEvent {
+  sessionId?: string;
+  reason?: string;
+}
+
+export interface NewLiveSessionEvent {
+  sessionId?: string;
+  astrologerId?: string;
+}
+
+// ============================================================================
+// Live Course Events
+// ============================================================================
+
+export interface StudentJoinedEvent {
+  courseId?: string;
+  userId?: string;
+  name?: string;
+}
+
+export interface InstructorScreenShareEvent {
+  courseId?: string;
+  isSharing: boolean;
+}
+
+// ============================================================================
+// Event Maps
+// ============================================================================
+
+/**
+ * Events the server emits to this client
+ */
+export interface ServerToClientEvents {
+  // Chat
+  new_message: (event: NewMessageEvent) => void;
+  message_delivered: (event: MessageDeliveredEvent) => void;
+  message_status_changed: (event: MessageStatusChangedEvent) => void;
+  message_edited: (event: MessageEditedEvent) => void;
+  message_deleted: (event: MessageDeletedEvent) => void; // Also used for live stream chat moderation
+  typing_indicator: (event: TypingIndicatorEvent) => void;
+  user_online: (event: UserOnlineEvent) => void;
+  user_offline: (event: UserOfflineEvent) => void;
+  missed_messages: (event: MissedMessagesEvent) => void;
+  reconnection_complete: (event: ReconnectionCompleteEvent) => void;
+  chat_joined: (event: ChatJoinedEvent) => void;
+  error: (event: SocketErrorEvent) => void;
+
+  // Calls
+  incoming_call: (event: IncomingCallEvent) => void;
+  call_accepted: (event: CallAcceptedEvent) => void;
+  call_rejected: (event: CallRejectedEvent) => void;
+  call_timeout: (event: CallTimeoutEvent) => void;
+  call_ended: (event: CallEndedEvent) => void;
+  low_balance_warning: (event: LowBalanceWarningEvent) => void;
+  billing_tick: (event: BillingTickEvent) => void;
+  call_extension_requested: (event: CallExtensionRequestedEvent) => void;
+  call_extension_response: (event: CallExtensionResponseEvent) => void;
+  call_extended: (event: CallExtendedEvent) => void;
+  participant_joined: (event: ParticipantPresenceEvent) => void;
+  participant_left: (event: ParticipantPresenceEvent) => void;
+  network_quality_warning: (event: NetworkQualityWarningEvent) => void;
+  recording_requested: (event: RecordingRequestedEvent) => void;
+  recording_consent: (event: RecordingConsentEvent) => void;
+  recording_stopped: (event: RecordingStoppedEvent) => void;
+  waitlist_update: (event: WaitlistUpdateEvent) => void;
+  waitlist_ready: (event: WaitlistReadyEvent) => void;
+  waitlist_expired: (event: WaitlistExpiredEvent) => void;
+  waitlist_changed: (event: WaitlistChangedEvent) => void;
+  appointment_reminder: (event: AppointmentReminderEvent) => void;
+  appointment_updated: (event: AppointmentUpdatedEvent) => void;
+
+  // Live streams
+  new_live_session: (event: NewLiveSessionEvent) => void;
+  live_started: (event: LiveStartedEvent) => void;
+  live_ended: (event: LiveEndedEvent) => void;
+  live_message: (event: LiveChatMessageEvent) => void;
+  live_chat_message: (event: LiveChatMessageEvent) => void;
+  live_like: (event: LiveLikeEvent) => void;
+  live_liked: (event: LiveLikeEvent) => void;
+  viewer_joined: (event: LiveViewerEvent) => void;
+  viewer_left: (event: LiveViewerEvent) => void;
+  stats_update: (event: LiveStatsUpdateEvent) => void;
+
+  // Live courses
+  course_chat_message: (event: LiveChatMessageEvent) => void;
+  student_joined: (event: StudentJoinedEvent) => void;
+  instructor_screen_share: (event: InstructorScreenShareEvent) => void;
+}
+
+/**
+ * Events this client emits to the server
+ */
+export interface ClientToServerEvents {
+  // Chat
+  join_chat: (event: { sessionId: string }) => void;
+  leave_chat: (event: { sessionId: string }) => void;
+  send_message: (event: SendMessageEvent) => void;
+  edit_message: (event: EditMessageEvent) => void;
+  delete_message: (event: DeleteMessageEvent) => void; // Also used by live stream hosts
+  typing_start: (event: { sessionId: string }) => void;
+  typing_stop: (event: { sessionId: string }) => void;
+  mark_read: (event: MarkReadEvent) => void;
+  reconnect_chat: (event: { sessionIds: string[] }) => void;
+
+  // Calls
+  toggle_audio: (event: ToggleMediaEvent) => void;
+  toggle_video: (event: ToggleMediaEvent) => void;
+  request_recording: (event: RecordingRequestedEvent) => void;
+  recording_consent: (event: RecordingConsentEvent) => void;
+  stop_recording: (event: RecordingStoppedEvent) => void;
+  request_call_extension: (event: CallExtensionRequest) => void;
+  respond_call_extension: (event: CallExtensionResponseEvent) => void;
+  rejoin_call: (event: { callId: string }) => void; // Answered with an immediate billing_tick
+
+  // Live streams
+  start_live: (event: { sessionId: string }) => void;
+  end_live: (event: { sessionId: string; reason?: string }) => void;
+  join_live: (event: { sessionId: string }) => void;
+  leave_live: (event: { sessionId: string }) => void;
+  live_message: (event: { sessionId: string; message: string }) => void;
+  live_like: (event: { sessionId: string }) => void;
+
+  // Live courses
+  start_course_live: (event: { courseId: string; astrologerId?: string }) => void;
+  join_course_live: (event: { courseId: string; userId?: string }) => void;
+  leave_course_live: (event: { courseId: string }) => void;
+  course_message: (event: { courseId: string; userId: string; message: string }) => void;
+  course_screen_share: (event: { courseId: string; astrologerId: string; isSharing: boolean }) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ClientEventName = keyof ClientToServerEvents;
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { config } from '@/config';
+import type { Appointment } from '@/types/api';
+import {
+  canChangeAppointment,
+  canRescheduleAppointment,
+  formatDateTime,
+  formatTime,
+  getAppointmentAstrologerName,
+  getAppointmentUserName,
+  getTimeZoneLabel,
+  getTimeZoneOptions,
+  isAppointmentJoinable,
+} from './appointments';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.parse('2026-03-01T10:00:00Z');
+
+function appointmentStartingIn(minutes: number, overrides: Partial<Appointment> = {}): Appointment {
+  const startsAt = new Date(NOW + minutes * MINUTE);
+  return {
+    _id: 'appt-1',
+    userId: 'user-1',
+    astrologerId: 'astro-1',
+    callType: 'video',
+    billingType: 'per_minute',
+    startsAt: startsAt.toISOString(),
+    endsAt: new Date(startsAt.getTime() + 30 * MINUTE).toISOString(),
+    status: 'scheduled',
+    ...overrides,
+  };
+}
+
+describe('appointments', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('timezones', () => {
+    it('formats a time in the given timezone', () => {
+      // 10:00 UTC is 15:30 in India and 05:00 in New York (EST, before the March change)
+      expect(formatTime('2026-03-01T10:00:00Z', 'Asia/Kolkata')).toMatch(/^(3:30\sPM|15:30)$/);
+      expect(formatTime('2026-03-01T10:00:00Z', 'America/New_York')).toMatch(/^(5:00\sAM|05:00)$/);
+    });
+
+    it('follows daylight saving time', () => {
+      // New York moves to EDT on 8 March 2026
+      expect(formatTime('2026-03-10T10:00:00Z', 'America/New_York')).toMatch(/^(6:00\sAM|06:00)$/);
+    });
+
+    it('puts the date on the right day for the timezone', () => {
+      // 20:00 UTC on 1 March is 07:00 on 2 March in Sydney (AEDT)
+      const sydney = formatDateTime('2026-03-01T20:00:00Z', 'Australia/Sydney');
+      expect(sydney).toMatch(/\b2\b/);
+      expect(sydney).toMatch(/Mon/);
+      expect(formatDateTime('2026-03-01T20:00:00Z', 'UTC')).toMatch(/Sun/);
+    });
+
+    it('labels a timezone by its short name or offset', () => {
+      expect(getTimeZoneLabel('UTC')).toBe('UTC');
+      expect(getTimeZoneLabel('Asia/Kolkata', new Date(NOW))).toMatch(/^(GMT\+5:30|IST)$/);
+    });
+
+    it("offers the browser's own timezone first when it is not a common one", () => {
+      vi.spyOn(Intl.DateTimeFormat.prototype, 'resolvedOptions').mockReturnValue({
+        ...new Intl.DateTimeFormat().resolvedOptions(),
+        timeZone: 'Pacific/Auckland',
+      });
+
+      const options = getTimeZoneOptions();
+      expect(options[0]).toBe('Pacific/Auckland');
+      expect(options).toContain('Asia/Kolkata');
+    });
+
+    it('does not repeat a common browser timezone', () => {
+      vi.spyOn(Intl.DateTimeFormat.prototype, 'resolvedOptions').mockReturnValue({
+        ...new Intl.DateTimeFormat().resolvedOptions(),
+        timeZone: 'Asia/Kolkata',
+      });
+
+      const options = getTimeZoneOptions();
+      expect(options.filter((zone) => zone === 'Asia/Kolkata')).toHaveLength(1);
+    });
+  });
+
+  describe('changing', () => {
+    const cutoffMinutes = config.appointments.changeCutoffHours * 60;
+
+    it('allows cancelling up to the cutoff before the start', () => {
+      expect(canChangeAppointment(appointmentStartingIn(cutoffMinutes), NOW)).toBe(true);
+      expect(canChangeAppointment(appointmentStartingIn(cutoffMinutes - 1), NOW)).toBe(false);
+    });
+
+    it('only changes scheduled appointments', () => {
+      expect(canChangeAppointment(appointmentStartingIn(cutoffMinutes * 2, { status: 'cancelled' }), NOW)).toBe(false);
+    });
+
+    it('limits how often an appointment can be rescheduled', () => {
+      const later = cutoffMinutes * 2;
+      expect(canRescheduleAppointment(appointmentStartingIn(later), NOW)).toBe(true);
+      expect(
+        canRescheduleAppointment(
+          appointmentStartingIn(later, { rescheduleCount: config.appointments.maxReschedules - 1 }),
+          NOW
+        )
+      ).toBe(true);
+      expect(
+        canRescheduleAppointment(appointmentStartingIn(later, { rescheduleCount: config.appointments.maxReschedules }), NOW)
+      ).toBe(false);
+    });
+  });
+
+  describe('joining', () => {
+    it('opens shortly before the start and closes after the late-join limit', () => {
+      const { joinEarlyMinutes, lateJoinMinutes } = config.appointments;
+
+      expect(isAppointmentJoinable(appointmentStartingIn(joinEarlyMinutes + 1), NOW)).toBe(false);
+      expect(isAppointmentJoinable(appointmentStartingIn(joinEarlyMinutes), NOW)).toBe(true);
+      expect(isAppointmentJoinable(appointmentStartingIn(-lateJoinMinutes), NOW)).toBe(true);
+      expect(isAppointmentJoinable(appointmentStartingIn(-lateJoinMinutes - 1), NOW)).toBe(false);
+    });
+
+    it('can be rejoined while in progress but not once finished', () => {
+      expect(isAppointmentJoinable(appointmentStartingIn(-5, { status: 'in_progress' }), NOW)).toBe(true);
+      expect(isAppointmentJoinable(appointmentStartingIn(-5, { status: 'completed' }), NOW)).toBe(false);
+    });
+  });
+
+  describe('names', () => {
+    it('prefers the pseudonym, then the name, for astrologers', () => {
+      const astrologer = (personalDetails: { name?: string; pseudonym?: string }) =>
+        appointmentStartingIn(0, { astrologerId: { _id: 'astro-1', personalDetails } as Appointment['astrologerId'] });
+
+      expect(getAppointmentAstrologerName(astrologer({ name: 'Asha', pseudonym: 'Star Guide' }))).toBe('Star Guide');
+      expect(getAppointmentAstrologerName(astrologer({ name: 'Asha' }))).toBe('Asha');
+      expect(getAppointmentAstrologerName(appointmentStartingIn(0))).toBe('Astrologer');
+    });
+
+    it('falls back when the user is not populated', () => {
+      expect(getAppointmentUserName(appointmentStartingIn(0, { userId: { _id: 'u1', fullName: 'Ravi' } }))).toBe('Ravi');
+      expect(getAppointmentUserName(appointmentStartingIn(0))).toBe('User');
+    });
+  });
+});
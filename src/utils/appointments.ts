@@ -0,0 +1,115 @@
+/**
+ * Appointment helpers
+ * Timezone-aware formatting and the cancellation / rescheduling / joining rules
+ * shared by the booking, appointment list and reminder UIs
+ */
+
+import { config } from '@/config';
+import type { Appointment } from '@/types/api';
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Timezones offered when an astrologer sets their hours; the browser's own zone
+ * is always included
+ */
+export function getTimeZoneOptions(): string[] {
+  const common = [
+    'Asia/Kolkata',
+    'Asia/Dubai',
+    'Asia/Singapore',
+    'Europe/London',
+    'Europe/Berlin',
+    'America/New_York',
+    'America/Chicago',
+    'America/Los_Angeles',
+    'Australia/Sydney',
+    'UTC',
+  ];
+  const local = getLocalTimeZone();
+  return common.includes(local) ? common : [local, ...common];
+}
+
+/**
+ * e.g. "3:30 PM" in the given timezone
+ */
+export function formatTime(iso: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit', timeZone }).format(new Date(iso));
+}
+
+/**
+ * e.g. "Mon, 14 Oct, 3:30 PM" in the given timezone
+ */
+export function formatDateTime(iso: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  }).format(new Date(iso));
+}
+
+/**
+ * Short zone label, e.g. "IST" or "GMT+5:30"
+ */
+export function getTimeZoneLabel(timeZone: string, at = new Date()): string {
+  const part = new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function minutesUntil(iso: string, now = Date.now()): number {
+  return (new Date(iso).getTime() - now) / 60000;
+}
+
+/**
+ * Cancelling and rescheduling close once the start is nearer than the cutoff
+ */
+export function canChangeAppointment(appointment: Appointment, now = Date.now()): boolean {
+  return (
+    appointment.status === 'scheduled' &&
+    minutesUntil(appointment.startsAt, now) >= config.appointments.changeCutoffHours * 60
+  );
+}
+
+export function canRescheduleAppointment(appointment: Appointment, now = Date.now()): boolean {
+  return (
+    canChangeAppointment(appointment, now) &&
+    (appointment.rescheduleCount ?? 0) < config.appointments.maxReschedules
+  );
+}
+
+/**
+ * The call can be started from shortly before the slot until the late-join limit
+ */
+export function isAppointmentJoinable(appointment: Appointment, now = Date.now()): boolean {
+  const minutes = minutesUntil(appointment.startsAt, now);
+  return (
+    (appointment.status === 'scheduled' || appointment.status === 'in_progress') &&
+    minutes <= config.appointments.joinEarlyMinutes &&
+    minutes >= -config.appointments.lateJoinMinutes
+  );
+}
+
+export function getAppointmentAstrologerName(appointment: Appointment): string {
+  return typeof appointment.astrologerId === 'string'
+    ? 'Astrologer'
+    : appointment.astrologerId.personalDetails?.pseudonym || appointment.astrologerId.personalDetails?.name || 'Astrologer';
+}
+
+export function getAppointmentUserName(appointment: Appointment): string {
+  return typeof appointment.userId === 'string' ? 'User' : appointment.userId.fullName || 'User';
+}
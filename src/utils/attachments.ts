@@ -0,0 +1,55 @@
+/**
+ * Chat attachment helpers
+ * Client-side validation and display formatting for chat file attachments
+ */
+
+import { config } from '@/config';
+import type { MessageAttachment, MessageType, ValidationResult } from '@/types/chat';
+
+/**
+ * Validate a file against the allowed chat types and size limit
+ */
+export function validateAttachment(file: File): ValidationResult {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const typeAllowed = config.chat.allowedFileTypes.includes(file.type);
+  const extensionAllowed = config.chat.allowedFileExtensions.includes(extension);
+
+  // Some browsers report an empty MIME type for .doc/.docx, so the extension is enough there
+  if (!typeAllowed && !(file.type === '' && extensionAllowed)) {
+    return {
+      isValid: false,
+      error: `${file.name}: only ${config.chat.allowedFileExtensions.join(', ').toUpperCase()} files are allowed`,
+    };
+  }
+
+  if (file.size > config.chat.maxFileSize) {
+    return {
+      isValid: false,
+      error: `${file.name} is larger than ${formatFileSize(config.chat.maxFileSize)}`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+export function isImageMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+export function isPdfMimeType(mimeType: string): boolean {
+  return mimeType === 'application/pdf';
+}
+
+/**
+ * Message type for a set of attachments: 'image' only when every attachment is an image
+ */
+export function getMessageTypeForAttachments(attachments: MessageAttachment[] = []): MessageType {
+  if (attachments.length === 0) return 'text';
+  return attachments.every((a) => isImageMimeType(a.mimeType)) ? 'image' : 'file';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
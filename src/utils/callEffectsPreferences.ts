@@ -0,0 +1,78 @@
+/**
+ * Call effects preferences
+ * Background and noise suppression chosen for calls and live streams, remembered per account
+ * on this device
+ */
+
+import { config } from '@/config';
+
+const STORAGE_KEY_PREFIX = 'call_effects_';
+
+export type BackgroundEffect = 'none' | 'blur' | 'image';
+
+export interface CallEffectsPreferences {
+  background: BackgroundEffect;
+  blurDegree: 1 | 2 | 3; // Agora's low, medium, high
+  backgroundImage?: string; // Data URL of the uploaded image
+  noiseSuppression: boolean;
+}
+
+export const DEFAULT_CALL_EFFECTS: CallEffectsPreferences = {
+  background: 'none',
+  blurDegree: 2,
+  noiseSuppression: false,
+};
+
+export function loadCallEffects(userId?: string): CallEffectsPreferences {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${userId || 'guest'}`);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object'
+      ? { ...DEFAULT_CALL_EFFECTS, ...(parsed as Partial<CallEffectsPreferences>) }
+      : DEFAULT_CALL_EFFECTS;
+  } catch {
+    return DEFAULT_CALL_EFFECTS;
+  }
+}
+
+export function saveCallEffects(userId: string | undefined, preferences: CallEffectsPreferences) {
+  try {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${userId || 'guest'}`, JSON.stringify(preferences));
+  } catch (error) {
+    // Storage full, most likely from the image; the effect still applies for this call
+    console.warn('Could not save call effects:', error);
+  }
+}
+
+/**
+ * Shrink an uploaded background to fit in local storage
+ */
+export function readBackgroundImage(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, config.callEffects.backgroundImageMaxWidth / image.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = url;
+  });
+}
+
+export function loadImageElement(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the background image'));
+    image.src = src;
+  });
+}
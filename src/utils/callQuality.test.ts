@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { CallQualitySample } from '@/types/api';
+import { downsampleCallQuality, summarizeCallQuality } from './callQuality';
+
+function sample(at: number, overrides: Partial<CallQualitySample> = {}): CallQualitySample {
+  return {
+    at,
+    rtt: 100,
+    uplinkQuality: 1,
+    downlinkQuality: 1,
+    sendBitrate: 500,
+    receiveBitrate: 400,
+    audioPacketLoss: 0,
+    audioFrozenSeconds: 0,
+    videoFrozenSeconds: 0,
+    ...overrides,
+  };
+}
+
+describe('callQuality', () => {
+  describe('summarizeCallQuality', () => {
+    it('averages and peaks latency, bitrate and packet loss', () => {
+      const summary = summarizeCallQuality(
+        [
+          sample(0, { rtt: 100, audioPacketLoss: 1, videoPacketLoss: 3, sendBitrate: 400 }),
+          sample(5, { rtt: 301, audioPacketLoss: 0, videoPacketLoss: 8, sendBitrate: 601 }),
+        ],
+        5,
+        0
+      );
+
+      expect(summary.avgRtt).toBe(201);
+      expect(summary.maxRtt).toBe(301);
+      expect(summary.avgPacketLoss).toBe(3);
+      expect(summary.maxPacketLoss).toBe(8);
+      expect(summary.avgSendBitrate).toBe(501);
+    });
+
+    it('counts a run of frozen samples as one freeze', () => {
+      const summary = summarizeCallQuality(
+        [
+          sample(0, { videoFrozenSeconds: 1.5 }),
+          sample(5, { videoFrozenSeconds: 2 }),
+          sample(10),
+          sample(15, { videoFrozenSeconds: 0.25, audioFrozenSeconds: 0.5 }),
+        ],
+        5,
+        0
+      );
+
+      expect(summary.videoFreezeCount).toBe(2);
+      expect(summary.videoFreezeSeconds).toBe(3.8);
+      expect(summary.audioFreezeCount).toBe(1);
+      expect(summary.audioFreezeSeconds).toBe(0.5);
+    });
+
+    it('adds up time spent on a poor network in either direction', () => {
+      const summary = summarizeCallQuality(
+        [sample(0, { uplinkQuality: 4 }), sample(5, { downlinkQuality: 6 }), sample(10, { uplinkQuality: 3 })],
+        5,
+        2
+      );
+
+      expect(summary.poorNetworkSeconds).toBe(10);
+      expect(summary.reconnects).toBe(2);
+    });
+
+    it('leaves the frame rate out of audio calls', () => {
+      expect(summarizeCallQuality([sample(0)], 5, 0).avgReceiveFrameRate).toBeUndefined();
+      expect(
+        summarizeCallQuality([sample(0, { receiveFrameRate: 24 }), sample(5, { receiveFrameRate: 15 })], 5, 0)
+          .avgReceiveFrameRate
+      ).toBe(19.5);
+    });
+
+    it('summarizes a call without samples as zeros', () => {
+      const summary = summarizeCallQuality([], 5, 0);
+
+      expect(summary).toMatchObject({ avgRtt: 0, maxRtt: 0, avgPacketLoss: 0, maxPacketLoss: 0, poorNetworkSeconds: 0 });
+    });
+  });
+
+  describe('downsampleCallQuality', () => {
+    it('keeps samples that already fit', () => {
+      const samples = [sample(0), sample(5)];
+
+      expect(downsampleCallQuality(samples, 2)).toEqual({ samples, groupSize: 1 });
+    });
+
+    it('groups consecutive samples to fit the limit', () => {
+      const samples = Array.from({ length: 10 }, (_, i) => sample(i * 5));
+
+      const { samples: downsampled, groupSize } = downsampleCallQuality(samples, 4);
+
+      expect(groupSize).toBe(3);
+      expect(downsampled.map((point) => point.at)).toEqual([0, 15, 30, 45]);
+    });
+
+    it('averages rates, keeps the worst quality and adds up frozen time', () => {
+      const { samples: [point] } = downsampleCallQuality(
+        [
+          sample(0, { rtt: 100, uplinkQuality: 1, downlinkQuality: 5, videoFrozenSeconds: 0.5, receiveFrameRate: 30 }),
+          sample(5, { rtt: 200, uplinkQuality: 4, downlinkQuality: 2, videoFrozenSeconds: 1, receiveFrameRate: 20 }),
+        ],
+        1
+      );
+
+      expect(point).toMatchObject({
+        at: 0,
+        rtt: 150,
+        uplinkQuality: 4,
+        downlinkQuality: 5,
+        videoFrozenSeconds: 1.5,
+        receiveFrameRate: 25,
+      });
+      expect(point.videoPacketLoss).toBeUndefined();
+    });
+  });
+});
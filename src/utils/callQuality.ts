@@ -0,0 +1,90 @@
+/**
+ * Call quality
+ * Summaries of the stats sampled during a call, for the diagnostics report
+ */
+
+import type { CallQualitySample, CallQualitySummary } from '@/types/api';
+
+// Agora's network-quality scale: 4 poor, 5 bad, 6 down
+const POOR_QUALITY = 4;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Separate freezes: a run of samples with frozen time counts once
+ */
+function countFreezes(frozen: number[]): number {
+  return frozen.reduce((count, seconds, i) => (seconds > 0 && !(frozen[i - 1] > 0) ? count + 1 : count), 0);
+}
+
+export function summarizeCallQuality(
+  samples: CallQualitySample[],
+  sampleIntervalSeconds: number,
+  reconnects: number
+): CallQualitySummary {
+  const packetLoss = samples.flatMap((sample) =>
+    sample.videoPacketLoss === undefined ? [sample.audioPacketLoss] : [sample.audioPacketLoss, sample.videoPacketLoss]
+  );
+  const frameRates = samples.flatMap((sample) => (sample.receiveFrameRate === undefined ? [] : [sample.receiveFrameRate]));
+  const audioFrozen = samples.map((sample) => sample.audioFrozenSeconds);
+  const videoFrozen = samples.map((sample) => sample.videoFrozenSeconds);
+
+  return {
+    avgRtt: Math.round(average(samples.map((sample) => sample.rtt))),
+    maxRtt: Math.max(0, ...samples.map((sample) => sample.rtt)),
+    avgPacketLoss: round(average(packetLoss)),
+    maxPacketLoss: round(Math.max(0, ...packetLoss)),
+    avgSendBitrate: Math.round(average(samples.map((sample) => sample.sendBitrate))),
+    avgReceiveBitrate: Math.round(average(samples.map((sample) => sample.receiveBitrate))),
+    avgReceiveFrameRate: frameRates.length ? round(average(frameRates)) : undefined,
+    audioFreezeCount: countFreezes(audioFrozen),
+    audioFreezeSeconds: round(audioFrozen.reduce((sum, seconds) => sum + seconds, 0)),
+    videoFreezeCount: countFreezes(videoFrozen),
+    videoFreezeSeconds: round(videoFrozen.reduce((sum, seconds) => sum + seconds, 0)),
+    poorNetworkSeconds:
+      samples.filter((sample) => Math.max(sample.uplinkQuality, sample.downlinkQuality) >= POOR_QUALITY).length *
+      sampleIntervalSeconds,
+    reconnects,
+  };
+}
+
+/**
+ * Average consecutive samples together so a long call fits in maxSamples points
+ * Quality ratings keep the worst of each group, frozen time is added up, the rest averaged.
+ */
+export function downsampleCallQuality(
+  samples: CallQualitySample[],
+  maxSamples: number
+): { samples: CallQualitySample[]; groupSize: number } {
+  const groupSize = Math.max(1, Math.ceil(samples.length / maxSamples));
+  if (groupSize === 1) return { samples, groupSize };
+
+  const mean = (group: CallQualitySample[], pick: (sample: CallQualitySample) => number | undefined) => {
+    const values = group.map(pick).filter((value): value is number => value !== undefined);
+    return values.length ? round(average(values)) : undefined;
+  };
+
+  const downsampled: CallQualitySample[] = [];
+  for (let i = 0; i < samples.length; i += groupSize) {
+    const group = samples.slice(i, i + groupSize);
+    downsampled.push({
+      at: group[0].at,
+      rtt: mean(group, (sample) => sample.rtt) ?? 0,
+      uplinkQuality: Math.max(...group.map((sample) => sample.uplinkQuality)),
+      downlinkQuality: Math.max(...group.map((sample) => sample.downlinkQuality)),
+      sendBitrate: mean(group, (sample) => sample.sendBitrate) ?? 0,
+      receiveBitrate: mean(group, (sample) => sample.receiveBitrate) ?? 0,
+      audioPacketLoss: mean(group, (sample) => sample.audioPacketLoss) ?? 0,
+      videoPacketLoss: mean(group, (sample) => sample.videoPacketLoss),
+      sendFrameRate: mean(group, (sample) => sample.sendFrameRate),
+      receiveFrameRate: mean(group, (sample) => sample.receiveFrameRate),
+      audioFrozenSeconds: round(group.reduce((sum, sample) => sum + sample.audioFrozenSeconds, 0)),
+      videoFrozenSeconds: round(group.reduce((sum, sample) => sum + sample.videoFrozenSeconds, 0)),
+    });
+  }
+  return { samples: downsampled, groupSize };
+}
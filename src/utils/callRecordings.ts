@@ -0,0 +1,184 @@
+/**
+ * Call Recordings
+ * Consultation recordings kept on this device in IndexedDB, keyed by call id,
+ * so they survive the end of the call and can be downloaded from the call details
+ *
+ * Each signed-in account has its own database, and all of them are deleted on sign-out
+ * so the next account on this browser never sees another's consultations.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME_PREFIX = 'call-recordings';
+const DB_SCHEMA_VERSION = 1;
+const STORE_NAME = 'recordings';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CallRecording {
+  callId: string;
+  blob: Blob;
+  mimeType: string;
+  createdAt: number;
+  duration: number; // Seconds
+}
+
+// ============================================================================
+// IndexedDB Access
+// ============================================================================
+
+let dbName: string | null = null;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * The signed-in account's database; null while signed out
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  const userId = localStorage.getItem('userId');
+  if (typeof indexedDB === 'undefined' || !userId) {
+    return Promise.resolve(null);
+  }
+
+  const name = `${DB_NAME_PREFIX}:${userId}`;
+  if (dbName !== name) {
+    closeDatabase();
+    dbName = name;
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(name, DB_SCHEMA_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'callId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('[CallRecordings] Failed to open IndexedDB:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function closeDatabase() {
+  dbPromise?.then((db) => db?.close());
+  dbPromise = null;
+  dbName = null;
+}
+
+function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onblocked = () => resolve(); // Finishes once other tabs close it
+    request.onerror = () => {
+      console.error('[CallRecordings] Failed to delete database:', request.error);
+      resolve();
+    };
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Keep a finished recording; a later recording of the same call replaces it
+ */
+export async function saveCallRecording(recording: CallRecording): Promise<boolean> {
+  const db = await openDatabase();
+  if (!db) return false;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(recording);
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => {
+      console.error('[CallRecordings] Failed to save recording:', transaction.error);
+      resolve(false);
+    };
+  });
+}
+
+export async function getCallRecording(callId: string): Promise<CallRecording | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(callId);
+    request.onsuccess = () => resolve((request.result as CallRecording | undefined) ?? null);
+    request.onerror = () => {
+      console.error('[CallRecordings] Failed to read recording:', request.error);
+      resolve(null);
+    };
+  });
+}
+
+export async function deleteCallRecording(callId: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(callId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('[CallRecordings] Failed to delete recording:', transaction.error);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Delete every account's recordings from this device, on sign-out
+ */
+export async function clearCallRecordings(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  const names = new Set<string>();
+  if (dbName) names.add(dbName);
+  closeDatabase();
+
+  // indexedDB.databases() is missing in older browsers; the open database is still removed
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases().catch(() => []);
+    databases.forEach(({ name }) => {
+      if (name?.startsWith(`${DB_NAME_PREFIX}:`)) names.add(name);
+    });
+  }
+
+  await Promise.all([...names].map(deleteDatabase));
+}
+
+/**
+ * File name offered when downloading, e.g. consultation-<callId>.webm
+ */
+export function getRecordingFileName(recording: CallRecording): string {
+  const extension = recording.mimeType.includes('mp4') ? 'mp4' : 'webm';
+  return `consultation-${recording.callId}.${extension}`;
+}
+
+/**
+ * Save a recording to the user's downloads folder
+ */
+export function downloadCallRecording(recording: CallRecording) {
+  const url = URL.createObjectURL(recording.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getRecordingFileName(recording);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,189 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '@/config';
+import type { ChatMessage, Conversation } from '@/types/chat';
+import {
+  cacheConversation,
+  cleanupExpiredCache,
+  getCachedConversation,
+  getCachedMessages,
+  initChatCache,
+  mergeCachedMessages,
+} from './chatCache';
+
+const HOUR = 60 * 60 * 1000;
+let userCount = 0;
+
+function conversation(id: string): Conversation {
+  return {
+    _id: id,
+    participantId: 'astro-1',
+    participantName: 'Astrologer',
+    participantRole: 'astrologer',
+    isOnline: false,
+    unreadCount: 0,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+function message(id: string, minute: number, content = `message ${id}`): ChatMessage {
+  return {
+    _id: id,
+    conversationId: 'c1',
+    senderId: 'user-1',
+    senderName: 'User',
+    senderType: 'user',
+    content,
+    type: 'text',
+    status: 'sent',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+    isDeleted: false,
+  };
+}
+
+/**
+ * A fresh, empty cache for each test (switching users drops the previous one)
+ */
+function openFreshCache(): Promise<void> {
+  userCount += 1;
+  return initChatCache(`test-user-${userCount}`);
+}
+
+/**
+ * Write a raw cache value the way an older build would have left it
+ */
+function seedDatabase(userId: string, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(`chat-cache:${userId}`, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore('cache');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction('cache', 'readwrite');
+      transaction.objectStore('cache').put(value, 'state');
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    };
+  });
+}
+
+describe('chatCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('mergeCachedMessages', () => {
+    it('merges a server page into the cached messages without duplicates, in time order', async () => {
+      await openFreshCache();
+      cacheConversation('c1', conversation('c1'), [message('m2', 2, 'old copy'), message('m4', 4)]);
+
+      const merged = mergeCachedMessages('c1', [message('m3', 3), message('m2', 2, 'server copy')]);
+
+      expect(merged.map((m) => m._id)).toEqual(['m2', 'm3', 'm4']);
+      expect(merged[0].content).toBe('server copy');
+      expect(getCachedMessages('c1')?.map((m) => m._id)).toEqual(['m2', 'm3', 'm4']);
+    });
+
+    it('leaves cached messages older than the page to history paging', async () => {
+      await openFreshCache();
+      cacheConversation('c1', conversation('c1'), [message('m1', 1), message('m2', 2)]);
+
+      const merged = mergeCachedMessages('c1', [message('m3', 3), message('m4', 4)]);
+
+      expect(merged.map((m) => m._id)).toEqual(['m3', 'm4']);
+      expect(getCachedMessages('c1')?.map((m) => m._id)).toEqual(['m1', 'm2', 'm3', 'm4']);
+    });
+
+    it('keeps only the backend message shape', async () => {
+      await openFreshCache();
+      cacheConversation('c1', conversation('c1'));
+
+      const optimistic = { ...message('m1', 1), isOptimistic: true, tempId: 'temp-1', retryCount: 2 };
+      mergeCachedMessages('c1', [optimistic]);
+
+      const [cached] = getCachedMessages('c1') ?? [];
+      expect(cached).not.toHaveProperty('isOptimistic');
+      expect(cached).not.toHaveProperty('tempId');
+      expect(cached).not.toHaveProperty('retryCount');
+    });
+
+    it('returns the merged page for a conversation that is not cached', async () => {
+      await openFreshCache();
+
+      const merged = mergeCachedMessages('unknown', [message('m2', 2), message('m1', 1)]);
+
+      expect(merged.map((m) => m._id)).toEqual(['m1', 'm2']);
+      expect(getCachedMessages('unknown')).toBeNull();
+    });
+  });
+
+  describe('expiry', () => {
+    it('expires message lists before conversation metadata', async () => {
+      await openFreshCache();
+      cacheConversation('c1', conversation('c1'), [message('m1', 1)]);
+
+      vi.setSystemTime(Date.now() + config.chat.cacheTTL.messages + 1);
+      expect(getCachedMessages('c1')).toBeNull();
+      expect(getCachedConversation('c1')?._id).toBe('c1');
+
+      vi.setSystemTime(Date.now() + config.chat.cacheTTL.conversations);
+      expect(getCachedConversation('c1')).toBeNull();
+    });
+
+    it('drops expired entries on cleanup', async () => {
+      await openFreshCache();
+      cacheConversation('c1', conversation('c1'), [message('m1', 1)]);
+
+      vi.setSystemTime(Date.now() + config.chat.cacheTTL.conversations + 1);
+      cleanupExpiredCache();
+      // Back within the TTL: only a removed entry still reads as missing
+      vi.setSystemTime(Date.now() - config.chat.cacheTTL.conversations - 1);
+
+      expect(getCachedConversation('c1')).toBeNull();
+    });
+  });
+
+  describe('migration', () => {
+    it('upgrades a v1 cache, timing message expiry from the conversation fetch time', async () => {
+      const now = Date.now();
+      await seedDatabase('legacy-v1', {
+        version: 1,
+        lastUpdated: now,
+        conversations: {
+          fresh: { data: conversation('fresh'), messages: [message('m1', 1)], lastFetched: now - 5 * 60 * 1000 },
+          stale: { data: conversation('stale'), messages: [message('m2', 2)], lastFetched: now - 2 * HOUR },
+        },
+        pendingMessages: [],
+      });
+
+      await initChatCache('legacy-v1');
+
+      expect(getCachedMessages('fresh')?.map((m) => m._id)).toEqual(['m1']);
+      expect(getCachedConversation('stale')?._id).toBe('stale');
+      expect(getCachedMessages('stale')).toBeNull();
+    });
+
+    it('discards a cache written by a newer version', async () => {
+      await seedDatabase('future', {
+        version: 99,
+        lastUpdated: Date.now(),
+        conversations: { c1: { data: conversation('c1'), messages: [], lastFetched: Date.now() } },
+        pendingMessages: [],
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await initChatCache('future');
+
+      expect(getCachedConversation('c1')).toBeNull();
+    });
+  });
+});
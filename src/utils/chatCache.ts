@@ -1,18 +1,498 @@
-import type { ChatMessage, Conversation } from '@/types/chat';
-
-export function cacheConversation(id: string, conv: Conversation, messages: ChatMessage[] = []): void {}
-export function getCachedConversation(id: string): Conversation | null { return null; }
-export function cacheMessages(id: string, messages: ChatMessage[]): void {}
-export function getCachedMessages(id: string): ChatMessage[] | null { return null; }
-export function addPendingMessage(tempId: string, convId: string, content: string, attachments?: File[]): void {}
-export function getPendingMessages(): any[] { return []; }
-export function removePendingMessage(tempId: string): void {}
-export function incrementPendingMessageRetry(tempId: string): void {}
-export function clearPendingMessages(): void {}
-export function clearCache(): void {}
-export function cleanupExpiredCache(): void {}
-export function getAllCachedConversations(): Conversation[] { return []; }
-export function updateCachedConversation(id: string, updates: Partial<Conversation>): void {}
-export function addMessageToCache(id: string, message: ChatMessage): void {}
-export function updateCachedMessage(id: string, msgId: string, updates: Partial<ChatMessage>): void { }
-export function mergeCachedMessages(id: string, fresh: ChatMessage[]): ChatMessage[] { return fresh; }
+/**
+ * Chat Cache
+ * Persistent offline cache for conversations, recent messages and pending messages
+ *
+ * Data lives in IndexedDB (one database per signed-in user) and is mirrored in memory
+ * so reads stay synchronous. Call initChatCache() once after login to hydrate the
+ * mirror; every write updates memory immediately and is flushed to IndexedDB shortly after.
+ */
+
+import { config } from '@/config';
+import {
+  CACHE_VERSION,
+  type CachedConversation,
+  type ChatCache,
+  type ChatMessage,
+  type Conversation,
+  type MessageAttachment,
+  type MessageSearchHit,
+  type MessageReplyPreview,
+  type PendingMessage,
+} from '@/types/chat';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME_PREFIX = 'chat-cache';
+const DB_SCHEMA_VERSION = 1;
+const STORE_NAME = 'cache';
+const CACHE_KEY = 'state';
+
+/** Delay before in-memory changes are written to IndexedDB */
+const PERSIST_DEBOUNCE_MS = 250;
+
+/** Newest messages kept per conversation */
+const MAX_CACHED_MESSAGES = config.chat.messageLoadLimit * 2;
+
+// ============================================================================
+// State
+// ============================================================================
+
+let cache: ChatCache = createEmptyCache();
+let dbName: string | null = null;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let hydration: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function createEmptyCache(): ChatCache {
+  return {
+    version: CACHE_VERSION,
+    lastUpdated: Date.now(),
+    conversations: {},
+    pendingMessages: [],
+  };
+}
+
+// ============================================================================
+// Schema Migrations
+// ============================================================================
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each step must return a cache at version + 1.
+ */
+const MIGRATIONS: Record<number, (stored: ChatCache) => ChatCache> = {
+  // v1 -> v2: messages expire independently of the conversation metadata
+  1: (stored) => ({
+    ...stored,
+    version: 2,
+    conversations: Object.fromEntries(
+      Object.entries(stored.conversations || {}).map(([id, entry]) => [
+        id,
+        { ...entry, messagesLastFetched: entry.lastFetched },
+      ])
+    ),
+  }),
+};
+
+/**
+ * Bring a stored cache up to CACHE_VERSION
+ * Unknown or newer versions are discarded rather than guessed at
+ */
+function migrateCache(stored: ChatCache): ChatCache {
+  let current = stored;
+
+  while (current.version < CACHE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      console.warn('[ChatCache] No migration from version', current.version, '- discarding cache');
+      return createEmptyCache();
+    }
+    current = migrate(current);
+  }
+
+  if (current.version !== CACHE_VERSION) {
+    console.warn('[ChatCache] Unsupported cache version', current.version, '- discarding cache');
+    return createEmptyCache();
+  }
+
+  return {
+    ...current,
+    conversations: current.conversations || {},
+    pendingMessages: current.pendingMessages || [],
+  };
+}
+
+// ============================================================================
+// IndexedDB Access
+// ============================================================================
+
+function openDatabase(name: string): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(name, DB_SCHEMA_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+
+    // The cache is an optimisation - fall back to memory-only mode
+    request.onerror = () => {
+      console.error('[ChatCache] Failed to open IndexedDB:', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function readStoredCache(db: IDBDatabase): Promise<ChatCache | null> {
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(CACHE_KEY);
+    request.onsuccess = () => resolve((request.result as ChatCache | undefined) ?? null);
+    request.onerror = () => {
+      console.error('[ChatCache] Failed to read cache:', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function writeStoredCache(db: IDBDatabase, value: ChatCache): Promise<void> {
+  return new Promise((resolve) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(value, CACHE_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('[ChatCache] Failed to write cache:', transaction.error);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Write the in-memory cache to IndexedDB
+ */
+async function persistNow(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+
+  const db = await dbPromise;
+  if (!db) return;
+
+  await writeStoredCache(db, cache);
+}
+
+/**
+ * Record a change and schedule a background flush
+ */
+function touch() {
+  cache.lastUpdated = Date.now();
+
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    persistNow();
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/**
+ * Open the cache for a user and hydrate the in-memory mirror
+ * Safe to call repeatedly; switching users closes the previous database
+ */
+export function initChatCache(userId: string): Promise<void> {
+  const name = `${DB_NAME_PREFIX}:${userId}`;
+  if (dbName === name && hydration) {
+    return hydration;
+  }
+
+  if (dbPromise) {
+    const previous = dbPromise;
+    previous.then((db) => db?.close());
+    cache = createEmptyCache();
+  }
+
+  dbName = name;
+  dbPromise = openDatabase(name);
+  hydration = (async () => {
+    const db = await dbPromise;
+    const stored = db ? await readStoredCache(db) : null;
+
+    if (stored) {
+      const migrated = migrateCache(stored);
+      // Keep anything written while the database was opening
+      const pendingIds = new Set(cache.pendingMessages.map((m) => m.tempId));
+      cache = {
+        ...migrated,
+        conversations: { ...migrated.conversations, ...cache.conversations },
+        pendingMessages: [
+          ...migrated.pendingMessages.filter((m) => !pendingIds.has(m.tempId)),
+          ...cache.pendingMessages,
+        ],
+      };
+    }
+
+    cleanupExpiredCache();
+    await persistNow();
+  })();
+
+  return hydration;
+}
+
+/**
+ * Wipe all cached data for the current user
+ */
+export function clearCache(): void {
+  cache = createEmptyCache();
+  persistNow();
+}
+
+// ============================================================================
+// Expiry
+// ============================================================================
+
+function isConversationExpired(entry: CachedConversation, now = Date.now()): boolean {
+  return now - entry.lastFetched > config.chat.cacheTTL.conversations;
+}
+
+function areMessagesExpired(entry: CachedConversation, now = Date.now()): boolean {
+  return now - entry.messagesLastFetched > config.chat.cacheTTL.messages;
+}
+
+/**
+ * Drop expired conversations and message lists
+ * Pending messages never expire - they are removed once sent
+ */
+export function cleanupExpiredCache(): void {
+  const now = Date.now();
+  let changed = false;
+
+  Object.entries(cache.conversations).forEach(([id, entry]) => {
+    if (isConversationExpired(entry, now)) {
+      delete cache.conversations[id];
+      changed = true;
+    } else if (entry.messages.length > 0 && areMessagesExpired(entry, now)) {
+      cache.conversations[id] = { ...entry, messages: [] };
+      changed = true;
+    }
+  });
+
+  if (changed) touch();
+}
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+export function cacheConversation(id: string, conv: Conversation, messages: ChatMessage[] = []): void {
+  const existing = cache.conversations[id];
+  const now = Date.now();
+
+  cache.conversations[id] = {
+    data: conv,
+    messages: messages.length > 0 ? sortAndTrim(messages) : existing?.messages || [],
+    lastFetched: now,
+    messagesLastFetched: messages.length > 0 ? now : existing?.messagesLastFetched ?? now,
+  };
+  touch();
+}
+
+export function getCachedConversation(id: string): Conversation | null {
+  const entry = cache.conversations[id];
+  if (!entry || isConversationExpired(entry)) return null;
+  return entry.data;
+}
+
+export function getAllCachedConversations(): Conversation[] {
+  const now = Date.now();
+  return Object.values(cache.conversations)
+    .filter((entry) => !isConversationExpired(entry, now))
+    .map((entry) => entry.data)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+export function updateCachedConversation(id: string, updates: Partial<Conversation>): void {
+  const entry = cache.conversations[id];
+  if (!entry) return;
+
+  cache.conversations[id] = { ...entry, data: { ...entry.data, ...updates } };
+  touch();
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+function sortAndTrim(messages: ChatMessage[]): ChatMessage[] {
+  const sorted = [...messages].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  return sorted.slice(-MAX_CACHED_MESSAGES);
+}
+
+/**
+ * Strip UI-only fields so the cache only ever holds the backend message shape
+ */
+function toCachedMessage(message: ChatMessage): ChatMessage {
+  const {
+    isOptimistic: _isOptimistic,
+    tempId: _tempId,
+    retryCount: _retryCount,
+    ...rest
+  } = message as ChatMessage & { isOptimistic?: boolean; tempId?: string; retryCount?: number };
+  return rest;
+}
+
+export function cacheMessages(id: string, messages: ChatMessage[]): void {
+  const entry = cache.conversations[id];
+  if (!entry) return;
+
+  cache.conversations[id] = {
+    ...entry,
+    messages: sortAndTrim(messages.map(toCachedMessage)),
+    messagesLastFetched: Date.now(),
+  };
+  touch();
+}
+
+export function getCachedMessages(id: string): ChatMessage[] | null {
+  const entry = cache.conversations[id];
+  if (!entry || isConversationExpired(entry) || areMessagesExpired(entry)) return null;
+  return entry.messages.length > 0 ? entry.messages : null;
+}
+
+/**
+ * Search cached message contents, newest first
+ * Used as the offline fallback for chat search; stale message lists are still searched
+ */
+export function searchCachedMessages(query: string, limit = 50): MessageSearchHit[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const now = Date.now();
+  const hits: MessageSearchHit[] = [];
+  Object.entries(cache.conversations).forEach(([id, entry]) => {
+    if (isConversationExpired(entry, now)) return;
+    entry.messages.forEach((message) => {
+      if (!message.isDeleted && message.content.toLowerCase().includes(needle)) {
+        hits.push({ conversationId: id, message });
+      }
+    });
+  });
+
+  return hits
+    .sort((a, b) => new Date(b.message.timestamp).getTime() - new Date(a.message.timestamp).getTime())
+    .slice(0, limit);
+}
+
+export function addMessageToCache(id: string, message: ChatMessage): void {
+  const entry = cache.conversations[id];
+  if (!entry) return;
+
+  const cached = toCachedMessage(message);
+  const messages = entry.messages.filter((m) => m._id !== cached._id);
+  messages.push(cached);
+
+  const sorted = sortAndTrim(messages);
+  const last = sorted[sorted.length - 1];
+
+  cache.conversations[id] = {
+    ...entry,
+    messages: sorted,
+    data: {
+      ...entry.data,
+      lastMessage: {
+        content: last.content,
+        timestamp: last.timestamp,
+        senderId: last.senderId,
+        senderType: last.senderType,
+      },
+      updatedAt: new Date(),
+    },
+  };
+  touch();
+}
+
+export function updateCachedMessage(id: string, msgId: string, updates: Partial<ChatMessage>): void {
+  const entry = cache.conversations[id];
+  if (!entry) return;
+
+  const index = entry.messages.findIndex((m) => m._id === msgId);
+  if (index === -1) return;
+
+  const messages = [...entry.messages];
+  messages[index] = { ...messages[index], ...updates };
+  cache.conversations[id] = { ...entry, messages };
+  touch();
+}
+
+/**
+ * Merge the newest page of server messages into the cache without duplicates
+ * Server copies win over cached copies with the same _id
+ * Returns the merged list from the page's oldest message on, chronologically sorted;
+ * older cached messages stay in the cache but are left for history paging to load
+ */
+export function mergeCachedMessages(id: string, fresh: ChatMessage[]): ChatMessage[] {
+  const entry = cache.conversations[id];
+  const byId = new Map<string, ChatMessage>();
+
+  entry?.messages.forEach((m) => byId.set(m._id, m));
+  fresh.forEach((m) => byId.set(m._id, toCachedMessage(m)));
+
+  const merged = [...byId.values()].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  if (entry) {
+    cache.conversations[id] = {
+      ...entry,
+      messages: merged.slice(-MAX_CACHED_MESSAGES),
+      messagesLastFetched: Date.now(),
+    };
+    touch();
+  }
+
+  if (fresh.length === 0) return merged;
+  const oldest = Math.min(...fresh.map((m) => new Date(m.timestamp).getTime()));
+  return merged.filter((m) => new Date(m.timestamp).getTime() >= oldest);
+}
+
+// ============================================================================
+// Pending Messages
+// ============================================================================
+
+export function addPendingMessage(
+  tempId: string,
+  convId: string,
+  content: string,
+  attachments?: MessageAttachment[],
+  replyTo?: MessageReplyPreview
+): void {
+  if (cache.pendingMessages.some((m) => m.tempId === tempId)) return;
+
+  cache.pendingMessages.push({
+    tempId,
+    conversationId: convId,
+    content,
+    attachments,
+    replyTo,
+    timestamp: Date.now(),
+    retryCount: 0,
+  });
+  touch();
+}
+
+export function getPendingMessages(): PendingMessage[] {
+  return [...cache.pendingMessages].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function removePendingMessage(tempId: string): void {
+  const before = cache.pendingMessages.length;
+  cache.pendingMessages = cache.pendingMessages.filter((m) => m.tempId !== tempId);
+  if (cache.pendingMessages.length !== before) touch();
+}
+
+export function incrementPendingMessageRetry(tempId: string): void {
+  const pending = cache.pendingMessages.find((m) => m.tempId === tempId);
+  if (!pending) return;
+
+  pending.retryCount += 1;
+  touch();
+}
+
+export function clearPendingMessages(): void {
+  cache.pendingMessages = [];
+  touch();
+}
@@ -0,0 +1,36 @@
+/**
+ * Call device preferences
+ * Camera, microphone and speaker chosen in the call lobby, remembered across calls
+ */
+
+const STORAGE_KEY = 'call_device_preferences';
+
+export interface CallDevicePreferences {
+  cameraId?: string;
+  microphoneId?: string;
+  speakerId?: string;
+}
+
+export function loadDevicePreferences(): CallDevicePreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? (parsed as CallDevicePreferences) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDevicePreferences(preferences: CallDevicePreferences) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+}
+
+/**
+ * Keep a remembered device only while it is still plugged in; otherwise fall back to the first one
+ */
+export function pickDevice(devices: MediaDeviceInfo[], preferredId?: string): string | undefined {
+  if (preferredId && devices.some((device) => device.deviceId === preferredId)) {
+    return preferredId;
+  }
+  return devices[0]?.deviceId;
+}
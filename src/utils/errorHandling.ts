@@ -5,6 +5,7 @@
  */
 
 import { toast } from 'sonner';
+import { ApiError } from '@/services/httpClient';
 
 /**
  * Error types for categorization
@@ -45,6 +46,11 @@ export interface ErrorDetails {
  * Requirements: 14.3
  */
 export function parseError(error: unknown): ErrorDetails {
+  // Handle errors from the shared HTTP client
+  if (error instanceof ApiError) {
+    return parseApiError(error);
+  }
+
   // Handle axios/fetch errors
   if (error && typeof error === 'object' && 'response' in error) {
     const axiosError = error as any;
@@ -169,6 +175,110 @@ export function parseError(error: unknown): ErrorDetails {
   };
 }
 
+/**
+ * Classify a structured HTTP client error by failure code and status
+ */
+function parseApiError(error: ApiError): ErrorDetails {
+  if (error.code === 'timeout') {
+    return {
+      type: ErrorType.NETWORK,
+      severity: ErrorSeverity.ERROR,
+      message: 'The server took too long to respond. Please try again.',
+      originalError: error,
+      isRecoverable: true,
+    };
+  }
+
+  if (error.code === 'network') {
+    return {
+      type: ErrorType.NETWORK,
+      severity: ErrorSeverity.ERROR,
+      message: 'Network error. Please check your connection and try again.',
+      originalError: error,
+      isRecoverable: true,
+    };
+  }
+
+  if (error.code === 'aborted') {
+    return {
+      type: ErrorType.UNKNOWN,
+      severity: ErrorSeverity.INFO,
+      message: error.message,
+      originalError: error,
+      isRecoverable: false,
+    };
+  }
+
+  if (error.status === 401) {
+    return {
+      type: ErrorType.AUTHENTICATION,
+      severity: ErrorSeverity.CRITICAL,
+      message: 'Your session has expired. Please log in again.',
+      originalError: error,
+      isRecoverable: false,
+    };
+  }
+
+  if (error.status === 403) {
+    return {
+      type: ErrorType.AUTHENTICATION,
+      severity: ErrorSeverity.ERROR,
+      message: error.message || 'You do not have permission to do that.',
+      originalError: error,
+      isRecoverable: false,
+    };
+  }
+
+  if (error.status === 400 || error.status === 422) {
+    return {
+      type: ErrorType.VALIDATION,
+      severity: ErrorSeverity.WARNING,
+      message: error.message,
+      originalError: error,
+      isRecoverable: false,
+    };
+  }
+
+  if (error.status === 404) {
+    return {
+      type: ErrorType.API,
+      severity: ErrorSeverity.WARNING,
+      message: 'The requested resource was not found.',
+      originalError: error,
+      isRecoverable: false,
+    };
+  }
+
+  if (error.status === 429) {
+    return {
+      type: ErrorType.API,
+      severity: ErrorSeverity.WARNING,
+      message: 'Too many requests. Please wait a moment and try again.',
+      originalError: error,
+      isRecoverable: true,
+    };
+  }
+
+  if (error.status >= 500) {
+    return {
+      type: ErrorType.API,
+      severity: ErrorSeverity.ERROR,
+      message: 'Server error. Please try again later.',
+      originalError: error,
+      isRecoverable: true,
+    };
+  }
+
+  return {
+    type: ErrorType.API,
+    severity: ErrorSeverity.ERROR,
+    message: error.message || 'An error occurred. Please try again.',
+    originalError: error,
+    isRecoverable: true,
+    context: { endpoint: error.endpoint, status: error.status },
+  };
+}
+
 /**
  * Show error toast notification
  * Requirements: 14.1, 14.3, 14.5
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { decodeToken, getTokenExpiry, getTokenUserId } from './jwt';
+
+function base64Url(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function makeToken(payload: object): string {
+  return `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(payload))}.signature`;
+}
+
+describe('jwt', () => {
+  describe('decodeToken', () => {
+    it('reads the payload claims', () => {
+      expect(decodeToken(makeToken({ id: 'u1', exp: 1700000000 }))).toEqual({ id: 'u1', exp: 1700000000 });
+    });
+
+    it('handles base64url characters and missing padding', () => {
+      // '~~~' and '???' encode to '-' and '_' in base64url
+      const payload = { name: '~~~???', n: 1 };
+      expect(decodeToken(makeToken(payload))).toEqual(payload);
+    });
+
+    it('returns null for malformed tokens', () => {
+      expect(decodeToken('')).toBeNull();
+      expect(decodeToken('not-a-jwt')).toBeNull();
+      expect(decodeToken('a.!!!.c')).toBeNull();
+      expect(decodeToken(`a.${base64Url('"just a string"')}.c`)).toBeNull();
+    });
+  });
+
+  describe('getTokenUserId', () => {
+    it('accepts each user id claim name', () => {
+      expect(getTokenUserId(makeToken({ id: 'a' }))).toBe('a');
+      expect(getTokenUserId(makeToken({ userId: 'b' }))).toBe('b');
+      expect(getTokenUserId(makeToken({ _id: 'c' }))).toBe('c');
+      expect(getTokenUserId(makeToken({ sub: 'd' }))).toBe('d');
+    });
+
+    it('returns null when there is no user id', () => {
+      expect(getTokenUserId(makeToken({ exp: 1 }))).toBeNull();
+      expect(getTokenUserId('broken')).toBeNull();
+    });
+  });
+
+  describe('getTokenExpiry', () => {
+    it('converts exp seconds to milliseconds', () => {
+      expect(getTokenExpiry(makeToken({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+    });
+
+    it('returns null without a numeric exp claim', () => {
+      expect(getTokenExpiry(makeToken({ id: 'u1' }))).toBeNull();
+      expect(getTokenExpiry(makeToken({ exp: '1700000000' }))).toBeNull();
+    });
+  });
+});
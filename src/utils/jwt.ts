@@ -0,0 +1,47 @@
+/**
+ * JWT helpers
+ * Reads claims client-side only; signatures are verified by the server
+ */
+
+export interface JwtPayload {
+  id?: string;
+  userId?: string;
+  _id?: string;
+  sub?: string;
+  exp?: number; // Seconds since epoch
+  iat?: number;
+}
+
+/**
+ * Decode the payload segment of a JWT
+ * Returns null for malformed tokens
+ */
+export function decodeToken(token: string): JwtPayload | null {
+  const segment = token.split('.')[1];
+  if (!segment) return null;
+
+  try {
+    // base64url -> base64
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+    const payload: unknown = JSON.parse(atob(base64));
+    return payload && typeof payload === 'object' ? (payload as JwtPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * User id claim, whichever name the issuing backend used
+ */
+export function getTokenUserId(token: string): string | null {
+  const payload = decodeToken(token);
+  return payload?.id || payload?.userId || payload?._id || payload?.sub || null;
+}
+
+/**
+ * Expiry as a millisecond timestamp, or null when the token has no exp claim
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
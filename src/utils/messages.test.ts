@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { UIMessage } from '@/types/chat';
+import { getHistoryCursor, prependMessages } from './messages';
+
+function message(id: string, minute: number, overrides: Partial<UIMessage> = {}): UIMessage {
+  return {
+    _id: id,
+    conversationId: 'c1',
+    senderId: 'user-1',
+    senderName: 'User',
+    senderType: 'user',
+    content: `message ${id}`,
+    type: 'text',
+    status: 'sent',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+    isDeleted: false,
+    isOptimistic: false,
+    retryCount: 0,
+    ...overrides,
+  };
+}
+
+describe('messages', () => {
+  describe('prependMessages', () => {
+    it('puts an older page in front, in time order', () => {
+      const merged = prependMessages([message('m2', 2), message('m1', 1)], [message('m3', 3)]);
+
+      expect(merged.map((m) => m._id)).toEqual(['m1', 'm2', 'm3']);
+    });
+
+    it('adds nothing twice when the page overlaps what is loaded', () => {
+      const loaded = [message('m2', 2, { content: 'edited' }), message('m3', 3)];
+
+      const merged = prependMessages([message('m1', 1), message('m2', 2), message('m3', 3)], loaded);
+
+      expect(merged.map((m) => m._id)).toEqual(['m1', 'm2', 'm3']);
+      expect(merged[1].content).toBe('edited');
+    });
+
+    it('recognises a sent message by its tempId before the real id is known', () => {
+      const optimistic = message('temp-1', 5, { tempId: 'temp-1', isOptimistic: true });
+
+      const merged = prependMessages([message('m5', 5, { tempId: 'temp-1' })], [optimistic]);
+
+      expect(merged).toEqual([optimistic]);
+    });
+  });
+
+  describe('getHistoryCursor', () => {
+    it('pages back from the oldest message the server knows', () => {
+      const pending = message('temp-1', 0, { tempId: 'temp-1', isOptimistic: true });
+
+      expect(getHistoryCursor([pending, message('m1', 1), message('m2', 2)])).toBe('m1');
+    });
+
+    it('has no cursor before anything was loaded from the server', () => {
+      expect(getHistoryCursor([message('temp-1', 0, { isOptimistic: true })])).toBeUndefined();
+      expect(getHistoryCursor([])).toBeUndefined();
+    });
+
+    it('continues below a context page, so a scroll load after a jump adds only older messages', () => {
+      // A jump paged m3-m4 in front of the newest page m5-m6
+      const loaded = prependMessages([message('m3', 3), message('m4', 4)], [message('m5', 5), message('m6', 6)]);
+
+      const before = getHistoryCursor(loaded);
+      const merged = prependMessages([message('m1', 1), message('m2', 2)], loaded);
+
+      expect(before).toBe('m3');
+      expect(merged.map((m) => m._id)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Chat message helpers
+ */
+
+import type { ChatMessage, MessageReplyPreview, UIMessage } from '@/types/chat';
+import type { LiveChatMessage, LiveChatMessageEvent } from '@/types/socket';
+
+/**
+ * Snapshot of a message for quoting in a reply
+ */
+export function toReplyPreview(message: ChatMessage): MessageReplyPreview {
+  return {
+    messageId: message._id,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    content: message.content,
+    type: message.type,
+    isDeleted: message.isDeleted || undefined,
+  };
+}
+
+/**
+ * Put a page of older messages in front of the loaded ones
+ * Messages already loaded (by _id or tempId) are kept as they are, so overlapping pages add nothing twice
+ */
+export function prependMessages(older: UIMessage[], loaded: UIMessage[]): UIMessage[] {
+  const known = new Set<string>();
+  loaded.forEach((m) => {
+    known.add(m._id);
+    if (m.tempId) known.add(m.tempId);
+  });
+
+  const added = older.filter((m) => !known.has(m._id) && !(m.tempId && known.has(m.tempId)));
+  return [...added, ...loaded].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Id of the oldest loaded message the server knows, to page further back from with the 'before' cursor
+ * Optimistic messages are skipped as their ids only exist locally
+ */
+export function getHistoryCursor(messages: Array<ChatMessage & { isOptimistic?: boolean }>): string | undefined {
+  return messages.find((m) => !m.isOptimistic)?._id;
+}
+
+/**
+ * Live stream and live course chat payloads arrive either bare or wrapped in { message }
+ */
+export function unwrapLiveChatMessage(event: LiveChatMessageEvent | null | undefined): LiveChatMessage | null {
+  if (!event) return null;
+  const inner = event.message;
+  if (inner && typeof inner === 'object') return inner;
+  return event as LiveChatMessage;
+}
@@ -0,0 +1,64 @@
+/**
+ * Missed calls
+ * Incoming calls that timed out before the astrologer answered, kept on this device
+ * so they are still there after coming back to the tab
+ * Each astrologer has their own log; all of them are cleared on sign-out.
+ */
+
+import { config } from '@/config';
+
+const STORAGE_KEY_PREFIX = 'missed-calls:';
+
+export interface MissedCall {
+  callId: string;
+  userId: string;
+  userName: string;
+  userPhoto?: string;
+  callType: 'audio' | 'video';
+  missedAt: string;
+}
+
+export function loadMissedCalls(userId: string): MissedCall[] {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${userId}`);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return Array.isArray(parsed) ? (parsed as MissedCall[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveMissedCalls(userId: string, calls: MissedCall[]) {
+  localStorage.setItem(`${STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(calls));
+}
+
+/**
+ * Newest first; returns the updated log
+ */
+export function addMissedCall(userId: string, call: MissedCall): MissedCall[] {
+  const calls = [call, ...loadMissedCalls(userId).filter((existing) => existing.callId !== call.callId)].slice(
+    0,
+    config.call.missedCallLogSize
+  );
+  saveMissedCalls(userId, calls);
+  return calls;
+}
+
+export function removeMissedCall(userId: string, callId: string): MissedCall[] {
+  const calls = loadMissedCalls(userId).filter((call) => call.callId !== callId);
+  saveMissedCalls(userId, calls);
+  return calls;
+}
+
+export function clearMissedCalls(userId: string) {
+  localStorage.removeItem(`${STORAGE_KEY_PREFIX}${userId}`);
+}
+
+/**
+ * Remove every astrologer's log from this device
+ */
+export function clearAllMissedCalls() {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(STORAGE_KEY_PREFIX))
+    .forEach((key) => localStorage.removeItem(key));
+}
@@ -1,8 +1,37 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Noise suppression models (agora-extension-ai-denoiser), served from our own origin
+const DENOISER_ASSETS_DIR = path.resolve(__dirname, "./node_modules/agora-extension-ai-denoiser/external");
+const DENOISER_ASSETS_URL = "/agora-denoiser/";
+
+function denoiserAssets(): Plugin {
+  return {
+    name: "agora-denoiser-assets",
+    configureServer(server) {
+      server.middlewares.use(DENOISER_ASSETS_URL, (req, res, next) => {
+        const file = path.join(DENOISER_ASSETS_DIR, path.basename(req.url?.split("?")[0] || ""));
+        if (!file.endsWith(".wasm") || !fs.existsSync(file)) return next();
+        res.setHeader("Content-Type", "application/wasm");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      fs.readdirSync(DENOISER_ASSETS_DIR).forEach((name) => {
+        this.emitFile({
+          type: "asset",
+          fileName: `${DENOISER_ASSETS_URL.slice(1)}${name}`,
+          source: fs.readFileSync(path.join(DENOISER_ASSETS_DIR, name)),
+        });
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -12,10 +41,13 @@ export default defineConfig(({ mode }) => ({
       overlay: false,
     },
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), denoiserAssets(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+  },
 }));